@@ -3,27 +3,127 @@ import React, { useState, useCallback, useRef, useEffect } from 'react';
 import Experience from './components/Experience';
 import GestureController from './components/GestureController';
 import DeveloperPanel from './components/DeveloperPanel';
-import { TreeColors, HandGesture } from './types';
-import { SCENE_DEFAULTS, DEFAULT_IMAGES } from './utils/defaults';
+import SharePanel from './components/SharePanel';
+import RecorderPanel from './components/RecorderPanel';
+import ThemePanel from './components/ThemePanel';
+import ModelPanel from './components/ModelPanel';
+import FormationPanel from './components/FormationPanel';
+import AudioPanel from './components/AudioPanel';
+import GiftCard from './components/GiftCard';
+import CountdownOverlay from './components/CountdownOverlay';
+import CountdownPanel from './components/CountdownPanel';
+import SyncPanel from './components/SyncPanel';
+import LanguagePanel from './components/LanguagePanel';
+import CardPanel from './components/CardPanel';
+import { ThemeId, FormationId, GestureType, HandGesture, ClipRequest, ClipScript, ClipFailure, CardRequest, SceneInput, Photo, Gift, OrnamentModel, ModelSettings, QualityTierId } from './types';
+import { SCENE_DEFAULTS, DEFAULT_IMAGES, MAX_CAPTION_LENGTH, BALL_MODEL, DEFAULT_MODEL_SETTINGS, MAX_IMPORTED_MODELS, GIFT_BOX_COUNT, getDefaultCaption, isDefaultCaption } from './utils/defaults';
+import { SharedScene, decodeScene, buildShareUrl } from './utils/shareLink';
+import { THEMES, DEFAULT_THEME_ID, isThemeId } from './utils/themes';
+import { QUALITY_TIERS, getInitialQualityTier } from './utils/quality';
+import { DEFAULT_FORMATION, getFormationLabel, getNextFormation, registerFormation, unregisterFormation, isFormationId } from './utils/formations';
+import { Locale, LOCALES, getLocale, setLocale, t } from './utils/i18n';
+import { prefersReducedMotion, watchReducedMotion, isFormField, isActivatable } from './utils/accessibility';
+import { SyncSession, SyncEvents, SyncKey, SyncValue, SyncStatus, SyncTransportKind, createSyncSession, createPairingCode, buildRemoteUrl, captionKey, parseCaptionKey, decodePhoto, MAX_SYNC_PHOTOS } from './utils/sync';
+import { CardContent, CardTemplateId, CardSizeId, CARD_TEMPLATES, CARD_SIZES, getPictureRect, composeCard, exportCard } from './utils/cardComposer';
+import { ParticleSample, SampleMode, sampleText, sampleImage, createSampledFormation } from './utils/particleSampler';
+import { AudioAnalysis, createAudioAnalysis } from './utils/audioAnalysis';
+import { JINGLE_TRACK_NAME, renderJingleTrack } from './utils/jingleTrack';
+import { loadPhotos, savePhotos, savePhotoCaption, clearPhotos } from './utils/photoStore';
+import { loadModels, saveModel, saveModelSettings, deleteModel } from './utils/modelStore';
+import { loadGifts, saveGift } from './utils/giftStore';
+import { ModelPart, parseOrnamentModel, fetchOrnamentModel, disposeModelParts } from './utils/modelLoader';
+import { MODEL_SLOT_COUNT, registerModelOrnament, setModelOrnamentSlot, unregisterOrnament, getModelOrnamentType } from './components/ornamentRegistry';
+
+// Defaults, overridden by a shared link in the URL hash if present.
+// Device capability is handled by the quality tier (see utils/quality.ts), which scales the particle counts.
+const getInitialScene = (): SharedScene => {
+    const base: SharedScene = {
+        config: SCENE_DEFAULTS,
+        themeId: DEFAULT_THEME_ID,
+        captions: null,
+        targetMix: 1,
+        formation: DEFAULT_FORMATION,
+        giftMessages: null,
+    };
+
+    if (typeof window === 'undefined') return base;
+    return decodeScene(window.location.hash, base) ?? base;
+};
+
+// Default photos, with captions from a shared link where it has them (else the locale's)
+const getDefaultPhotos = (captions: string[] | null): Photo[] =>
+    DEFAULT_IMAGES.map((url, i) => ({ url, caption: captions?.[i] ?? getDefaultCaption(i) }));
+
+// Every gift box wrapped, holding the messages from a shared link where it has them
+const getInitialGifts = (messages: string[] | null): Gift[] =>
+    Array.from({ length: GIFT_BOX_COUNT }, (_, i) => ({ message: messages?.[i] ?? '', photoUrl: null, opened: false }));
+
+// Reduced-motion cross-fade: fade out, then time for the hidden scene to settle before fading back in
+const SCENE_FADE_MS = 700; // Matches the scene wrapper's duration-700
+const SCENE_SETTLE_MS = 1600;
+
+const GIFT_MESSAGE_SAVE_DELAY_MS = 500;
 
 const App: React.FC = () => {
+  const [initialScene] = useState(getInitialScene);
+
   // 1 = Formed, 0 = Chaos.
-  const [targetMix, setTargetMix] = useState(1); 
-  // Default colors kept, UI control removed
-  const [colors] = useState<TreeColors>({ bottom: '#022b1c', top: '#217a46' });
+  const [targetMix, setTargetMix] = useState(initialScene.targetMix); 
+  // Theme: tree gradient, ornament palettes, lights and bloom (cross-faded by the scene)
+  const [themeId, setThemeId] = useState<ThemeId>(initialScene.themeId);
+  const [showThemes, setShowThemes] = useState(false);
+  // Formation: what the scene assembles into (tree, galaxy, heart...), morphing from wherever it is
+  const [formation, setFormation] = useState<FormationId>(initialScene.formation);
+  const [showFormations, setShowFormations] = useState(false);
+  const lastGestureRef = useRef<GestureType>('NONE');
+  const lastFormationCycle = useRef(0);
+  // Particle art: text or a picture traced by the particles, each registered as a formation
+  const [isSampling, setIsSampling] = useState(false);
+  const [sampleError, setSampleError] = useState<string | null>(null);
+  const [artImage, setArtImage] = useState<{ file: File, mode: SampleMode } | null>(null);
+  const artFormations = useRef<Partial<Record<'TEXT' | 'IMAGE', FormationId>>>({});
+  const staleFormations = useRef<FormationId[]>([]);
   
   // inputRef now tracks detection state for physics switching
-  const inputRef = useRef({ x: 0, y: 0, isDetected: false });
+  const inputRef = useRef<SceneInput>({ x: 0, y: 0, isDetected: false });
   
-  // Image Upload State - Initialize with Default Images
-  const [userImages, setUserImages] = useState<string[]>(DEFAULT_IMAGES);
+  // Image Upload State - Empty until the photo store has been read,
+  // then either the stored photos or the Default Photos
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [hasStoredPhotos, setHasStoredPhotos] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Signature Modal State
+  // Signature Modal State (edits the caption of the focused photo)
   const [isSignatureOpen, setIsSignatureOpen] = useState(false);
-  const [signatureText, setSignatureText] = useState("");
-  const [activePhotoUrl, setActivePhotoUrl] = useState<string | null>(null);
+
+  // Photo Focus State: the polaroid the camera flew to (null = normal orbit)
+  const [focusedPhoto, setFocusedPhoto] = useState<number | null>(null);
+  const focusedPhotoRef = useRef<number | null>(null);
+  const focusModalTimer = useRef<number | null>(null);
+
+  // Countdown Celebration: fireworks and a star flash (Experience), and the tree bursts apart then reassembles
+  const [celebration, setCelebration] = useState(0);
+  const [showCountdown, setShowCountdown] = useState(false);
+  const reassembleTimer = useRef<number | null>(null);
+
+  // Gift Boxes: what each box holds (a shared link's messages, overridden by messages written on this device)
+  // and the box whose card is showing
+  const [gifts, setGifts] = useState<Gift[]>(() => getInitialGifts(initialScene.giftMessages));
+  const giftsRef = useRef(gifts);
+  giftsRef.current = gifts;
+  const [openGift, setOpenGift] = useState<number | null>(null);
+  const [giftError, setGiftError] = useState<string | null>(null);
+  const giftCardTimer = useRef<number | null>(null);
+  const pendingGiftMessage = useRef<{ index: number, timer: number } | null>(null); // Message edit not stored yet
+
+  // Ornament Models: ball.glb plus imported .glb files, each registered as an ornament type once loaded
+  const [ballModel, setBallModel] = useState<OrnamentModel | null>(null);
+  const [models, setModels] = useState<OrnamentModel[]>([]);
+  const [showModels, setShowModels] = useState(false);
+  const [isImportingModels, setIsImportingModels] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const modelParts = useRef(new Map<string, ModelPart[]>()); // Loaded meshes per model id
 
   // Camera Gui Visibility
   const [showCamera, setShowCamera] = useState(true);
@@ -31,43 +131,597 @@ const App: React.FC = () => {
   // Developer Mode State (Default: Closed)
   const [showDevPanel, setShowDevPanel] = useState(false);
   
-  // Initialize config with smart defaults based on device capability
-  const [devConfig, setDevConfig] = useState(() => {
-      // Simple mobile detection based on screen width
-      const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
-      
-      if (isMobile) {
-          return {
-              ...SCENE_DEFAULTS,
-              // Optimize for mobile: Reduce particle counts significantly
-              snowCount: 200,      // Default is 400
-              foliageCount: 2500,  // Default is 6000
-              // Adjust font size or text if needed, but CSS handles layout mostly
-          };
+  // Scene config: defaults or the values from a shared link
+  const [devConfig, setDevConfig] = useState(initialScene.config);
+
+  // Quality tier: stepped by the frame-time governor in the scene unless pinned in Developer Mode
+  const [qualityTier, setQualityTier] = useState<QualityTierId>(getInitialQualityTier);
+  const [pinnedTier, setPinnedTier] = useState<QualityTierId | null>(null);
+  const quality = QUALITY_TIERS[pinnedTier ?? qualityTier];
+
+  // Share Link State (null = panel closed)
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+
+  // Clip Recorder State
+  const [showRecorder, setShowRecorder] = useState(false);
+  const [recording, setRecording] = useState<ClipRequest | null>(null);
+  const [recordProgress, setRecordProgress] = useState(0);
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+  const [recordError, setRecordError] = useState<string | null>(null);
+  const titleRef = useRef<HTMLHeadingElement>(null);
+
+  // Greeting card: a print-resolution render of the current view, framed by a template and exported
+  const [showCard, setShowCard] = useState(false);
+  const [cardRequest, setCardRequest] = useState<CardRequest | null>(null);
+  const [card, setCard] = useState<{ pngUrl: string, pdfUrl: string } | null>(null);
+  const [cardError, setCardError] = useState<string | null>(null);
+  const cardContent = useRef<CardContent | null>(null); // What the pending render gets composed with
+  const [signedPhoto, setSignedPhoto] = useState<number | null>(null); // Last polaroid signed in the modal
+
+  // Music (audio-reactive mode). The analysis is created on the first play, since browsers only start
+  // audio from a user gesture, and then kept: a media element can only be connected to one.
+  const audioElementRef = useRef<HTMLAudioElement>(null);
+  const audioAnalysisRef = useRef<AudioAnalysis | null>(null);
+  const [audioAnalysis, setAudioAnalysis] = useState<AudioAnalysis | null>(null);
+  const [showAudio, setShowAudio] = useState(false);
+  const [audioTrack, setAudioTrack] = useState<{ name: string, url: string } | null>(null);
+  const [isAudioPlaying, setIsAudioPlaying] = useState(false);
+  const [isLoadingTrack, setIsLoadingTrack] = useState(false);
+  const [audioTime, setAudioTime] = useState({ current: 0, duration: 0 });
+  const [audioSensitivity, setAudioSensitivity] = useState(1);
+  const [audioError, setAudioError] = useState<string | null>(null);
+
+  // Multi-device sync: phones (or other windows) paired by code drive this display
+  const [syncSession, setSyncSession] = useState<SyncSession | null>(null);
+  const [syncLink, setSyncLink] = useState<string | null>(null); // Opens the remote page for the session
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('CONNECTING');
+  const [syncRemotes, setSyncRemotes] = useState(0);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [showSync, setShowSync] = useState(false);
+  const syncEvents = useRef<SyncEvents>({}); // Latest handlers, so the session never calls a stale render's
+  const syncPublished = useRef<Partial<Record<SyncKey, SyncValue>>>({});
+
+  // Language: the catalog lives in utils/i18n, this copy re-renders the page when it changes
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  const [showLanguages, setShowLanguages] = useState(false);
+
+  // Accessibility: reduced motion, and what the live region last announced
+  const [reducedMotion, setReducedMotion] = useState(prefersReducedMotion);
+  const [sceneMix, setSceneMix] = useState(initialScene.targetMix); // Mix the scene shows, see the cross-fade below
+  const [isSceneFaded, setIsSceneFaded] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  const announced = useRef({ targetMix, themeId, formation, openGift, isSignatureOpen, celebration, locale, card });
+
+  useEffect(() => watchReducedMotion(setReducedMotion), []);
+
+  // Reduced motion: rather than flying the particles between tree and scatter, fade the scene out,
+  // let it change while hidden and fade it back in. Recordings keep the real animation.
+  useEffect(() => {
+      if (!reducedMotion || recording) {
+          setSceneMix(targetMix);
+          setIsSceneFaded(false);
+          return;
       }
-      return SCENE_DEFAULTS;
-  });
+      if (targetMix === sceneMix) {
+          setIsSceneFaded(false);
+          return;
+      }
+      setIsSceneFaded(true);
+      const swap = window.setTimeout(() => setSceneMix(targetMix), SCENE_FADE_MS);
+      const reveal = window.setTimeout(() => setIsSceneFaded(false), SCENE_FADE_MS + SCENE_SETTLE_MS);
+      return () => {
+          window.clearTimeout(swap);
+          window.clearTimeout(reveal);
+      };
+  }, [targetMix, reducedMotion, recording]);
+
+  // Screen reader announcements for state changes, whatever caused them (buttons, keys, hands or a remote)
+  useEffect(() => {
+      const prev = announced.current;
+      announced.current = { targetMix, themeId, formation, openGift, isSignatureOpen, celebration, locale, card };
+      if (locale !== prev.locale) setAnnouncement(t('announce.language', { name: LOCALES[locale].name }));
+      else if (celebration !== prev.celebration) setAnnouncement(t('announce.celebration'));
+      else if (targetMix !== prev.targetMix) setAnnouncement(t(targetMix === 1 ? 'announce.assembled' : 'announce.scattered'));
+      else if (themeId !== prev.themeId) setAnnouncement(t('announce.theme', { name: t(`theme.${themeId}`) }));
+      else if (formation !== prev.formation) setAnnouncement(t('announce.formation', { name: getFormationLabel(formation) }));
+      else if (openGift !== null && openGift !== prev.openGift) setAnnouncement(t('announce.giftOpened', { n: openGift + 1 }));
+      else if (isSignatureOpen && !prev.isSignatureOpen && focusedPhoto !== null) setAnnouncement(t('announce.photoOpened', { n: focusedPhoto + 1 }));
+      else if (card && card !== prev.card) setAnnouncement(t('announce.cardReady'));
+  }, [targetMix, themeId, formation, openGift, isSignatureOpen, celebration, locale, card]);
+
+  // Space assembles / scatters the tree (focused buttons and fields keep space for themselves)
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (e.key !== ' ' || e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+          if (isFormField(e.target) || isActivatable(e.target)) return;
+          e.preventDefault();
+          setTargetMix(prev => prev === 1 ? 0 : 1);
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Restore photos persisted from a previous visit
+  useEffect(() => {
+      let isMounted = true;
+      loadPhotos().then(stored => {
+          if (!isMounted) return;
+          if (stored.length > 0) {
+              setPhotos(stored.map((row, i) => ({
+                  url: URL.createObjectURL(row.blob),
+                  // Captions nobody wrote show in the current language
+                  caption: row.caption === undefined || isDefaultCaption(row.caption, i) ? getDefaultCaption(i) : row.caption,
+                  storeKey: row.order
+              })));
+              setHasStoredPhotos(true);
+          } else {
+              setPhotos(getDefaultPhotos(initialScene.captions));
+          }
+      });
+      return () => { isMounted = false; };
+  }, []);
+
+  // Restore gift contents, and which boxes were opened, from a previous visit
+  useEffect(() => {
+      let isMounted = true;
+      loadGifts().then(stored => {
+          if (!isMounted || stored.length === 0) return;
+          setGifts(prev => prev.map((gift, i) => {
+              const row = stored.find(r => r.index === i);
+              if (!row) return gift;
+              // A message from the share link wins unless the box was written on here.
+              // Older rows can't tell, so they only fill boxes the link leaves empty.
+              const isLocal = row.edited ?? !gift.message;
+              return { message: isLocal ? row.message : gift.message, photoUrl: row.photo ? URL.createObjectURL(row.photo) : null, opened: row.opened };
+          }));
+      });
+      return () => { isMounted = false; };
+  }, []);
+
+  // Load the built-in ball.glb ornament
+  useEffect(() => {
+      let isMounted = true;
+      fetchOrnamentModel(BALL_MODEL.url)
+          .then(parts => {
+              if (!isMounted) {
+                  disposeModelParts(parts);
+                  return;
+              }
+              modelParts.current.set(BALL_MODEL.id, parts);
+              setBallModel({
+                  id: BALL_MODEL.id,
+                  name: BALL_MODEL.name,
+                  type: registerModelOrnament(BALL_MODEL.id, BALL_MODEL.name, parts, 0),
+                  builtIn: true,
+                  // Scale and variance come from the Developer Panel (ballScale / ballVariance)
+                  settings: { ...DEFAULT_MODEL_SETTINGS, count: BALL_MODEL.count },
+              });
+          })
+          .catch(e => console.warn('Failed to load ball.glb:', e));
+      return () => { isMounted = false; };
+  }, []);
+
+  // Restore models imported on a previous visit
+  useEffect(() => {
+      let isMounted = true;
+      const restore = async () => {
+          const loaded: { model: OrnamentModel, parts: ModelPart[] }[] = [];
+          for (const row of await loadModels()) {
+              try {
+                  const parts = await parseOrnamentModel(await row.blob.arrayBuffer());
+                  loaded.push({ model: { id: row.id, name: row.name, type: getModelOrnamentType(row.id), settings: row.settings }, parts });
+              } catch (e) {
+                  console.warn(`Stored model "${row.name}" could not be loaded:`, e);
+              }
+          }
+          if (!isMounted) {
+              loaded.forEach(({ parts }) => disposeModelParts(parts));
+              return;
+          }
+          addModels(loaded);
+      };
+      restore();
+      return () => { isMounted = false; };
+  }, []);
+
+  // Free the meshes of models that left the tree (runs after the render that unmounted them)
+  useEffect(() => {
+      const inUse = new Set([ballModel?.id, ...models.map(model => model.id)]);
+      modelParts.current.forEach((parts, id) => {
+          if (inUse.has(id)) return;
+          unregisterOrnament(getModelOrnamentType(id));
+          disposeModelParts(parts);
+          modelParts.current.delete(id);
+      });
+  }, [models, ballModel]);
+
+  // Registers loaded models and puts them on the tree in one go,
+  // so the cleanup above never sees parts without their model
+  const addModels = (loaded: { model: OrnamentModel, parts: ModelPart[] }[]) => {
+      loaded.forEach(({ model, parts }) => {
+          modelParts.current.set(model.id, parts);
+          registerModelOrnament(model.id, model.name, parts, model.settings.slot);
+      });
+      setModels(prev => [...prev, ...loaded.map(({ model }) => model)]);
+  };
+
+  // Revoke old URLs to prevent memory leaks, but ONLY if they are blob URLs
+  // We don't want to revoke static default image paths.
+  const replacePhotos = (next: Photo[]) => {
+      setPhotos(prev => {
+          prev.forEach(({ url }) => {
+              if (url.startsWith('blob:')) {
+                  URL.revokeObjectURL(url);
+              }
+          });
+          return next;
+      });
+  };
+
+  const handleCaptionChange = (index: number, caption: string) => {
+      const storeKey = photos[index]?.storeKey;
+      setPhotos(prev => prev.map((photo, i) => i === index ? { ...photo, caption } : photo));
+      if (storeKey !== undefined) savePhotoCaption(storeKey, caption);
+  };
+
+  // Fly the camera back from a focused photo and close its modal
+  const closePhotoFocus = useCallback(() => {
+      if (focusModalTimer.current !== null) {
+          window.clearTimeout(focusModalTimer.current);
+          focusModalTimer.current = null;
+      }
+      focusedPhotoRef.current = null;
+      setFocusedPhoto(null);
+      setIsSignatureOpen(false);
+  }, []);
 
   // Wrap in useCallback to prevent new function creation on every render
-  const handleGesture = useCallback((data: HandGesture) => {
-    if (data.isDetected) {
-        const newTarget = data.isOpen ? 0 : 1;
-        setTargetMix(prev => {
-            if (prev !== newTarget) return newTarget;
-            return prev;
-        });
+  const handleGesture = useCallback((hands: HandGesture[]) => {
+    // The longest-tracked hand drives the single-hand controls
+    const data = hands[0];
+    if (data) {
+        // Two hands: the line between them drives zoom (spread) and rotation (twist)
+        const other = hands[1];
+        const bimanual = other
+            ? {
+                distance: Math.hypot(other.position.x - data.position.x, other.position.y - data.position.y),
+                angle: Math.atan2(other.position.y - data.position.y, other.position.x - data.position.x)
+            }
+            : null;
+
+        if (focusedPhotoRef.current !== null) {
+            // While a photo is focused the hand doesn't scatter the tree; opening it flies back
+            if (data.isOpen) closePhotoFocus();
+        } else if (data.gesture !== 'PINCH' && !bimanual) {
+            // A pinch keeps the other fingers out, which reads as open; it zooms or picks instead.
+            // Two hands are zooming or twisting with open palms, which must not scatter the tree either.
+            const newTarget = data.isOpen ? 0 : 1;
+            setTargetMix(prev => {
+                if (prev !== newTarget) return newTarget;
+                return prev;
+            });
+        }
         
+        // A victory sign cycles formations once per sign (with a cooldown against flickering detection)
+        if (data.gesture === 'VICTORY' && lastGestureRef.current !== 'VICTORY' && focusedPhotoRef.current === null) {
+            const now = performance.now();
+            if (now - lastFormationCycle.current > 1200) {
+                lastFormationCycle.current = now;
+                setFormation(prev => getNextFormation(prev));
+            }
+        }
+        lastGestureRef.current = data.gesture;
+
+        // Swipes add a quarter-turn impulse on top of the grab rotation, and blow a gust the same way
+        let impulse = inputRef.current.rotationImpulse ?? 0;
+        let gust = inputRef.current.windGust ?? 0;
+        if (data.gesture === 'SWIPE_LEFT') { impulse -= Math.PI / 2; gust -= 1; }
+        if (data.gesture === 'SWIPE_RIGHT') { impulse += Math.PI / 2; gust += 1; }
+
         inputRef.current = { 
             x: data.position.x * 1.2, 
             y: data.position.y,
-            isDetected: true
+            isDetected: true,
+            // Pinch grabs the zoom: pulling the pinched hand closer/farther zooms in/out
+            pinchDepth: data.gesture === 'PINCH' && !bimanual ? data.depth : null,
+            rotationImpulse: impulse,
+            windGust: gust,
+            // Remote control nudges arrive between frames; keep them until the scene consumes them
+            remoteRotation: inputRef.current.remoteRotation,
+            remoteZoom: inputRef.current.remoteZoom,
+            bimanual,
+            // Pointing picks photos: the scene raycasts from the index fingertip
+            pointer: data.gesture === 'POINT' ? data.fingertip : null,
+            // Pinching opens the gift box under the fingertip
+            pinchPoint: data.gesture === 'PINCH' && !bimanual ? data.fingertip : null,
+            frameAspect: data.frameAspect
         };
     } else {
         // Mark as not detected, keep last position to avoid jumps before fade out
+        lastGestureRef.current = 'NONE';
         inputRef.current.isDetected = false;
+        inputRef.current.pinchDepth = null;
+        inputRef.current.rotationImpulse = 0;
+        inputRef.current.bimanual = null;
+        inputRef.current.pointer = null;
+        inputRef.current.pinchPoint = null;
     }
+  }, [closePhotoFocus]);
+
+  // Picking a polaroid (click, tap or pointing hand): fly to it, then open it in the modal
+  const handlePhotoPick = useCallback((index: number) => {
+      focusedPhotoRef.current = index;
+      setFocusedPhoto(index);
+
+      if (focusModalTimer.current !== null) window.clearTimeout(focusModalTimer.current);
+      // Let the camera arrive before the modal blurs the scene
+      focusModalTimer.current = window.setTimeout(() => {
+          focusModalTimer.current = null;
+          setIsSignatureOpen(true);
+      }, 900);
+  }, []);
+
+  // Keyboard: tabbing onto a photo flies the camera to it (Enter then opens it, like a click)
+  const handlePhotoPreview = (index: number) => {
+      if (isSignatureOpen) return;
+      if (focusModalTimer.current !== null) {
+          window.clearTimeout(focusModalTimer.current);
+          focusModalTimer.current = null;
+      }
+      focusedPhotoRef.current = index;
+      setFocusedPhoto(index);
+  };
+
+  // Tabbing past the last photo (or away) flies back, unless the photo was opened
+  const handlePhotoNavBlur = (e: React.FocusEvent<HTMLElement>) => {
+      const next = e.relatedTarget as HTMLElement | null;
+      if (next?.closest('[data-photo-nav]') || isSignatureOpen || focusModalTimer.current !== null) return;
+      closePhotoFocus();
+  };
+
+  const handleCelebrate = useCallback(() => {
+      setCelebration(n => n + 1);
+      setTargetMix(0);
+      if (reassembleTimer.current !== null) window.clearTimeout(reassembleTimer.current);
+      reassembleTimer.current = window.setTimeout(() => {
+          reassembleTimer.current = null;
+          setTargetMix(1);
+      }, 4000);
+  }, []);
+
+  useEffect(() => () => {
+      if (reassembleTimer.current !== null) window.clearTimeout(reassembleTimer.current);
   }, []);
 
+  // Changes one gift box and stores it; `photo` is only passed when the photo itself changes.
+  // Messages are stored separately (see handleGiftMessage), so one that came with a link is never kept.
+  const updateGift = (index: number, changes: Partial<Gift>, photo?: Blob | null) => {
+      const prev = giftsRef.current[index];
+      if (!prev) return Promise.resolve(false);
+      if (changes.photoUrl !== undefined && prev.photoUrl && prev.photoUrl !== changes.photoUrl) {
+          URL.revokeObjectURL(prev.photoUrl);
+      }
+      const next = { ...prev, ...changes };
+      giftsRef.current = giftsRef.current.map((gift, i) => i === index ? next : gift);
+      setGifts(giftsRef.current);
+      return saveGift(index, { opened: next.opened, ...(photo !== undefined ? { photo } : {}) });
+  };
+
+  // Typing only updates the card; the message is stored once typing pauses (or the card closes)
+  const flushGiftMessage = useCallback(() => {
+      const pending = pendingGiftMessage.current;
+      if (!pending) return;
+      window.clearTimeout(pending.timer);
+      pendingGiftMessage.current = null;
+      const gift = giftsRef.current[pending.index];
+      if (gift) saveGift(pending.index, { message: gift.message, edited: true });
+  }, []);
+
+  const handleGiftMessage = (index: number, message: string) => {
+      if (pendingGiftMessage.current?.index !== index) flushGiftMessage();
+      updateGift(index, { message });
+      if (pendingGiftMessage.current) window.clearTimeout(pendingGiftMessage.current.timer);
+      pendingGiftMessage.current = { index, timer: window.setTimeout(flushGiftMessage, GIFT_MESSAGE_SAVE_DELAY_MS) };
+  };
+
+  // Don't lose the last words when the page goes away mid-sentence
+  useEffect(() => {
+      window.addEventListener('pagehide', flushGiftMessage);
+      return () => {
+          window.removeEventListener('pagehide', flushGiftMessage);
+          flushGiftMessage();
+      };
+  }, [flushGiftMessage]);
+
+  // Picking a box opens it; the card shows once the lid is off
+  const handleGiftPick = useCallback((index: number) => {
+      setGiftError(null);
+      if (!giftsRef.current[index]?.opened) updateGift(index, { opened: true });
+
+      if (giftCardTimer.current !== null) window.clearTimeout(giftCardTimer.current);
+      giftCardTimer.current = window.setTimeout(() => {
+          giftCardTimer.current = null;
+          setOpenGift(index);
+      }, 700);
+  }, []);
+
+  const closeGiftCard = useCallback(() => {
+      flushGiftMessage();
+      if (giftCardTimer.current !== null) {
+          window.clearTimeout(giftCardTimer.current);
+          giftCardTimer.current = null;
+      }
+      setOpenGift(null);
+  }, [flushGiftMessage]);
+
+  const handleGiftPhoto = (index: number, file: File) => {
+      if (!file.type.startsWith('image/')) {
+          setGiftError(t('error.chooseImage'));
+          return;
+      }
+      setGiftError(null);
+      updateGift(index, { photoUrl: URL.createObjectURL(file) }, file).then(stored => {
+          if (!stored) setGiftError(t('error.giftPhotoNotKept'));
+      });
+  };
+
+  const handleGiftRewrap = (index: number) => {
+      updateGift(index, { opened: false });
+      closeGiftCard();
+  };
+
+  // Escape closes the gift card
+  useEffect(() => {
+      if (openGift === null) return;
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (e.key === 'Escape') closeGiftCard();
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, [openGift, closeGiftCard]);
+
+  useEffect(() => () => {
+      if (giftCardTimer.current !== null) window.clearTimeout(giftCardTimer.current);
+  }, []);
+
+  // Escape leaves the focused photo
+  useEffect(() => {
+      if (focusedPhoto === null) return;
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (e.key === 'Escape') closePhotoFocus();
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, [focusedPhoto, closePhotoFocus]);
+
+  useEffect(() => () => {
+      if (focusModalTimer.current !== null) window.clearTimeout(focusModalTimer.current);
+  }, []);
+
+  // --- Particle Art ---
+  // Each new text/picture replaces the previous one of its kind; the old formation is dropped once the scene has moved on
+  const showParticleArt = (kind: 'TEXT' | 'IMAGE', label: string, sample: ParticleSample) => {
+      const previous = artFormations.current[kind];
+      if (previous) staleFormations.current.push(previous);
+
+      const id = `${kind}:${Date.now()}`;
+      registerFormation(id, createSampledFormation(label, sample));
+      artFormations.current[kind] = id;
+      setFormation(id);
+      setTargetMix(1);
+  };
+
+  useEffect(() => {
+      staleFormations.current = staleFormations.current.filter(id => {
+          if (id === formation) return true;
+          unregisterFormation(id);
+          return false;
+      });
+  }, [formation]);
+
+  const handleShowText = async (text: string, fontFamily: string, color: string) => {
+      setIsSampling(true);
+      setSampleError(null);
+      try {
+          const sample = await sampleText(text, fontFamily, color);
+          if (sample) showParticleArt('TEXT', t('formation.text', { text: text.trim() }), sample);
+          else setSampleError(t('error.nothingToDraw'));
+      } finally {
+          setIsSampling(false);
+      }
+  };
+
+  const handleShowImage = async (file: File, mode?: SampleMode) => {
+      setIsSampling(true);
+      setSampleError(null);
+      try {
+          const result = await sampleImage(file, mode);
+          setArtImage({ file, mode: result.mode });
+          showParticleArt('IMAGE', t('formation.picture', { name: file.name }), result.sample);
+      } catch (e) {
+          setSampleError(e instanceof Error ? e.message : t('error.imageUnreadable'));
+      } finally {
+          setIsSampling(false);
+      }
+  };
+
+  // Revoke the previous track's URL once another one replaces it
+  useEffect(() => () => {
+      if (audioTrack) URL.revokeObjectURL(audioTrack.url);
+  }, [audioTrack]);
+
+  useEffect(() => () => audioAnalysisRef.current?.dispose(), []);
+
+  // Must run inside the click handler: the audio context only starts from a user gesture
+  const prepareAudio = () => {
+      const element = audioElementRef.current;
+      if (!element) return;
+      if (!audioAnalysisRef.current) {
+          audioAnalysisRef.current = createAudioAnalysis(element);
+          setAudioAnalysis(audioAnalysisRef.current);
+          if (!audioAnalysisRef.current) setAudioError(t('error.audioAnalysis'));
+      }
+      audioAnalysisRef.current?.resume();
+  };
+
+  const playAudio = () => {
+      prepareAudio();
+      audioElementRef.current?.play().catch(e => {
+          console.warn('Failed to play audio:', e);
+          setAudioError(t('error.audioPlay'));
+      });
+  };
+
+  const playTrack = (name: string, blob: Blob) => {
+      const element = audioElementRef.current;
+      if (!element) return;
+      const url = URL.createObjectURL(blob);
+      element.src = url;
+      setAudioTrack({ name, url });
+      setAudioTime({ current: 0, duration: 0 });
+      playAudio();
+  };
+
+  const handleLoadAudioFile = (file: File) => {
+      setAudioError(null);
+      if (!file.type.startsWith('audio/')) {
+          setAudioError(t('error.audioFile'));
+          return;
+      }
+      playTrack(file.name, file);
+  };
+
+  const handleLoadBuiltInTrack = async () => {
+      setAudioError(null);
+      prepareAudio();
+      setIsLoadingTrack(true);
+      try {
+          playTrack(JINGLE_TRACK_NAME, await renderJingleTrack());
+      } catch (e) {
+          console.warn('Failed to render the built-in track:', e);
+          setAudioError(t('error.audioBuiltIn'));
+      } finally {
+          setIsLoadingTrack(false);
+      }
+  };
+
+  const handleToggleAudio = () => {
+      const element = audioElementRef.current;
+      if (!element) return;
+      if (element.paused) playAudio();
+      else element.pause();
+  };
+
+  const handleSeekAudio = (time: number) => {
+      if (audioElementRef.current) audioElementRef.current.currentTime = time;
+      setAudioTime(prev => ({ ...prev, current: time }));
+  };
+
+  const handleAudioTime = (e: React.SyntheticEvent<HTMLAudioElement>) => {
+      const { currentTime, duration } = e.currentTarget;
+      setAudioTime({ current: currentTime, duration: Number.isFinite(duration) ? duration : 0 });
+  };
+
   const toggleState = () => {
       setTargetMix(prev => prev === 1 ? 0 : 1);
   };
@@ -76,60 +730,288 @@ const App: React.FC = () => {
       fileInputRef.current?.click();
   };
 
+  const handleImportModels = async (files: File[]) => {
+      if (files.length === 0) {
+          setModelError(t('error.modelGlbOnly'));
+          return;
+      }
+      setIsImportingModels(true);
+      setModelError(null);
+
+      const loaded: { model: OrnamentModel, parts: ModelPart[] }[] = [];
+      const errors: string[] = [];
+      const usedSlots = models.map(model => model.settings.slot);
+
+      for (const file of files.slice(0, MAX_IMPORTED_MODELS - models.length)) {
+          try {
+              const parts = await parseOrnamentModel(await file.arrayBuffer());
+              const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+              // Next free slot, or share the least used one
+              const slot = Array.from({ length: MODEL_SLOT_COUNT }, (_, i) => i)
+                  .sort((a, b) => usedSlots.filter(s => s === a).length - usedSlots.filter(s => s === b).length)[0];
+              usedSlots.push(slot);
+
+              const settings = { ...DEFAULT_MODEL_SETTINGS, slot };
+              loaded.push({ model: { id, name: file.name, type: getModelOrnamentType(id), settings }, parts });
+              // Persist the original so it survives a reload (best effort, runs in background)
+              saveModel({ id, name: file.name, blob: file, settings, createdAt: Date.now() });
+          } catch (e) {
+              errors.push(`${file.name}: ${e instanceof Error ? e.message : t('error.modelImport')}`);
+          }
+      }
+
+      addModels(loaded);
+      setModelError(errors.length > 0 ? errors.join('\n') : null);
+      setIsImportingModels(false);
+  };
+
+  const handleModelChange = (id: string, settings: ModelSettings) => {
+      const model = models.find(m => m.id === id);
+      if (!model) return;
+      if (settings.slot !== model.settings.slot) setModelOrnamentSlot(model.type, settings.slot);
+      setModels(prev => prev.map(m => m.id === id ? { ...m, settings } : m));
+      saveModelSettings(id, settings);
+  };
+
+  const handleRemoveModel = (id: string) => {
+      setModels(prev => prev.filter(model => model.id !== id));
+      deleteModel(id);
+  };
+
+  // ball.glb follows the Developer Panel sliders
+  const sceneModels = ballModel
+      ? [{ ...ballModel, settings: { ...ballModel.settings, scale: devConfig.ballScale, variance: devConfig.ballVariance } }, ...models]
+      : models;
+
+  const handleShareClick = () => {
+      if (shareUrl) {
+          setShareUrl(null);
+          return;
+      }
+      // Uploaded photos stay on this device, so only captions of the default photos are shared
+      const captions = hasStoredPhotos ? null : photos.map(photo => photo.caption);
+      setShareUrl(buildShareUrl({ config: devConfig, themeId, captions, targetMix, formation, giftMessages: gifts.map(gift => gift.message) }));
+  };
+
+  const handleStartRecording = (script: ClipScript, duration: number) => {
+      closePhotoFocus();
+      if (clipUrl) URL.revokeObjectURL(clipUrl);
+      setClipUrl(null);
+      setRecordError(null);
+      setRecordProgress(0);
+      setRecording({ id: Date.now(), script, duration });
+  };
+
+  const handleRecordingComplete = useCallback((clip: Blob | null, failure: ClipFailure | null) => {
+      setRecording(null);
+      if (clip) {
+          setClipUrl(URL.createObjectURL(clip));
+      } else {
+          setRecordError(t(failure === 'UNSUPPORTED' ? 'error.recordUnsupported' : 'error.recordFailed'));
+      }
+  }, []);
+
+  // The scene is rendered for the picture area only; title and signature are drawn by the composer
+  const handleMakeCard = (templateId: CardTemplateId, sizeId: CardSizeId, signature: string) => {
+      const template = CARD_TEMPLATES[templateId];
+      const size = CARD_SIZES[sizeId];
+      const picture = getPictureRect(template, size.width, size.height);
+      cardContent.current = {
+          templateId,
+          sizeId,
+          title: devConfig.titleText || t('title.default'),
+          titleFont: titleRef.current ? window.getComputedStyle(titleRef.current).fontFamily : 'serif',
+          signature,
+          signatureFont: "'Monsieur La Doulaise', cursive",
+      };
+      setCardError(null);
+      setCardRequest({ id: Date.now(), width: picture.width, height: picture.height, background: template.sky, glow: THEMES[themeId].bloom });
+  };
+
+  const handleCardRendered = useCallback(async (render: HTMLCanvasElement | null) => {
+      const content = cardContent.current;
+      if (!render || !content) {
+          setCardError(t('error.cardRender'));
+      } else {
+          try {
+              const { png, pdf } = await exportCard(await composeCard(render, content), CARD_SIZES[content.sizeId]);
+              setCard({ pngUrl: URL.createObjectURL(png), pdfUrl: URL.createObjectURL(pdf) });
+          } catch (err) {
+              console.warn('Card export failed:', err);
+              setCardError(t('error.cardExport'));
+          }
+      }
+      setCardRequest(null);
+  }, []);
+
+  // Revoke the previous card's URLs once another one replaces it
+  useEffect(() => () => {
+      if (card) {
+          URL.revokeObjectURL(card.pngUrl);
+          URL.revokeObjectURL(card.pdfUrl);
+      }
+  }, [card]);
+
   const handleSignatureClick = () => {
-      // Pick a random photo if available, else null (placeholder)
-      if (userImages.length > 0) {
-          const randomImg = userImages[Math.floor(Math.random() * userImages.length)];
-          setActivePhotoUrl(randomImg);
+      // Pick a random photo if available, else just open the modal (placeholder)
+      if (photos.length > 0) {
+          handlePhotoPick(Math.floor(Math.random() * photos.length));
       } else {
-          setActivePhotoUrl(null);
+          setIsSignatureOpen(true);
       }
-      setIsSignatureOpen(true);
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const fileList = e.target.files;
-      if (fileList && fileList.length > 0) {
-          setIsProcessing(true);
-          
-          // 1. Immediately disperse the tree (Chaos State) behind the loading screen
-          setTargetMix(0);
+  // Swaps in new photos behind a loading screen: disperse, replace, then reassemble.
+  // Used by the upload button and by photos sent from a paired remote.
+  const handlePhotoFiles = (fileList: File[]) => {
+      if (fileList.length === 0) return;
+      setIsProcessing(true);
+      
+      // 1. Immediately disperse the tree (Chaos State) behind the loading screen
+      setTargetMix(0);
+      
+      // Defer processing to next tick to allow React to render the loading screen first
+      setTimeout(() => {
+          const files = fileList.slice(0, 30); // Limit to 30
+          const uploaded: Photo[] = files.map((file, i) => ({
+              url: URL.createObjectURL(file as Blob),
+              caption: getDefaultCaption(i),
+              storeKey: i
+          }));
           
-          // Defer processing to next tick to allow React to render the loading screen first
+          replacePhotos(uploaded);
+          setHasStoredPhotos(true);
+
+          // Persist the originals so they survive a reload (best effort, runs in background)
+          savePhotos(files, uploaded.map(photo => photo.caption));
+
+          // Keep loader visible for a moment to cover the texture upload stutter
           setTimeout(() => {
-              const files = Array.from(fileList).slice(0, 30); // Limit to 30
-              const urls = files.map(file => URL.createObjectURL(file as Blob));
+              setIsProcessing(false);
               
-              setUserImages(prev => {
-                  // Revoke old URLs to prevent memory leaks, but ONLY if they are blob URLs
-                  // We don't want to revoke static default image paths.
-                  prev.forEach(url => {
-                      if (url.startsWith('blob:')) {
-                          URL.revokeObjectURL(url);
-                      }
-                  });
-                  return urls;
-              });
+              // 2. Trigger the "Ritual" Assembly Animation
+              // Wait a brief moment after loader vanishes so user sees the scattered photos,
+              // then fly them into position.
+              setTimeout(() => {
+                  setTargetMix(1);
+              }, 800);
 
-              // Reset input
-              if (fileInputRef.current) fileInputRef.current.value = '';
+          }, 1200); 
+      }, 50);
+  };
 
-              // Keep loader visible for a moment to cover the texture upload stutter
-              setTimeout(() => {
-                  setIsProcessing(false);
-                  
-                  // 2. Trigger the "Ritual" Assembly Animation
-                  // Wait a brief moment after loader vanishes so user sees the scattered photos,
-                  // then fly them into position.
-                  setTimeout(() => {
-                      setTargetMix(1);
-                  }, 800);
-
-              }, 1200); 
-          }, 50);
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const fileList = e.target.files;
+      if (fileList && fileList.length > 0) {
+          handlePhotoFiles(Array.from(fileList));
+          // Reset input
+          e.target.value = '';
       }
   };
 
+  // Captions nobody wrote follow the language; edited ones stay as they are
+  const handleLocaleChange = (next: Locale) => {
+      setLocale(next);
+      setLocaleState(next);
+      setPhotos(prev => prev.map((photo, i) => isDefaultCaption(photo.caption, i) ? { ...photo, caption: getDefaultCaption(i) } : photo));
+  };
+
+  const handleClearPhotos = () => {
+      if (!window.confirm(t('photos.confirmClear'))) return;
+      clearPhotos();
+      replacePhotos(getDefaultPhotos(null));
+      setHasStoredPhotos(false);
+  };
+
+  // Starts a pairing session as the display; the previous one (if any) is closed by the effect below
+  const handleStartSync = (transport: SyncTransportKind, relayUrl: string) => {
+      const code = createPairingCode();
+      setSyncStatus('CONNECTING');
+      setSyncRemotes(0);
+      setSyncError(null);
+      const session = createSyncSession({ code, role: 'DISPLAY', transport, relayUrl }, {
+          onState: (changes) => syncEvents.current.onState?.(changes),
+          onCommand: (command) => syncEvents.current.onCommand?.(command),
+          onPhotos: (photos) => syncEvents.current.onPhotos?.(photos),
+          onPeers: (roles) => setSyncRemotes(roles.filter(role => role === 'REMOTE').length),
+          onStatus: setSyncStatus,
+      });
+      if (!session) {
+          setSyncError(t('error.syncUnsupported'));
+          return;
+      }
+      syncPublished.current = {};
+      setSyncSession(session);
+      setSyncLink(buildRemoteUrl(code, transport === 'RELAY' ? relayUrl : null));
+  };
+
+  const handleStopSync = () => {
+      setSyncSession(null);
+      setSyncLink(null);
+      setSyncRemotes(0);
+  };
+
+  // Changes from paired devices, validated like a shared link before they reach the scene
+  syncEvents.current = {
+      onState: (changes) => {
+          Object.entries(changes).forEach(([key, value]) => {
+              if (key === 'targetMix') {
+                  if (value === 0 || value === 1) setTargetMix(value);
+              } else if (key === 'themeId') {
+                  if (isThemeId(value)) setThemeId(value);
+              } else if (key === 'formation') {
+                  // Art formations only exist on the device that made them
+                  if (isFormationId(value)) setFormation(value);
+              } else {
+                  const index = parseCaptionKey(key);
+                  if (index !== null && typeof value === 'string') handleCaptionChange(index, value.slice(0, MAX_CAPTION_LENGTH));
+              }
+          });
+      },
+      onCommand: (command) => {
+          const input = inputRef.current;
+          if (command.kind === 'ROTATE' && Number.isFinite(command.radians)) {
+              input.remoteRotation = (input.remoteRotation ?? 0) + command.radians;
+          } else if (command.kind === 'ZOOM' && Number.isFinite(command.amount)) {
+              input.remoteZoom = (input.remoteZoom ?? 0) + command.amount;
+          }
+      },
+      onPhotos: async (received) => {
+          try {
+              // One call per pick on the remote, so the set replaces the tree's photos like an upload here.
+              // Anyone on the relay can send: never take more than a remote may pick.
+              const files = (await Promise.all(received.slice(0, MAX_SYNC_PHOTOS).map(decodePhoto))).filter((file): file is File => file !== null);
+              if (files.length > 0) handlePhotoFiles(files);
+          } catch (e) {
+              console.warn('Failed to read photos from the remote:', e);
+              setSyncError(t('error.syncPhotos'));
+          }
+      },
+  };
+
+  // Publish this display's state to the session. Only values that changed here are written,
+  // so a render from before a remote change arrived can't overwrite it.
+  useEffect(() => {
+      if (!syncSession) return;
+      const publish = (key: SyncKey, value: SyncValue) => {
+          if (syncPublished.current[key] === value) return;
+          syncPublished.current[key] = value;
+          syncSession.set(key, value);
+      };
+      publish('targetMix', targetMix);
+      publish('themeId', themeId);
+      publish('formation', formation);
+      publish('photoCount', photos.length);
+      photos.forEach((photo, i) => publish(captionKey(i), photo.caption));
+  }, [syncSession, targetMix, themeId, formation, photos]);
+
+  // Leave the session when it is stopped or replaced (and on unmount)
+  useEffect(() => {
+      return () => syncSession?.close();
+  }, [syncSession]);
+
+  const selectedPhoto = focusedPhoto !== null ? photos[focusedPhoto] : undefined;
+
   // Unified Icon Button Style - Premium Silver Glassmorphism (Circular)
   const iconButtonClass = `
     group relative 
@@ -193,7 +1075,7 @@ const App: React.FC = () => {
                       <div className="absolute inset-0 flex items-center justify-center text-[#d4af37] text-xl animate-pulse">✦</div>
                   </div>
                   <div className="text-[#d4af37] font-damion tracking-[0.25em] text-xs uppercase animate-pulse">
-                      Decorating the tree...
+                      {t('app.loading')}
                   </div>
                   <style>{`
                     @keyframes spin-reverse {
@@ -211,6 +1093,7 @@ const App: React.FC = () => {
           {/* Layer: z-0. Adjusted sizes for 9:20 aspect ratio consistency */}
           <div className={`absolute top-[1%] left-0 w-full flex justify-center pointer-events-none z-0 transition-opacity duration-700 ${isSignatureOpen ? 'opacity-0' : 'opacity-100'}`}>
             <h1 
+                ref={titleRef}
                 className={`${devConfig.titleFont} text-6xl md:text-7xl text-center leading-[1] py-10`}
                 style={{
                     // Silver Metallic Gradient
@@ -221,45 +1104,91 @@ const App: React.FC = () => {
                     filter: 'drop-shadow(0px 5px 5px rgba(0,0,0,0.8)) drop-shadow(0px 0px 20px rgba(255,255,255,0.4))'
                 }}
             >
-                {devConfig.titleText}
+                {devConfig.titleText || t('title.default')}
             </h1>
           </div>
 
           {/* 3D Scene */}
           {/* The Experience component will automatically detect the 9:20 aspect ratio via useThree and adjust camera */}
-          <div className={`absolute inset-0 z-10 transition-all duration-700 ${isSignatureOpen ? 'blur-sm scale-95 opacity-50' : 'blur-0 scale-100 opacity-100'}`}>
+          <div
+            role="img"
+            aria-label={t('app.sceneLabel')}
+            className={`absolute inset-0 z-10 transition-all duration-700 ${isSignatureOpen ? 'blur-sm scale-95' : 'blur-0 scale-100'} ${isSceneFaded ? 'opacity-0' : isSignatureOpen ? 'opacity-50' : 'opacity-100'}`}
+          >
             <Experience 
-                mixFactor={targetMix}
-                colors={colors} 
+                mixFactor={sceneMix}
+                formation={formation}
+                theme={THEMES[themeId]}
                 inputRef={inputRef} 
-                userImages={userImages}
-                signatureText={signatureText}
+                photos={photos}
+                models={sceneModels}
                 devConfig={devConfig}
+                quality={quality}
+                autoQuality={pinnedTier === null}
+                onQualityChange={setQualityTier}
+                audio={audioAnalysis}
+                audioSensitivity={audioSensitivity}
+                recording={recording}
+                titleRef={titleRef}
+                onMixChange={setTargetMix}
+                onRecordingProgress={setRecordProgress}
+                onRecordingComplete={handleRecordingComplete}
+                cardRequest={cardRequest}
+                onCardRendered={handleCardRendered}
+                focusedPhoto={focusedPhoto}
+                onPhotoPick={handlePhotoPick}
+                openedGifts={gifts.map(gift => gift.opened)}
+                onGiftPick={handleGiftPick}
+                celebration={celebration}
+                reducedMotion={reducedMotion}
             />
           </div>
 
+          {/* COUNTDOWN OVERLAY */}
+          {/* Hidden rather than unmounted behind the signature modal, so it can't miss zero */}
+          {devConfig.countdown !== 'OFF' && (
+              <div className={`transition-opacity duration-700 ${isSignatureOpen ? 'opacity-0' : 'opacity-100'}`}>
+                  <CountdownOverlay
+                    mode={devConfig.countdown}
+                    date={devConfig.countdownDate}
+                    timeZone={devConfig.countdownZone}
+                    onZero={handleCelebrate}
+                  />
+              </div>
+          )}
+
           {/* SIGNATURE MODAL OVERLAY */}
           {isSignatureOpen && (
-              <div className="absolute inset-0 z-40 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md transition-opacity duration-500 animate-in fade-in">
+              <div 
+                role="dialog"
+                aria-modal="true"
+                aria-label={focusedPhoto !== null ? t('photo.dialog', { n: focusedPhoto + 1 }) : t('photo.dialogUnknown')}
+                className="absolute inset-0 z-40 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md transition-opacity duration-500 animate-in fade-in"
+                onClick={(e) => {
+                    // Tapping the background (not the polaroid) closes it
+                    if (e.target === e.currentTarget) closePhotoFocus();
+                }}
+              >
                   <div 
                     className="relative bg-[#f8f8f8] p-4 pb-12 shadow-[0_0_50px_rgba(255,255,255,0.2)] transform transition-transform duration-700 scale-100 rotate-[-2deg]"
                     style={{ width: 'min(80vw, 320px)', aspectRatio: '3.5/4.2' }}
                   >
                       {/* Close Button */}
                       <button 
-                        onClick={() => setIsSignatureOpen(false)}
-                        className="absolute -top-4 -right-4 w-8 h-8 rounded-full bg-black border border-white/20 text-white flex items-center justify-center hover:bg-white hover:text-black transition-colors z-50"
+                        onClick={closePhotoFocus}
+                        aria-label={t('common.close')}
+                        className="absolute -top-4 -end-4 w-8 h-8 rounded-full bg-black border border-white/20 text-white flex items-center justify-center hover:bg-white hover:text-black transition-colors z-50"
                       >
                           ×
                       </button>
 
                       {/* Photo Area */}
                       <div className="w-full h-[75%] bg-[#1a1a1a] overflow-hidden relative shadow-inner">
-                          {activePhotoUrl ? (
-                              <img src={activePhotoUrl} alt="Memory" className="w-full h-full object-cover" />
+                          {selectedPhoto?.url ? (
+                              <img src={selectedPhoto.url} alt={t('photo.alt')} className="w-full h-full object-cover" />
                           ) : (
                               <div className="w-full h-full flex items-center justify-center text-white/40 font-body text-lg italic tracking-widest text-center px-4">
-                                  我~一直都想对你说~
+                                  {t('photo.note')}
                               </div>
                           )}
                           {/* Gloss Overlay */}
@@ -271,12 +1200,17 @@ const App: React.FC = () => {
                           <input
                             autoFocus
                             type="text"
-                            placeholder="Sign here..."
-                            value={signatureText}
-                            onChange={(e) => setSignatureText(e.target.value)}
+                            placeholder={t('photo.signPlaceholder')}
+                            value={selectedPhoto?.caption ?? ''}
+                            disabled={!selectedPhoto}
+                            onChange={(e) => {
+                                if (focusedPhoto === null) return;
+                                handleCaptionChange(focusedPhoto, e.target.value);
+                                setSignedPhoto(focusedPhoto);
+                            }}
                             className="w-full text-center bg-transparent border-none outline-none font-script text-3xl md:text-4xl text-[#1a1a1a] placeholder:text-gray-300/50"
                             style={{ transform: 'translateY(-5px) rotate(-1deg)' }}
-                            maxLength={20}
+                            maxLength={MAX_CAPTION_LENGTH}
                           />
                       </div>
                   </div>
@@ -284,27 +1218,174 @@ const App: React.FC = () => {
                   {/* Confirm Button (Floating below) */}
                   <div className="absolute bottom-10 left-0 w-full flex justify-center">
                       <button 
-                        onClick={() => setIsSignatureOpen(false)}
+                        onClick={closePhotoFocus}
                         className={textButtonClass}
                       >
-                          完成签名
+                          {t('photo.signDone')}
                       </button>
                   </div>
               </div>
           )}
 
+          {/* GIFT CARD OVERLAY */}
+          {openGift !== null && gifts[openGift] && (
+              <GiftCard
+                key={openGift}
+                index={openGift}
+                gift={gifts[openGift]}
+                error={giftError}
+                onMessageChange={(message) => handleGiftMessage(openGift, message)}
+                onPhotoChange={(file) => handleGiftPhoto(openGift, file)}
+                onRemovePhoto={() => updateGift(openGift, { photoUrl: null }, null)}
+                onRewrap={() => handleGiftRewrap(openGift)}
+                onClose={closeGiftCard}
+              />
+          )}
+
           {/* DEVELOPER PANEL */}
           {showDevPanel && (
               <DeveloperPanel 
                 config={devConfig}
                 setConfig={setDevConfig}
+                qualityTier={quality.id}
+                pinnedTier={pinnedTier}
+                onPinTier={setPinnedTier}
                 onClose={() => setShowDevPanel(false)}
               />
           )}
 
+          {/* CLIP RECORDER PANEL */}
+          {showRecorder && (
+              <RecorderPanel 
+                isRecording={recording !== null}
+                progress={recordProgress}
+                clipUrl={clipUrl}
+                error={recordError}
+                onStart={handleStartRecording}
+                onCancel={() => setRecording(null)}
+                onClose={() => {
+                    setRecording(null);
+                    setShowRecorder(false);
+                }}
+              />
+          )}
+
+          {/* GREETING CARD PANEL */}
+          {showCard && (
+              <CardPanel 
+                signature={signedPhoto !== null ? photos[signedPhoto]?.caption ?? '' : ''}
+                isRendering={cardRequest !== null}
+                card={card}
+                error={cardError}
+                onMake={handleMakeCard}
+                onClose={() => setShowCard(false)}
+              />
+          )}
+
+          {/* COUNTDOWN PANEL */}
+          {showCountdown && (
+              <CountdownPanel 
+                mode={devConfig.countdown}
+                date={devConfig.countdownDate}
+                timeZone={devConfig.countdownZone}
+                onModeChange={(countdown) => setDevConfig(prev => ({ ...prev, countdown }))}
+                onDateChange={(countdownDate) => setDevConfig(prev => ({ ...prev, countdownDate }))}
+                onTimeZoneChange={(countdownZone) => setDevConfig(prev => ({ ...prev, countdownZone }))}
+                onCelebrate={handleCelebrate}
+                onClose={() => setShowCountdown(false)}
+              />
+          )}
+
+          {/* THEME PANEL */}
+          {showThemes && (
+              <ThemePanel 
+                themeId={themeId}
+                onSelect={setThemeId}
+                onClose={() => setShowThemes(false)}
+              />
+          )}
+
+          {/* FORMATION PANEL */}
+          {showFormations && (
+              <FormationPanel 
+                formation={formation}
+                onSelect={setFormation}
+                isSampling={isSampling}
+                sampleError={sampleError}
+                imageMode={artImage?.mode ?? null}
+                onShowText={handleShowText}
+                onShowImage={(file) => handleShowImage(file)}
+                onImageModeChange={(mode) => artImage && handleShowImage(artImage.file, mode)}
+                onClose={() => setShowFormations(false)}
+              />
+          )}
+
+          {/* ORNAMENT MODEL PANEL */}
+          {showModels && (
+              <ModelPanel 
+                models={models}
+                isImporting={isImportingModels}
+                error={modelError}
+                onImport={handleImportModels}
+                onChange={handleModelChange}
+                onRemove={handleRemoveModel}
+                onClose={() => setShowModels(false)}
+              />
+          )}
+
+          {/* MUSIC PANEL */}
+          {showAudio && (
+              <AudioPanel 
+                trackName={audioTrack?.name ?? null}
+                isPlaying={isAudioPlaying}
+                isLoading={isLoadingTrack}
+                currentTime={audioTime.current}
+                duration={audioTime.duration}
+                sensitivity={audioSensitivity}
+                error={audioError}
+                onLoadFile={handleLoadAudioFile}
+                onLoadBuiltIn={handleLoadBuiltInTrack}
+                onTogglePlay={handleToggleAudio}
+                onSeek={handleSeekAudio}
+                onSensitivityChange={setAudioSensitivity}
+                onClose={() => setShowAudio(false)}
+              />
+          )}
+
+          {/* LANGUAGE PANEL */}
+          {showLanguages && (
+              <LanguagePanel 
+                locale={locale}
+                onSelect={handleLocaleChange}
+                onClose={() => setShowLanguages(false)}
+              />
+          )}
+
+          {/* REMOTE CONTROL (SYNC) PANEL */}
+          {showSync && (
+              <SyncPanel 
+                code={syncSession?.code ?? null}
+                link={syncLink}
+                status={syncStatus}
+                remotes={syncRemotes}
+                error={syncError}
+                onStart={handleStartSync}
+                onStop={handleStopSync}
+                onClose={() => setShowSync(false)}
+              />
+          )}
+
+          {/* SHARE PANEL */}
+          {shareUrl && (
+              <SharePanel 
+                url={shareUrl}
+                onClose={() => setShareUrl(null)}
+              />
+          )}
+
           {/* TOP RIGHT - CONTROLS */}
           {/* Force vertical column on both mobile and PC since PC is now narrow frame */}
-          <div className={`absolute top-6 right-6 z-30 pointer-events-auto flex flex-col items-end gap-4 transition-opacity duration-500 ${isSignatureOpen || isProcessing ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
+          <div className={`absolute top-6 end-6 z-30 pointer-events-auto flex flex-col items-end gap-4 transition-opacity duration-500 ${isSignatureOpen || isProcessing ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
               
               {/* 0. Developer Mode Toggle (Launch/Close) - Hidden */}
 
@@ -312,7 +1393,9 @@ const App: React.FC = () => {
               <button 
                 onClick={() => setShowCamera(prev => !prev)}
                 className={`${iconButtonClass} ${showCamera ? 'text-white border-white/60 bg-white/10' : 'text-slate-300'}`}
-                title={showCamera ? "隐藏摄像头" : "显示摄像头"}
+                title={t(showCamera ? 'toolbar.hideCamera' : 'toolbar.showCamera')}
+                aria-label={t(showCamera ? 'toolbar.hideCamera' : 'toolbar.showCamera')}
+                aria-pressed={showCamera}
               >
                   {showCamera ? (
                       // Camera On Icon (Solid)
@@ -331,7 +1414,8 @@ const App: React.FC = () => {
               <button 
                 onClick={handleUploadClick}
                 className={iconButtonClass}
-                title="上传照片"
+                title={t('toolbar.upload')}
+                aria-label={t('toolbar.upload')}
               >
                   {/* Custom Image Icon */}
                   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1024 1024" fill="currentColor" className="w-5 h-5 md:w-6 md:h-6">
@@ -339,13 +1423,170 @@ const App: React.FC = () => {
                   </svg>
               </button>
 
+              {/* 2b. Clear My Photos (only when the user has uploaded some) */}
+              {hasStoredPhotos && (
+                  <button 
+                    onClick={handleClearPhotos}
+                    className={iconButtonClass}
+                    title={t('toolbar.clearPhotos')}
+                    aria-label={t('toolbar.clearPhotos')}
+                  >
+                      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 md:w-6 md:h-6">
+                        <path fillRule="evenodd" d="M16.5 4.478v.227a48.816 48.816 0 013.878.512.75.75 0 11-.256 1.478l-.209-.035-1.005 13.07a3 3 0 01-2.991 2.77H8.084a3 3 0 01-2.991-2.77L4.087 6.66l-.209.035a.75.75 0 01-.256-1.478A48.567 48.567 0 017.5 4.705v-.227c0-1.564 1.213-2.9 2.816-2.951a52.662 52.662 0 013.369 0c1.603.051 2.815 1.387 2.815 2.951zm-6.136-1.452a51.196 51.196 0 013.273 0C14.39 3.05 15 3.684 15 4.478v.113a49.488 49.488 0 00-6 0v-.113c0-.794.609-1.428 1.364-1.452zm-.355 5.945a.75.75 0 10-1.5.058l.347 9a.75.75 0 101.499-.058l-.346-9zm5.48.058a.75.75 0 10-1.498-.058l-.347 9a.75.75 0 001.5.058l.345-9z" clipRule="evenodd" />
+                      </svg>
+                  </button>
+              )}
+
               {/* 3. Polaroid Signature - Hidden */}
 
-              {/* 4. Disperse/Assemble Toggle */}
+              {/* 4. Copy Share Link */}
+              <button 
+                onClick={handleShareClick}
+                className={`${iconButtonClass} ${shareUrl ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.share')}
+                aria-label={t('toolbar.share')}
+                aria-expanded={!!shareUrl}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 md:w-6 md:h-6">
+                    <path d="M10 13a5 5 0 007.54.54l3-3a5 5 0 00-7.07-7.07l-1.72 1.71" />
+                    <path d="M14 11a5 5 0 00-7.54-.54l-3 3a5 5 0 007.07 7.07l1.71-1.71" />
+                  </svg>
+              </button>
+
+              {/* 5. Record Clip */}
+              <button 
+                onClick={() => setShowRecorder(prev => !prev)}
+                className={`${iconButtonClass} ${showRecorder ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.record')}
+                aria-label={t('toolbar.record')}
+                aria-expanded={showRecorder}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 md:w-6 md:h-6">
+                    <path fillRule="evenodd" d="M12 2.25c-5.385 0-9.75 4.365-9.75 9.75s4.365 9.75 9.75 9.75 9.75-4.365 9.75-9.75S17.385 2.25 12 2.25zM12 16.5a4.5 4.5 0 100-9 4.5 4.5 0 000 9z" clipRule="evenodd" />
+                  </svg>
+              </button>
+
+              {/* 5b. Make a Card */}
+              <button 
+                onClick={() => setShowCard(prev => !prev)}
+                className={`${iconButtonClass} ${showCard ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.card')}
+                aria-label={t('toolbar.card')}
+                aria-expanded={showCard}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 md:w-6 md:h-6">
+                    <rect x="3" y="5" width="18" height="14" rx="2" />
+                    <path d="M3 7l9 6 9-6" />
+                  </svg>
+              </button>
+
+              {/* 5c. Countdown */}
+              <button 
+                onClick={() => setShowCountdown(prev => !prev)}
+                className={`${iconButtonClass} ${showCountdown ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.countdown')}
+                aria-label={t('toolbar.countdown')}
+                aria-expanded={showCountdown}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 md:w-6 md:h-6">
+                    <path d="M10 2h4M12 14l3-3" />
+                    <circle cx="12" cy="14" r="8" />
+                  </svg>
+              </button>
+
+              {/* 6. Theme Picker */}
+              <button 
+                onClick={() => setShowThemes(prev => !prev)}
+                className={`${iconButtonClass} ${showThemes ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.theme')}
+                aria-label={t('toolbar.theme')}
+                aria-expanded={showThemes}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 md:w-6 md:h-6">
+                    <path fillRule="evenodd" d="M2.25 4.125c0-1.036.84-1.875 1.875-1.875h5.25c1.036 0 1.875.84 1.875 1.875V17.25a4.5 4.5 0 11-9 0V4.125zm4.5 14.25a1.125 1.125 0 100-2.25 1.125 1.125 0 000 2.25z" clipRule="evenodd" />
+                    <path d="M10.719 21.75h9.156c1.036 0 1.875-.84 1.875-1.875v-5.25c0-1.036-.84-1.875-1.875-1.875h-.14l-8.742 8.743c-.09.089-.18.175-.274.257zM12.738 17.625l6.474-6.474a1.875 1.875 0 000-2.651L15.5 4.787a1.875 1.875 0 00-2.651 0l-.1.099V17.25c0 .126-.003.251-.01.375z" />
+                  </svg>
+              </button>
+
+              {/* 6b. Formation Picker */}
+              <button 
+                onClick={() => setShowFormations(prev => !prev)}
+                className={`${iconButtonClass} ${showFormations ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.formation')}
+                aria-label={t('toolbar.formation')}
+                aria-expanded={showFormations}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 md:w-6 md:h-6">
+                    <path d="M12 3l7 12H5l7-12z" />
+                    <circle cx="6" cy="19" r="2" />
+                    <circle cx="12" cy="19" r="2" />
+                    <circle cx="18" cy="19" r="2" />
+                  </svg>
+              </button>
+
+              {/* 6c. Ornament Models (.glb import) */}
+              <button 
+                onClick={() => setShowModels(prev => !prev)}
+                className={`${iconButtonClass} ${showModels ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.models')}
+                aria-label={t('toolbar.models')}
+                aria-expanded={showModels}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 md:w-6 md:h-6">
+                    <path d="M21 16V8a2 2 0 00-1-1.73l-7-4a2 2 0 00-2 0l-7 4A2 2 0 003 8v8a2 2 0 001 1.73l7 4a2 2 0 002 0l7-4A2 2 0 0021 16z" />
+                    <path d="M3.27 6.96L12 12.01l8.73-5.05M12 22.08V12" />
+                  </svg>
+              </button>
+
+              {/* 6d. Music (audio-reactive mode) */}
+              <button 
+                onClick={() => setShowAudio(prev => !prev)}
+                className={`${iconButtonClass} ${showAudio || isAudioPlaying ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.music')}
+                aria-label={t('toolbar.music')}
+                aria-expanded={showAudio}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 md:w-6 md:h-6">
+                    <path d="M9 18V5l12-2v13" />
+                    <circle cx="6" cy="18" r="3" />
+                    <circle cx="18" cy="16" r="3" />
+                  </svg>
+              </button>
+
+              {/* 6e. Remote Control (pair a phone) */}
+              <button 
+                onClick={() => setShowSync(prev => !prev)}
+                className={`${iconButtonClass} ${showSync || syncRemotes > 0 ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.remote')}
+                aria-label={t('toolbar.remote')}
+                aria-expanded={showSync}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 md:w-6 md:h-6">
+                    <rect x="7" y="2" width="10" height="20" rx="2" />
+                    <path d="M11 18h2" />
+                  </svg>
+              </button>
+
+              {/* 6f. Language */}
+              <button 
+                onClick={() => setShowLanguages(prev => !prev)}
+                className={`${iconButtonClass} ${showLanguages ? 'text-white border-white/60 bg-white/10' : ''}`}
+                title={t('toolbar.language')}
+                aria-label={t('toolbar.language')}
+                aria-expanded={showLanguages}
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" className="w-5 h-5 md:w-6 md:h-6">
+                    <circle cx="12" cy="12" r="10" />
+                    <path d="M2 12h20M12 2a15.3 15.3 0 014 10 15.3 15.3 0 01-4 10 15.3 15.3 0 01-4-10 15.3 15.3 0 014-10z" />
+                  </svg>
+              </button>
+
+              {/* 7. Disperse/Assemble Toggle */}
               <button 
                 onClick={toggleState}
                 className={iconButtonClass}
-                title={targetMix === 1 ? "散开" : "聚拢"}
+                title={t(targetMix === 1 ? 'toolbar.disperse' : 'toolbar.assemble')}
+                aria-label={t(targetMix === 1 ? 'toolbar.disperse' : 'toolbar.assemble')}
               >
                 {targetMix === 1 ? (
                     // Icon: Disperse (k.svg) - 散开
@@ -369,8 +1610,40 @@ const App: React.FC = () => {
                 </div>
           </div> */}
           
+          {/* Photos for keyboard users: hidden until focused; focusing one flies the camera to it */}
+          <nav aria-label={t('photos.nav')} data-photo-nav>
+              {photos.map((photo, i) => (
+                  <button
+                    key={i}
+                    onFocus={() => handlePhotoPreview(i)}
+                    onBlur={handlePhotoNavBlur}
+                    onClick={() => handlePhotoPick(i)}
+                    aria-label={photo.caption
+                        ? t('photos.navLabelCaption', { n: i + 1, total: photos.length, caption: photo.caption })
+                        : t('photos.navLabel', { n: i + 1, total: photos.length })}
+                    className="sr-only focus:not-sr-only focus:absolute focus:bottom-8 focus:left-1/2 focus:-translate-x-1/2 focus:z-30 focus:px-4 focus:py-2 focus:rounded-full focus:bg-black/70 focus:border focus:border-[#d4af37] focus:text-[10px] focus:uppercase focus:tracking-[0.2em] focus:text-[#d4af37] focus:font-luxury focus:outline-none"
+                  >
+                      {t('photos.navHint', { n: i + 1, total: photos.length })}
+                  </button>
+              ))}
+          </nav>
+
+          {/* Announces state changes to screen readers */}
+          <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+          {/* Music for the audio-reactive mode (source set by the handlers above) */}
+          <audio 
+            ref={audioElementRef}
+            loop
+            onPlay={() => setIsAudioPlaying(true)}
+            onPause={() => setIsAudioPlaying(false)}
+            onTimeUpdate={handleAudioTime}
+            onLoadedMetadata={handleAudioTime}
+            className="hidden"
+          />
+
           {/* Logic */}
-          <GestureController onGesture={handleGesture} isGuiVisible={showCamera} />
+          <GestureController onGesture={handleGesture} isGuiVisible={showCamera} detectionInterval={quality.detectionInterval} />
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+import React, { useRef } from 'react';
+import { t } from '../utils/i18n';
+
+interface AudioPanelProps {
+  trackName: string | null; // null before a track is loaded
+  isPlaying: boolean;
+  isLoading: boolean;
+  currentTime: number;      // Seconds
+  duration: number;         // Seconds, 0 until known
+  sensitivity: number;
+  error: string | null;
+  onLoadFile: (file: File) => void;
+  onLoadBuiltIn: () => void;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onSensitivityChange: (sensitivity: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const AudioPanel: React.FC<AudioPanelProps> = ({
+  trackName, isPlaying, isLoading, currentTime, duration, sensitivity, error,
+  onLoadFile, onLoadBuiltIn, onTogglePlay, onSeek, onSensitivityChange, onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const buttonClass = "w-full flex items-center justify-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/30 text-[10px] uppercase tracking-[0.2em] transition-all rounded-sm cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed";
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) onLoadFile(file);
+      e.target.value = '';
+  };
+
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)]">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('audio.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      <div className="space-y-4">
+        {/* Source */}
+        <div className="space-y-2">
+          <input type="file" ref={fileInputRef} onChange={handleFile} accept="audio/*" className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full py-2 rounded-sm border border-dashed border-white/20 text-[10px] uppercase tracking-[0.15em] text-slate-400 hover:border-white/40 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {t('audio.chooseFile')}
+          </button>
+          <button onClick={onLoadBuiltIn} disabled={isLoading} className={buttonClass}>
+            {t(isLoading ? 'audio.preparing' : 'audio.playBuiltIn')}
+          </button>
+        </div>
+
+        {/* Transport */}
+        {trackName && (
+          <div className="space-y-2">
+            <div className="text-[10px] text-[#d4af37] truncate" title={trackName}>♪ {trackName}</div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={onTogglePlay}
+                className="w-8 h-8 flex-shrink-0 flex items-center justify-center rounded-full border border-white/20 hover:border-[#d4af37] hover:text-[#d4af37] transition-colors"
+                title={t(isPlaying ? 'audio.pause' : 'audio.play')}
+              >
+                {isPlaying ? '❚❚' : '▶'}
+              </button>
+              <input
+                type="range"
+                min="0" max={duration || 0} step="0.1"
+                value={Math.min(currentTime, duration || 0)}
+                disabled={!duration}
+                onChange={(e) => onSeek(parseFloat(e.target.value))}
+                className="flex-1 min-w-0 h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-[#d4af37] hover:bg-white/20 transition-colors"
+              />
+            </div>
+            <div className="flex justify-between text-[9px] font-mono text-slate-500">
+              <span>{formatTime(currentTime)}</span>
+              <span>{formatTime(duration)}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Sensitivity */}
+        <div className="group">
+          <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>{t('audio.sensitivity')}</span>
+            <span className="font-mono text-[#d4af37]">{sensitivity.toFixed(1)}×</span>
+          </div>
+          <input
+            type="range"
+            min="0.3" max="3.0" step="0.1"
+            value={sensitivity}
+            onChange={(e) => onSensitivityChange(parseFloat(e.target.value))}
+            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-[#d4af37] hover:bg-white/20 transition-colors"
+          />
+        </div>
+
+        {error && (
+          <div className="text-[10px] text-red-300 leading-relaxed">{error}</div>
+        )}
+
+        <p className="text-[10px] text-slate-500 leading-relaxed">{t('audio.hint')}</p>
+      </div>
+    </div>
+  );
+};
+
+export default AudioPanel;
@@ -0,0 +1,132 @@
+import React, { useMemo, useRef, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AudioLevels } from '../types';
+import { TreeShape, DEFAULT_TREE_SHAPE } from '../utils/treeShape';
+
+const vertexShader = `
+  precision highp float;
+  uniform float uSize;
+
+  attribute float aLife;   // 1 when spawned, fades to 0
+  attribute float aRandom;
+
+  varying float vLife;
+  varying float vRandom;
+
+  void main() {
+    vLife = aLife;
+    vRandom = aRandom;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = aLife > 0.0 ? uSize * (20.0 / -mvPosition.z) * (0.5 + aLife) : 0.0;
+  }
+`;
+
+const fragmentShader = `
+  precision highp float;
+  varying float vLife;
+  varying float vRandom;
+
+  void main() {
+    float dist = length(gl_PointCoord - vec2(0.5));
+    if (dist > 0.5) discard;
+    // Warm white to gold, bright enough to bloom
+    vec3 color = mix(vec3(1.0, 0.97, 0.85), vec3(1.0, 0.8, 0.35), vRandom) * 2.5;
+    float alpha = (1.0 - smoothstep(0.1, 0.5, dist)) * vLife;
+    gl_FragColor = vec4(color, alpha);
+  }
+`;
+
+interface BeatSparklesProps {
+  audio?: AudioLevels;
+  shape?: TreeShape;
+  size?: number;
+}
+
+const POOL = 480;           // Particles shared by all live bursts
+const BURST = 60;           // Particles per beat
+const LIFETIME = 1.1;       // Seconds
+const DRAG = 2.5;           // Per second
+
+// Sparkle bursts on the music's beats: each beat throws a handful of sparks off the tree surface
+const BeatSparkles: React.FC<BeatSparklesProps> = ({ audio, shape = DEFAULT_TREE_SHAPE, size = 6 }) => {
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const lastBeat = useRef(audio?.beat ?? 0);
+  const cursor = useRef(0); // Next pool slot, oldest sparks are reused first
+  const alive = useRef(0);  // Sparks still fading, so idle frames skip the upload
+
+  const { positions, velocities, lives, randoms } = useMemo(() => ({
+      positions: new Float32Array(POOL * 3),
+      velocities: new Float32Array(POOL * 3),
+      lives: new Float32Array(POOL),
+      randoms: Float32Array.from({ length: POOL }, () => Math.random()),
+  }), []);
+  const point = useMemo(() => new THREE.Vector3(), []);
+  const normal = useMemo(() => new THREE.Vector3(), []);
+
+  // A new analysis starts counting beats from 0 again
+  useEffect(() => {
+      lastBeat.current = audio?.beat ?? 0;
+  }, [audio]);
+
+  const uniforms = useMemo(() => ({ uSize: { value: size } }), []);
+
+  useFrame((state, delta) => {
+      const geometry = geometryRef.current;
+      if (!geometry) return;
+      uniforms.uSize.value = size;
+
+      if (audio && audio.beat !== lastBeat.current) {
+          lastBeat.current = audio.beat;
+          const strength = 3 + audio.bass * 5;
+          for (let n = 0; n < BURST; n++) {
+              const i = cursor.current;
+              cursor.current = (cursor.current + 1) % POOL;
+              const v = Math.pow(Math.random(), 0.8);
+              const angle = Math.random() * Math.PI * 2;
+              shape.sample(v, angle, point).toArray(positions, i * 3);
+              shape.normal(v, angle, normal).multiplyScalar(strength * (0.5 + Math.random())).toArray(velocities, i * 3);
+              velocities[i * 3 + 1] += Math.random() * 2;
+              lives[i] = 1;
+          }
+          alive.current = LIFETIME;
+      }
+
+      if (alive.current <= 0) return;
+      alive.current -= delta;
+
+      const drag = Math.max(0, 1 - DRAG * delta);
+      for (let i = 0; i < POOL; i++) {
+          if (lives[i] <= 0) continue;
+          lives[i] = Math.max(0, lives[i] - delta / LIFETIME);
+          for (let k = i * 3; k < i * 3 + 3; k++) {
+              velocities[k] *= drag;
+              positions[k] += velocities[k] * delta;
+          }
+      }
+      geometry.attributes.position.needsUpdate = true;
+      geometry.attributes.aLife.needsUpdate = true;
+  });
+
+  return (
+    <points frustumCulled={false}>
+      <bufferGeometry ref={geometryRef}>
+        <bufferAttribute attach="attributes-position" count={POOL} array={positions} itemSize={3} />
+        <bufferAttribute attach="attributes-aLife" count={POOL} array={lives} itemSize={1} />
+        <bufferAttribute attach="attributes-aRandom" count={POOL} array={randoms} itemSize={1} />
+      </bufferGeometry>
+      <shaderMaterial
+        vertexShader={vertexShader}
+        fragmentShader={fragmentShader}
+        uniforms={uniforms}
+        transparent
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+        toneMapped={false}
+      />
+    </points>
+  );
+};
+
+export default BeatSparkles;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { CardTemplateId, CardSizeId, CARD_TEMPLATE_IDS, CARD_SIZES, CARD_SIZE_IDS } from '../utils/cardComposer';
+import { MAX_CAPTION_LENGTH } from '../utils/defaults';
+import { t } from '../utils/i18n';
+
+interface CardPanelProps {
+  signature: string; // From the polaroid modal; edits here only change the card
+  isRendering: boolean;
+  card: { pngUrl: string, pdfUrl: string } | null;
+  error: string | null;
+  onMake: (templateId: CardTemplateId, sizeId: CardSizeId, signature: string) => void;
+  onClose: () => void;
+}
+
+const CardPanel: React.FC<CardPanelProps> = ({ signature: initialSignature, isRendering, card, error, onMake, onClose }) => {
+  const [templateId, setTemplateId] = useState<CardTemplateId>('STARRY');
+  const [sizeId, setSizeId] = useState<CardSizeId>('PRINT');
+  const [signature, setSignature] = useState(initialSignature);
+
+  const buttonClass = "w-full flex items-center justify-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/30 text-[10px] uppercase tracking-[0.2em] transition-all rounded-sm cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed";
+  const downloadClass = "flex-1 flex items-center justify-center px-2 py-2 bg-[#d4af37]/10 hover:bg-[#d4af37]/20 border border-[#d4af37]/40 hover:border-[#d4af37]/70 text-[#d4af37] text-[10px] uppercase tracking-[0.15em] transition-all rounded-sm";
+
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)]">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('card.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      <div className="space-y-4">
+        {/* Template */}
+        <div>
+          <div className="text-[10px] mb-2 uppercase tracking-wider text-slate-400">{t('card.template')}</div>
+          <div className="flex gap-2">
+            {CARD_TEMPLATE_IDS.map(id => (
+                <button
+                  key={id}
+                  disabled={isRendering}
+                  onClick={() => setTemplateId(id)}
+                  aria-pressed={templateId === id}
+                  className={`flex-1 py-1 rounded-sm border text-[10px] transition-colors ${templateId === id ? 'border-[#d4af37] text-[#d4af37]' : 'border-white/10 text-slate-400 hover:border-white/30'}`}
+                >
+                  {t(`cardTemplate.${id}`)}
+                </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Size */}
+        <div>
+          <div className="text-[10px] mb-2 uppercase tracking-wider text-slate-400">{t('card.size')}</div>
+          <div className="space-y-1">
+            {CARD_SIZE_IDS.map(id => (
+                <button
+                  key={id}
+                  disabled={isRendering}
+                  onClick={() => setSizeId(id)}
+                  aria-pressed={sizeId === id}
+                  className={`w-full flex justify-between px-2 py-1 rounded-sm border text-[10px] transition-colors ${sizeId === id ? 'border-[#d4af37] text-[#d4af37]' : 'border-white/10 text-slate-400 hover:border-white/30'}`}
+                >
+                  <span>{CARD_SIZES[id].label}</span>
+                  <span className="font-mono" dir="ltr">{CARD_SIZES[id].width}×{CARD_SIZES[id].height}</span>
+                </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Signature */}
+        <div>
+          <div className="text-[10px] mb-2 uppercase tracking-wider text-slate-400">{t('card.signature')}</div>
+          <input
+            type="text"
+            value={signature}
+            maxLength={MAX_CAPTION_LENGTH}
+            disabled={isRendering}
+            placeholder={t('photo.signPlaceholder')}
+            onChange={(e) => setSignature(e.target.value)}
+            className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 font-script text-xl text-[#f3e5ab] placeholder:text-slate-500 focus:outline-none focus:border-[#d4af37] transition-colors text-center"
+          />
+        </div>
+
+        {error && (
+          <div className="text-[10px] text-red-300 leading-relaxed">{error}</div>
+        )}
+
+        <button onClick={() => onMake(templateId, sizeId, signature)} disabled={isRendering} className={buttonClass}>
+          {isRendering ? <span className="animate-pulse">{t('card.rendering')}</span> : t('card.render')}
+        </button>
+
+        {card && !isRendering && (
+          <div className="space-y-3">
+            <img src={card.pngUrl} alt={t('card.previewAlt')} className="w-full rounded-sm border border-white/10" />
+            <div className="flex gap-2">
+              <a href={card.pngUrl} download="christmas-card.png" className={downloadClass}>{t('card.downloadPng')}</a>
+              <a href={card.pdfUrl} download="christmas-card.pdf" className={downloadClass}>{t('card.downloadPdf')}</a>
+            </div>
+          </div>
+        )}
+
+        <p className="text-[9px] leading-relaxed text-slate-500">{t('card.hint')}</p>
+      </div>
+    </div>
+  );
+};
+
+export default CardPanel;
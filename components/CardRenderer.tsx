@@ -0,0 +1,240 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { CardRequest } from '../types';
+
+interface CardRendererProps {
+  request: CardRequest | null;
+  onComplete: (render: HTMLCanvasElement | null) => void;
+}
+
+const TILE_SIZE = 1024;
+
+// Point sprites (foliage, snow, sparkles, fireworks) are sized in screen pixels through a uSize uniform;
+// scale them with the output so the print keeps the look of the live view. Returns the undo.
+const scalePointSizes = (scene: THREE.Scene, scale: number) => {
+  const uniforms = new Set<THREE.IUniform>();
+  scene.traverse(obj => {
+    const material = (obj as THREE.Points).material;
+    if (obj instanceof THREE.Points && material instanceof THREE.ShaderMaterial && material.uniforms.uSize) {
+      uniforms.add(material.uniforms.uSize);
+    }
+  });
+  uniforms.forEach(uniform => { uniform.value *= scale; });
+  return () => uniforms.forEach(uniform => { uniform.value /= scale; });
+};
+
+// Stands in for the bloom: a blurred copy of the highlights added back on top.
+// Done on the whole picture, since a bloom pass per tile would leave seams.
+const addGlow = (canvas: HTMLCanvasElement, strength: number) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || strength <= 0) return;
+
+  [8, 32].forEach(divisor => {
+    const small = document.createElement('canvas');
+    small.width = Math.max(1, Math.round(canvas.width / divisor));
+    small.height = Math.max(1, Math.round(canvas.height / divisor));
+    const smallCtx = small.getContext('2d');
+    if (!smallCtx) return;
+
+    smallCtx.imageSmoothingQuality = 'high';
+    smallCtx.drawImage(canvas, 0, 0, small.width, small.height);
+    // Multiplying by itself twice leaves only the bright lights
+    smallCtx.globalCompositeOperation = 'multiply';
+    smallCtx.drawImage(small, 0, 0);
+    smallCtx.drawImage(small, 0, 0);
+
+    ctx.save();
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.globalAlpha = Math.min(1, strength * 0.35);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(small, 0, 0, canvas.width, canvas.height);
+    ctx.restore();
+  });
+};
+
+// One print render in progress. Tiles are drawn a couple per frame so the live view keeps running;
+// the camera is frozen when the job starts, so moving the view meanwhile doesn't shift later tiles.
+interface TileJob {
+  request: CardRequest;
+  output: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  camera: THREE.PerspectiveCamera;
+  tile: number;
+  columns: number;
+  next: number; // Index of the next tile, row by row
+  count: number;
+  pointScale: number;
+  sceneTarget: THREE.WebGLRenderTarget;
+  outputTarget: THREE.WebGLRenderTarget;
+  outputPass: OutputPass;
+  pixels: Uint8Array;
+}
+
+// At two tiles per frame even the 5×7″ print (15 tiles) is done in eight frames, too quick for the
+// scene's own motion to show at the seams
+const TILES_PER_FRAME = 2;
+
+const startJob = (
+  gl: THREE.WebGLRenderer,
+  liveCamera: THREE.PerspectiveCamera,
+  request: CardRequest,
+  livePixelHeight: number
+): TileJob | null => {
+  const { width, height } = request;
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+  if (!ctx) return null;
+
+  const tile = Math.min(TILE_SIZE, gl.capabilities.maxTextureSize);
+  const camera = liveCamera.clone();
+  camera.aspect = width / height;
+  const columns = Math.ceil(width / tile);
+
+  return {
+    request,
+    output,
+    ctx,
+    camera,
+    tile,
+    columns,
+    next: 0,
+    count: columns * Math.ceil(height / tile),
+    pointScale: height / livePixelHeight,
+    // Scene in linear HDR, then tone mapping and sRGB as in the live output
+    sceneTarget: new THREE.WebGLRenderTarget(tile, tile, {
+      type: THREE.HalfFloatType,
+      samples: gl.capabilities.isWebGL2 ? 4 : 0
+    }),
+    outputTarget: new THREE.WebGLRenderTarget(tile, tile),
+    outputPass: new OutputPass(),
+    pixels: new Uint8Array(tile * tile * 4),
+  };
+};
+
+const disposeJob = (job: TileJob) => {
+  job.sceneTarget.dispose();
+  job.outputTarget.dispose();
+  job.outputPass.dispose();
+};
+
+// Renders the job's next tiles into its canvas, between two live renders. Everything the live frame
+// relies on (point sizes, render target, clear color) is put back before returning.
+const renderTiles = (gl: THREE.WebGLRenderer, scene: THREE.Scene, job: TileJob, count: number) => {
+  const { width, height } = job.request;
+  const { tile, camera, sceneTarget, outputTarget, pixels, ctx } = job;
+
+  const previousTarget = gl.getRenderTarget();
+  const previousClearColor = gl.getClearColor(new THREE.Color());
+  const previousClearAlpha = gl.getClearAlpha();
+  const restorePointSizes = scalePointSizes(scene, job.pointScale);
+
+  try {
+    gl.setClearColor(job.request.background, 1);
+    for (const end = Math.min(job.count, job.next + count); job.next < end; job.next++) {
+      const x = (job.next % job.columns) * tile;
+      const y = Math.floor(job.next / job.columns) * tile;
+      const w = Math.min(tile, width - x);
+      const h = Math.min(tile, height - y);
+      sceneTarget.setSize(w, h);
+      outputTarget.setSize(w, h);
+      camera.setViewOffset(width, height, x, y, w, h);
+
+      gl.setRenderTarget(sceneTarget);
+      gl.clear();
+      gl.render(scene, camera);
+      job.outputPass.render(gl, outputTarget, sceneTarget, 0, false);
+      gl.readRenderTargetPixels(outputTarget, 0, 0, w, h, pixels);
+
+      // WebGL rows run bottom-up; the card is opaque whatever the blending left in alpha
+      const image = ctx.createImageData(w, h);
+      for (let row = 0; row < h; row++) {
+        image.data.set(pixels.subarray((h - 1 - row) * w * 4, (h - row) * w * 4), row * w * 4);
+      }
+      for (let i = 3; i < image.data.length; i += 4) image.data[i] = 255;
+      ctx.putImageData(image, x, y);
+    }
+  } finally {
+    restorePointSizes();
+    gl.setRenderTarget(previousTarget);
+    gl.setClearColor(previousClearColor, previousClearAlpha);
+  }
+};
+
+// Print-resolution still of the scene for the card composer (see utils/cardComposer).
+// Must live inside the Canvas: it renders with the live scene and camera, so the card shows what is on screen.
+const CardRenderer: React.FC<CardRendererProps> = ({ request, onComplete }) => {
+  const { gl, scene, camera, size } = useThree();
+  const pending = useRef<CardRequest | null>(null);
+  const job = useRef<TileJob | null>(null);
+  const finishTimer = useRef<number | null>(null);
+
+  const callbacks = useRef({ onComplete });
+  useEffect(() => {
+    callbacks.current = { onComplete };
+  }, [onComplete]);
+
+  // A new request replaces whatever was in progress; unmounting drops it
+  const cancel = () => {
+    if (job.current) disposeJob(job.current);
+    job.current = null;
+    if (finishTimer.current !== null) window.clearTimeout(finishTimer.current);
+    finishTimer.current = null;
+  };
+
+  useEffect(() => {
+    cancel();
+    pending.current = request;
+  }, [request?.id]);
+
+  useEffect(() => cancel, []);
+
+  const fail = (err: unknown) => {
+    console.warn('Card render failed:', err);
+    cancel();
+    callbacks.current.onComplete(null);
+  };
+
+  // Default priority: runs before the EffectComposer (priority 1), which then draws the live frame as usual
+  useFrame(() => {
+    if (pending.current) {
+      const request = pending.current;
+      pending.current = null;
+      try {
+        job.current = startJob(gl, camera as THREE.PerspectiveCamera, request, size.height * gl.getPixelRatio());
+      } catch (err) {
+        return fail(err);
+      }
+      if (!job.current) return callbacks.current.onComplete(null);
+    }
+
+    const current = job.current;
+    if (!current) return;
+    try {
+      renderTiles(gl, scene, current, TILES_PER_FRAME);
+    } catch (err) {
+      return fail(err);
+    }
+    if (current.next < current.count) return;
+
+    // The glow works on the whole canvas and takes a while at print size: do it after this frame
+    disposeJob(current);
+    job.current = null;
+    finishTimer.current = window.setTimeout(() => {
+      finishTimer.current = null;
+      try {
+        addGlow(current.output, current.request.glow);
+      } catch (err) {
+        return fail(err);
+      }
+      callbacks.current.onComplete(current.output);
+    });
+  });
+
+  return null;
+};
+
+export default CardRenderer;
@@ -0,0 +1,269 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CameraDirection, ClipFailure, ClipRequest, ClipScript } from '../types';
+
+interface ClipRecorderProps {
+  request: ClipRequest | null;
+  directorRef: React.MutableRefObject<CameraDirection | null>;
+  groupRef: React.RefObject<THREE.Group>;
+  // The HTML title, drawn into every frame at the same place it sits on screen
+  overlayRef?: React.RefObject<HTMLElement>;
+  mix: number; // The user's mix, put back when the recording ends or is cancelled
+  onMixChange: (mix: number) => void;
+  onProgress: (progress: number) => void;
+  onComplete: (clip: Blob | null, failure: ClipFailure | null) => void;
+}
+
+const FPS = 30;
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const pickMimeType = () => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+// --- Preset Scripts ---
+// Each script maps normalized progress (0 -> 1) to a camera direction and a target mix.
+
+interface ScriptContext {
+  photo: THREE.Object3D | null;
+  duration: number;
+}
+
+const ORIGIN = new THREE.Vector3(0, 0, 0);
+
+const runScript = (
+  script: ClipScript,
+  t: number,
+  ctx: ScriptContext,
+  direction: CameraDirection
+): number => {
+  switch (script) {
+    case 'DISPERSE_ASSEMBLE':
+      // Formed -> scatter -> hold -> fly back together
+      direction.position = null;
+      direction.lookAt.copy(ORIGIN);
+      direction.spinSpeed = 0.25;
+      return t > 0.12 && t < 0.5 ? 0 : 1;
+
+    case 'PHOTO_ZOOM': {
+      direction.spinSpeed = t < 0.2 ? 0.3 : 0;
+      direction.lookAt.copy(ORIGIN);
+      direction.position = null;
+
+      // 20%-85%: push in on the chosen polaroid, then return to the orbit
+      if (ctx.photo && t >= 0.2 && t < 0.85) {
+        const photoPos = ctx.photo.getWorldPosition(new THREE.Vector3());
+        const outward = new THREE.Vector3(photoPos.x, 0, photoPos.z).normalize();
+        const zoomIn = THREE.MathUtils.smoothstep(t, 0.2, 0.45);
+        direction.lookAt.lerpVectors(ORIGIN, photoPos, zoomIn);
+        direction.position = photoPos.clone().addScaledVector(outward, THREE.MathUtils.lerp(20, 5, zoomIn));
+      }
+      return 1;
+    }
+
+    case 'SPIN':
+    default:
+      // One full turn over the clip
+      direction.position = null;
+      direction.lookAt.copy(ORIGIN);
+      direction.spinSpeed = Math.PI * 2 / ctx.duration;
+      return 1;
+  }
+};
+
+// Polaroids tag themselves with userData.isPhoto; pick the one facing the camera the most
+const findFrontPhoto = (root: THREE.Object3D, camera: THREE.Camera): THREE.Object3D | null => {
+  let best: THREE.Object3D | null = null;
+  let bestDist = Infinity;
+  const pos = new THREE.Vector3();
+  root.traverse(obj => {
+    if (!obj.userData.isPhoto) return;
+    const dist = obj.getWorldPosition(pos).distanceTo(camera.position);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = obj;
+    }
+  });
+  return best;
+};
+
+// --- Title Compositing ---
+
+const drawOverlay = (ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, overlay: HTMLElement | null | undefined) => {
+  if (!overlay || !overlay.textContent) return;
+
+  const canvasRect = source.getBoundingClientRect();
+  const rect = overlay.getBoundingClientRect();
+  if (canvasRect.width === 0) return;
+
+  const scale = ctx.canvas.width / canvasRect.width;
+  const style = window.getComputedStyle(overlay);
+  const fontSize = parseFloat(style.fontSize) * scale;
+  const x = (rect.left + rect.width / 2 - canvasRect.left) * scale;
+  const y = (rect.top + rect.height / 2 - canvasRect.top) * scale;
+
+  ctx.save();
+  ctx.font = `${style.fontWeight} ${fontSize}px ${style.fontFamily}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Same silver gradient + glow as the on-screen title
+  const gradient = ctx.createLinearGradient(0, y - fontSize / 2, 0, y + fontSize / 2);
+  gradient.addColorStop(0.2, '#ffffff');
+  gradient.addColorStop(0.5, '#e8e8e8');
+  gradient.addColorStop(0.9, '#b0b0b0');
+  ctx.fillStyle = gradient;
+  ctx.shadowColor = 'rgba(255,255,255,0.4)';
+  ctx.shadowBlur = 20 * scale;
+  ctx.fillText(overlay.textContent, x, y, ctx.canvas.width * 0.95);
+  ctx.restore();
+};
+
+// Records the final (post-processed) canvas plus title into a WebM clip while driving a preset script.
+// Must live inside the Canvas: it copies each frame right after the EffectComposer has rendered.
+const ClipRecorder: React.FC<ClipRecorderProps> = ({ request, directorRef, groupRef, overlayRef, mix, onMixChange, onProgress, onComplete }) => {
+  const { gl, camera } = useThree();
+
+  const frameCanvas = useMemo(() => document.createElement('canvas'), []);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startTime = useRef(0);
+  const lastMix = useRef(1);
+  const userMix = useRef(mix);
+  const savedMix = useRef<number | null>(null); // Set while a script drives the mix
+  const lastProgress = useRef(0);
+  const scriptContext = useRef<ScriptContext>({ photo: null, duration: 1 });
+
+  const callbacks = useRef({ onMixChange, onProgress, onComplete });
+  useEffect(() => {
+    callbacks.current = { onMixChange, onProgress, onComplete };
+  }, [onMixChange, onProgress, onComplete]);
+
+  useEffect(() => {
+    if (savedMix.current === null) userMix.current = mix;
+  }, [mix]);
+
+  const restoreMix = () => {
+    if (savedMix.current === null) return;
+    if (lastMix.current !== savedMix.current) callbacks.current.onMixChange(savedMix.current);
+    savedMix.current = null;
+  };
+
+  useEffect(() => {
+    if (!request) return;
+
+    const mimeType = pickMimeType();
+    if (!mimeType || !frameCanvas.captureStream) {
+      console.warn('MediaRecorder/WebM is not supported in this browser');
+      callbacks.current.onComplete(null, 'UNSUPPORTED');
+      return;
+    }
+
+    frameCanvas.width = gl.domElement.width;
+    frameCanvas.height = gl.domElement.height;
+
+    const chunks: Blob[] = [];
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(frameCanvas.captureStream(FPS), {
+        mimeType,
+        videoBitsPerSecond: 8_000_000
+      });
+    } catch (err) {
+      console.warn('Failed to start recording:', err);
+      callbacks.current.onComplete(null, 'FAILED');
+      return;
+    }
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    // An error stops the recorder too; the partial clip is dropped in onstop
+    let failed = false;
+    recorder.onerror = (e) => {
+      console.warn('Recording error:', e);
+      failed = true;
+    };
+    recorder.onstop = () => {
+      if (recorderRef.current === recorder) {
+        // Stopped by an error rather than the end of the script
+        recorderRef.current = null;
+        directorRef.current = null;
+        restoreMix();
+      }
+      if (failed || !chunks.length) callbacks.current.onComplete(null, 'FAILED');
+      else callbacks.current.onComplete(new Blob(chunks, { type: 'video/webm' }), null);
+    };
+
+    scriptContext.current = {
+      photo: groupRef.current ? findFrontPhoto(groupRef.current, camera) : null,
+      duration: request.duration
+    };
+    directorRef.current = { position: null, lookAt: new THREE.Vector3(), spinSpeed: 0 };
+    startTime.current = performance.now();
+    lastMix.current = -1;
+    savedMix.current = userMix.current;
+    lastProgress.current = 0;
+    recorderRef.current = recorder;
+    try {
+      recorder.start(1000);
+    } catch (err) {
+      console.warn('Failed to start recording:', err);
+      recorderRef.current = null;
+      directorRef.current = null;
+      restoreMix();
+      callbacks.current.onComplete(null, 'FAILED');
+      return;
+    }
+
+    return () => {
+      // Cancelled (unmount or new request) - drop the partial clip
+      if (recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      recorderRef.current = null;
+      directorRef.current = null;
+      restoreMix();
+    };
+  }, [request?.id]);
+
+  // Priority 2: runs after the EffectComposer (priority 1) has drawn the frame
+  useFrame(() => {
+    const recorder = recorderRef.current;
+    if (!request || !recorder || recorder.state !== 'recording' || !directorRef.current) return;
+
+    const progress = Math.min((performance.now() - startTime.current) / (request.duration * 1000), 1);
+
+    // Drive the scene for the next frame
+    const scriptMix = runScript(request.script, progress, scriptContext.current, directorRef.current);
+    if (scriptMix !== lastMix.current) {
+      lastMix.current = scriptMix;
+      callbacks.current.onMixChange(scriptMix);
+    }
+
+    // Copy the rendered frame and composite the title on top
+    const ctx = frameCanvas.getContext('2d');
+    if (ctx) {
+      ctx.drawImage(gl.domElement, 0, 0, frameCanvas.width, frameCanvas.height);
+      drawOverlay(ctx, gl.domElement, overlayRef?.current);
+    }
+
+    // Throttle progress updates so the UI doesn't re-render every frame
+    if (progress - lastProgress.current >= 0.02 || progress >= 1) {
+      lastProgress.current = progress;
+      callbacks.current.onProgress(progress);
+    }
+
+    if (progress >= 1) {
+      recorder.stop();
+      recorderRef.current = null;
+      directorRef.current = null;
+      restoreMix();
+    }
+  }, 2);
+
+  return null;
+};
+
+export default ClipRecorder;
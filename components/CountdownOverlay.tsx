@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CountdownMode, getCountdownTarget, splitRemaining } from '../utils/countdown';
+import { t } from '../utils/i18n';
+
+interface CountdownOverlayProps {
+  mode: CountdownMode;
+  date: string;     // Custom target, 'YYYY-MM-DDTHH:mm'
+  timeZone: string; // '' = the device's zone
+  onZero: () => void; // Fired once when a running countdown reaches zero
+}
+
+const TICK_MS = 250;
+const FINAL_SECONDS = 10; // The last seconds take over the screen
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Days/hours/minutes/seconds to the target along the bottom of the screen, a big pulsing number for the
+// final seconds, and the greeting while the moment is being celebrated
+const CountdownOverlay: React.FC<CountdownOverlayProps> = ({ mode, date, timeZone, onZero }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const target = getCountdownTarget(mode, date, timeZone, now);
+  const remaining = target === null ? null : target - now;
+
+  useEffect(() => {
+      const timer = window.setInterval(() => setNow(Date.now()), TICK_MS);
+      return () => window.clearInterval(timer);
+  }, []);
+
+  // Only a countdown seen running fires, so opening the page mid-celebration doesn't launch it again
+  const lastRemaining = useRef<number | null>(null);
+  const onZeroRef = useRef(onZero);
+  onZeroRef.current = onZero;
+  useEffect(() => {
+      if (remaining !== null && remaining <= 0 && lastRemaining.current !== null && lastRemaining.current > 0) {
+          onZeroRef.current();
+      }
+      lastRemaining.current = remaining;
+  }, [remaining]);
+
+  if (remaining === null) return null;
+
+  if (remaining <= 0) {
+      return (
+        <div className="absolute inset-x-0 bottom-16 z-20 flex justify-center pointer-events-none animate-in fade-in zoom-in-95 duration-1000">
+          <div className="font-luxury text-3xl md:text-5xl tracking-[0.15em] text-[#d4af37] drop-shadow-[0_0_25px_rgba(212,175,55,0.8)]">
+            {mode !== 'OFF' && t(`countdown.greeting.${mode}`)}
+          </div>
+        </div>
+      );
+  }
+
+  const { days, hours, minutes, seconds } = splitRemaining(remaining);
+
+  if (remaining <= FINAL_SECONDS * 1000) {
+      return (
+        <div className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none">
+          <div
+            key={seconds}
+            className="font-luxury text-[9rem] md:text-[14rem] leading-none text-white/90 drop-shadow-[0_0_40px_rgba(212,175,55,0.9)] animate-in zoom-in-150 fade-in duration-500"
+          >
+            {seconds}
+          </div>
+        </div>
+      );
+  }
+
+  const units = [
+      { value: days, label: t('countdown.days'), padded: false },
+      { value: hours, label: t('countdown.hours'), padded: true },
+      { value: minutes, label: t('countdown.minutes'), padded: true },
+      { value: seconds, label: t('countdown.seconds'), padded: true },
+  ];
+
+  return (
+    <div className="absolute inset-x-0 bottom-8 z-20 flex flex-col items-center gap-2 pointer-events-none">
+      <div className="text-[10px] uppercase tracking-[0.4em] text-slate-400 font-luxury">{mode !== 'OFF' && t('countdown.until', { event: t(`countdown.event.${mode}`) })}</div>
+      <div className="flex items-start gap-3 md:gap-5 px-5 py-3 rounded-xl bg-black/40 backdrop-blur-md border border-white/10">
+        {units.map(({ value, label, padded }) => (
+          <div key={label} className="flex flex-col items-center min-w-[3rem]">
+            <span className="font-luxury text-3xl md:text-4xl text-[#d4af37] tabular-nums">{padded ? pad(value) : value}</span>
+            <span className="text-[9px] uppercase tracking-[0.25em] text-slate-500">{label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CountdownOverlay;
@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { COUNTDOWN_MODES, CountdownMode, isTimeZone, getTimeZoneNames } from '../utils/countdown';
+import { t } from '../utils/i18n';
+
+interface CountdownPanelProps {
+  mode: CountdownMode;
+  date: string;     // datetime-local value, CUSTOM only
+  timeZone: string; // '' = the device's zone
+  onModeChange: (mode: CountdownMode) => void;
+  onDateChange: (date: string) => void;
+  onTimeZoneChange: (timeZone: string) => void;
+  onCelebrate: () => void; // Runs the celebration now, to see it without waiting
+  onClose: () => void;
+}
+
+// Countdown to Christmas, New Year or a custom date, in a chosen time zone
+const CountdownPanel: React.FC<CountdownPanelProps> = ({
+  mode, date, timeZone, onModeChange, onDateChange, onTimeZoneChange, onCelebrate, onClose
+}) => {
+  // Zone typed in the box; only applied once it names a real zone
+  const [zoneDraft, setZoneDraft] = useState(timeZone);
+  const timeZones = useMemo(getTimeZoneNames, []);
+  const handleZoneChange = (value: string) => {
+    setZoneDraft(value);
+    if (isTimeZone(value.trim())) onTimeZoneChange(value.trim());
+  };
+
+  const inputClass = "w-full bg-white/5 border rounded-sm px-2 py-1 text-[10px] text-slate-300 focus:outline-none transition-colors";
+
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)]">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('countdown.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      <div className="space-y-2">
+        {COUNTDOWN_MODES.map(id => (
+            <button
+              key={id}
+              onClick={() => onModeChange(id)}
+              aria-pressed={mode === id}
+              className={`w-full px-3 py-2 rounded-sm border text-start text-[10px] uppercase tracking-[0.15em] transition-colors ${mode === id ? 'border-[#d4af37] text-[#d4af37] bg-white/5' : 'border-white/10 text-slate-400 hover:border-white/30 hover:text-white'}`}
+            >
+              {t(`countdown.mode.${id}`)}
+            </button>
+        ))}
+      </div>
+
+      {mode !== 'OFF' && (
+        <div className="mt-4 pt-4 border-t border-white/10 space-y-3">
+          {mode === 'CUSTOM' && (
+            <label className="block">
+              <div className="text-[10px] mb-2 uppercase tracking-wider text-slate-400">{t('countdown.date')}</div>
+              <input
+                type="datetime-local"
+                value={date}
+                onChange={(e) => onDateChange(e.target.value)}
+                className={`${inputClass} border-white/10 focus:border-[#d4af37] [color-scheme:dark]`}
+              />
+            </label>
+          )}
+          <label className="block">
+            <div className="text-[10px] mb-2 uppercase tracking-wider text-slate-400">{t('countdown.zone')}</div>
+            <input
+              type="text"
+              list="countdown-zones"
+              value={zoneDraft}
+              placeholder={t('countdown.zonePlaceholder')}
+              onChange={(e) => handleZoneChange(e.target.value)}
+              dir="ltr"
+              className={`${inputClass} ${isTimeZone(zoneDraft.trim()) ? 'border-white/10 focus:border-[#d4af37]' : 'border-red-400/60'}`}
+            />
+            <datalist id="countdown-zones">
+              {timeZones.map(zone => <option key={zone} value={zone} />)}
+            </datalist>
+          </label>
+        </div>
+      )}
+
+      <button
+        onClick={onCelebrate}
+        className="mt-4 w-full py-2 rounded-sm border border-white/20 text-[10px] uppercase tracking-[0.15em] text-slate-300 hover:border-[#d4af37] hover:text-[#d4af37] transition-colors"
+      >
+        {t('countdown.celebrateNow')}
+      </button>
+      <p className="mt-3 text-[10px] text-slate-500 leading-relaxed">{t('countdown.hint')}</p>
+    </div>
+  );
+};
+
+export default CountdownPanel;
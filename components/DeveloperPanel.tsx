@@ -1,31 +1,18 @@
 
 import React from 'react';
+import { SceneConfig } from '../utils/defaults';
+import { TREE_SHAPES } from '../utils/treeShape';
+import { LIGHT_PROGRAMS } from '../utils/lightPatterns';
+import { QUALITY_TIERS, QUALITY_TIER_IDS } from '../utils/quality';
+import { QualityTierId } from '../types';
+import { t } from '../utils/i18n';
 
 interface DeveloperPanelProps {
-  config: {
-    snowSize: number;
-    snowCount: number;
-    foliageSize: number;
-    foliageCount: number;
-    photoScale: number;
-    ballScale: number;
-    ballVariance: number;
-    starScale: number;
-    titleText: string;
-    titleFont: string;
-  };
-  setConfig: React.Dispatch<React.SetStateAction<{
-    snowSize: number;
-    snowCount: number;
-    foliageSize: number;
-    foliageCount: number;
-    photoScale: number;
-    ballScale: number;
-    ballVariance: number;
-    starScale: number;
-    titleText: string;
-    titleFont: string;
-  }>>;
+  config: SceneConfig;
+  setConfig: React.Dispatch<React.SetStateAction<SceneConfig>>;
+  qualityTier: QualityTierId;         // Tier in use
+  pinnedTier: QualityTierId | null;   // null = stepped automatically from the frame rate
+  onPinTier: (tier: QualityTierId | null) => void;
   onClose: () => void;
 }
 
@@ -37,19 +24,19 @@ const FONT_OPTIONS = [
     { label: "Playfair Display", value: "font-body" },
 ];
 
-const DeveloperPanel: React.FC<DeveloperPanelProps> = ({ config, setConfig, onClose }) => {
-  const handleChange = (key: keyof typeof config, value: number | string) => {
+const DeveloperPanel: React.FC<DeveloperPanelProps> = ({ config, setConfig, qualityTier, pinnedTier, onPinTier, onClose }) => {
+  const handleChange = (key: keyof typeof config, value: number | string | boolean) => {
     setConfig(prev => ({ ...prev, [key]: value }));
   };
 
   return (
-    <div className="absolute top-20 right-6 md:right-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)] max-h-[80vh] overflow-y-auto custom-scrollbar">
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)] max-h-[80vh] overflow-y-auto custom-scrollbar">
       <div className="flex justify-between items-center mb-6 border-b border-white/10 pb-3">
         <div className="flex items-center gap-2">
             <span className="text-[#d4af37]">🛠</span>
             <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">Developer Mode</h3>
         </div>
-        <button onClick={onClose} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+        <button onClick={onClose} aria-label="Close" className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
       </div>
 
       <div className="space-y-6">
@@ -62,6 +49,7 @@ const DeveloperPanel: React.FC<DeveloperPanelProps> = ({ config, setConfig, onCl
             type="text" 
             value={config.titleText}
             onChange={(e) => handleChange('titleText', e.target.value)}
+            placeholder={t('title.default')}
             maxLength={25}
             className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[11px] text-[#d4af37] font-script focus:outline-none focus:border-[#d4af37] transition-colors text-center"
           />
@@ -85,6 +73,56 @@ const DeveloperPanel: React.FC<DeveloperPanelProps> = ({ config, setConfig, onCl
 
         <div className="w-full h-px bg-white/10 my-4" />
 
+        {/* Tree Shape */}
+        <div className="group">
+          <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>Tree Shape</span>
+          </div>
+          <select 
+            value={config.treeShape}
+            onChange={(e) => handleChange('treeShape', e.target.value)}
+            className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[10px] text-slate-300 focus:outline-none focus:border-[#d4af37] transition-colors cursor-pointer"
+          >
+            {TREE_SHAPES.map(opt => (
+                <option key={opt.kind} value={opt.kind} className="bg-black text-slate-200">{opt.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Custom Profile: radius factors from bottom to top */}
+        {config.treeShape === 'CUSTOM' && (
+          <div className="group">
+            <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+              <span>Profile (Bottom → Top)</span>
+            </div>
+            <input 
+              type="text" 
+              value={config.treeProfile}
+              onChange={(e) => handleChange('treeProfile', e.target.value)}
+              maxLength={80}
+              className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[10px] text-slate-300 font-mono focus:outline-none focus:border-[#d4af37] transition-colors"
+            />
+          </div>
+        )}
+
+        {/* Light Show: a single pattern or a sequence of them */}
+        <div className="group">
+          <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>Light Pattern</span>
+          </div>
+          <select 
+            value={config.lightShow}
+            onChange={(e) => handleChange('lightShow', e.target.value)}
+            className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[10px] text-slate-300 focus:outline-none focus:border-[#d4af37] transition-colors cursor-pointer"
+          >
+            {Object.entries(LIGHT_PROGRAMS).map(([id, program]) => (
+                <option key={id} value={id} className="bg-black text-slate-200">{program.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="w-full h-px bg-white/10 my-4" />
+
         {/* Top Star Size */}
         <div className="group">
           <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-[#d4af37] group-hover:text-white transition-colors font-bold">
@@ -132,6 +170,38 @@ const DeveloperPanel: React.FC<DeveloperPanelProps> = ({ config, setConfig, onCl
 
         <div className="w-full h-px bg-white/10 my-4" />
 
+        {/* Quality Tier: Auto follows the frame rate, the others pin a tier */}
+        <div className="group">
+          <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>Quality</span>
+            <span className="font-mono text-[#d4af37]">{QUALITY_TIERS[qualityTier].name}{pinnedTier ? ' · Pinned' : ' · Auto'}</span>
+          </div>
+          <div className="flex gap-1">
+            {[null, ...QUALITY_TIER_IDS].map(tier => (
+                <button
+                  key={tier ?? 'AUTO'}
+                  onClick={() => onPinTier(tier)}
+                  className={`flex-1 py-1 rounded-sm border text-[9px] uppercase tracking-wider transition-colors ${pinnedTier === tier ? 'border-[#d4af37] text-[#d4af37]' : 'border-white/10 text-slate-400 hover:border-white/30'}`}
+                >
+                  {tier ? QUALITY_TIERS[tier].name : 'Auto'}
+                </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Settled Snow: flakes build up on the tree (and the ground plane) */}
+        {([['snowSettles', 'Snow Settles'], ['snowGround', 'Ground Plane']] as const).map(([key, label]) => (
+          <div key={key} className="group flex justify-between items-center text-[10px] uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>{label}</span>
+            <button
+              onClick={() => handleChange(key, !config[key])}
+              className={`w-12 py-1 rounded-sm border text-[9px] uppercase tracking-wider transition-colors ${config[key] ? 'border-[#d4af37] text-[#d4af37]' : 'border-white/10 text-slate-400 hover:border-white/30'}`}
+            >
+              {config[key] ? 'On' : 'Off'}
+            </button>
+          </div>
+        ))}
+
         {/* Snow Size */}
         <div className="group">
           <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
@@ -162,6 +232,51 @@ const DeveloperPanel: React.FC<DeveloperPanelProps> = ({ config, setConfig, onCl
           />
         </div>
 
+        {/* Wind: pushes snow, needles and ornaments; hand swipes blow extra gusts */}
+        <div className="group">
+          <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>Wind Strength</span>
+            <span className="font-mono text-[#d4af37]">{config.windStrength.toFixed(1)}</span>
+          </div>
+          <input 
+            type="range" 
+            min="0.0" max="5.0" step="0.1"
+            value={config.windStrength}
+            onChange={(e) => handleChange('windStrength', parseFloat(e.target.value))}
+            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-[#d4af37] hover:bg-white/20 transition-colors"
+          />
+        </div>
+
+        {/* Wind Direction: 0° blows right, 90° towards the viewer */}
+        <div className="group">
+          <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>Wind Direction</span>
+            <span className="font-mono text-[#d4af37]">{config.windDirection}°</span>
+          </div>
+          <input 
+            type="range" 
+            min="0" max="345" step="15"
+            value={config.windDirection}
+            onChange={(e) => handleChange('windDirection', parseFloat(e.target.value))}
+            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-[#d4af37] hover:bg-white/20 transition-colors"
+          />
+        </div>
+
+        {/* Gustiness: 0 is a steady breeze */}
+        <div className="group">
+          <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>Gustiness</span>
+            <span className="font-mono text-[#d4af37]">{config.windGustiness.toFixed(2)}</span>
+          </div>
+          <input 
+            type="range" 
+            min="0.0" max="1.0" step="0.05"
+            value={config.windGustiness}
+            onChange={(e) => handleChange('windGustiness', parseFloat(e.target.value))}
+            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-[#d4af37] hover:bg-white/20 transition-colors"
+          />
+        </div>
+
         {/* Foliage Size */}
         <div className="group">
           <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
@@ -218,7 +333,7 @@ const DeveloperPanel: React.FC<DeveloperPanelProps> = ({ config, setConfig, onCl
         </button>
 
         <div className="text-[9px] text-white/30 text-center leading-relaxed">
-            Adjusting high particle counts may affect performance on mobile devices.
+            Particle counts are scaled by the quality tier. High counts may still affect performance on mobile devices.
         </div>
       </div>
       <style>{`
@@ -1,4 +1,5 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { t } from '../utils/i18n';
 
 interface Props {
   children: ReactNode;
@@ -33,9 +34,9 @@ class ErrorBoundary extends Component<Props, State> {
       return (
         <div className="w-full h-screen bg-[#020202] flex items-center justify-center text-white">
           <div className="text-center p-8">
-            <h1 className="text-2xl mb-4 font-luxury">出现错误</h1>
+            <h1 className="text-2xl mb-4 font-luxury">{t('errorBoundary.title')}</h1>
             <p className="text-slate-400 mb-6">
-              {this.state.error?.message || '应用加载时出现问题'}
+              {this.state.error?.message || t('errorBoundary.fallback')}
             </p>
             <button
               onClick={() => {
@@ -44,11 +45,11 @@ class ErrorBoundary extends Component<Props, State> {
               }}
               className="px-6 py-2 bg-white/10 border border-white/20 rounded hover:bg-white/20 transition-colors"
             >
-              重新加载
+              {t('errorBoundary.reload')}
             </button>
             {process.env.NODE_ENV === 'development' && (
-              <details className="mt-4 text-left text-xs text-slate-500">
-                <summary className="cursor-pointer">错误详情</summary>
+              <details className="mt-4 text-start text-xs text-slate-500">
+                <summary className="cursor-pointer">{t('errorBoundary.details')}</summary>
                 <pre className="mt-2 overflow-auto max-h-40">
                   {this.state.error?.stack}
                 </pre>
@@ -1,5 +1,5 @@
 
-import React, { useRef, useEffect, useMemo } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Environment, Stars } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
@@ -9,63 +9,76 @@ import Ornaments from './Ornaments';
 import SpiralLights from './SpiralLights';
 import Snow from './Snow';
 import TopStar from './TopStar';
-import { TreeColors } from '../types';
+import ClipRecorder from './ClipRecorder';
+import CardRenderer from './CardRenderer';
+import PhotoFocus from './PhotoFocus';
+import QualityGovernor from './QualityGovernor';
+import BeatSparkles from './BeatSparkles';
+import SnowGround from './SnowGround';
+import GiftPicker from './GiftPicker';
+import Fireworks from './Fireworks';
+import { ClipRequest, ClipFailure, CardRequest, CameraDirection, SceneInput, Photo, Theme, OrnamentModel, FormationId, QualityTier, QualityTierId } from '../types';
+import { SceneConfig, SCENE_DEFAULTS, GIFT_BOX_COUNT } from '../utils/defaults';
+import { QUALITY_TIERS } from '../utils/quality';
+import { AudioAnalysis } from '../utils/audioAnalysis';
+import { SnowCover, createSnowCover } from '../utils/snowCover';
+import { Wind, WindSettings, createWind } from '../utils/wind';
+import { lerp } from '../utils/math';
+import { createTreeShape } from '../utils/treeShape';
+import { DEFAULT_FORMATION, getFormation } from '../utils/formations';
+import { isFormField } from '../utils/accessibility';
 
 interface ExperienceProps {
   mixFactor: number;
-  colors: TreeColors;
-  inputRef: React.MutableRefObject<{ x: number, y: number, isDetected?: boolean }>;
-  userImages?: string[];
-  signatureText?: string;
-  devConfig?: {
-    snowSize: number;
-    snowCount: number;
-    foliageSize: number;
-    foliageCount: number;
-    photoScale: number;
-    ballScale: number;
-    ballVariance: number;
-    starScale: number;
-    titleText: string;
-    titleFont: string;
-  };
+  formation?: FormationId; // Layout the scene assembles into (mixFactor 1)
+  theme: Theme;
+  inputRef: React.MutableRefObject<SceneInput>;
+  photos?: Photo[];
+  models?: OrnamentModel[]; // Loaded .glb ornaments (ball.glb and user imports)
+  devConfig?: SceneConfig;
+  // Quality: the current tier, and whether the governor may step it from measured frame times
+  quality?: QualityTier;
+  autoQuality?: boolean;
+  onQualityChange?: (tier: QualityTierId) => void;
+  // Audio-reactive mode (optional): the music analysis, sampled once per frame
+  audio?: AudioAnalysis | null;
+  audioSensitivity?: number;
+  // Clip recording (optional)
+  recording?: ClipRequest | null;
+  titleRef?: React.RefObject<HTMLElement>;
+  onMixChange?: (mix: number) => void;
+  onRecordingProgress?: (progress: number) => void;
+  onRecordingComplete?: (clip: Blob | null, failure: ClipFailure | null) => void;
+  // Greeting card (optional): a print-resolution render of the current view
+  cardRequest?: CardRequest | null;
+  onCardRendered?: (render: HTMLCanvasElement | null) => void;
+  // Photo picking (optional): index of the polaroid the camera is focused on
+  focusedPhoto?: number | null;
+  onPhotoPick?: (index: number) => void;
+  // Gift boxes (optional): which boxes are open, and picking one (click, tap or pinch)
+  openedGifts?: boolean[];
+  onGiftPick?: (index: number) => void;
+  // Countdown celebration: every increment launches fireworks and flashes the star
+  celebration?: number;
+  // prefers-reduced-motion: slower auto-spin and no camera parallax
+  reducedMotion?: boolean;
 }
 
-// COLORS FOR REALISTIC OBJECTS
-const BALL_COLORS = [
-    '#8B0000', // Dark Red
-    '#D32F2F', // Bright Red
-    '#1B5E20', // Dark Green
-    '#D4AF37', // Gold 
-    '#C0C0C0', // Silver
-    '#191970'  // Midnight Blue
-]; 
-
-const BOX_COLORS = [
-    '#800000', // Maroon
-    '#1B5E20', // Forest Green
-    '#D4AF37', // Gold
-    '#FFFFFF', // White
-    '#4B0082', // Indigo/Deep Purple
-    '#2F4F4F', // Dark Slate Gray
-    '#008080', // Teal
-    '#8B4513', // Bronze/SaddleBrown
-    '#DC143C'  // Crimson
-];
-
-const STAR_COLORS = ['#FFD700', '#FDB931']; // Gold variations
-const CRYSTAL_COLORS = ['#F0F8FF', '#E0FFFF', '#B0E0E6']; // Ice Blues and Whites for Snowflakes
-// Set Candy base to white, as stripes are handled via texture in Ornaments.tsx
-const CANDY_COLORS = ['#FFFFFF']; 
-
 const HDRI_PATH = `${import.meta.env.BASE_URL}hdri/potsdamer_platz_1k.hdr`;
 
-// Handles Camera Parallax, Tree Rotation (Drag) and Zoom (Wheel + Pinch)
+const KEY_TURN = Math.PI / 12; // Radians per arrow key press
+const KEY_ZOOM = 4;
+
+// Handles Camera Parallax, Tree Rotation (Drag, Arrow Keys) and Zoom (Wheel, Pinch, +/-)
 const SceneController: React.FC<{ 
-    inputRef: React.MutableRefObject<{ x: number, y: number, isDetected?: boolean }>, 
-    groupRef: React.RefObject<THREE.Group> 
-}> = ({ inputRef, groupRef }) => {
+    inputRef: React.MutableRefObject<SceneInput>, 
+    groupRef: React.RefObject<THREE.Group>,
+    directorRef: React.MutableRefObject<CameraDirection | null>,
+    formation: FormationId,
+    reducedMotion: boolean
+}> = ({ inputRef, groupRef, directorRef, formation, reducedMotion }) => {
     const { camera, gl, size } = useThree();
+    const autoSpin = reducedMotion ? 0.0005 : 0.002; // Radians per frame
     const vec = useMemo(() => new THREE.Vector3(), []);
     
     // Interaction State
@@ -79,15 +92,20 @@ const SceneController: React.FC<{
     const lastTouchDistance = useRef<number | null>(null);
     
     // Physics State
-    const rotationVelocity = useRef(0.002); // Start with slow auto-spin
+    const rotationVelocity = useRef(autoSpin); // Start with slow auto-spin
     
     // Hand Control State
     const wasDetected = useRef(false); // To detect the "grab" frame
     const grabOffset = useRef(0);      // The rotation offset when grabbed
+    const pinchStart = useRef<{ depth: number, zoom: number } | null>(null); // Zoom "grab" via pinch
+    const bimanualStart = useRef<{ distance: number, angle: number, zoom: number, rotation: number } | null>(null); // Two-hand grab
     
     // Smooth Input State (for Parallax)
     const currentInput = useRef({ x: 0, y: 0 }); 
 
+    // Keyboard: turn still to be applied, eased in over a few frames
+    const keyTurn = useRef(0);
+
     // Handle Responsive Camera Distance
     // On Portrait screens (mobile), move camera back to fit the tree height
     useEffect(() => {
@@ -203,9 +221,41 @@ const SceneController: React.FC<{
         };
     }, [gl, groupRef]);
 
+    // Arrow keys turn the tree, +/- zoom (unless a form field has the keys)
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey || isFormField(e.target)) return;
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+                keyTurn.current += e.key === 'ArrowLeft' ? -KEY_TURN : KEY_TURN;
+            } else if (e.key === '+' || e.key === '=') {
+                zoomTarget.current = THREE.MathUtils.clamp(zoomTarget.current - KEY_ZOOM, 12, 60);
+            } else if (e.key === '-' || e.key === '_') {
+                zoomTarget.current = THREE.MathUtils.clamp(zoomTarget.current + KEY_ZOOM, 12, 60);
+            } else {
+                return;
+            }
+            e.preventDefault();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+
     useFrame((state, delta) => {
         const safeDelta = Math.min(delta, 0.1);
 
+        // 0. Scripted Shot (e.g. clip recording) overrides all user input
+        const direction = directorRef.current;
+        if (direction) {
+            const desired = direction.position ?? vec.set(0, 0, zoomTarget.current);
+            camera.position.lerp(desired, 2.0 * safeDelta);
+            camera.lookAt(direction.lookAt);
+            if (groupRef.current) {
+                groupRef.current.rotation.y += direction.spinSpeed * safeDelta;
+            }
+            rotationVelocity.current = autoSpin;
+            return;
+        }
+
         // 1. Smooth Input Interpolation (Parallax Logic)
         const targetX = inputRef.current.x;
         const targetY = inputRef.current.y;
@@ -216,11 +266,63 @@ const SceneController: React.FC<{
         currentInput.current.x = THREE.MathUtils.lerp(currentInput.current.x, targetX, inputSmoothing);
         currentInput.current.y = THREE.MathUtils.lerp(currentInput.current.y, targetY, inputSmoothing);
 
-        // 2. Camera Update
-        const camX = currentInput.current.x * 4; 
-        const camY = currentInput.current.y * 2; 
+        // 1b. Pinch Zoom: pinch grabs the zoom, then moving the hand closer zooms in
+        const pinchDepth = isHandDetected ? inputRef.current.pinchDepth : null;
+        if (pinchDepth !== null && pinchDepth !== undefined) {
+            if (!pinchStart.current) {
+                pinchStart.current = { depth: pinchDepth, zoom: zoomTarget.current };
+            }
+            const PINCH_ZOOM_FACTOR = 60;
+            zoomTarget.current = THREE.MathUtils.clamp(
+                pinchStart.current.zoom - (pinchDepth - pinchStart.current.depth) * PINCH_ZOOM_FACTOR, 12, 60
+            );
+        } else {
+            pinchStart.current = null;
+        }
+
+        // 1c. Two Hands: spreading them apart zooms in, twisting them around each other rotates the tree
+        const bimanual = isHandDetected ? inputRef.current.bimanual : null;
+        if (bimanual && groupRef.current) {
+            if (!bimanualStart.current) {
+                bimanualStart.current = { ...bimanual, zoom: zoomTarget.current, rotation: groupRef.current.rotation.y };
+            }
+            const SPREAD_ZOOM_FACTOR = 20;
+            zoomTarget.current = THREE.MathUtils.clamp(
+                bimanualStart.current.zoom - (bimanual.distance - bimanualStart.current.distance) * SPREAD_ZOOM_FACTOR, 12, 60
+            );
+        } else {
+            bimanualStart.current = null;
+        }
+
+        // 1d. Paired remote (phone): zoom and turn nudges, applied on top of whatever else is driving
+        if (inputRef.current.remoteZoom) {
+            zoomTarget.current = THREE.MathUtils.clamp(zoomTarget.current + inputRef.current.remoteZoom, 12, 60);
+            inputRef.current.remoteZoom = 0;
+        }
+        if (inputRef.current.remoteRotation && groupRef.current) {
+            groupRef.current.rotation.y += inputRef.current.remoteRotation;
+            // Keep a hand grab from pulling the tree back
+            grabOffset.current += inputRef.current.remoteRotation;
+            if (bimanualStart.current) bimanualStart.current.rotation += inputRef.current.remoteRotation;
+            inputRef.current.remoteRotation = 0;
+        }
+
+        // 1e. Arrow keys: ease the pending turn in, like a remote nudge
+        if (keyTurn.current !== 0 && groupRef.current) {
+            const turn = Math.abs(keyTurn.current) < 0.001 ? keyTurn.current : keyTurn.current * Math.min(1, 8 * safeDelta);
+            keyTurn.current -= turn;
+            groupRef.current.rotation.y += turn;
+            grabOffset.current += turn;
+            if (bimanualStart.current) bimanualStart.current.rotation += turn;
+            rotationVelocity.current = autoSpin;
+        }
+
+        // 2. Camera Update (no hand parallax with reduced motion: the camera only moves to zoom)
+        const parallax = reducedMotion ? 0 : 1;
+        const camX = currentInput.current.x * 4 * parallax; 
+        const camY = currentInput.current.y * 2 * parallax; 
         // Dynamic Zoom based on target
-        const camZ = THREE.MathUtils.lerp(camera.position.z, zoomTarget.current + Math.abs(currentInput.current.x) * 2, 4.0 * safeDelta);
+        const camZ = THREE.MathUtils.lerp(camera.position.z, zoomTarget.current + Math.abs(currentInput.current.x) * 2 * parallax, 4.0 * safeDelta);
         
         camera.position.set(camX, camY, camZ);
         camera.lookAt(0, 0, 0);
@@ -228,7 +330,22 @@ const SceneController: React.FC<{
         // 3. Tree Rotation Physics
         if (groupRef.current) {
             
-            if (isHandDetected) {
+            if (isHandDetected && bimanualStart.current && bimanual) {
+                // --- TWO-HAND CONTROL (TWIST MODE) ---
+                // Wrap the angle change to [-PI, PI] so crossing the atan2 seam doesn't flip the tree
+                const twist = Math.atan2(
+                    Math.sin(bimanual.angle - bimanualStart.current.angle),
+                    Math.cos(bimanual.angle - bimanualStart.current.angle)
+                );
+                const targetAngle = bimanualStart.current.rotation + twist;
+                const prevRot = groupRef.current.rotation.y;
+                groupRef.current.rotation.y = THREE.MathUtils.lerp(prevRot, targetAngle, 6.0 * safeDelta);
+                rotationVelocity.current = (groupRef.current.rotation.y - prevRot);
+
+                // Re-anchor the single-hand grab once one hand leaves
+                wasDetected.current = false;
+
+            } else if (isHandDetected) {
                 // --- HAND CONTROL (GRAB MODE) ---
                 const HAND_ROTATION_FACTOR = Math.PI * 1.2; 
                 const targetHandRotation = currentInput.current.x * HAND_ROTATION_FACTOR;
@@ -238,6 +355,12 @@ const SceneController: React.FC<{
                     rotationVelocity.current = 0;
                 }
 
+                // Swipe impulses shift the grab offset so the tree eases round by that much
+                if (inputRef.current.rotationImpulse) {
+                    grabOffset.current += inputRef.current.rotationImpulse;
+                    inputRef.current.rotationImpulse = 0;
+                }
+
                 const targetAngle = targetHandRotation + grabOffset.current;
                 const smoothFactor = 6.0 * safeDelta;
                 
@@ -252,16 +375,20 @@ const SceneController: React.FC<{
                 // --- IDLE / MOUSE CONTROL (INERTIA MODE) ---
                 if (wasDetected.current) {
                     if (Math.abs(rotationVelocity.current) < 0.0001) {
-                        rotationVelocity.current = 0.002; 
+                        rotationVelocity.current = autoSpin; 
                     }
                     wasDetected.current = false;
                 }
 
-                // Apply velocity if NOT dragging manually
-                if (!isDragging.current) {
+                // Front-facing formations (galaxy, heart, photo wall) settle facing the camera instead of spinning
+                if (!isDragging.current && getFormation(formation).frontFacing) {
+                    const rest = Math.round(groupRef.current.rotation.y / (Math.PI * 2)) * Math.PI * 2;
+                    groupRef.current.rotation.y = THREE.MathUtils.lerp(groupRef.current.rotation.y, rest, safeDelta * 1.5);
+                    rotationVelocity.current = 0;
+                } else if (!isDragging.current) {
+                    // Apply velocity if NOT dragging manually
                     groupRef.current.rotation.y += rotationVelocity.current;
-                    const baseSpeed = 0.002;
-                    rotationVelocity.current = THREE.MathUtils.lerp(rotationVelocity.current, baseSpeed, safeDelta * 0.5);
+                    rotationVelocity.current = THREE.MathUtils.lerp(rotationVelocity.current, autoSpin, safeDelta * 0.5);
                 }
             }
         }
@@ -270,20 +397,159 @@ const SceneController: React.FC<{
     return null;
 };
 
-const SceneContent: React.FC<ExperienceProps> = ({ mixFactor, colors, inputRef, userImages, signatureText, devConfig }) => {
+type BloomRef = React.ElementRef<typeof Bloom>;
+
+// Theme lighting: the scene lights and bloom strength ease towards the theme on every frame
+const ThemeLighting: React.FC<{ theme: Theme, bloomRef: React.RefObject<BloomRef>, quality: QualityTier }> = ({ theme, bloomRef, quality }) => {
+    const keyRef = useRef<THREE.SpotLight>(null);
+    const leftRef = useRef<THREE.PointLight>(null);
+    const rightRef = useRef<THREE.PointLight>(null);
+    const fillRef = useRef<THREE.PointLight>(null);
+    const target = useMemo(() => new THREE.Color(), []);
+
+    // Lights start at the initial theme, later changes only go through the fade below
+    const [initial] = useState(theme.lights);
+
+    useFrame((state, delta) => {
+        const speed = 2.0 * delta;
+        keyRef.current?.color.lerp(target.set(theme.lights.key), speed);
+        leftRef.current?.color.lerp(target.set(theme.lights.left), speed);
+        rightRef.current?.color.lerp(target.set(theme.lights.right), speed);
+        fillRef.current?.color.lerp(target.set(theme.lights.fill), speed);
+
+        // The Bloom ref is typed as the effect class but holds the effect instance
+        const bloom = bloomRef.current as unknown as InstanceType<BloomRef> | null;
+        if (bloom) {
+            bloom.intensity = THREE.MathUtils.lerp(bloom.intensity, theme.bloom * quality.bloomScale, speed);
+        }
+    });
+
+    return (
+        <>
+          <ambientLight intensity={0.4} />
+          <spotLight ref={keyRef} position={[20, 20, 20]} angle={0.4} penumbra={1} intensity={2.0} color={initial.key} castShadow={quality.shadows} />
+          <pointLight ref={leftRef} position={[-10, 5, -10]} intensity={1.2} color={initial.left} />
+          <pointLight ref={rightRef} position={[10, -5, 10]} intensity={1.2} color={initial.right} />
+          <pointLight ref={fillRef} position={[0, 10, 10]} intensity={0.5} color={initial.fill} />
+        </>
+    );
+};
+
+// Samples the music once per frame; the layers read the shared levels
+const AudioMeter: React.FC<{ audio: AudioAnalysis, sensitivity: number }> = ({ audio, sensitivity }) => {
+    useFrame((state, delta) => audio.update(delta, sensitivity));
+    return null;
+};
+
+// Lands the falling snow on the tree and ground every frame
+const SnowSettler: React.FC<{
+    cover: SnowCover,
+    groupRef: React.RefObject<THREE.Group>,
+    mixFactor: number,
+    formation: FormationId,
+    flakeCount: number,
+    ground: boolean
+}> = ({ cover, groupRef, mixFactor, formation, flakeCount, ground }) => {
+    const currentMixRef = useRef(1);
+    useFrame((state, delta) => {
+        currentMixRef.current = lerp(currentMixRef.current, mixFactor, 2.0 * delta);
+        cover.update(delta, {
+            flakeCount,
+            treeRotation: groupRef.current?.rotation.y ?? 0,
+            treeMix: currentMixRef.current,
+            onTree: formation === DEFAULT_FORMATION,
+            ground,
+        });
+    });
+    return null;
+};
+
+// Steps the wind every frame and blows in the gusts of hand swipes
+const WindController: React.FC<{
+    wind: Wind,
+    inputRef: React.MutableRefObject<SceneInput>,
+    settings: WindSettings
+}> = ({ wind, inputRef, settings }) => {
+    useFrame((state, delta) => {
+        const gusts = inputRef.current.windGust;
+        if (gusts) {
+            wind.gust(gusts > 0 ? 0 : Math.PI, Math.abs(gusts));
+            inputRef.current.windGust = 0;
+        }
+        wind.update(delta, state.clock.elapsedTime, settings);
+    });
+    return null;
+};
+
+const noop = () => {};
+
+const SceneContent: React.FC<ExperienceProps> = ({ 
+  mixFactor, formation = DEFAULT_FORMATION, theme, inputRef, photos, models = [], devConfig,
+  recording = null, titleRef, onMixChange = noop, onRecordingProgress = noop, onRecordingComplete = noop,
+  cardRequest = null, onCardRendered = noop,
+  focusedPhoto = null, onPhotoPick = noop, openedGifts, onGiftPick = noop,
+  celebration = 0, reducedMotion = false,
+  quality = QUALITY_TIERS.HIGH, autoQuality = false, onQualityChange = noop,
+  audio = null, audioSensitivity = 1
+}) => {
   const groupRef = useRef<THREE.Group>(null);
+  const bloomRef = useRef<BloomRef>(null);
+  // Bloom props rebuild the effect when they change, so later theme changes fade via bloomRef instead
+  const [initialBloom] = useState(theme.bloom);
+  const directorRef = useRef<CameraDirection | null>(null);
   
-  const photoCount = (userImages && userImages.length > 0) ? userImages.length : 10;
+  const photoCount = (photos && photos.length > 0) ? photos.length : 10;
+
+  // One tree outline for every layer; rebuilt only when the shape settings change
+  const treeShape = devConfig?.treeShape ?? 'CONE';
+  const treeProfile = devConfig?.treeProfile;
+  const shape = useMemo(() => createTreeShape(treeShape, treeProfile), [treeShape, treeProfile]);
+  const levels = audio?.levels;
+
+  // Settled snow: a fresh cover for every tree outline
+  const snowSettles = devConfig?.snowSettles ?? SCENE_DEFAULTS.snowSettles;
+  const snowGround = devConfig?.snowGround ?? SCENE_DEFAULTS.snowGround;
+  const snowCount = Math.round((devConfig?.snowCount ?? SCENE_DEFAULTS.snowCount) * quality.snowScale);
+  const snowCover = useMemo(() => snowSettles ? createSnowCover(shape) : null, [snowSettles, shape]);
+  useEffect(() => () => snowCover?.dispose(), [snowCover]);
+  const groundY = shape.bottomY - 0.3;
+
+  // One wind for the whole scene; Snow and Foliage share its uniforms
+  const wind = useMemo(() => createWind(), []);
+  const windSettings = {
+      strength: devConfig?.windStrength ?? SCENE_DEFAULTS.windStrength,
+      direction: devConfig?.windDirection ?? SCENE_DEFAULTS.windDirection,
+      gustiness: devConfig?.windGustiness ?? SCENE_DEFAULTS.windGustiness,
+  };
 
   return (
     <>
-      <SceneController inputRef={inputRef} groupRef={groupRef} />
+      <SceneController inputRef={inputRef} groupRef={groupRef} directorRef={directorRef} formation={formation} reducedMotion={reducedMotion} />
+      <ClipRecorder 
+        request={recording}
+        directorRef={directorRef}
+        groupRef={groupRef}
+        overlayRef={titleRef}
+        mix={mixFactor}
+        onMixChange={onMixChange}
+        onProgress={onRecordingProgress}
+        onComplete={onRecordingComplete}
+      />
+      <CardRenderer request={cardRequest} onComplete={onCardRendered} />
+      <PhotoFocus 
+        focusedPhoto={focusedPhoto}
+        groupRef={groupRef}
+        directorRef={directorRef}
+        inputRef={inputRef}
+        disabled={recording !== null}
+        onPick={onPhotoPick}
+      />
+      <GiftPicker groupRef={groupRef} inputRef={inputRef} disabled={recording !== null} onPick={onGiftPick} />
       
-      <ambientLight intensity={0.4} />
-      <spotLight position={[20, 20, 20]} angle={0.4} penumbra={1} intensity={2.0} color="#fff5d0" castShadow />
-      <pointLight position={[-10, 5, -10]} intensity={1.2} color="#00ff00" />
-      <pointLight position={[10, -5, 10]} intensity={1.2} color="#ff0000" />
-      <pointLight position={[0, 10, 10]} intensity={0.5} color="#ffffff" />
+      {audio && <AudioMeter audio={audio} sensitivity={audioSensitivity} />}
+      <WindController wind={wind} inputRef={inputRef} settings={windSettings} />
+      <QualityGovernor tier={quality.id} enabled={autoQuality} onChange={onQualityChange} />
+      <ThemeLighting theme={theme} bloomRef={bloomRef} quality={quality} />
       
       <Environment 
         files={HDRI_PATH}
@@ -292,73 +558,143 @@ const SceneContent: React.FC<ExperienceProps> = ({ mixFactor, colors, inputRef,
           console.warn('Failed to load HDRI environment:', error);
         }}
       />
-      <Stars radius={100} depth={50} count={3000} factor={4} saturation={0} fade speed={1} />
-
-      <Snow mixFactor={mixFactor} size={devConfig?.snowSize} count={devConfig?.snowCount} />
+      <Stars radius={100} depth={50} count={quality.starCount} factor={4} saturation={0} fade speed={1} />
+
+      <Snow 
+        mixFactor={mixFactor} 
+        size={devConfig?.snowSize} 
+        count={snowCount} 
+        groundY={snowGround ? groundY : null}
+        wind={wind}
+      />
+      {snowCover && (
+        <SnowSettler cover={snowCover} groupRef={groupRef} mixFactor={mixFactor} formation={formation} flakeCount={snowCount} ground={snowGround} />
+      )}
+      {snowCover && snowGround && <SnowGround cover={snowCover} y={groundY} />}
+      <Fireworks show={celebration} shape={shape} />
 
       <group ref={groupRef} position={[0, 0, 0]}>
-        <TopStar mixFactor={mixFactor} scale={devConfig?.starScale ?? 11} />
+        <TopStar mixFactor={mixFactor} scale={devConfig?.starScale ?? 11} look={theme.star} shape={shape} formation={formation} audio={levels} flash={celebration} />
         <Foliage 
             mixFactor={mixFactor} 
-            colors={colors} 
+            colors={theme.foliage} 
             size={devConfig?.foliageSize}
-            count={devConfig?.foliageCount}
+            count={Math.round((devConfig?.foliageCount ?? SCENE_DEFAULTS.foliageCount) * quality.foliageScale)}
+            shape={shape}
+            formation={formation}
+            audio={levels}
+            snowCover={snowCover}
+            wind={wind}
         />
-        <SpiralLights mixFactor={mixFactor} />
+        <SpiralLights mixFactor={mixFactor} shape={shape} formation={formation} audio={levels} program={devConfig?.lightShow} />
+        {audio && <BeatSparkles audio={levels} shape={shape} />}
         
-        {/* BALLS: Standard scale 0.5 for spheres, custom props for green ball.glb */}
+        {/* BALLS: Standard scale 0.5 for spheres */}
         <Ornaments 
             mixFactor={mixFactor} 
+            shape={shape}
+            formation={formation}
+            wind={wind}
             type="BALL" 
-            count={60} 
+            count={50} 
             scale={0.5} 
-            customScale={devConfig?.ballScale ?? 0.5}
-            customVariance={devConfig?.ballVariance ?? 0.2}
-            colors={BALL_COLORS} 
+            colors={theme.palettes.BALL} 
         />
         <Ornaments 
             mixFactor={mixFactor} 
+            shape={shape}
+            formation={formation}
+            wind={wind}
             type="BOX" 
-            count={30} 
+            count={GIFT_BOX_COUNT} 
             scale={0.6}
-            colors={BOX_COLORS} 
+            colors={theme.palettes.BOX} 
+            openedItems={openedGifts}
+            onItemPick={recording ? undefined : onGiftPick}
         />
         <Ornaments 
             mixFactor={mixFactor} 
+            shape={shape}
+            formation={formation}
+            wind={wind}
             type="STAR" 
             count={25} 
             scale={0.5}
-            colors={STAR_COLORS} 
+            colors={theme.palettes.STAR} 
         />
         <Ornaments 
             mixFactor={mixFactor} 
+            shape={shape}
+            formation={formation}
+            wind={wind}
             type="CRYSTAL" 
             count={40} 
             scale={0.4}
-            colors={CRYSTAL_COLORS} 
+            colors={theme.palettes.CRYSTAL} 
         />
         <Ornaments 
             mixFactor={mixFactor} 
+            shape={shape}
+            formation={formation}
+            wind={wind}
             type="CANDY" 
             count={40} 
             scale={0.8}
-            colors={CANDY_COLORS} 
+            colors={theme.palettes.CANDY} 
+        />
+        <Ornaments 
+            mixFactor={mixFactor} 
+            shape={shape}
+            formation={formation}
+            wind={wind}
+            type="BELL" 
+            count={20} 
+            scale={0.45}
+            colors={theme.palettes.BELL} 
+        />
+        <Ornaments 
+            mixFactor={mixFactor} 
+            shape={shape}
+            formation={formation}
+            wind={wind}
+            type="PINECONE" 
+            count={20} 
+            scale={0.45}
+            colors={theme.palettes.PINECONE} 
         />
+        {/* MODELS: ball.glb and imported .glb ornaments, each with its own count/scale/variance */}
+        {models.map(model => (
+            <Ornaments 
+                key={model.id}
+                mixFactor={mixFactor} 
+                shape={shape}
+                formation={formation}
+                wind={wind}
+                type={model.type} 
+                count={model.settings.count} 
+                scale={model.settings.scale}
+                variance={model.settings.variance}
+            />
+        ))}
         <Ornaments 
             mixFactor={mixFactor} 
+            shape={shape}
+            formation={formation}
+            wind={wind}
             type="PHOTO" 
             count={photoCount}
             scale={devConfig?.photoScale ?? 1}
-            userImages={userImages}
-            signatureText={signatureText}
+            photos={photos}
+            onPhotoPick={recording ? undefined : onPhotoPick}
         />
       </group>
 
       <EffectComposer enableNormalPass={false} multisampling={0}>
         <Bloom 
+            ref={bloomRef}
             luminanceThreshold={0.9} 
-            mipmapBlur 
-            intensity={1.2} 
+            mipmapBlur={quality.bloomMipmapBlur}
+            intensity={initialBloom} 
             radius={0.6}
         />
         <Vignette eskil={false} offset={0.1} darkness={1.1} />
@@ -368,9 +704,10 @@ const SceneContent: React.FC<ExperienceProps> = ({ mixFactor, colors, inputRef,
 };
 
 const Experience: React.FC<ExperienceProps> = (props) => {
+  const quality = props.quality ?? QUALITY_TIERS.HIGH;
   return (
     <Canvas
-      dpr={[1, 1.25]} 
+      dpr={quality.dpr} 
       // OPTIMIZATION: Tighten near/far planes to increase depth buffer precision on mobile.
       // 镜头高度定义位置：camera position 的 z 值（32）控制镜头的初始高度
       // 可以通过修改这里的 [0, 0, 32] 中的第三个值来调整镜头高度
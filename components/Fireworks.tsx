@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TreeShape, DEFAULT_TREE_SHAPE } from '../utils/treeShape';
+
+// Particles move entirely in the shader: each one is written once when its shell is launched
+// (origin, velocity, start time, life) and its flight is a closed-form function of its age.
+const vertexShader = `
+  precision highp float;
+  #define DRAG 1.6
+  #define GRAVITY 3.5
+  uniform float uTime;
+  uniform float uSize;
+
+  attribute vec3 aVelocity;
+  attribute vec3 aTiming; // start time, lifetime, gravity scale
+  attribute vec3 aColor;
+
+  varying vec3 vColor;
+  varying float vFade;
+
+  void main() {
+    float age = uTime - aTiming.x;
+    float alive = step(0.0, age) * step(age, aTiming.y);
+
+    // Velocity decays as exp(-DRAG * age); this is the distance covered so far
+    float travel = (1.0 - exp(-DRAG * max(age, 0.0))) / DRAG;
+    vec3 pos = position + aVelocity * travel;
+    pos.y -= 0.5 * GRAVITY * aTiming.z * age * age;
+
+    vFade = alive * (1.0 - age / aTiming.y);
+    vColor = aColor;
+
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = alive * uSize * (20.0 / -mvPosition.z) * (0.35 + vFade);
+  }
+`;
+
+const fragmentShader = `
+  precision highp float;
+  varying vec3 vColor;
+  varying float vFade;
+
+  void main() {
+    float dist = length(gl_PointCoord - vec2(0.5));
+    if (dist > 0.5 || vFade <= 0.0) discard;
+    float alpha = (1.0 - smoothstep(0.1, 0.5, dist)) * vFade;
+    // Bright enough to bloom
+    gl_FragColor = vec4(vColor * 2.5, alpha);
+  }
+`;
+
+interface FireworksProps {
+  show: number; // Counter; every increment launches a show
+  shape?: TreeShape;
+  size?: number;
+}
+
+const DRAG = 1.6; // Matches the shader
+const POOL = 6000;
+const SPARKS = 160;        // Per shell
+const SHELLS = 14;         // Per show
+const SHOW_SECONDS = 7;    // Shells are spread over this long
+const COLORS = ['#ffd700', '#ff3b3b', '#3bff6a', '#f2f2ff', '#4da6ff', '#ff5ce1'].map(c => new THREE.Color(c));
+
+interface Shell {
+  at: number; // Launch time (clock seconds)
+  center: THREE.Vector3;
+  color: THREE.Color;
+}
+
+// Firework shells around the tree: a rocket climbs from below the tree, then bursts into a sphere of
+// sparks that slow down, fall and fade
+const Fireworks: React.FC<FireworksProps> = ({ show, shape = DEFAULT_TREE_SHAPE, size = 5 }) => {
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const cursor = useRef(0); // Next pool slot, oldest particles are reused first
+  const queue = useRef<Shell[]>([]);
+  const lastShow = useRef(show);
+  const pendingShow = useRef(false);
+
+  const { origins, velocities, timings, colors } = useMemo(() => {
+      const timings = new Float32Array(POOL * 3);
+      for (let i = 0; i < POOL; i++) timings[i * 3] = -1000; // Long dead
+      return {
+          origins: new Float32Array(POOL * 3),
+          velocities: new Float32Array(POOL * 3),
+          timings,
+          colors: new Float32Array(POOL * 3),
+      };
+  }, []);
+
+  const uniforms = useMemo(() => ({
+      uTime: { value: 0 },
+      uSize: { value: size },
+  }), []);
+
+  useEffect(() => {
+      if (show === lastShow.current) return;
+      lastShow.current = show;
+      pendingShow.current = true; // Scheduled on the next frame, against the scene clock
+  }, [show]);
+
+  const write = (origin: THREE.Vector3, velocity: THREE.Vector3, start: number, life: number, gravity: number, color: THREE.Color) => {
+      const i = cursor.current;
+      cursor.current = (i + 1) % POOL;
+      origin.toArray(origins, i * 3);
+      velocity.toArray(velocities, i * 3);
+      timings[i * 3] = start;
+      timings[i * 3 + 1] = life;
+      timings[i * 3 + 2] = gravity;
+      color.toArray(colors, i * 3);
+  };
+
+  const launch = (shell: Shell, now: number) => {
+      const rise = 0.9 + Math.random() * 0.5;
+      const base = new THREE.Vector3(shell.center.x, shape.bottomY - 1, shell.center.z);
+      // Rocket: a velocity whose drag-slowed travel ends at the burst point after `rise` seconds
+      const climb = shell.center.clone().sub(base).multiplyScalar(DRAG / (1 - Math.exp(-DRAG * rise)));
+      write(base, climb, now, rise, 0, shell.color);
+
+      const burstAt = now + rise;
+      const speed = 5 + Math.random() * 3;
+      const velocity = new THREE.Vector3();
+      const glitter = new THREE.Color('#fff4d6');
+      for (let s = 0; s < SPARKS; s++) {
+          velocity.randomDirection().multiplyScalar(speed * (0.85 + Math.random() * 0.15));
+          write(shell.center, velocity, burstAt, 1.6 + Math.random() * 0.9, 1, s % 8 === 0 ? glitter : shell.color);
+      }
+  };
+
+  useFrame((state) => {
+      const now = state.clock.elapsedTime;
+      if (materialRef.current) materialRef.current.uniforms.uTime.value = now;
+
+      if (pendingShow.current) {
+          pendingShow.current = false;
+          for (let i = 0; i < SHELLS; i++) {
+              const angle = Math.random() * Math.PI * 2;
+              const radius = shape.radius + 4 + Math.random() * 6;
+              queue.current.push({
+                  at: now + (i / SHELLS) * SHOW_SECONDS + Math.random() * 0.3,
+                  center: new THREE.Vector3(
+                      Math.cos(angle) * radius,
+                      shape.bottomY + shape.height * (0.5 + Math.random() * 0.6),
+                      Math.sin(angle) * radius
+                  ),
+                  color: COLORS[Math.floor(Math.random() * COLORS.length)],
+              });
+          }
+      }
+
+      const due = queue.current.filter(shell => shell.at <= now);
+      if (due.length === 0) return;
+      queue.current = queue.current.filter(shell => shell.at > now);
+      due.forEach(shell => launch(shell, now));
+
+      const geometry = geometryRef.current;
+      if (geometry) {
+          ['position', 'aVelocity', 'aTiming', 'aColor'].forEach(name => {
+              geometry.attributes[name].needsUpdate = true;
+          });
+      }
+  });
+
+  return (
+    <points frustumCulled={false}>
+      <bufferGeometry ref={geometryRef}>
+        <bufferAttribute attach="attributes-position" count={POOL} array={origins} itemSize={3} />
+        <bufferAttribute attach="attributes-aVelocity" count={POOL} array={velocities} itemSize={3} />
+        <bufferAttribute attach="attributes-aTiming" count={POOL} array={timings} itemSize={3} />
+        <bufferAttribute attach="attributes-aColor" count={POOL} array={colors} itemSize={3} />
+      </bufferGeometry>
+      <shaderMaterial
+        ref={materialRef}
+        vertexShader={vertexShader}
+        fragmentShader={fragmentShader}
+        uniforms={uniforms}
+        transparent
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+      />
+    </points>
+  );
+};
+
+export default Fireworks;
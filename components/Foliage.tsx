@@ -1,39 +1,79 @@
 
-import React, { useMemo, useRef } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useMemo, useRef, useEffect } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { generateFoliageData, lerp } from '../utils/math';
 import { SCENE_DEFAULTS } from '../utils/defaults';
+import { TreeShape, DEFAULT_TREE_SHAPE } from '../utils/treeShape';
+import { DEFAULT_FORMATION, fillFormationTargets, fillFormationColors, captureFormationBlend } from '../utils/formations';
+import { FormationId, AudioLevels } from '../types';
+import { createFoliageSimulation } from '../utils/foliageSimulation';
+import { SnowCover } from '../utils/snowCover';
+import { Wind, createWind } from '../utils/wind';
 
 const vertexShader = `
   precision highp float;
+  #define WIND_BEND 0.12
   uniform float uTime;
   uniform float uMix;
   uniform float uSize;
+  uniform float uFormMix;
+  uniform float uBreath; // Breathing amplitude, raised by the music's mids
+  uniform float uTreeBottom;
+  uniform float uTreeHeight;
+  uniform sampler2D uSnowCover; // Settled snow over the tree surface (utils/snowCover.ts)
+  uniform float uSnowCoverMix;  // 0 while scattered or in another formation
+  uniform vec3 uWind;           // Air velocity, world space (utils/wind.ts)
   
+  #ifdef USE_SIMULATION
+  uniform sampler2D uPositions; // Simulated positions (utils/foliageSimulation.ts)
+  attribute vec2 aSimUv;
+  #endif
+
+  attribute vec3 aFromPos;
   attribute vec3 aTargetPos;
+  attribute vec4 aFromColor;
+  attribute vec4 aTargetColor;
   attribute vec3 aChaosPos;
   attribute float aRandom;
   
   varying vec3 vPos;
+  varying vec4 vColor;
   varying float vRandom;
   varying float vIsSnow;
 
   void main() {
     vRandom = aRandom;
-    vIsSnow = step(0.85, aRandom); // Top 15% random values become snow
 
-    // Interpolate position
-    vec3 pos = mix(aChaosPos, aTargetPos, uMix);
+    #ifdef USE_SIMULATION
+    vec3 pos = texture2D(uPositions, aSimUv).xyz;
+    #else
+    // CPU fallback: interpolate position, formation morph first, then scatter/assemble
+    vec3 formed = mix(aFromPos, aTargetPos, uFormMix);
+    vec3 pos = mix(aChaosPos, formed, uMix);
+    #endif
+    vColor = mix(aFromColor, aTargetColor, uFormMix);
+
+    // Top 15% random values are always snow; settled snow whitens more of the needles where it lies
+    vec2 coverUv = vec2(atan(pos.z, pos.x) / 6.2831853 + 0.5, (pos.y - uTreeBottom) / uTreeHeight);
+    float cover = texture2D(uSnowCover, coverUv).r * uSnowCoverMix;
+    vIsSnow = step(0.85 - cover * 0.7, aRandom);
     
     // Breathing effect
-    float breath = sin(uTime + pos.y * 0.5) * 0.05 * uMix;
+    float breath = sin(uTime + pos.y * 0.5) * uBreath * uMix;
     pos.x += pos.x * breath;
     pos.z += pos.z * breath;
 
     vPos = pos;
 
-    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    // Wind bends the needles downwind, the tips most; loose particles are simply blown about.
+    // Pushed in world space so the spinning tree still bends the way the air blows.
+    float reach = mix(1.0, clamp((pos.y - uTreeBottom) / uTreeHeight, 0.0, 1.0), uMix);
+    float flutter = 0.75 + 0.25 * sin(uTime * 3.0 + aRandom * 40.0);
+    vec4 worldPosition = modelMatrix * vec4(pos, 1.0);
+    worldPosition.xz += uWind.xz * (WIND_BEND * reach * flutter);
+
+    vec4 mvPosition = viewMatrix * worldPosition;
     gl_Position = projectionMatrix * mvPosition;
     
     // Size attenuation
@@ -45,18 +85,24 @@ const fragmentShader = `
   precision highp float;
   uniform vec3 uColorBottom;
   uniform vec3 uColorTop;
+  uniform float uTreeBottom;
+  uniform float uTreeHeight;
   
   varying vec3 vPos;
+  varying vec4 vColor;
   varying float vRandom;
   varying float vIsSnow;
 
   void main() {
-    // Exact height normalization for tree (-9 to 9)
-    float h = (vPos.y + 9.0) / 18.0;
+    // Exact height normalization for the tree shape (bottom to top)
+    float h = (vPos.y - uTreeBottom) / uTreeHeight;
     h = clamp(h, 0.0, 1.0);
     
     // Mix gradient
     vec3 color = mix(uColorBottom, uColorTop, h);
+
+    // Formation colors (e.g. a traced picture) replace the gradient by their alpha
+    color = mix(color, vColor.rgb, vColor.a);
     
     // Depth Variation
     color *= 0.6 + 0.6 * vRandom;
@@ -77,61 +123,152 @@ const fragmentShader = `
   }
 `;
 
+const BREATH = 0.05;
+
 interface FoliageProps {
   mixFactor: number; 
   colors: { bottom: string, top: string };
   size?: number;
   count?: number;
+  shape?: TreeShape;
+  formation?: FormationId;
+  audio?: AudioLevels; // Mids deepen the breathing
+  snowCover?: SnowCover | null; // Settled snow, null when snow doesn't settle
+  wind?: Wind; // Scene wind, created once per scene (its uniforms are shared, not copied)
 }
 
 const Foliage: React.FC<FoliageProps> = ({ 
     mixFactor, 
     colors, 
     size = SCENE_DEFAULTS.foliageSize, 
-    count = SCENE_DEFAULTS.foliageCount 
+    count = SCENE_DEFAULTS.foliageCount,
+    shape = DEFAULT_TREE_SHAPE,
+    formation = DEFAULT_FORMATION,
+    audio,
+    snowCover = null,
+    wind
 }) => {
   const materialRef = useRef<THREE.ShaderMaterial>(null);
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
   const currentMixRef = useRef(1);
+  const formMixRef = useRef(1);
   
-  const { target, chaos, randoms } = useMemo(() => generateFoliageData(count, 18, 7.5), [count]);
+  const { target, chaos, randoms } = useMemo(() => generateFoliageData(count, shape), [count, shape]);
+
+  // GPU simulation of the particles (null where float render targets aren't available)
+  const gl = useThree(state => state.gl);
+  const simulation = useMemo(() => createFoliageSimulation(gl, { target, chaos, randoms }), [gl, target, chaos, randoms]);
+  useEffect(() => () => simulation?.dispose(), [simulation]);
+
+  // Formation morph buffers: particles blend from `from` to `to` (the formation's targets) as uFormMix runs 0 -> 1.
+  // Colors are rgba, alpha being how much the formation's color replaces the theme gradient.
+  const morph = useMemo(() => ({
+      from: new Float32Array(target),
+      to: new Float32Array(target),
+      fromColor: new Float32Array(count * 4),
+      toColor: new Float32Array(count * 4),
+  }), [target, count]);
+
+  useEffect(() => {
+      // Start from wherever the particles are now, even mid-morph
+      const ctx = { layer: 'FOLIAGE' as const, phase: 0 };
+      captureFormationBlend(morph.from, morph.to, formMixRef.current);
+      captureFormationBlend(morph.fromColor, morph.toColor, formMixRef.current);
+      fillFormationTargets(formation, ctx, target, morph.to);
+      fillFormationColors(formation, ctx, count, morph.toColor);
+      formMixRef.current = 0;
+      simulation?.setTargets(morph.from, morph.to);
+
+      const geometry = geometryRef.current;
+      if (geometry) {
+          ['aFromPos', 'aTargetPos', 'aFromColor', 'aTargetColor'].forEach(name => {
+              geometry.attributes[name].needsUpdate = true;
+          });
+      }
+  }, [formation, morph, target, count, simulation]);
+
+  const targetColor = useMemo(() => new THREE.Color(), []);
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
     uMix: { value: 1 },
+    uFormMix: { value: 1 },
+    uBreath: { value: BREATH },
+    uSnowCover: { value: null as THREE.Texture | null },
+    uSnowCoverMix: { value: 0 },
+    uPositions: { value: null as THREE.Texture | null },
     uSize: { value: size }, 
     uColorBottom: { value: new THREE.Color(colors.bottom) },
-    uColorTop: { value: new THREE.Color(colors.top) }
+    uColorTop: { value: new THREE.Color(colors.top) },
+    uTreeBottom: { value: shape.bottomY },
+    uTreeHeight: { value: shape.height },
+    uWind: (wind ?? createWind()).uniforms.uWind
   }), []);
 
   useFrame((state, delta) => {
     if (materialRef.current) {
       const speed = 2.0 * delta; 
       currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
+      formMixRef.current = lerp(formMixRef.current, 1, speed);
 
       materialRef.current.uniforms.uTime.value = state.clock.elapsedTime;
       materialRef.current.uniforms.uMix.value = currentMixRef.current;
+      materialRef.current.uniforms.uFormMix.value = formMixRef.current;
+      materialRef.current.uniforms.uBreath.value = BREATH + (audio?.mid ?? 0) * 0.1;
+
+      // The cover map is laid out over the tree, so it only shows on the assembled tree
+      const coverMix = snowCover && formation === DEFAULT_FORMATION ? currentMixRef.current : 0;
+      materialRef.current.uniforms.uSnowCover.value = snowCover?.treeMap ?? null;
+      materialRef.current.uniforms.uSnowCoverMix.value = lerp(materialRef.current.uniforms.uSnowCoverMix.value, coverMix, speed);
+
+      if (simulation) {
+          simulation.step(delta, state.clock.elapsedTime, currentMixRef.current, formMixRef.current);
+          materialRef.current.uniforms.uPositions.value = simulation.getPositions();
+      }
       materialRef.current.uniforms.uSize.value = size;
+      materialRef.current.uniforms.uTreeBottom.value = shape.bottomY;
+      materialRef.current.uniforms.uTreeHeight.value = shape.height;
       
-      materialRef.current.uniforms.uColorBottom.value.set(colors.bottom);
-      materialRef.current.uniforms.uColorTop.value.set(colors.top);
+      // Ease towards new colors so theme changes cross-fade
+      materialRef.current.uniforms.uColorBottom.value.lerp(targetColor.set(colors.bottom), speed);
+      materialRef.current.uniforms.uColorTop.value.lerp(targetColor.set(colors.top), speed);
     }
   });
 
   return (
-    <points key={count}>
-      <bufferGeometry>
+    // Simulated particles can drift anywhere, so the points are never culled by their (formed) bounds
+    <points key={`${count}-${shape.id}`} frustumCulled={false}>
+      <bufferGeometry ref={geometryRef}>
         <bufferAttribute
           attach="attributes-position"
           count={count}
           array={target} 
           itemSize={3}
         />
+        <bufferAttribute
+          attach="attributes-aFromPos"
+          count={count}
+          array={morph.from}
+          itemSize={3}
+        />
         <bufferAttribute
           attach="attributes-aTargetPos"
           count={count}
-          array={target}
+          array={morph.to}
           itemSize={3}
         />
+        <bufferAttribute
+          attach="attributes-aFromColor"
+          count={count}
+          array={morph.fromColor}
+          itemSize={4}
+        />
+        <bufferAttribute
+          attach="attributes-aTargetColor"
+          count={count}
+          array={morph.toColor}
+          itemSize={4}
+        />
         <bufferAttribute
           attach="attributes-aChaosPos"
           count={count}
@@ -144,9 +281,19 @@ const Foliage: React.FC<FoliageProps> = ({
           array={randoms}
           itemSize={1}
         />
+        {simulation && (
+          <bufferAttribute
+            attach="attributes-aSimUv"
+            count={count}
+            array={simulation.uvs}
+            itemSize={2}
+          />
+        )}
       </bufferGeometry>
       <shaderMaterial
+        key={simulation ? 'gpu' : 'cpu'}
         ref={materialRef}
+        defines={simulation ? { USE_SIMULATION: '' } : {}}
         vertexShader={vertexShader}
         fragmentShader={fragmentShader}
         uniforms={uniforms}
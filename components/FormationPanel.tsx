@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { FormationId } from '../types';
+import { getFormationIds, getFormationLabel } from '../utils/formations';
+import { PARTICLE_FONTS, SAMPLE_MODES, SampleMode, MAX_PARTICLE_TEXT_LENGTH } from '../utils/particleSampler';
+import { t } from '../utils/i18n';
+
+interface FormationPanelProps {
+  formation: FormationId;
+  onSelect: (formation: FormationId) => void;
+  // Particle art: text or a picture traced by the particles
+  isSampling: boolean;
+  sampleError: string | null;
+  imageMode: SampleMode | null; // Mode of the current picture, null before one is picked
+  onShowText: (text: string, fontFamily: string, color: string) => void;
+  onShowImage: (file: File) => void;
+  onImageModeChange: (mode: SampleMode) => void;
+  onClose: () => void;
+}
+
+const FormationPanel: React.FC<FormationPanelProps> = ({
+  formation, onSelect, isSampling, sampleError, imageMode, onShowText, onShowImage, onImageModeChange, onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('2027');
+  const [fontFamily, setFontFamily] = useState(PARTICLE_FONTS[0].family);
+  const [color, setColor] = useState('#ffd966');
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) onShowImage(file);
+      e.target.value = '';
+  };
+
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)] max-h-[80vh] overflow-y-auto custom-scrollbar">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('formation.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      <div className="space-y-2">
+        {getFormationIds().map(id => {
+          const isActive = id === formation;
+          return (
+            <button
+              key={id}
+              onClick={() => onSelect(id)}
+              className={`w-full px-3 py-2 rounded-sm border text-start text-[10px] uppercase tracking-[0.15em] truncate transition-colors ${isActive ? 'border-[#d4af37] text-[#d4af37] bg-white/5' : 'border-white/10 text-slate-400 hover:border-white/30 hover:text-white'}`}
+            >
+              {getFormationLabel(id)}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="mt-4 text-[10px] text-slate-500 leading-relaxed">{t('formation.victoryHint')}</p>
+
+      {/* Particle Art: Text */}
+      <div className="mt-4 pt-4 border-t border-white/10 space-y-3">
+        <div className="text-[10px] uppercase tracking-wider text-slate-400">{t('formation.particleText')}</div>
+        <input
+          type="text"
+          value={text}
+          maxLength={MAX_PARTICLE_TEXT_LENGTH}
+          onChange={(e) => setText(e.target.value)}
+          className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[11px] text-[#d4af37] focus:outline-none focus:border-[#d4af37] transition-colors text-center"
+        />
+        <div className="flex gap-2">
+          <select
+            value={fontFamily}
+            onChange={(e) => setFontFamily(e.target.value)}
+            className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[10px] text-slate-300 focus:outline-none focus:border-[#d4af37] transition-colors"
+          >
+            {PARTICLE_FONTS.map(font => (
+                <option key={font.label} value={font.family} className="bg-black">{font.label}</option>
+            ))}
+          </select>
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            className="w-8 h-7 bg-transparent border border-white/10 rounded-sm cursor-pointer"
+            title={t('formation.color')}
+          />
+        </div>
+        <button
+          onClick={() => onShowText(text, fontFamily, color)}
+          disabled={isSampling || !text.trim()}
+          className="w-full py-2 rounded-sm border border-white/20 text-[10px] uppercase tracking-[0.15em] text-slate-300 hover:border-[#d4af37] hover:text-[#d4af37] transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('formation.spell')}
+        </button>
+      </div>
+
+      {/* Particle Art: Image */}
+      <div className="mt-4 pt-4 border-t border-white/10 space-y-3">
+        <div className="text-[10px] uppercase tracking-wider text-slate-400">{t('formation.particlePicture')}</div>
+        <input type="file" ref={fileInputRef} onChange={handleFile} accept="image/*" className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSampling}
+          className="w-full py-2 rounded-sm border border-dashed border-white/20 text-[10px] uppercase tracking-[0.15em] text-slate-400 hover:border-white/40 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t(isSampling ? 'formation.tracing' : 'formation.choosePicture')}
+        </button>
+        {imageMode && (
+          <div className="flex gap-1">
+            {SAMPLE_MODES.map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onImageModeChange(mode)}
+                  disabled={isSampling}
+                  className={`flex-1 py-1 rounded-sm border text-[9px] uppercase tracking-wider transition-colors ${imageMode === mode ? 'border-[#d4af37] text-[#d4af37]' : 'border-white/10 text-slate-400 hover:border-white/30'}`}
+                >
+                  {t(`sampleMode.${mode}`)}
+                </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {sampleError && (
+        <div className="mt-3 text-[10px] text-red-300 leading-relaxed">{sampleError}</div>
+      )}
+    </div>
+  );
+};
+
+export default FormationPanel;
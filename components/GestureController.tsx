@@ -3,21 +3,192 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
 import Webcam from 'react-webcam';
 import * as tf from '@tensorflow/tfjs';
 import * as handpose from '@tensorflow-models/handpose';
+import { GestureType, HandGesture, HandLandmarks } from '../types';
+import { classifyHandShape, estimateHandDepth, estimateHandedness, createSwipeTracker, detectSwipe, SwipeTracker } from '../utils/gestures';
+import { MessageKey, t } from '../utils/i18n';
 
 const HANDPOSE_MODEL_URL = `${import.meta.env.BASE_URL}models/handpose/model.json`;
 
 interface GestureControllerProps {
-  onGesture: (data: { isOpen: boolean; position: { x: number; y: number }, isDetected: boolean }) => void;
+  onGesture: (hands: HandGesture[]) => void; // Up to two hands, longest-tracked first; empty = no hands
   isGuiVisible: boolean;
+  detectionInterval?: number; // Milliseconds between detections (set by the quality tier)
 }
 
-const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiVisible }) => {
+const MAX_HANDS = 2;
+// A detection belongs to an existing hand if its wrist moved less than this (normalized -1..1 units)
+const IDENTITY_MATCH_DISTANCE = 0.5;
+
+type Prediction = Awaited<ReturnType<handpose.HandPose['estimateHands']>>[number];
+
+// STABILIZATION STATE - one per tracked hand
+interface HandTrackState {
+  id: number;
+  lastSeen: number;
+  ratioHistory: number[]; // Store last N ratios for smoothing
+  posHistory: {x:number, y:number}[]; // Store last N positions for smoothing
+  isCurrentlyOpen: boolean; // Track internal state for hysteresis
+  gestureHistory: GestureType[]; // Last N static gestures, for a stable majority vote
+  swipeTracker: SwipeTracker;
+}
+
+const createHandTrackState = (id: number, now: number): HandTrackState => ({
+  id,
+  lastSeen: now,
+  ratioHistory: [],
+  posHistory: [],
+  isCurrentlyOpen: false,
+  gestureHistory: [],
+  swipeTracker: createSwipeTracker()
+});
+
+const getDist = (p1: number[], p2: number[]) => {
+   return Math.sqrt(Math.pow(p1[0] - p2[0], 2) + Math.pow(p1[1] - p2[1], 2));
+};
+
+// Mirrored, normalized (-1 to 1) position of a landmark
+const toScreenPosition = (point: number[], video: HTMLVideoElement) => ({
+  x: -1 * ((point[0] / video.videoWidth) * 2 - 1),
+  y: -1 * ((point[1] / video.videoHeight) * 2 - 1)
+});
+
+const getWristPosition = (landmarks: number[][], video: HTMLVideoElement) => toScreenPosition(landmarks[0], video);
+
+const processHand = (state: HandTrackState, hand: Prediction, video: HTMLVideoElement, now: number): HandGesture => {
+  const landmarks = hand.landmarks;
+  const wrist = landmarks[0];
+
+  // --- 1. Position Calculation ---
+  const { x: rawX, y: rawY } = getWristPosition(landmarks, video);
+  
+  state.posHistory.push({x: rawX, y: rawY});
+  if (state.posHistory.length > 8) state.posHistory.shift(); 
+
+  const avgPos = state.posHistory.reduce((acc, curr) => ({ x: acc.x + curr.x, y: acc.y + curr.y }), {x:0, y:0});
+  const count = state.posHistory.length;
+  const x = avgPos.x / count;
+  const y = avgPos.y / count;
+
+  // --- 2. Gesture Detection ---
+  const tips = [8, 12, 16, 20]; 
+  const bases = [5, 9, 13, 17];
+
+  let totalBaseDist = 0;
+  let totalTipDist = 0;
+
+  for(let i=0; i<4; i++) {
+      totalBaseDist += getDist(wrist, landmarks[bases[i]]);
+      totalTipDist += getDist(wrist, landmarks[tips[i]]);
+  }
+
+  const avgBaseDist = totalBaseDist / 4;
+  const avgTipDist = totalTipDist / 4;
+  const rawRatio = avgTipDist / (avgBaseDist || 1);
+  
+  state.ratioHistory.push(rawRatio);
+  if (state.ratioHistory.length > 5) state.ratioHistory.shift();
+  const smoothedRatio = state.ratioHistory.reduce((a,b) => a+b, 0) / state.ratioHistory.length;
+
+  if (!state.isCurrentlyOpen && smoothedRatio > 1.6) {
+     state.isCurrentlyOpen = true;
+  } else if (state.isCurrentlyOpen && smoothedRatio < 1.2) {
+     state.isCurrentlyOpen = false;
+  }
+
+  const isOpen = state.isCurrentlyOpen;
+
+  // --- 3. Richer Gestures ---
+  const rawLandmarks = landmarks as HandLandmarks;
+  const { gesture: shape, pinchDistance } = classifyHandShape(rawLandmarks);
+  // Fall back to the hysteresis open/closed state when no specific pose matches
+  const staticGesture: GestureType = shape === 'NONE' ? (isOpen ? 'OPEN' : 'FIST') : shape;
+
+  state.gestureHistory.push(staticGesture);
+  if (state.gestureHistory.length > 5) state.gestureHistory.shift();
+
+  // Majority vote over the history; confidence is how much the frames agree
+  const votes = new Map<GestureType, number>();
+  state.gestureHistory.forEach(g => votes.set(g, (votes.get(g) ?? 0) + 1));
+  let stableGesture: GestureType = staticGesture;
+  let stableVotes = 0;
+  votes.forEach((n, g) => {
+      if (n > stableVotes) {
+          stableVotes = n;
+          stableGesture = g;
+      }
+  });
+  let confidence = (stableVotes / state.gestureHistory.length) * (hand.handInViewConfidence ?? 1);
+
+  // Swipes come from raw (unsmoothed) wrist velocity and win over static poses for that frame
+  const swipe = detectSwipe(state.swipeTracker, rawX, now);
+  const gesture: GestureType = swipe ?? stableGesture;
+  if (swipe) confidence = hand.handInViewConfidence ?? 1;
+
+  state.lastSeen = now;
+
+  return {
+    id: state.id,
+    handedness: estimateHandedness(rawLandmarks),
+    isOpen, 
+    position: { x, y }, 
+    fingertip: toScreenPosition(landmarks[8], video),
+    frameAspect: video.videoWidth / video.videoHeight,
+    gesture,
+    confidence,
+    pinchDistance,
+    depth: estimateHandDepth(rawLandmarks, video.videoWidth),
+    landmarks: rawLandmarks
+  };
+};
+
+// handpose tracks one hand: it keeps the hand's box from the last frame (its region of interest)
+// on the model's pipeline and only reruns the palm detector when that is lost. Both hands share one
+// model, so each pass swaps its own copy of that state in and out.
+interface RoiState {
+  regionsOfInterest: unknown[];
+  runsWithoutHandDetector: number;
+}
+
+const createRoiState = (): RoiState => ({ regionsOfInterest: [], runsWithoutHandDetector: 0 });
+
+const estimateHand = async (model: handpose.HandPose, input: HTMLVideoElement | HTMLCanvasElement, roi: RoiState) => {
+  const pipeline = (model as unknown as { pipeline?: Partial<RoiState> }).pipeline;
+  const swaps = !!pipeline && Array.isArray(pipeline.regionsOfInterest);
+  if (swaps) {
+    pipeline.regionsOfInterest = roi.regionsOfInterest;
+    pipeline.runsWithoutHandDetector = roi.runsWithoutHandDetector;
+  }
+  try {
+    return (await model.estimateHands(input))[0];
+  } finally {
+    if (swaps) {
+      roi.regionsOfInterest = pipeline.regionsOfInterest ?? [];
+      roi.runsWithoutHandDetector = pipeline.runsWithoutHandDetector ?? 0;
+    }
+  }
+};
+
+// Two boxes overlapping this much are the same hand seen by both passes
+const isSameHand = (a: Prediction, b: Prediction) => {
+  const [ax1, ay1] = a.boundingBox.topLeft;
+  const [ax2, ay2] = a.boundingBox.bottomRight;
+  const [bx1, by1] = b.boundingBox.topLeft;
+  const [bx2, by2] = b.boundingBox.bottomRight;
+  const overlapW = Math.max(0, Math.min(ax2, bx2) - Math.max(ax1, bx1));
+  const overlapH = Math.max(0, Math.min(ay2, by2) - Math.max(ay1, by1));
+  const smallerArea = Math.min((ax2 - ax1) * (ay2 - ay1), (bx2 - bx1) * (by2 - by1)) || 1;
+  return (overlapW * overlapH) / smallerArea > 0.5;
+};
+
+const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiVisible, detectionInterval = 100 }) => {
   const webcamRef = useRef<Webcam>(null);
+  // One detector: handpose finds a single hand, so a second pass looks for another hand
+  // in a copy of the frame where the first hand has been masked out.
   const [model, setModel] = useState<handpose.HandPose | null>(null);
   const [loading, setLoading] = useState(true);
   const [cameraError, setCameraError] = useState(false);
   const [debugState, setDebugState] = useState<string>("-");
-  const [loadingMessage, setLoadingMessage] = useState("Initializing AI Engine...");
+  const [loadingMessage, setLoadingMessage] = useState<MessageKey>('camera.initializing');
   
   const onGestureRef = useRef(onGesture);
   useEffect(() => {
@@ -25,12 +196,15 @@ const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiV
   }, [onGesture]);
 
   const lastDetectionTime = useRef(0);
+  const detectionIntervalRef = useRef(detectionInterval);
+  detectionIntervalRef.current = detectionInterval;
   
   // STABILIZATION REFS
-  const ratioHistory = useRef<number[]>([]); // Store last N ratios for smoothing
-  const posHistory = useRef<{x:number, y:number}[]>([]); // Store last N positions for smoothing
-  const isCurrentlyOpen = useRef<boolean>(false); // Track internal state for hysteresis
+  const hands = useRef<HandTrackState[]>([]); // Currently tracked hands, oldest first
+  const nextHandId = useRef(1);
   const missedFrames = useRef(0); // Debounce for tracking loss
+  const maskCanvas = useRef<HTMLCanvasElement | null>(null);
+  const rois = useRef<RoiState[]>(Array.from({ length: MAX_HANDS }, createRoiState)); // One per pass
 
   // Load Model
   useEffect(() => {
@@ -38,10 +212,10 @@ const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiV
     
     const loadModel = async () => {
       try {
-        setLoadingMessage("Connecting to GPU...");
+        setLoadingMessage('camera.connectingGpu');
         await tf.ready();
         
-        if (isMounted) setLoadingMessage("Loading Local AI Model...");
+        if (isMounted) setLoadingMessage('camera.loadingModel');
         
         // Fix: Cast configuration to any to bypass type check for modelUrl support
         const net = await handpose.load({
@@ -55,14 +229,14 @@ const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiV
       } catch (err) {
         console.error("Failed to load handpose model:", err);
         if (isMounted) {
-            setLoadingMessage("Network Error: Check Connection");
+            setLoadingMessage('camera.networkError');
         }
       }
     };
 
     const timeoutId = setTimeout(() => {
         if (loading && isMounted) {
-            setLoadingMessage("Downloading (First Run Takes Time)...");
+            setLoadingMessage('camera.downloading');
         }
     }, 5000);
 
@@ -79,8 +253,8 @@ const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiV
     if (model && webcamRef.current && webcamRef.current.video && webcamRef.current.video.readyState === 4) {
       
       const now = Date.now();
-      // Throttle detection to every 100ms (~10 FPS) to free up GPU for 3D rendering
-      if (now - lastDetectionTime.current < 100) {
+      // Throttle detection (100ms ~ 10 FPS on high quality) to free up GPU for 3D rendering
+      if (now - lastDetectionTime.current < detectionIntervalRef.current) {
         requestAnimationFrame(runDetection);
         return;
       }
@@ -95,78 +269,93 @@ const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiV
       }
 
       try {
-        const predictions = await model.estimateHands(video);
+        const predictions: Prediction[] = [];
+        const first = await estimateHand(model, video, rois.current[0]);
 
-        if (predictions.length > 0) {
-          missedFrames.current = 0;
-          
-          const hand = predictions[0];
-          const landmarks = hand.landmarks;
-          const wrist = landmarks[0];
+        if (first) {
+          predictions.push(first);
 
-          if (!wrist || !Number.isFinite(wrist[0]) || !Number.isFinite(wrist[1])) {
-              requestAnimationFrame(runDetection);
-              return;
+          // Second hand: mask the first one out and run the detector again on the copy
+          if (MAX_HANDS > 1) {
+            if (!maskCanvas.current) maskCanvas.current = document.createElement('canvas');
+            const canvas = maskCanvas.current;
+            // Resizing reallocates the canvas, so only do it when the camera resolution changes
+            if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+              canvas.width = video.videoWidth;
+              canvas.height = video.videoHeight;
+            }
+            const ctx = canvas.getContext('2d');
+            if (ctx) {
+              const [x1, y1] = first.boundingBox.topLeft;
+              const [x2, y2] = first.boundingBox.bottomRight;
+              const padX = (x2 - x1) * 0.15;
+              const padY = (y2 - y1) * 0.15;
+              ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+              ctx.fillStyle = '#000000';
+              ctx.fillRect(x1 - padX, y1 - padY, (x2 - x1) + padX * 2, (y2 - y1) + padY * 2);
+
+              const second = await estimateHand(model, canvas, rois.current[1]);
+              if (second && !isSameHand(first, second)) predictions.push(second);
+            }
           }
+        }
 
-          // --- 1. Position Calculation ---
-          const rawX = -1 * ((wrist[0] / video.videoWidth) * 2 - 1); 
-          const rawY = -1 * ((wrist[1] / video.videoHeight) * 2 - 1);
-          
-          posHistory.current.push({x: rawX, y: rawY});
-          if (posHistory.current.length > 8) posHistory.current.shift(); 
+        const valid = predictions.filter(p => {
+          const wrist = p.landmarks[0];
+          return wrist && Number.isFinite(wrist[0]) && Number.isFinite(wrist[1]);
+        });
 
-          const avgPos = posHistory.current.reduce((acc, curr) => ({ x: acc.x + curr.x, y: acc.y + curr.y }), {x:0, y:0});
-          const count = posHistory.current.length;
-          const x = avgPos.x / count;
-          const y = avgPos.y / count;
+        if (valid.length > 0) {
+          missedFrames.current = 0;
 
-          // --- 2. Gesture Detection ---
-          const tips = [8, 12, 16, 20]; 
-          const bases = [5, 9, 13, 17];
+          // --- Stable identity: match each detection to the nearest tracked hand ---
+          const unmatched = [...hands.current];
+          const matched: { state: HandTrackState, prediction: Prediction }[] = [];
 
-          const getDist = (p1: number[], p2: number[]) => {
-             return Math.sqrt(Math.pow(p1[0] - p2[0], 2) + Math.pow(p1[1] - p2[1], 2));
-          };
+          valid.forEach(prediction => {
+            const pos = getWristPosition(prediction.landmarks, video);
+            let bestIndex = -1;
+            let bestDist = IDENTITY_MATCH_DISTANCE;
+            unmatched.forEach((state, i) => {
+              const last = state.posHistory[state.posHistory.length - 1];
+              const dist = last ? Math.hypot(last.x - pos.x, last.y - pos.y) : Infinity;
+              if (dist < bestDist) {
+                bestDist = dist;
+                bestIndex = i;
+              }
+            });
 
-          let totalBaseDist = 0;
-          let totalTipDist = 0;
+            const state = bestIndex >= 0
+              ? unmatched.splice(bestIndex, 1)[0]
+              : createHandTrackState(nextHandId.current++, now);
+            matched.push({ state, prediction });
+          });
 
-          for(let i=0; i<4; i++) {
-              totalBaseDist += getDist(wrist, landmarks[bases[i]]);
-              totalTipDist += getDist(wrist, landmarks[tips[i]]);
-          }
+          // Hands not seen for a while are forgotten; keep briefly lost ones so their id survives a blink
+          hands.current = [
+            ...matched.map(m => m.state),
+            ...unmatched.filter(state => now - state.lastSeen < 500)
+          ].sort((a, b) => a.id - b.id);
 
-          const avgBaseDist = totalBaseDist / 4;
-          const avgTipDist = totalTipDist / 4;
-          const rawRatio = avgTipDist / (avgBaseDist || 1);
-          
-          ratioHistory.current.push(rawRatio);
-          if (ratioHistory.current.length > 5) ratioHistory.current.shift();
-          const smoothedRatio = ratioHistory.current.reduce((a,b) => a+b, 0) / ratioHistory.current.length;
-
-          if (!isCurrentlyOpen.current && smoothedRatio > 1.6) {
-             isCurrentlyOpen.current = true;
-          } else if (isCurrentlyOpen.current && smoothedRatio < 1.2) {
-             isCurrentlyOpen.current = false;
-          }
+          const gestures = matched
+            .map(({ state, prediction }) => processHand(state, prediction, video, now))
+            .sort((a, b) => a.id - b.id);
 
-          const isOpen = isCurrentlyOpen.current;
-          const stateLabel = isOpen ? `OPEN` : `CLOSED`;
-          setDebugState(stateLabel);
+          setDebugState(gestures.map(g => {
+            const label = g.gesture === 'OPEN' || g.gesture === 'FIST' ? (g.isOpen ? 'OPEN' : 'CLOSED') : g.gesture.replace('_', ' ');
+            return gestures.length > 1 ? `${g.handedness[0]}:${label}` : label;
+          }).join(' '));
 
           if (onGestureRef.current) {
-            onGestureRef.current({ isOpen, position: { x, y }, isDetected: true });
+            onGestureRef.current(gestures);
           }
         } else {
           missedFrames.current++;
           if (missedFrames.current > 5) {
-              isCurrentlyOpen.current = false; 
-              ratioHistory.current = []; 
-              posHistory.current = []; 
+              hands.current = [];
               setDebugState("NO HAND");
               if (onGestureRef.current) {
-                onGestureRef.current({ isOpen: false, position: {x:0, y:0}, isDetected: false });
+                onGestureRef.current([]);
               }
           }
         }
@@ -192,7 +381,7 @@ const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiV
 
   return (
     <div 
-      className={`absolute right-4 z-50 transition-all duration-500 ease-in-out w-[32%] md:w-[140px] ${
+      className={`absolute end-4 z-50 transition-all duration-500 ease-in-out w-[32%] md:w-[140px] ${
         isGuiVisible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10 pointer-events-none'
       }`}
       style={{ 
@@ -204,8 +393,8 @@ const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiV
           {cameraError ? (
              <div className="flex flex-col items-center justify-center h-full text-[#d0d0d0] p-2 text-center gap-2">
                 <span className="text-xl">📷</span>
-                <span className="text-[10px] font-sans font-normal">Camera Unavailable</span>
-                <span className="text-[9px] text-[#d0d0d0]/70 font-sans font-normal">Use mouse instead</span>
+                <span className="text-[10px] font-sans font-normal">{t('camera.unavailable')}</span>
+                <span className="text-[9px] text-[#d0d0d0]/70 font-sans font-normal">{t('camera.useMouse')}</span>
              </div>
           ) : (
             <>
@@ -223,12 +412,12 @@ const GestureController: React.FC<GestureControllerProps> = ({ onGesture, isGuiV
           {loading && !cameraError && (
               <div className="absolute inset-0 flex flex-col items-center justify-center text-[#d0d0d0] gap-2 p-4 bg-black/80 backdrop-blur-sm">
                   <div className="w-5 h-5 border-2 border-[#d0d0d0] border-t-transparent rounded-full animate-spin"></div>
-                  <span className="text-[9px] font-sans font-normal text-center animate-pulse">{loadingMessage}</span>
+                  <span className="text-[9px] font-sans font-normal text-center animate-pulse">{t(loadingMessage)}</span>
               </div>
           )}
           
           <div className="absolute top-0 left-0 right-0 pb-2 pt-1.5 px-3 flex flex-col md:flex-row justify-start md:justify-between items-start md:items-start gap-1 md:gap-0" style={{ background: 'linear-gradient(to bottom, rgba(0,0,0,0.8) 0%, rgba(0,0,0,0.5) 25%, transparent 50%)' }}>
-            <span className="text-[9px] md:text-[8px] text-[#d0d0d0] font-sans font-normal">Sensors</span>
+            <span className="text-[9px] md:text-[8px] text-[#d0d0d0] font-sans font-normal">{t('camera.sensors')}</span>
             <span className={`text-[11px] md:text-[9px] font-sans font-normal text-[#d0d0d0]`}>
                 {debugState}
             </span>
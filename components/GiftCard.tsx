@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { Gift } from '../types';
+import { MAX_GIFT_MESSAGE_LENGTH } from '../utils/defaults';
+import { t } from '../utils/i18n';
+
+interface GiftCardProps {
+  index: number; // Box index, shown as the gift number
+  gift: Gift;
+  error: string | null;
+  onMessageChange: (message: string) => void;
+  onPhotoChange: (file: File) => void;
+  onRemovePhoto: () => void;
+  onRewrap: () => void; // Closes the box again (and the card)
+  onClose: () => void;
+}
+
+// The card found in an opened gift box: the author's photo and message, editable in place.
+// An empty box opens straight into editing, so the author fills the boxes by opening them.
+const GiftCard: React.FC<GiftCardProps> = ({
+  index, gift, error, onMessageChange, onPhotoChange, onRemovePhoto, onRewrap, onClose
+}) => {
+  const isEmpty = !gift.message && !gift.photoUrl;
+  const [isEditing, setIsEditing] = useState(isEmpty);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const buttonClass = "flex-1 px-3 py-2 border border-[#d4af37]/40 hover:border-[#d4af37] text-[10px] uppercase tracking-[0.2em] text-[#8a6d1d] transition-colors rounded-sm";
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) onPhotoChange(file);
+      e.target.value = '';
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('gift.dialog', { n: index + 1 })}
+      className="absolute inset-0 z-40 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in"
+      onClick={(e) => {
+          // Tapping the background (not the card) closes it
+          if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="relative bg-[#fdf8ee] p-5 border border-[#d4af37]/60 shadow-[0_0_50px_rgba(212,175,55,0.35)] rotate-[1deg] animate-in zoom-in-95 slide-in-from-bottom-10 duration-700"
+        style={{ width: 'min(85vw, 340px)' }}
+      >
+        {/* Close Button */}
+        <button
+          onClick={onClose}
+          aria-label={t('common.close')}
+          className="absolute -top-4 -end-4 w-8 h-8 rounded-full bg-black border border-white/20 text-white flex items-center justify-center hover:bg-white hover:text-black transition-colors z-50"
+        >
+          ×
+        </button>
+
+        <div className="text-center text-[10px] uppercase tracking-[0.3em] text-[#b08d2a] font-luxury mb-3">{t('gift.number', { n: index + 1 })}</div>
+
+        {gift.photoUrl && (
+          <div className="w-full aspect-[4/3] bg-[#1a1a1a] overflow-hidden mb-3 shadow-inner">
+            <img src={gift.photoUrl} alt={t('gift.photoAlt')} className="w-full h-full object-cover" />
+          </div>
+        )}
+
+        {isEditing ? (
+          <div className="space-y-2">
+            <textarea
+              autoFocus
+              rows={4}
+              placeholder={t('gift.messagePlaceholder')}
+              value={gift.message}
+              maxLength={MAX_GIFT_MESSAGE_LENGTH}
+              onChange={(e) => onMessageChange(e.target.value)}
+              className="w-full p-2 bg-white/60 border border-[#d4af37]/30 focus:border-[#d4af37] outline-none resize-none font-body text-lg text-[#1a1a1a] placeholder:text-gray-400 rounded-sm"
+            />
+            <div className="flex justify-between items-center text-[9px] font-mono text-gray-400">
+              <span>{gift.message.length}/{MAX_GIFT_MESSAGE_LENGTH}</span>
+              <span>{t('gift.photosStayLocal')}</span>
+            </div>
+            <input type="file" ref={fileInputRef} onChange={handleFile} accept="image/*" className="hidden" />
+            <div className="flex gap-2">
+              <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+                {t(gift.photoUrl ? 'gift.changePhoto' : 'gift.addPhoto')}
+              </button>
+              {gift.photoUrl && (
+                <button onClick={onRemovePhoto} className={buttonClass}>{t('gift.removePhoto')}</button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="min-h-[4rem] px-1 text-center font-body text-xl text-[#1a1a1a] whitespace-pre-wrap break-words">
+            {gift.message || (gift.photoUrl ? '' : t('gift.empty'))}
+          </p>
+        )}
+
+        {error && (
+          <div className="mt-2 text-[10px] text-red-700 leading-relaxed">{error}</div>
+        )}
+
+        <div className="flex gap-2 mt-4">
+          <button onClick={() => setIsEditing(!isEditing)} className={buttonClass}>
+            {t(isEditing ? 'gift.done' : 'gift.edit')}
+          </button>
+          <button onClick={onRewrap} className={buttonClass}>{t('gift.rewrap')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GiftCard;
@@ -0,0 +1,57 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SceneInput } from '../types';
+import { frameToCanvasNdc } from '../utils/gestures';
+
+interface GiftPickerProps {
+  groupRef: React.RefObject<THREE.Group>;
+  inputRef: React.MutableRefObject<SceneInput>;
+  disabled?: boolean;
+  onPick: (index: number) => void;
+}
+
+// Gift boxes tag their outer group with userData.isGift / giftIndex (see GiftBoxMesh)
+const findGiftRoot = (obj: THREE.Object3D | null): THREE.Object3D | null => {
+  while (obj && !obj.userData.isGift) obj = obj.parent;
+  return obj;
+};
+
+const collectGifts = (root: THREE.Object3D) => {
+  const gifts: THREE.Object3D[] = [];
+  root.traverse(obj => {
+    if (obj.userData.isGift) gifts.push(obj);
+  });
+  return gifts;
+};
+
+// Opens the gift box a hand pinches. Mouse/touch picking happens on the boxes themselves (onClick in GiftBoxMesh).
+// Only the start of a pinch picks, so holding the pinch to zoom doesn't keep opening boxes.
+const GiftPicker: React.FC<GiftPickerProps> = ({ groupRef, inputRef, disabled = false, onPick }) => {
+  const { raycaster, camera, size } = useThree();
+  const wasPinching = useRef(false);
+  const ndc = useMemo(() => new THREE.Vector2(), []);
+
+  const onPickRef = useRef(onPick);
+  useEffect(() => {
+    onPickRef.current = onPick;
+  }, [onPick]);
+
+  useFrame(() => {
+    const pinch = inputRef.current.isDetected ? inputRef.current.pinchPoint : null;
+    const group = groupRef.current;
+
+    if (pinch && !wasPinching.current && group && !disabled) {
+      const point = frameToCanvasNdc(pinch, inputRef.current.frameAspect ?? 1, size.width / size.height);
+      raycaster.setFromCamera(ndc.set(point.x, point.y), camera);
+      const hit = raycaster.intersectObjects(collectGifts(group), true)[0];
+      const index = hit ? findGiftRoot(hit.object)?.userData.giftIndex : undefined;
+      if (typeof index === 'number') onPickRef.current(index);
+    }
+    wasPinching.current = !!pinch;
+  });
+
+  return null;
+};
+
+export default GiftPicker;
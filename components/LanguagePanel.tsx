@@ -0,0 +1,36 @@
+import React from 'react';
+import { Locale, LOCALES, LOCALE_IDS, t } from '../utils/i18n';
+
+interface LanguagePanelProps {
+  locale: Locale;
+  onSelect: (locale: Locale) => void;
+  onClose: () => void;
+}
+
+const LanguagePanel: React.FC<LanguagePanelProps> = ({ locale, onSelect, onClose }) => {
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)]">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('language.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      <div className="space-y-2">
+        {LOCALE_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => onSelect(id)}
+            lang={id}
+            dir={LOCALES[id].dir}
+            aria-pressed={id === locale}
+            className={`w-full px-3 py-2 rounded-sm border text-start text-[11px] tracking-[0.1em] transition-colors ${id === locale ? 'border-[#d4af37] text-[#d4af37] bg-white/5' : 'border-white/10 text-slate-400 hover:border-white/30 hover:text-white'}`}
+          >
+            {LOCALES[id].name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LanguagePanel;
@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { ModelSettings, OrnamentModel } from '../types';
+import { MODEL_SLOT_COUNT } from './ornamentRegistry';
+import { MAX_IMPORTED_MODELS } from '../utils/defaults';
+import { MessageKey, t } from '../utils/i18n';
+
+interface ModelPanelProps {
+  models: OrnamentModel[]; // Imported models only (ball.glb is tuned in Developer Mode)
+  isImporting: boolean;
+  error: string | null;
+  onImport: (files: File[]) => void;
+  onChange: (id: string, settings: ModelSettings) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const SLIDERS: { key: Exclude<keyof ModelSettings, 'slot'>; label: MessageKey; min: number; max: number; step: number; digits: number }[] = [
+    { key: 'count', label: 'models.count', min: 1, max: 40, step: 1, digits: 0 },
+    { key: 'scale', label: 'models.size', min: 0.1, max: 2.0, step: 0.05, digits: 2 },
+    { key: 'variance', label: 'models.variance', min: 0, max: 1, step: 0.05, digits: 2 },
+];
+
+const isGlb = (file: File) => file.name.toLowerCase().endsWith('.glb');
+
+const ModelPanel: React.FC<ModelPanelProps> = ({ models, isImporting, error, onImport, onChange, onRemove, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const isFull = models.length >= MAX_IMPORTED_MODELS;
+
+  const handleFiles = (fileList: FileList | null) => {
+      if (!fileList) return;
+      onImport(Array.from(fileList).filter(isGlb));
+      if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      if (!isImporting && !isFull) handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)] max-h-[80vh] overflow-y-auto custom-scrollbar">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('models.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      <div className="space-y-4">
+        {/* Drop Zone */}
+        <input type="file" ref={fileInputRef} onChange={(e) => handleFiles(e.target.files)} accept=".glb,model/gltf-binary" multiple className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          disabled={isImporting || isFull}
+          className={`w-full px-3 py-5 rounded-sm border border-dashed text-[10px] uppercase tracking-[0.15em] leading-relaxed transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isDragging ? 'border-[#d4af37] text-[#d4af37] bg-white/5' : 'border-white/20 text-slate-400 hover:border-white/40 hover:text-white'}`}
+        >
+          {isImporting ? t('models.importing') : isFull ? t('models.full', { max: MAX_IMPORTED_MODELS }) : t('models.drop')}
+        </button>
+
+        {error && (
+          <div className="text-[10px] text-red-300 leading-relaxed whitespace-pre-line">{error}</div>
+        )}
+
+        {models.map(model => (
+          <div key={model.id} className="space-y-3 pt-3 border-t border-white/10">
+            <div className="flex justify-between items-center gap-2">
+              <span className="text-[10px] text-[#d4af37] truncate" title={model.name}>{model.name}</span>
+              <button onClick={() => onRemove(model.id)} className="text-[10px] uppercase tracking-wider text-slate-500 hover:text-red-300 transition-colors">{t('models.remove')}</button>
+            </div>
+
+            {/* Slot: where on the tree's spiral this model hangs */}
+            <div className="flex gap-1">
+              {Array.from({ length: MODEL_SLOT_COUNT }, (_, slot) => (
+                  <button
+                    key={slot}
+                    onClick={() => onChange(model.id, { ...model.settings, slot })}
+                    className={`flex-1 py-1 rounded-sm border text-[10px] font-mono transition-colors ${model.settings.slot === slot ? 'border-[#d4af37] text-[#d4af37]' : 'border-white/10 text-slate-400 hover:border-white/30'}`}
+                    title={t('models.slot', { n: slot + 1 })}
+                  >
+                    {slot + 1}
+                  </button>
+              ))}
+            </div>
+
+            {SLIDERS.map(({ key, label, min, max, step, digits }) => (
+              <div key={key} className="group">
+                <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+                  <span>{t(label)}</span>
+                  <span className="font-mono text-[#d4af37]">{model.settings[key].toFixed(digits)}</span>
+                </div>
+                <input
+                  type="range"
+                  min={min} max={max} step={step}
+                  value={model.settings[key]}
+                  onChange={(e) => onChange(model.id, { ...model.settings, [key]: parseFloat(e.target.value) })}
+                  className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-[#d4af37] hover:bg-white/20 transition-colors"
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ModelPanel;
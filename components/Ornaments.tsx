@@ -1,110 +1,60 @@
 
-import React, { useMemo, useRef, useLayoutEffect, useState, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useMemo, useRef, useLayoutEffect, useState, useEffect, useCallback } from 'react';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
 import { lerp, randomVector3 } from '../utils/math';
-import CustomOrnament from '../Object/CustomOrnament';
-
-interface OrnamentData {
-  chaosPos: THREE.Vector3;
-  targetPos: THREE.Vector3;
-  rotation: THREE.Euler;
-  color: THREE.Color;
-  targetScale: THREE.Vector3;
-  chaosScale: THREE.Vector3;
-  chaosTilt: number;
-}
+import { Photo, OrnamentType, FormationId } from '../types';
+import { getDefaultCaption } from '../utils/defaults';
+import { OrnamentData, getOrnamentDefinition } from './ornamentRegistry';
+import { TreeShape, DEFAULT_TREE_SHAPE } from '../utils/treeShape';
+import { DEFAULT_FORMATION, getFormation } from '../utils/formations';
+import { Wind } from '../utils/wind';
+
+// Seconds a theme cross-fade runs before colors are snapped to their targets
+const COLOR_FADE_SECONDS = 3;
+
+const WHITE = new THREE.Color('#ffffff');
+
+// Distance off the surface per unit of pushOut above 1 (1.08 -> 0.32, 1.15 -> 0.6)
+const PUSH_OUT_DISTANCE = 4;
+
+// Sway per unit of wind speed (units per second)
+const WIND_SWAY = 0.1;
+
+const getPaletteColor = (palette: THREE.Color[], seed: number) => palette[Math.min(Math.floor(seed * palette.length), palette.length - 1)];
+
+// Formed photos face away from the trunk, or the viewer in front-facing formations
+const FRONT = new THREE.Vector3(0, 0, 1);
+const facingDir = new THREE.Vector3();
+const lookPoint = new THREE.Vector3();
+const faceFormed = (group: THREE.Group, item: OrnamentData) => {
+    const { x, y, z } = group.position;
+    facingDir.set(x, 0, z).normalize().lerp(FRONT, item.frontFacing);
+    if (facingDir.lengthSq() < 1e-6) facingDir.copy(FRONT);
+    // lookAt takes a world point; the direction is in the spinning tree group's frame
+    lookPoint.copy(group.position).add(facingDir);
+    group.parent?.localToWorld(lookPoint);
+    group.lookAt(lookPoint);
+};
+
+const treeRotation = new THREE.Quaternion();
+const windPush = new THREE.Vector3();
+const swayTarget = new THREE.Vector3();
 
 interface OrnamentsProps {
   mixFactor: number;
-  type: 'BALL' | 'BOX' | 'STAR' | 'CANDY' | 'CRYSTAL' | 'PHOTO';
+  type: OrnamentType;
   count: number;
-  colors?: string[];
+  colors?: string[]; // Palette (defaults to the type's own); changing it cross-fades the ornaments to the new colors
   scale?: number;
   variance?: number; // General variance
-  customScale?: number; // Specific for ball.glb
-  customVariance?: number; // Specific for ball.glb
-  userImages?: string[];
-  signatureText?: string;
-}
-
-// --- Procedural Geometry Generators ---
-
-const createCandyCaneGeometry = () => {
-    // Create a path: Line up, then curve for the hook
-    const path = new THREE.CatmullRomCurve3([
-        new THREE.Vector3(0, -1.0, 0),
-        new THREE.Vector3(0, 0.5, 0),
-        new THREE.Vector3(0.1, 0.8, 0),
-        new THREE.Vector3(0.4, 0.9, 0),
-        new THREE.Vector3(0.6, 0.6, 0) 
-    ]);
-    
-    // Tube
-    const geometry = new THREE.TubeGeometry(path, 32, 0.12, 8, false);
-    geometry.center(); // Crucial for rotation
-    return geometry;
-};
-
-const createStarGeometry = (points: number, outerRadius: number, innerRadius: number, depth: number) => {
-    const shape = new THREE.Shape();
-    const step = (Math.PI * 2) / (points * 2);
-    
-    shape.moveTo(0, outerRadius);
-    
-    for(let i = 0; i < points * 2; i++) {
-        const radius = (i % 2 === 0) ? outerRadius : innerRadius;
-        const angle = i * step;
-        shape.lineTo(Math.sin(angle) * radius, Math.cos(angle) * radius);
-    }
-    shape.closePath();
-    
-    const geometry = new THREE.ExtrudeGeometry(shape, {
-        depth: depth,
-        bevelEnabled: true,
-        bevelThickness: 0.05,
-        bevelSize: 0.05,
-        bevelSegments: 2
-    });
-    geometry.center();
-    return geometry;
-};
-
-const generateCandyStripeTexture = () => {
-    const canvas = document.createElement('canvas');
-    canvas.width = 128;
-    canvas.height = 128;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    
-    // White background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, 128, 128);
-    
-    // Red stripes
-    ctx.fillStyle = '#cc0000'; // Classic darker red
-    
-    // Draw diagonal stripes
-    // To create a seamless spiral on the tube, we draw diagonal lines.
-    // 3 stripes per tile
-    for (let i = -128; i < 256; i += 42) {
-        ctx.beginPath();
-        ctx.moveTo(i, 0);
-        ctx.lineTo(i + 20, 0);
-        ctx.lineTo(i + 20 + 128, 128); // Slope of 1 (128x128)
-        ctx.lineTo(i + 128, 128);
-        ctx.closePath();
-        ctx.fill();
-    }
-    
-    const tex = new THREE.CanvasTexture(canvas);
-    tex.wrapS = THREE.RepeatWrapping;
-    tex.wrapT = THREE.RepeatWrapping;
-    
-    // Repeat along the length (U) to create multiple spiral turns.
-    // Repeat 4 times along the length, 1 time around the circumference.
-    tex.repeat.set(4, 1); 
-    return tex;
+  photos?: Photo[];
+  onPhotoPick?: (index: number) => void; // PHOTO only: a polaroid was clicked/tapped
+  shape?: TreeShape;
+  formation?: FormationId;
+  wind?: Wind | null; // Pushes the formed ornaments downwind
+  openedItems?: boolean[];             // PER_ITEM openables (gift boxes): which ones are open, by index
+  onItemPick?: (index: number) => void; // PER_ITEM only: an ornament was clicked/tapped
 }
 
 const generateSignatureTexture = (text: string) => {
@@ -160,18 +110,6 @@ const generateSignatureTexture = (text: string) => {
     return tex;
 }
 
-// Default polaroid captions for the 8 default images (will repeat via modulo)
-const DEFAULT_POLAROID_TEXTS = [
-    'Selamat Natal',
-    'Merry Christmas',
-    'Feliz Navidad',
-    'Sugeng Natal',
-    'Wilujeng Natal',
-    "Salama' Natal",
-    'Rahajeng Natal',
-    '圣诞快乐'
-];
-
 // Generate a nice missing texture instead of black
 const generateMissingTexture = () => {
     const canvas = document.createElement('canvas');
@@ -206,61 +144,15 @@ const generateMissingTexture = () => {
     return tex;
 }
 
-// --- Standard Sphere Ornament Component ---
-// This handles non-green balls, keeping them as spheres but with individual animation logic
-const SphereOrnament: React.FC<{ item: OrnamentData, mixFactor: number }> = ({ item, mixFactor }) => {
-  const groupRef = useRef<THREE.Group>(null);
-  const currentMixRef = useRef(1);
-  
-  const vecPos = useMemo(() => new THREE.Vector3(), []);
-  const vecScale = useMemo(() => new THREE.Vector3(), []);
-
-  useFrame((state, delta) => {
-    if (!groupRef.current) return;
-    
-    const speed = 2.0 * delta;
-    currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
-    const t = currentMixRef.current;
-    
-    // Position Interpolation
-    vecPos.lerpVectors(item.chaosPos, item.targetPos, t);
-    groupRef.current.position.copy(vecPos);
-    
-    // Scale Interpolation
-    vecScale.lerpVectors(item.chaosScale, item.targetScale, t);
-    groupRef.current.scale.copy(vecScale);
-    
-    // Rotation Interpolation
-    groupRef.current.rotation.copy(item.rotation);
-    
-    // Extra rotation in chaos mode
-    if (t < 0.5) {
-         groupRef.current.rotation.x += delta * 0.5;
-         groupRef.current.rotation.y += delta * 0.5;
-    }
-  });
-
-  return (
-    <group ref={groupRef}>
-      <mesh castShadow receiveShadow>
-        <sphereGeometry args={[1, 32, 32]} />
-        <meshStandardMaterial 
-            color={item.color} 
-            roughness={0.15}
-            metalness={0.6}
-        />
-      </mesh>
-    </group>
-  );
-};
-
 // --- Base Mesh Component for Photos ---
 const PhotoFrameMesh: React.FC<{
     item: OrnamentData;
     mixFactor: number;
     texture: THREE.Texture;
     signatureTexture?: THREE.Texture | null;
-}> = ({ item, mixFactor, texture, signatureTexture }) => {
+    photoIndex?: number;
+    onPick?: (index: number) => void;
+}> = ({ item, mixFactor, texture, signatureTexture, photoIndex, onPick }) => {
     const groupRef = useRef<THREE.Group>(null);
     const innerRef = useRef<THREE.Group>(null); 
     const photoMatRef = useRef<THREE.MeshStandardMaterial>(null);
@@ -314,7 +206,7 @@ const PhotoFrameMesh: React.FC<{
         currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
         const t = currentMixRef.current;
         
-        vecPos.lerpVectors(item.chaosPos, item.targetPos, t);
+        vecPos.lerpVectors(item.chaosPos, item.targetPos, t).add(item.sway);
         groupRef.current.position.copy(vecPos);
         
         vecScale.lerpVectors(item.chaosScale, item.targetScale, t);
@@ -362,8 +254,7 @@ const PhotoFrameMesh: React.FC<{
         groupRef.current.scale.copy(vecScale);
 
         if (t > 0.8) {
-             groupRef.current.lookAt(0, groupRef.current.position.y, 0); 
-             groupRef.current.rotateY(Math.PI); 
+             faceFormed(groupRef.current, item);
              innerRef.current.rotation.z = lerp(innerRef.current.rotation.z, 0, speed);
         } else {
              groupRef.current.lookAt(state.camera.position);
@@ -371,8 +262,15 @@ const PhotoFrameMesh: React.FC<{
         }
     });
 
+    const handleClick = (e: ThreeEvent<MouseEvent>) => {
+        // Ignore the click that ends a drag-to-rotate
+        if (!onPick || photoIndex === undefined || e.delta > 6) return;
+        e.stopPropagation();
+        onPick(photoIndex);
+    };
+
     return (
-        <group ref={groupRef}>
+        <group ref={groupRef} userData={{ isPhoto: true, photoIndex }} onClick={handleClick}>
             <group ref={innerRef}>
                 {/* Frame */}
                 <mesh>
@@ -419,92 +317,6 @@ const PhotoFrameMesh: React.FC<{
     );
 };
 
-// --- Procedural Gift Box Component ---
-const GiftBoxMesh: React.FC<{
-    item: OrnamentData;
-    mixFactor: number;
-}> = ({ item, mixFactor }) => {
-    const groupRef = useRef<THREE.Group>(null);
-    const currentMixRef = useRef(1);
-    
-    const vecPos = useMemo(() => new THREE.Vector3(), []);
-    const vecScale = useMemo(() => new THREE.Vector3(), []);
-    
-    // Auto-detect ribbon color for contrast
-    const { ribbonColor, ribbonMaterial } = useMemo(() => {
-        const c = item.color;
-        const luminance = 0.299 * c.r + 0.587 * c.g + 0.114 * c.b;
-        
-        let ribColorStr = "#FFD700"; // Default Gold
-        
-        if (c.b > c.r + 0.2 && c.b > c.g + 0.2) {
-             ribColorStr = "#E0E0E0"; // Silver
-        } else if (luminance > 0.6) {
-             ribColorStr = "#AA0000"; // Red
-        }
-
-        return {
-            ribbonColor: new THREE.Color(ribColorStr),
-            ribbonMaterial: new THREE.MeshStandardMaterial({
-                color: ribColorStr,
-                roughness: 0.2,
-                metalness: 0.8,
-                emissive: ribColorStr,
-                emissiveIntensity: 0.2
-            })
-        }
-    }, [item.color]);
-
-    useFrame((state, delta) => {
-        if (!groupRef.current) return;
-        const speed = 2.0 * delta;
-        currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
-        const t = currentMixRef.current;
-        
-        vecPos.lerpVectors(item.chaosPos, item.targetPos, t);
-        groupRef.current.position.copy(vecPos);
-        
-        vecScale.lerpVectors(item.chaosScale, item.targetScale, t);
-        groupRef.current.scale.copy(vecScale);
-        
-        groupRef.current.rotation.copy(item.rotation);
-        
-        if (t < 0.5) {
-             groupRef.current.rotation.x += delta * 0.5;
-             groupRef.current.rotation.y += delta * 0.5;
-        }
-    });
-
-    return (
-        <group ref={groupRef}>
-            {/* Box Body */}
-            <mesh castShadow receiveShadow>
-                <boxGeometry args={[1, 1, 1]} />
-                <meshStandardMaterial 
-                    color={item.color} 
-                    roughness={0.4}
-                    metalness={0.1}
-                />
-            </mesh>
-            
-            {/* Ribbon 1 (X-Loop) */}
-            <mesh scale={[0.2, 1.01, 1.01]} material={ribbonMaterial}>
-                <boxGeometry args={[1, 1, 1]} />
-            </mesh>
-
-            {/* Ribbon 2 (Z-Loop) */}
-            <mesh scale={[1.01, 1.01, 0.2]} material={ribbonMaterial}>
-                <boxGeometry args={[1, 1, 1]} />
-            </mesh>
-            
-            {/* Bow Knot */}
-            <mesh position={[0, 0.5, 0]} rotation={[0, Math.PI / 4, 0]} material={ribbonMaterial} scale={[0.35, 0.35, 0.35]}>
-                 <torusKnotGeometry args={[0.6, 0.15, 64, 8, 2, 3]} />
-            </mesh>
-        </group>
-    );
-};
-
 const generateCardTexture = () => {
     const canvas = document.createElement('canvas');
     canvas.width = 256;
@@ -536,7 +348,7 @@ const PhotoLoadingMesh: React.FC<{
         currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
         const t = currentMixRef.current;
         
-        vecPos.lerpVectors(item.chaosPos, item.targetPos, t);
+        vecPos.lerpVectors(item.chaosPos, item.targetPos, t).add(item.sway);
         groupRef.current.position.copy(vecPos);
         
         vecScale.lerpVectors(item.chaosScale, item.targetScale, t);
@@ -566,8 +378,7 @@ const PhotoLoadingMesh: React.FC<{
         groupRef.current.scale.copy(vecScale);
 
         if (t > 0.8) {
-             groupRef.current.lookAt(0, groupRef.current.position.y, 0); 
-             groupRef.current.rotateY(Math.PI); 
+             faceFormed(groupRef.current, item);
         } else {
              groupRef.current.lookAt(state.camera.position);
         }
@@ -588,7 +399,9 @@ const UserPhotoOrnament: React.FC<{
     mixFactor: number;
     url: string;
     signatureTexture?: THREE.Texture | null;
-}> = ({ item, mixFactor, url, signatureTexture }) => {
+    photoIndex?: number;
+    onPick?: (index: number) => void;
+}> = ({ item, mixFactor, url, signatureTexture, photoIndex, onPick }) => {
     const [texture, setTexture] = useState<THREE.Texture | null>(null);
     const [error, setError] = useState(false);
 
@@ -652,7 +465,7 @@ const UserPhotoOrnament: React.FC<{
     if (error) {
         // Fallback: Use the generated missing texture so it looks intentional, not just broken
         const fallbackTex = useMemo(() => generateMissingTexture(), []);
-        return <PhotoFrameMesh item={item} mixFactor={mixFactor} texture={fallbackTex} signatureTexture={null} />;
+        return <PhotoFrameMesh item={item} mixFactor={mixFactor} texture={fallbackTex} signatureTexture={null} photoIndex={photoIndex} onPick={onPick} />;
     }
 
     if (!texture) {
@@ -660,65 +473,64 @@ const UserPhotoOrnament: React.FC<{
         return <PhotoLoadingMesh item={item} mixFactor={mixFactor} />;
     }
 
-    return <PhotoFrameMesh item={item} mixFactor={mixFactor} texture={texture} signatureTexture={signatureTexture} />;
+    return <PhotoFrameMesh item={item} mixFactor={mixFactor} texture={texture} signatureTexture={signatureTexture} photoIndex={photoIndex} onPick={onPick} />;
 };
 
-// Defines phase offsets for different ornament types to prevent overlap
-const getTypeOffsetIndex = (type: string) => {
-    switch(type) {
-        case 'BALL': return 0;
-        case 'BOX': return 1;
-        case 'STAR': return 2;
-        case 'CANDY': return 3;
-        case 'CRYSTAL': return 4;
-        case 'PHOTO': return 5;
-        default: return 0;
-    }
-}
-
-const Ornaments: React.FC<OrnamentsProps> = ({ mixFactor, type, count, colors, scale = 1, variance, customScale, customVariance, userImages = [], signatureText }) => {
-  const meshRef = useRef<THREE.InstancedMesh>(null);
+const Ornaments: React.FC<OrnamentsProps> = ({ mixFactor, type, count, colors, scale = 1, variance = 0.2, photos = [], onPhotoPick, shape = DEFAULT_TREE_SHAPE, formation = DEFAULT_FORMATION, wind = null, openedItems, onItemPick }) => {
+  const rootRef = useRef<THREE.Group>(null);
+  const meshRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
   const dummy = useMemo(() => new THREE.Object3D(), []);
   const currentMixRef = useRef(1);
 
-  const candyTexture = useMemo(() => {
-      if (type === 'CANDY') return generateCandyStripeTexture();
-      return null;
-  }, [type]);
+  const definition = getOrnamentDefinition(type);
+  const { render } = definition;
+  const isPhoto = render.kind === 'PHOTO';
 
-  // Generate signature texture
-  // Only generate if type is PHOTO and we have text
-  const signatureTexture = useMemo(() => {
-      if (type === 'PHOTO' && signatureText) {
-          return generateSignatureTexture(signatureText);
+  // Caption textures, cached per caption text so editing one polaroid only redraws that caption.
+  // Generated after fonts are ready to ensure canvas uses the correct @font-face on GitHub Pages.
+  const [fontsReady, setFontsReady] = useState(false);
+  const captionTextures = useRef(new Map<string, THREE.Texture | null>());
+
+  const getCaptionTexture = useCallback((caption: string) => {
+      if (!fontsReady || !caption) return null;
+      const cache = captionTextures.current;
+      if (!cache.has(caption)) {
+          cache.set(caption, generateSignatureTexture(caption));
       }
-      return null;
-  }, [type, signatureText]);
+      return cache.get(caption) ?? null;
+  }, [fontsReady]);
 
-  // Default signature textures (one per default polaroid text).
-  // Generate after fonts are ready to ensure canvas uses the correct @font-face on GitHub Pages.
-  const [defaultSignatureTextures, setDefaultSignatureTextures] = useState<THREE.Texture[]>([]);
+  // Captions of every polaroid slot (photos beyond the list fall back to the defaults)
+  const captions = useMemo(() => {
+      if (!isPhoto) return [];
+      return Array.from({ length: count }, (_, i) => photos[i]?.caption ?? getDefaultCaption(i));
+  }, [isPhoto, count, photos]);
 
+  // Drop textures for captions no longer on the tree (e.g. the intermediate text while typing)
   useEffect(() => {
-      if (type !== 'PHOTO') return;
+      const inUse = new Set(captions);
+      captionTextures.current.forEach((tex, caption) => {
+          if (!inUse.has(caption)) {
+              tex?.dispose();
+              captionTextures.current.delete(caption);
+          }
+      });
+  }, [captions]);
+
+  useEffect(() => {
+      if (!isPhoto) return;
       let isMounted = true;
 
-      const generateAll = () => {
-          const texs = DEFAULT_POLAROID_TEXTS.map(t => generateSignatureTexture(t));
-          if (!isMounted) {
-              // dispose if created but component unmounted
-              texs.forEach(tx => { if (tx) tx.dispose?.(); });
-              return;
-          }
-          setDefaultSignatureTextures(texs);
+      const markReady = () => {
+          if (isMounted) setFontsReady(true);
       };
 
       // If the page has the FontFace API, attempt to ensure the Chinese font is loaded from the correct base path
       const maybeEnsureFonts = async () => {
           try {
-              // If Chinese is already available, just generate
+              // If Chinese is already available, we're ready
               if (typeof document !== 'undefined' && (document as any).fonts && (document as any).fonts.check && (document as any).fonts.check('12px Chinese')) {
-                  generateAll();
+                  markReady();
                   return;
               }
 
@@ -734,10 +546,10 @@ const Ornaments: React.FC<OrnamentsProps> = ({ mixFactor, type, count, colors, s
                   await (document as any).fonts.ready;
               }
 
-              generateAll();
+              markReady();
           } catch (e) {
-              // Fallback: generate anyway
-              generateAll();
+              // Fallback: draw with whatever fonts we have
+              markReady();
           }
       };
 
@@ -746,67 +558,76 @@ const Ornaments: React.FC<OrnamentsProps> = ({ mixFactor, type, count, colors, s
       return () => {
           isMounted = false;
           // cleanup textures
-          setDefaultSignatureTextures(prev => {
-              prev.forEach(tx => { if (tx) tx.dispose?.(); });
-              return [];
-          });
+          captionTextures.current.forEach(tex => tex?.dispose());
+          captionTextures.current.clear();
       };
-  }, [type]);
-
-  // Generate specific geometry based on type
-  const geometry = useMemo(() => {
-      switch(type) {
-          case 'CANDY':
-              return createCandyCaneGeometry();
-          case 'CRYSTAL': // Snowflake
-              return createStarGeometry(6, 1.0, 0.3, 0.1); 
-          case 'STAR':
-              return createStarGeometry(5, 1.0, 0.5, 0.2);
-          case 'BALL':
-              return new THREE.SphereGeometry(1, 16, 16);
-          case 'BOX':
-          default:
-              return new THREE.BoxGeometry(1, 1, 1);
+  }, [isPhoto]);
+
+  // Instanced types draw one instancedMesh per part: a single part built from the registry entry,
+  // or the parts of an imported model (owned by the model loader, so not disposed here)
+  const instanced = useMemo(() => {
+      if (render.kind === 'INSTANCED') {
+          return { parts: [{ geometry: render.geometry(), material: render.material(), matrix: new THREE.Matrix4() }], tint: render.tint, owned: true };
+      }
+      if (render.kind === 'MODEL') {
+          return { parts: render.parts, tint: false, owned: false };
       }
-  }, [type]);
+      return null;
+  }, [render]);
+
+  useEffect(() => {
+      return () => {
+          if (!instanced?.owned) return;
+          instanced.parts.forEach(({ geometry, material }) => {
+              const mat = material as THREE.MeshStandardMaterial;
+              geometry.dispose();
+              mat.map?.dispose();
+              mat.dispose();
+          });
+      };
+  }, [instanced]);
+
+  // Palette as colors; new ornaments start on it, existing ones fade to it (see useFrame)
+  const paletteColors = useMemo(() => {
+      const palette = colors && colors.length ? colors : definition.defaultPalette;
+      return (palette.length ? palette : ['#ffffff']).map(c => new THREE.Color(c));
+  }, [colors, definition]);
+  const paletteRef = useRef(paletteColors);
+  paletteRef.current = paletteColors;
+  const colorFadeRef = useRef(0); // Seconds left in the current theme cross-fade
+
+  useEffect(() => {
+      colorFadeRef.current = COLOR_FADE_SECONDS;
+  }, [paletteColors]);
 
   const data = useMemo(() => {
     const items: OrnamentData[] = [];
     
     // Golden Spiral Constants
     const goldenAngle = Math.PI * (3 - Math.sqrt(5)); // ~2.399 rads
-    const treeHeight = 18;
-    const treeRadiusBase = 7.5;
-    const apexY = 9; // Top of the foliage volume
+    const surfaceNormal = new THREE.Vector3();
     
     // Phase offset per type to avoid different ornaments overlapping
-    const typeIndex = getTypeOffsetIndex(type);
-    const angleOffset = typeIndex * (Math.PI * 2 / 6); // Spread 6 types over 360 deg
+    const angleOffset = definition.phase * (Math.PI * 2 / 6); // Phases are sixths of a turn
 
     for (let i = 0; i < count; i++) {
       // --- Deterministic Golden Spiral Position ---
       const progress = Math.sqrt((i + 1) / count) * 0.9; // 0 (Top) -> 0.9 (Near Bottom)
-      
-      const r = progress * treeRadiusBase;
-      const y = apexY - progress * treeHeight;
       const theta = i * goldenAngle + angleOffset;
 
-      // Convert polar to Cartesian
-      const x = r * Math.cos(theta);
-      const z = r * Math.sin(theta);
-      
-      const tPos = new THREE.Vector3(x, y, z);
+      // Point on the tree surface (shape heights run bottom -> top)
+      const tPos = shape.sample(1 - progress, theta);
       
-      // Push out slightly to sit on surface
-      const pushOut = (type === 'STAR' || type === 'PHOTO') ? 1.15 : 1.08;
-      tPos.multiplyScalar(pushOut);
+      // Push out along the surface normal to sit on the needles
+      shape.normal(1 - progress, theta, surfaceNormal);
+      tPos.addScaledVector(surfaceNormal, (definition.pushOut - 1) * PUSH_OUT_DISTANCE);
 
       // --- Chaos Position (Random) ---
       let cPos: THREE.Vector3;
       let chaosTilt = 0;
       
-      if (type === 'PHOTO') {
-          // Special chaos arrangement for photos
+      if (definition.chaosLayout === 'RING') {
+          // Special chaos arrangement (photos)
           const chaosRadius = 18;
           const chaosHeightRange = 12;
           const chaosY = ((i / count) - 0.5) * chaosHeightRange;
@@ -818,16 +639,9 @@ const Ornaments: React.FC<OrnamentsProps> = ({ mixFactor, type, count, colors, s
           cPos = randomVector3(25);
       }
 
-      const colorHex = colors ? colors[Math.floor(Math.random() * colors.length)] : '#ffffff';
+      const colorSeed = Math.random();
       
       // --- Determine Scale Logic ---
-      // Check if this specific item is the 'Custom Ornament' (Ball GLB)
-      // The convention is Green (#1B5E20) for the Ball.glb
-      const isCustomModel = type === 'BALL' && colorHex.toLowerCase() === '#1b5e20';
-      
-      const activeScaleBase = (isCustomModel && customScale !== undefined) ? customScale : scale;
-      const activeVariance = (isCustomModel && customVariance !== undefined) ? customVariance : (variance !== undefined ? variance : 0.2);
-
       const baseScaleVec = new THREE.Vector3(1, 1, 1);
       
       // -- Random Scale Logic --
@@ -836,92 +650,169 @@ const Ornaments: React.FC<OrnamentsProps> = ({ mixFactor, type, count, colors, s
       // Determine random scalar based on variance prop or default behavior
       // Range: 1.0 +/- variance
       // e.g. variance 0.2 -> 0.8 to 1.2
-      const randScale = 1.0 + (rand - 0.5) * activeVariance * 2.0;
+      const randScale = 1.0 + (rand - 0.5) * variance * 2.0;
       
-      if (type === 'CANDY') {
-          baseScaleVec.setScalar(0.7); 
-      } else if (type === 'CRYSTAL') {
-          baseScaleVec.setScalar(0.6); // Snowflakes
-      } else if (type === 'STAR') {
-          baseScaleVec.setScalar(0.7);
-      } else if (type === 'BOX') {
-          // Randomized aspect ratio for gift boxes
-          baseScaleVec.set(
-              1.0 + Math.random() * 0.3, 
-              0.7 + Math.random() * 0.4, 
-              1.0 + Math.random() * 0.3
-          );
+      if (typeof definition.baseScale === 'function') {
+          baseScaleVec.copy(definition.baseScale());
+      } else {
+          baseScaleVec.setScalar(definition.baseScale);
       }
 
-      const targetScale = baseScaleVec.clone().multiplyScalar(activeScaleBase * randScale);
+      const targetScale = baseScaleVec.clone().multiplyScalar(scale * randScale);
       
       let chaosScale = targetScale.clone();
-      if (type === 'PHOTO') {
-          const photoScale = 3.5 + Math.random() * 1.5;
-          chaosScale.multiplyScalar(photoScale);
+      if (definition.chaosScale) {
+          const [minChaos, maxChaos] = definition.chaosScale;
+          chaosScale.multiplyScalar(minChaos + Math.random() * (maxChaos - minChaos));
       }
 
       items.push({
         chaosPos: cPos,
         targetPos: tPos,
+        treePos: tPos.clone(),
+        formFrom: tPos.clone(),
+        formTo: tPos.clone(),
+        frontFacing: 0,
         rotation: new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, 0),
-        color: new THREE.Color(colorHex),
+        color: getPaletteColor(paletteRef.current, colorSeed).clone(),
+        colorSeed,
         targetScale: targetScale,
         chaosScale: chaosScale,
-        chaosTilt: chaosTilt
+        chaosTilt: chaosTilt,
+        sway: new THREE.Vector3()
       });
     }
     return items;
-  }, [count, type, colors, scale, variance, customScale, customVariance]); 
+  }, [count, definition, scale, variance, shape]); 
+
+  // Formation morph: every item's targetPos runs from formFrom to formTo as progress goes 0 -> 1
+  const formMorphRef = useRef({ progress: 1, facingFrom: 0, facingTo: 0 });
+
+  useEffect(() => {
+      const morph = formMorphRef.current;
+      const { target, frontFacing } = getFormation(formation);
+      const ctx = { layer: isPhoto ? 'PHOTOS' as const : 'ORNAMENTS' as const, phase: definition.phase / 6 };
+
+      data.forEach((item, i) => {
+          // targetPos holds the current blend, so a morph can start from a half-finished one
+          item.formFrom.copy(item.targetPos);
+          if (target) target(i, data.length, ctx, item.formTo);
+          else item.formTo.copy(item.treePos);
+      });
+      morph.facingFrom = lerp(morph.facingFrom, morph.facingTo, morph.progress);
+      morph.facingTo = frontFacing ? 1 : 0;
+      morph.progress = 0;
+  }, [formation, data]);
 
   const fallbackTextures = useMemo(() => {
-      if (type !== 'PHOTO') return [];
+      if (!isPhoto) return [];
       return [generateCardTexture()];
-  }, [type]);
+  }, [isPhoto]);
+
+  // Writes one ornament's transform into every part mesh (part transforms sit inside the ornament's)
+  const partMatrix = useMemo(() => new THREE.Matrix4(), []);
+  const setOrnamentMatrix = (meshes: THREE.InstancedMesh[], index: number, matrix: THREE.Matrix4) => {
+      meshes.forEach((mesh, p) => {
+          partMatrix.multiplyMatrices(matrix, instanced!.parts[p].matrix);
+          mesh.setMatrixAt(index, partMatrix);
+      });
+  };
+
+  const getPartMeshes = () => {
+      if (!instanced) return [];
+      const meshes = meshRefs.current.slice(0, instanced.parts.length);
+      return meshes.every(Boolean) ? meshes as THREE.InstancedMesh[] : [];
+  };
 
   useLayoutEffect(() => {
      // Skip instanced logic for types that use individual meshes
-     if (!meshRef.current || type === 'PHOTO' || type === 'BOX' || type === 'BALL') return;
+     const meshes = getPartMeshes();
+     if (meshes.length === 0) return;
      
      data.forEach((item, i) => {
-         // If Candy, we force white so texture renders correctly.
-         // If other types, we use the random assigned color.
-         const color = type === 'CANDY' ? new THREE.Color('#ffffff') : item.color;
+         // Untinted types (candy, models) stay white so their texture/materials render correctly.
+         // Other types use the random assigned color.
+         const color = instanced!.tint ? item.color : WHITE;
          
-         meshRef.current!.setColorAt(i, color);
+         meshes.forEach(mesh => mesh.setColorAt(i, color));
          dummy.position.copy(item.targetPos);
          dummy.scale.copy(item.targetScale);
          dummy.rotation.copy(item.rotation);
          dummy.updateMatrix();
-         meshRef.current!.setMatrixAt(i, dummy.matrix);
+         setOrnamentMatrix(meshes, i, dummy.matrix);
      });
      
-     if (meshRef.current.instanceColor) {
-         meshRef.current.instanceColor.needsUpdate = true;
-     }
-     meshRef.current.instanceMatrix.needsUpdate = true;
-  }, [data, type, dummy]);
+     meshes.forEach(mesh => {
+         if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+         mesh.instanceMatrix.needsUpdate = true;
+     });
+  }, [data, instanced, dummy]);
 
   useFrame((state, delta) => {
-    // Skip instanced update for complex types
-    if (!meshRef.current || type === 'PHOTO' || type === 'BOX' || type === 'BALL') return;
+    const meshes = getPartMeshes();
+
+    // Theme cross-fade: ease every ornament towards its slot in the current palette.
+    // Per-item meshes (BALL, BOX) read item.color themselves; instanced ones are recolored here.
+    if (colorFadeRef.current > 0 && !isPhoto) {
+        colorFadeRef.current -= delta;
+        const done = colorFadeRef.current <= 0;
+        const recolor = meshes.length > 0 && instanced!.tint;
+
+        data.forEach((item, i) => {
+            const target = getPaletteColor(paletteColors, item.colorSeed);
+            if (done) item.color.copy(target);
+            else item.color.lerp(target, 2.0 * delta);
+            if (recolor) meshes.forEach(mesh => mesh.setColorAt(i, item.color));
+        });
+
+        if (recolor) {
+            meshes.forEach(mesh => {
+                if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+            });
+        }
+    }
 
     const speed = 2.0 * delta;
+
+    // Formation morph (per-item meshes read the moved targetPos themselves)
+    const morph = formMorphRef.current;
+    if (morph.progress < 1) {
+        morph.progress = morph.progress > 0.999 ? 1 : lerp(morph.progress, 1, speed);
+        const facing = lerp(morph.facingFrom, morph.facingTo, morph.progress);
+        data.forEach(item => {
+            item.targetPos.lerpVectors(item.formFrom, item.formTo, morph.progress);
+            item.frontFacing = facing;
+        });
+    }
+
     currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
     const t = currentMixRef.current;
+
+    // Wind: formed ornaments swing downwind on their hooks, each with its own flutter, easing in so gusts
+    // take hold gradually. The air blows in world space, the ornaments sit in the spinning tree.
+    if (wind && rootRef.current) {
+        rootRef.current.getWorldQuaternion(treeRotation).invert();
+        windPush.copy(wind.velocity).applyQuaternion(treeRotation).multiplyScalar(WIND_SWAY * t);
+        const time = state.clock.elapsedTime;
+        data.forEach(item => {
+            const flutter = 0.7 + 0.3 * Math.sin(time * (2 + item.colorSeed * 2) + item.colorSeed * 30);
+            swayTarget.copy(windPush).multiplyScalar(flutter);
+            item.sway.lerp(swayTarget, 3.0 * delta);
+        });
+    }
+
+    // Skip instanced update for complex types
+    if (meshes.length === 0) return;
     
     const currentPos = new THREE.Vector3();
     const currentScale = new THREE.Vector3();
 
     data.forEach((item, i) => {
-      currentPos.lerpVectors(item.chaosPos, item.targetPos, t);
+      currentPos.lerpVectors(item.chaosPos, item.targetPos, t).add(item.sway);
       dummy.position.copy(currentPos);
       
-      if (type === 'STAR' && t > 0.8) {
-         dummy.lookAt(0, currentPos.y, 0); 
-         dummy.rotateZ(Math.PI / 2); // Orient star to face out
-      } else if (type === 'CRYSTAL' && t > 0.8) {
-         dummy.lookAt(0, currentPos.y, 0); 
+      if (definition.orient && t > 0.8) {
+         definition.orient(dummy, item);
       } else {
          dummy.rotation.copy(item.rotation);
          // Spin the ornaments in chaos mode
@@ -935,78 +826,55 @@ const Ornaments: React.FC<OrnamentsProps> = ({ mixFactor, type, count, colors, s
       dummy.scale.copy(currentScale); 
 
       dummy.updateMatrix();
-      meshRef.current!.setMatrixAt(i, dummy.matrix);
+      setOrnamentMatrix(meshes, i, dummy.matrix);
     });
     
-    meshRef.current.instanceMatrix.needsUpdate = true;
+    meshes.forEach(mesh => {
+        mesh.instanceMatrix.needsUpdate = true;
+    });
   });
 
-  if (type === 'PHOTO') {
+  if (render.kind === 'PHOTO') {
       return (
-          <group>
+          <group ref={rootRef}>
               {data.map((item, i) => {
-                  let imgSrc: string | undefined = undefined;
-                  if (userImages && userImages.length > 0) {
-                      // Safety check for array index
-                      if (i < userImages.length) {
-                           imgSrc = userImages[i];
-                      }
-                  }
-
-                  // Per-photo signature selection:
-                  // - If user provided a global signatureText, use that (signatureTexture).
-                  // - Otherwise use the default polaroid captions, repeating via modulo.
-                  const perPhotoSignature: THREE.Texture | null = signatureTexture ?? (defaultSignatureTextures.length ? defaultSignatureTextures[i % defaultSignatureTextures.length] : null);
+                  const photo: Photo | undefined = photos[i];
+                  const captionTexture = getCaptionTexture(captions[i] ?? '');
 
                   // Use fallback texture logic if no image URL is present.
-                  if (imgSrc) {
-                      return <UserPhotoOrnament key={i} item={item} mixFactor={mixFactor} url={imgSrc} signatureTexture={perPhotoSignature} />;
+                  if (photo?.url) {
+                      return <UserPhotoOrnament key={i} item={item} mixFactor={mixFactor} url={photo.url} signatureTexture={captionTexture} photoIndex={i} onPick={onPhotoPick} />;
                   } else {
                       const fallback = fallbackTextures[i % fallbackTextures.length];
-                      return <PhotoFrameMesh key={i} item={item} mixFactor={mixFactor} texture={fallback} signatureTexture={perPhotoSignature} />;
+                      return <PhotoFrameMesh key={i} item={item} mixFactor={mixFactor} texture={fallback} signatureTexture={captionTexture} photoIndex={i} onPick={onPhotoPick} />;
                   }
               })}
           </group>
       )
   }
 
-  // Use Detailed GiftBox Mesh
-  if (type === 'BOX') {
+  // Per-item types (balls, gift boxes) animate themselves
+  if (render.kind === 'PER_ITEM') {
+      const ItemComponent = render.component;
       return (
-          <group>
+          <group ref={rootRef}>
               {data.map((item, i) => (
-                  <GiftBoxMesh key={i} item={item} mixFactor={mixFactor} />
+                  <ItemComponent key={i} item={item} mixFactor={mixFactor} index={i} opened={openedItems?.[i]} onPick={onItemPick} />
               ))}
           </group>
       )
   }
 
-  // Handle BALL type: Check if green to use Custom Model, else Sphere
-  if (type === 'BALL') {
-      return (
-          <group>
-              {data.map((item, i) => {
-                  // Check against the Dark Green color defined in Experience.tsx (#1B5E20)
-                  // THREE.Color.getHexString() returns lowercase 6-char string (no hash)
-                  if (item.color.getHexString() === '1b5e20') {
-                      return <CustomOrnament key={i} item={item} mixFactor={mixFactor} />;
-                  }
-                  return <SphereOrnament key={i} item={item} mixFactor={mixFactor} />;
-              })}
-          </group>
-      )
-  }
-
   return (
-    <instancedMesh ref={meshRef} args={[geometry, undefined, count]}>
-      <meshStandardMaterial 
-        map={candyTexture}
-        roughness={type === 'CANDY' ? 0.2 : 0.15} 
-        metalness={type === 'CRYSTAL' ? 0.9 : 0.5} 
-        emissive={type === 'CRYSTAL' ? "#112244" : "#000000"}
-        emissiveIntensity={0.2}
-      />
-    </instancedMesh>
+    <group ref={rootRef}>
+        {instanced.parts.map((part, p) => (
+            <instancedMesh
+                key={p}
+                ref={(mesh: THREE.InstancedMesh | null) => { meshRefs.current[p] = mesh; }}
+                args={[part.geometry, part.material, count]}
+            />
+        ))}
+    </group>
   );
 };
 
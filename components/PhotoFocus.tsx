@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CameraDirection, SceneInput } from '../types';
+import { frameToCanvasNdc } from '../utils/gestures';
+
+interface PhotoFocusProps {
+  focusedPhoto: number | null;
+  groupRef: React.RefObject<THREE.Group>;
+  directorRef: React.MutableRefObject<CameraDirection | null>;
+  inputRef: React.MutableRefObject<SceneInput>;
+  // While disabled (e.g. a clip is recording) the director belongs to someone else
+  disabled?: boolean;
+  onPick: (index: number) => void;
+}
+
+type FocusPhase = 'IDLE' | 'FOCUS' | 'RETURN';
+
+const FOCUS_DISTANCE = 5;   // Camera distance in front of the polaroid
+const POINT_DWELL_MS = 800; // How long a pointing finger must rest on a photo to pick it
+
+const ORIGIN = new THREE.Vector3(0, 0, 0);
+
+// Photos tag their outer group with userData.isPhoto / photoIndex (see PhotoFrameMesh)
+const findPhotoRoot = (obj: THREE.Object3D | null): THREE.Object3D | null => {
+  while (obj && !obj.userData.isPhoto) obj = obj.parent;
+  return obj;
+};
+
+const collectPhotos = (root: THREE.Object3D) => {
+  const photos: THREE.Object3D[] = [];
+  root.traverse(obj => {
+    if (obj.userData.isPhoto) photos.push(obj);
+  });
+  return photos;
+};
+
+// Flies the camera to the selected polaroid and back, and lets a pointing hand pick one.
+// Mouse/touch picking happens on the polaroids themselves (onClick in PhotoFrameMesh).
+const PhotoFocus: React.FC<PhotoFocusProps> = ({ focusedPhoto, groupRef, directorRef, inputRef, disabled = false, onPick }) => {
+  const { raycaster, camera, size } = useThree();
+
+  const phase = useRef<FocusPhase>('IDLE');
+  const direction = useMemo<CameraDirection>(() => ({
+    position: new THREE.Vector3(),
+    lookAt: new THREE.Vector3(),
+    spinSpeed: 0
+  }), []);
+  const target = useRef<THREE.Object3D | null>(null);
+  const dwell = useRef<{ index: number, since: number } | null>(null);
+
+  const ndc = useMemo(() => new THREE.Vector2(), []);
+  const photoPos = useMemo(() => new THREE.Vector3(), []);
+  const outward = useMemo(() => new THREE.Vector3(), []);
+
+  const onPickRef = useRef(onPick);
+  useEffect(() => {
+    onPickRef.current = onPick;
+  }, [onPick]);
+
+  useEffect(() => {
+    if (disabled) return;
+
+    if (focusedPhoto !== null) {
+      if (phase.current === 'IDLE') {
+        direction.lookAt.copy(ORIGIN);
+      }
+      target.current = null;
+      phase.current = 'FOCUS';
+      directorRef.current = direction;
+    } else if (phase.current === 'FOCUS') {
+      phase.current = 'RETURN';
+    }
+  }, [focusedPhoto, disabled]);
+
+  useFrame((state, delta) => {
+    const safeDelta = Math.min(delta, 0.1);
+    const group = groupRef.current;
+    if (!group) return;
+
+    if (disabled) {
+      // The recorder has taken over the camera; forget our own shot
+      phase.current = 'IDLE';
+      dwell.current = null;
+      return;
+    }
+
+    // --- Pointing Hand: dwell on a photo to pick it ---
+    const pointer = inputRef.current.isDetected ? inputRef.current.pointer : null;
+    if (phase.current === 'IDLE' && pointer) {
+      const point = frameToCanvasNdc(pointer, inputRef.current.frameAspect ?? 1, size.width / size.height);
+      raycaster.setFromCamera(ndc.set(point.x, point.y), camera);
+      const hit = raycaster.intersectObjects(collectPhotos(group), true)[0];
+      const index = hit ? findPhotoRoot(hit.object)?.userData.photoIndex : undefined;
+
+      if (typeof index !== 'number') {
+        dwell.current = null;
+      } else if (!dwell.current || dwell.current.index !== index) {
+        dwell.current = { index, since: state.clock.elapsedTime };
+      } else if ((state.clock.elapsedTime - dwell.current.since) * 1000 >= POINT_DWELL_MS) {
+        dwell.current = null;
+        onPickRef.current(index);
+      }
+    } else {
+      dwell.current = null;
+    }
+
+    // --- Camera Flight ---
+    if (phase.current === 'FOCUS') {
+      if (!target.current || target.current.userData.photoIndex !== focusedPhoto) {
+        target.current = collectPhotos(group).find(obj => obj.userData.photoIndex === focusedPhoto) ?? null;
+      }
+      if (!target.current) return;
+
+      // Stand in front of the polaroid, on the line from the trunk through it
+      target.current.getWorldPosition(photoPos);
+      outward.set(photoPos.x, 0, photoPos.z);
+      if (outward.lengthSq() < 1e-6) outward.set(0, 0, 1);
+      outward.normalize();
+
+      direction.position = (direction.position ?? new THREE.Vector3()).copy(photoPos).addScaledVector(outward, FOCUS_DISTANCE);
+      direction.lookAt.lerp(photoPos, 3.0 * safeDelta);
+      direction.spinSpeed = 0;
+    } else if (phase.current === 'RETURN') {
+      // Back to the default orbit; hand the camera back once we're there
+      direction.position = null;
+      direction.lookAt.lerp(ORIGIN, 3.0 * safeDelta);
+
+      const settled = Math.hypot(camera.position.x, camera.position.y) < 0.3 && direction.lookAt.length() < 0.1;
+      if (settled) {
+        phase.current = 'IDLE';
+        target.current = null;
+        if (directorRef.current === direction) directorRef.current = null;
+      }
+    }
+  });
+
+  return null;
+};
+
+export default PhotoFocus;
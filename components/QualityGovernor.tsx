@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { QualityTierId } from '../types';
+import { getAdjacentTier } from '../utils/quality';
+
+interface QualityGovernorProps {
+  tier: QualityTierId;
+  enabled: boolean; // False while a tier is pinned
+  onChange: (tier: QualityTierId) => void;
+}
+
+// Averages frame times over short windows and steps the quality tier with hysteresis:
+// a slow window steps down right away, stepping up needs sustained headroom, and every change
+// is followed by a settling period (rebuilt buffers and shader compiles make the next frames slow).
+const WINDOW_SECONDS = 2;
+const DOWN_FPS = 40;
+const UP_FPS = 56;
+const UP_HOLD_SECONDS = 8;      // Headroom needed before stepping up
+const MAX_UP_HOLD_SECONDS = 64;
+const SETTLE_SECONDS = 3;
+const BOUNCE_SECONDS = 15;      // Stepping down this soon after stepping up doubles the hold
+const MAX_FRAME_SECONDS = 0.5;  // Longer frames are tab switches or hitches, not load
+
+const QualityGovernor: React.FC<QualityGovernorProps> = ({ tier, enabled, onChange }) => {
+  const windowTime = useRef(0);
+  const windowFrames = useRef(0);
+  const headroom = useRef(0);     // Seconds of consecutive fast windows
+  const settle = useRef(SETTLE_SECONDS);
+  const upHold = useRef(UP_HOLD_SECONDS);
+  const sinceUpgrade = useRef(Infinity);
+
+  const step = (next: QualityTierId | null, isUpgrade: boolean) => {
+      if (!next) return;
+      if (!isUpgrade && sinceUpgrade.current < BOUNCE_SECONDS) {
+          upHold.current = Math.min(upHold.current * 2, MAX_UP_HOLD_SECONDS);
+      }
+      sinceUpgrade.current = isUpgrade ? 0 : Infinity;
+      headroom.current = 0;
+      settle.current = SETTLE_SECONDS;
+      onChange(next);
+  };
+
+  useFrame((state, delta) => {
+      sinceUpgrade.current += delta;
+      if (!enabled || delta > MAX_FRAME_SECONDS) return;
+
+      if (settle.current > 0) {
+          settle.current -= delta;
+          windowTime.current = 0;
+          windowFrames.current = 0;
+          return;
+      }
+
+      windowTime.current += delta;
+      windowFrames.current++;
+      if (windowTime.current < WINDOW_SECONDS) return;
+
+      const fps = windowFrames.current / windowTime.current;
+      windowTime.current = 0;
+      windowFrames.current = 0;
+
+      if (fps < DOWN_FPS) {
+          step(getAdjacentTier(tier, -1), false);
+      } else if (fps > UP_FPS) {
+          headroom.current += WINDOW_SECONDS;
+          if (headroom.current >= upHold.current) step(getAdjacentTier(tier, 1), true);
+      } else {
+          headroom.current = 0;
+      }
+  });
+
+  return null;
+};
+
+export default QualityGovernor;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ClipScript } from '../types';
+import { t } from '../utils/i18n';
+
+interface RecorderPanelProps {
+  isRecording: boolean;
+  progress: number; // 0 to 1
+  clipUrl: string | null;
+  error: string | null;
+  onStart: (script: ClipScript, duration: number) => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const SCRIPT_OPTIONS: ClipScript[] = ["SPIN", "DISPERSE_ASSEMBLE", "PHOTO_ZOOM"];
+
+const DURATION_OPTIONS = [10, 15, 20];
+
+const RecorderPanel: React.FC<RecorderPanelProps> = ({ isRecording, progress, clipUrl, error, onStart, onCancel, onClose }) => {
+  const [script, setScript] = useState<ClipScript>('SPIN');
+  const [duration, setDuration] = useState(DURATION_OPTIONS[0]);
+
+  const buttonClass = "w-full flex items-center justify-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/30 text-[10px] uppercase tracking-[0.2em] transition-all rounded-sm cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)]">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('recorder.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      <div className="space-y-4">
+        {/* Script */}
+        <div className="group">
+          <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>{t('recorder.script')}</span>
+          </div>
+          <select
+            value={script}
+            disabled={isRecording}
+            onChange={(e) => setScript(e.target.value as ClipScript)}
+            className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[10px] text-slate-300 focus:outline-none focus:border-[#d4af37] transition-colors cursor-pointer"
+          >
+            {SCRIPT_OPTIONS.map(value => (
+                <option key={value} value={value} className="bg-black text-slate-200">{t(`clipScript.${value}`)}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Duration */}
+        <div className="group">
+          <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-slate-400 group-hover:text-white transition-colors">
+            <span>{t('recorder.length')}</span>
+            <span className="font-mono text-[#d4af37]">{duration}s</span>
+          </div>
+          <div className="flex gap-2">
+            {DURATION_OPTIONS.map(value => (
+                <button
+                  key={value}
+                  disabled={isRecording}
+                  onClick={() => setDuration(value)}
+                  className={`flex-1 py-1 rounded-sm border text-[10px] font-mono transition-colors ${duration === value ? 'border-[#d4af37] text-[#d4af37]' : 'border-white/10 text-slate-400 hover:border-white/30'}`}
+                >
+                  {value}s
+                </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Progress */}
+        {isRecording && (
+          <div>
+            <div className="flex justify-between text-[10px] mb-2 uppercase tracking-wider text-red-300">
+              <span className="animate-pulse">{t('recorder.recording')}</span>
+              <span className="font-mono">{Math.round(progress * 100)}%</span>
+            </div>
+            <div className="w-full h-1 bg-white/10 rounded-lg overflow-hidden">
+              <div className="h-full bg-[#d4af37] transition-[width] duration-200" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-[10px] text-red-300 leading-relaxed">{error}</div>
+        )}
+
+        {isRecording ? (
+          <button onClick={onCancel} className={buttonClass}>{t('recorder.cancel')}</button>
+        ) : (
+          <button onClick={() => onStart(script, duration)} className={buttonClass}>{t('recorder.start')}</button>
+        )}
+
+        {clipUrl && !isRecording && (
+          <div className="space-y-3">
+            <video src={clipUrl} controls loop muted playsInline className="w-full rounded-sm border border-white/10" />
+            <a
+              href={clipUrl}
+              download="christmas-tree.webm"
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-[#d4af37]/10 hover:bg-[#d4af37]/20 border border-[#d4af37]/40 hover:border-[#d4af37]/70 text-[#d4af37] text-[10px] uppercase tracking-[0.2em] transition-all rounded-sm"
+            >
+              {t('recorder.download')}
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecorderPanel;
@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MAX_CAPTION_LENGTH } from '../utils/defaults';
+import { THEME_IDS } from '../utils/themes';
+import { t } from '../utils/i18n';
+import {
+  SyncSession, SyncStatus, SyncValue, SyncPhoto, createSyncSession, encodePhoto, captionKey,
+  isPairingCode, normalizePairingCode, getDefaultRelayUrl, PAIRING_CODE_LENGTH, MAX_SYNC_PHOTOS
+} from '../utils/sync';
+
+interface RemoteControlProps {
+  code: string;            // From the link; may be empty or mistyped, then the form asks for it
+  relayUrl: string | null; // null = same-device windows
+}
+
+const ROTATE_PER_PIXEL = 0.012; // Radians
+const ZOOM_PER_PIXEL = 0.08;
+const ZOOM_STEP = 5;
+
+// The page a phone opens (app URL with ?remote=CODE): a touch remote for the paired display.
+// It holds no scene of its own, only the shared state it mirrors from the session.
+const RemoteControl: React.FC<RemoteControlProps> = ({ code: initialCode, relayUrl: initialRelayUrl }) => {
+  const [pairing, setPairing] = useState<{ code: string; relayUrl: string | null } | null>(
+    isPairingCode(initialCode) ? { code: initialCode, relayUrl: initialRelayUrl } : null
+  );
+  const [codeDraft, setCodeDraft] = useState(initialCode);
+  const [relayDraft, setRelayDraft] = useState(initialRelayUrl ?? getDefaultRelayUrl());
+  const [useRelay, setUseRelay] = useState(initialRelayUrl !== null || !initialCode);
+
+  const [session, setSession] = useState<SyncSession | null>(null);
+  const [state, setState] = useState<Record<string, SyncValue>>({});
+  const [status, setStatus] = useState<SyncStatus>('CONNECTING');
+  const statusRef = useRef<SyncStatus>('CONNECTING'); // Read after encoding, which can outlast the connection
+  const [displays, setDisplays] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    if (!pairing) return;
+    setError(null);
+    const created = createSyncSession({
+      code: pairing.code,
+      role: 'REMOTE',
+      transport: pairing.relayUrl ? 'RELAY' : 'BROADCAST',
+      relayUrl: pairing.relayUrl ?? undefined,
+    }, {
+      onState: () => setState(created?.snapshot() ?? {}),
+      onPeers: (roles) => setDisplays(roles.filter(role => role === 'DISPLAY').length),
+      onStatus: (next) => {
+        statusRef.current = next;
+        setStatus(next);
+      },
+    });
+    if (!created) {
+      setError(t('remote.unsupported'));
+      return;
+    }
+    setSession(created);
+    return () => {
+      created.close();
+      setSession(null);
+      setDisplays(0);
+    };
+  }, [pairing]);
+
+  const set = (key: Parameters<SyncSession['set']>[0], value: SyncValue) => {
+    if (!session) return;
+    session.set(key, value);
+    setState(session.snapshot());
+  };
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizePairingCode(codeDraft);
+    if (!isPairingCode(code)) {
+      setError(t('remote.codeInvalid', { length: PAIRING_CODE_LENGTH }));
+      return;
+    }
+    setPairing({ code, relayUrl: useRelay ? relayDraft.trim() : null });
+  };
+
+  // Drag on the pad: sideways turns the tree, up and down zooms
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const last = dragRef.current;
+    if (!last || !session) return;
+    const dx = e.clientX - last.x;
+    const dy = e.clientY - last.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    if (dx !== 0) session.command({ kind: 'ROTATE', radians: dx * ROTATE_PER_PIXEL });
+    if (dy !== 0) session.command({ kind: 'ZOOM', amount: dy * ZOOM_PER_PIXEL });
+  };
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_SYNC_PHOTOS);
+    e.target.value = '';
+    if (!session || files.length === 0) return;
+    // The transport drops messages while it isn't open, so the photos would vanish without a word
+    if (statusRef.current !== 'OPEN') {
+      setError(t('remote.notConnected'));
+      return;
+    }
+    setIsSending(true);
+    setError(null);
+    try {
+      const photos: SyncPhoto[] = [];
+      for (const file of files) photos.push(await encodePhoto(file)); // One at a time keeps phone memory down
+      if (statusRef.current !== 'OPEN') {
+        setError(t('remote.notConnected'));
+        return;
+      }
+      session.sendPhotos(photos);
+    } catch (err) {
+      console.warn('Failed to prepare photos:', err);
+      setError(t('remote.photosUnreadable'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const buttonClass = "px-4 py-3 bg-white/5 active:bg-white/15 border border-white/10 text-[11px] uppercase tracking-[0.2em] transition-colors rounded-md disabled:opacity-40";
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-sm px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-[#d4af37] transition-colors";
+
+  if (!pairing) {
+    return (
+      <div className="h-screen bg-black text-slate-200 font-luxury flex items-center justify-center p-6">
+        <form onSubmit={handleConnect} className="w-full max-w-xs space-y-4">
+          <h1 className="text-center text-sm uppercase tracking-[0.3em] text-[#d4af37]">{t('remote.title')}</h1>
+          <input
+            value={codeDraft}
+            onChange={(e) => setCodeDraft(e.target.value)}
+            placeholder={t('remote.codePlaceholder')}
+            autoCapitalize="characters"
+            autoComplete="off"
+            className={`${inputClass} text-center font-mono tracking-[0.3em] uppercase`}
+          />
+          <label className="flex items-center gap-2 text-[10px] uppercase tracking-wider text-slate-400">
+            <input type="checkbox" checked={useRelay} onChange={(e) => setUseRelay(e.target.checked)} className="accent-[#d4af37]" />
+            {t('remote.throughRelay')}
+          </label>
+          {useRelay && (
+            <input value={relayDraft} onChange={(e) => setRelayDraft(e.target.value)} spellCheck={false} className={`${inputClass} font-mono text-xs`} />
+          )}
+          {error && <div className="text-[11px] text-red-400">{error}</div>}
+          <button type="submit" className={`${buttonClass} w-full`}>{t('remote.connect')}</button>
+        </form>
+      </div>
+    );
+  }
+
+  const isAssembled = state.targetMix !== 0;
+  const photoCount = typeof state.photoCount === 'number' ? state.photoCount : 0;
+  const statusLabel = t(status === 'ERROR'
+    ? 'sync.invalidRelay'
+    : status === 'CONNECTING' ? 'remote.connecting'
+    : displays > 0 ? 'remote.connected' : 'remote.waiting');
+
+  return (
+    <div className="h-screen overflow-y-auto bg-black text-slate-200 font-luxury p-5 space-y-5 select-none">
+      <div className="flex justify-between items-center border-b border-white/10 pb-3">
+        <div>
+          <h1 className="text-xs uppercase tracking-[0.3em] text-[#d4af37]">{t('remote.title')}</h1>
+          <div className="font-mono text-[10px] tracking-[0.3em] text-slate-500">{pairing.code}</div>
+        </div>
+        <div className={`flex items-center gap-2 text-[10px] uppercase tracking-wider ${displays > 0 ? 'text-[#d4af37]' : 'text-slate-400'}`}>
+          <span className={`w-2 h-2 rounded-full ${displays > 0 ? 'bg-[#d4af37]' : status === 'ERROR' ? 'bg-red-500' : 'bg-slate-600 animate-pulse'}`} />
+          {statusLabel}
+        </div>
+      </div>
+
+      <button onClick={() => set('targetMix', isAssembled ? 0 : 1)} className={`${buttonClass} w-full py-4 text-[#d4af37] border-[#d4af37]/40`}>
+        {t(isAssembled ? 'toolbar.disperse' : 'toolbar.assemble')}
+      </button>
+
+      {/* Touch pad */}
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="h-48 rounded-xl border border-white/10 bg-white/[0.03] flex items-center justify-center text-[10px] uppercase tracking-[0.25em] text-slate-500 touch-none"
+      >
+        {t('remote.pad')}
+      </div>
+      <div className="flex gap-3">
+        <button onClick={() => session?.command({ kind: 'ZOOM', amount: -ZOOM_STEP })} className={`${buttonClass} flex-1`}>{t('remote.zoomIn')}</button>
+        <button onClick={() => session?.command({ kind: 'ZOOM', amount: ZOOM_STEP })} className={`${buttonClass} flex-1`}>{t('remote.zoomOut')}</button>
+      </div>
+
+      {/* Theme */}
+      <div className="grid grid-cols-2 gap-2">
+        {THEME_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => set('themeId', id)}
+            className={`py-2 rounded-md border text-[10px] uppercase tracking-wider transition-colors ${state.themeId === id ? 'border-[#d4af37] text-[#d4af37]' : 'border-white/10 text-slate-400'}`}
+          >
+            {t(`theme.${id}`)}
+          </button>
+        ))}
+      </div>
+
+      {/* Photos */}
+      <input type="file" ref={fileInputRef} onChange={handlePhotos} accept="image/*" multiple className="hidden" />
+      <button onClick={() => fileInputRef.current?.click()} disabled={isSending || displays === 0} className={`${buttonClass} w-full`}>
+        {t(isSending ? 'remote.sending' : 'remote.sendPhotos')}
+      </button>
+      {error && <div className="text-[11px] text-red-400">{error}</div>}
+
+      {/* Captions */}
+      {photoCount > 0 && (
+        <div className="space-y-2">
+          <div className="text-[10px] uppercase tracking-[0.25em] text-slate-500">{t('remote.captions')}</div>
+          {Array.from({ length: photoCount }, (_, i) => (
+            <div key={i} className="flex items-center gap-3">
+              <span className="w-6 text-end font-mono text-[10px] text-slate-500">{i + 1}</span>
+              <input
+                value={typeof state[captionKey(i)] === 'string' ? state[captionKey(i)] as string : ''}
+                maxLength={MAX_CAPTION_LENGTH}
+                onChange={(e) => set(captionKey(i), e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RemoteControl;
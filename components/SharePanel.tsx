@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { t } from '../utils/i18n';
+
+interface SharePanelProps {
+  url: string;
+  onClose: () => void;
+}
+
+const SharePanel: React.FC<SharePanelProps> = ({ url, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  // Copy as soon as the panel opens - that's what the button promised
+  useEffect(() => {
+    let isMounted = true;
+    setCopied(false);
+
+    navigator.clipboard?.writeText(url)
+      .then(() => { if (isMounted) setCopied(true); })
+      .catch((err) => console.warn('Clipboard write failed:', err));
+
+    return () => { isMounted = false; };
+  }, [url]);
+
+  // QR code is rendered locally, only when requested
+  useEffect(() => {
+    if (!showQr) return;
+    let isMounted = true;
+
+    QRCode.toDataURL(url, { margin: 1, width: 360, errorCorrectionLevel: 'M' })
+      .then((dataUrl) => { if (isMounted) setQrDataUrl(dataUrl); })
+      .catch((err) => console.warn('QR code generation failed:', err));
+
+    return () => { isMounted = false; };
+  }, [url, showQr]);
+
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)]">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('share.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      <input
+        readOnly
+        value={url}
+        onFocus={(e) => e.target.select()}
+        className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[10px] text-slate-300 font-mono focus:outline-none focus:border-[#d4af37] transition-colors"
+      />
+      <div className="mt-2 text-[10px] uppercase tracking-wider text-slate-400">
+        {t(copied ? 'share.copied' : 'share.selectToCopy')}
+      </div>
+
+      <button
+        onClick={() => setShowQr(prev => !prev)}
+        className="mt-4 w-full px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/30 text-[10px] uppercase tracking-[0.2em] transition-all rounded-sm cursor-pointer"
+      >
+        {t(showQr ? 'share.hideQr' : 'share.showQr')}
+      </button>
+
+      {showQr && (
+        <div className="mt-4 flex justify-center">
+          {qrDataUrl ? (
+            <img src={qrDataUrl} alt={t('share.qrAlt')} className="w-44 h-44 rounded-sm bg-white" />
+          ) : (
+            <div className="w-5 h-5 my-8 border-2 border-[#d0d0d0] border-t-transparent rounded-full animate-spin"></div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharePanel;
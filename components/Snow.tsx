@@ -4,12 +4,15 @@ import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { lerp } from '../utils/math';
 import { SCENE_DEFAULTS } from '../utils/defaults';
+import { Wind, createWind } from '../utils/wind';
 
 const snowVertexShader = `
   precision highp float;
   uniform float uTime; // Global Time
   uniform float uMix;  // Still used for drift amplitude
   uniform float uSize; // Global Size Scale
+  uniform float uGroundY; // Flakes vanish below the ground (local to the box)
+  uniform vec3 uWindOffset; // How far the wind has carried the air (utils/wind.ts)
   
   attribute float aScale;
   attribute vec3 aVelocity;
@@ -24,6 +27,10 @@ const snowVertexShader = `
     float fallSpeed = aVelocity.y; 
     
     pos.y = mod(pos.y - uTime * fallSpeed + 15.0, 30.0) - 15.0; // Wrap Y (-15 to 15)
+
+    // Carried by the wind, wrapping around the box
+    pos.x = mod(pos.x + uWindOffset.x + 25.0, 50.0) - 25.0;
+    pos.z = mod(pos.z + uWindOffset.z + 20.0, 40.0) - 20.0;
     
     // Side drift
     // uMix still controls the Amplitude of the drift (Chaos = wider drift)
@@ -37,8 +44,11 @@ const snowVertexShader = `
     // Size
     gl_PointSize = uSize * aScale * (15.0 / -mvPosition.z);
     
-    // Fade at edges of box
-    vAlpha = 1.0 - smoothstep(12.0, 15.0, abs(pos.y));
+    // Fade at edges of box (flakes blown across wrap to the other side), and gone once landed
+    vAlpha = (1.0 - smoothstep(12.0, 15.0, abs(pos.y)))
+      * (1.0 - smoothstep(22.0, 25.0, abs(pos.x)))
+      * (1.0 - smoothstep(17.0, 20.0, abs(pos.z)))
+      * step(uGroundY, pos.y);
   }
 `;
 
@@ -56,16 +66,22 @@ const snowFragmentShader = `
   }
 `;
 
+const NO_GROUND = -1000;
+
 interface SnowProps {
     mixFactor: number;
     size?: number;
     count?: number;
+    groundY?: number | null; // World height of the ground plane, null without one
+    wind?: Wind; // Scene wind, created once per scene (its uniforms are shared, not copied)
 }
 
 const Snow: React.FC<SnowProps> = ({ 
     mixFactor, 
     size = SCENE_DEFAULTS.snowSize, 
-    count = SCENE_DEFAULTS.snowCount 
+    count = SCENE_DEFAULTS.snowCount,
+    groundY = null,
+    wind
 }) => {
   const pointsRef = useRef<THREE.Points>(null);
   const materialRef = useRef<THREE.ShaderMaterial>(null);
@@ -95,7 +111,9 @@ const Snow: React.FC<SnowProps> = ({
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
     uMix: { value: 1 },
-    uSize: { value: 1.0 }
+    uSize: { value: 1.0 },
+    uGroundY: { value: NO_GROUND },
+    ...(wind ?? createWind()).uniforms
   }), []);
 
   useFrame((state, delta) => {
@@ -108,6 +126,7 @@ const Snow: React.FC<SnowProps> = ({
 
          pointsRef.current.position.x = camera.position.x;
          pointsRef.current.position.y = camera.position.y;
+         materialRef.current.uniforms.uGroundY.value = groundY === null ? NO_GROUND : groundY - camera.position.y;
      }
   });
 
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import * as THREE from 'three';
+import { SnowCover } from '../utils/snowCover';
+
+const vertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const fragmentShader = `
+  uniform sampler2D uCover;
+  uniform vec3 uGroundColor;
+  varying vec2 vUv;
+
+  void main() {
+    float cover = texture2D(uCover, vUv).r;
+    vec3 snow = vec3(0.92, 0.95, 1.0);
+    vec3 color = mix(uGroundColor, snow, smoothstep(0.0, 0.8, cover));
+    // Soft round edge so the disc fades into the night
+    float edge = 1.0 - smoothstep(0.35, 0.5, length(vUv - 0.5));
+    gl_FragColor = vec4(color, edge * mix(0.75, 0.95, cover));
+  }
+`;
+
+interface SnowGroundProps {
+  cover: SnowCover;
+  y: number; // World height
+}
+
+// Ground plane under the tree, whitening where snow has settled (coverage map from utils/snowCover.ts)
+const SnowGround: React.FC<SnowGroundProps> = ({ cover, y }) => {
+  const uniforms = useMemo(() => ({
+      uCover: { value: cover.groundMap },
+      uGroundColor: { value: new THREE.Color('#0b1222') },
+  }), [cover]);
+
+  // Laid flat so the map's v runs along world +z (the front face points down, hence DoubleSide)
+  return (
+    <mesh position={[0, y, 0]} rotation={[Math.PI / 2, 0, 0]} renderOrder={-1}>
+      <planeGeometry args={[cover.groundRadius * 2, cover.groundRadius * 2]} />
+      <shaderMaterial
+        vertexShader={vertexShader}
+        fragmentShader={fragmentShader}
+        uniforms={uniforms}
+        transparent
+        depthWrite={false}
+        side={THREE.DoubleSide}
+      />
+    </mesh>
+  );
+};
+
+export default SnowGround;
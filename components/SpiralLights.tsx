@@ -1,20 +1,53 @@
-import React, { useMemo, useRef, useLayoutEffect } from 'react';
+import React, { useMemo, useRef, useLayoutEffect, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { generateSpiralData, lerp } from '../utils/math';
+import { TreeShape, DEFAULT_TREE_SHAPE } from '../utils/treeShape';
+import { DEFAULT_FORMATION, fillFormationTargets, captureFormationBlend } from '../utils/formations';
+import { FormationId, AudioLevels } from '../types';
+import { DEFAULT_LIGHT_PROGRAM, createLightShow } from '../utils/lightPatterns';
 
 interface SpiralLightsProps {
   mixFactor: number;
+  shape?: TreeShape;
+  formation?: FormationId;
+  audio?: AudioLevels; // Bass swells the lights
+  program?: string;    // Light-show program, see utils/lightPatterns.ts
 }
 
-const SpiralLights: React.FC<SpiralLightsProps> = ({ mixFactor }) => {
+const TURNS = 9;
+
+const SpiralLights: React.FC<SpiralLightsProps> = ({ mixFactor, shape = DEFAULT_TREE_SHAPE, formation = DEFAULT_FORMATION, audio, program = DEFAULT_LIGHT_PROGRAM }) => {
   const count = 300;
   const meshRef = useRef<THREE.InstancedMesh>(null);
   const dummy = useMemo(() => new THREE.Object3D(), []);
   const currentMixRef = useRef(1);
+  const formMixRef = useRef(1);
+
+  // Per-bulb colors from the light show, written to instanceColor every frame
+  const show = useMemo(() => createLightShow(), []);
+  const seeds = useMemo(() => Float32Array.from({ length: count }, () => Math.random()), []);
+  const bulbColor = useMemo(() => new THREE.Color(), []);
+
+  // Assembling lights the bulbs from the bottom up
+  const lastMixRef = useRef(mixFactor);
+  const fillPending = useRef(false);
+  useEffect(() => {
+      if (mixFactor === 1 && lastMixRef.current < 1) fillPending.current = true;
+      lastMixRef.current = mixFactor;
+  }, [mixFactor]);
 
   // Generate spiral positions
-  const { target, chaos } = useMemo(() => generateSpiralData(count, 19, 7.5, 9), []);
+  const { target, chaos } = useMemo(() => generateSpiralData(count, shape, TURNS), [shape]);
+
+  // Formation morph: each light blends from `from` to `to` as formMixRef runs 0 -> 1
+  const morph = useMemo(() => ({ from: new Float32Array(target), to: new Float32Array(target) }), [target]);
+
+  useEffect(() => {
+      captureFormationBlend(morph.from, morph.to, formMixRef.current);
+      fillFormationTargets(formation, { layer: 'LIGHTS', phase: 0 }, target, morph.to);
+      formMixRef.current = 0;
+  }, [formation, morph, target]);
 
   useLayoutEffect(() => {
      if (!meshRef.current) return;
@@ -40,14 +73,23 @@ const SpiralLights: React.FC<SpiralLightsProps> = ({ mixFactor }) => {
     const speed = 2.0 * delta;
     currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
     const t = currentMixRef.current;
+    formMixRef.current = lerp(formMixRef.current, 1, speed);
+    const f = formMixRef.current;
     
     // Animate glow/brightness via scale pulse
     const time = state.clock.elapsedTime;
+    const bassBoost = 1 + (audio?.bass ?? 0) * 0.9;
+
+    if (fillPending.current) {
+        show.trigger('FILL', time);
+        fillPending.current = false;
+    }
+    show.update(program, time, delta);
     
     for(let i=0; i<count; i++) {
-      const tx = target[i*3];
-      const ty = target[i*3+1];
-      const tz = target[i*3+2];
+      const tx = lerp(morph.from[i*3], morph.to[i*3], f);
+      const ty = lerp(morph.from[i*3+1], morph.to[i*3+1], f);
+      const tz = lerp(morph.from[i*3+2], morph.to[i*3+2], f);
       
       const cx = chaos[i*3];
       const cy = chaos[i*3+1];
@@ -60,19 +102,22 @@ const SpiralLights: React.FC<SpiralLightsProps> = ({ mixFactor }) => {
       dummy.position.set(x, y, z);
       
       // Pulse effect
-      const pulse = Math.sin(time * 3 + i * 0.1) * 0.05 + 0.15;
+      const pulse = (Math.sin(time * 3 + i * 0.1) * 0.05 + 0.15) * bassBoost;
       dummy.scale.setScalar(pulse);
 
       dummy.updateMatrix();
       meshRef.current.setMatrixAt(i, dummy.matrix);
+      meshRef.current.setColorAt(i, show.shade(i, count, seeds[i], bulbColor));
     }
     meshRef.current.instanceMatrix.needsUpdate = true;
+    if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
   });
 
   return (
     <instancedMesh ref={meshRef} args={[undefined, undefined, count]}>
       <sphereGeometry args={[1, 8, 8]} />
-      <meshBasicMaterial color="#fffae0" toneMapped={false} />
+      {/* White: the bulb colors (and brightness above 1, which blooms) come from instanceColor */}
+      <meshBasicMaterial color="#ffffff" toneMapped={false} />
     </instancedMesh>
   );
 };
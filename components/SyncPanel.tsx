@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { SyncStatus, SyncTransportKind, getDefaultRelayUrl } from '../utils/sync';
+import { MessageKey, t } from '../utils/i18n';
+
+interface SyncPanelProps {
+  code: string | null;  // Pairing code of the running session, null when not paired
+  link: string | null;  // Remote page for the session
+  status: SyncStatus;
+  remotes: number;      // Remotes currently connected
+  error: string | null;
+  onStart: (transport: SyncTransportKind, relayUrl: string) => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus, MessageKey> = {
+  CONNECTING: 'sync.connecting',
+  OPEN: 'sync.waiting',
+  ERROR: 'sync.invalidRelay',
+};
+
+// Pairs a phone (or another window) as a remote: pick a transport, start, then scan the code
+const SyncPanel: React.FC<SyncPanelProps> = ({ code, link, status, remotes, error, onStart, onStop, onClose }) => {
+  const [transport, setTransport] = useState<SyncTransportKind>('RELAY');
+  const [relayUrl, setRelayUrl] = useState(getDefaultRelayUrl);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setQrDataUrl(null);
+    if (!link) return;
+    let isMounted = true;
+
+    QRCode.toDataURL(link, { margin: 1, width: 360, errorCorrectionLevel: 'M' })
+      .then((dataUrl) => { if (isMounted) setQrDataUrl(dataUrl); })
+      .catch((err) => console.warn('QR code generation failed:', err));
+
+    return () => { isMounted = false; };
+  }, [link]);
+
+  const buttonClass = "w-full px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/30 text-[10px] uppercase tracking-[0.2em] transition-all rounded-sm cursor-pointer";
+  const toggleClass = (active: boolean) =>
+    `flex-1 py-1 rounded-sm border text-[9px] uppercase tracking-wider transition-colors ${active ? 'border-[#d4af37] text-[#d4af37]' : 'border-white/10 text-slate-400 hover:border-white/30'}`;
+
+  const statusLabel = status === 'OPEN' && remotes > 0
+    ? remotes > 1 ? t('sync.remotesConnected', { count: remotes }) : t('sync.remoteConnected')
+    : t(STATUS_LABELS[status]);
+
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)]">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('sync.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      {code && link ? (
+        <div className="space-y-3">
+          <div className="text-center">
+            <div className="text-[9px] uppercase tracking-[0.3em] text-slate-500">{t('sync.pairingCode')}</div>
+            <div className="mt-1 font-mono text-2xl tracking-[0.3em] text-[#d4af37]">{code}</div>
+          </div>
+
+          <div className="flex justify-center">
+            {qrDataUrl ? (
+              <img src={qrDataUrl} alt={t('sync.qrAlt')} className="w-40 h-40 rounded-sm bg-white" />
+            ) : (
+              <div className="w-5 h-5 my-8 border-2 border-[#d0d0d0] border-t-transparent rounded-full animate-spin"></div>
+            )}
+          </div>
+
+          <input
+            readOnly
+            value={link}
+            onFocus={(e) => e.target.select()}
+            className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[10px] text-slate-300 font-mono focus:outline-none focus:border-[#d4af37] transition-colors"
+          />
+
+          <div className={`text-[10px] uppercase tracking-wider ${status === 'ERROR' ? 'text-red-400' : remotes > 0 ? 'text-[#d4af37]' : 'text-slate-400'}`}>
+            {statusLabel}
+          </div>
+
+          <button onClick={onStop} className={buttonClass}>{t('sync.stop')}</button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-[10px] leading-relaxed text-slate-400">
+            {t('sync.intro')}
+          </p>
+
+          <div className="flex gap-2">
+            <button onClick={() => setTransport('RELAY')} className={toggleClass(transport === 'RELAY')}>{t('sync.relay')}</button>
+            <button onClick={() => setTransport('BROADCAST')} className={toggleClass(transport === 'BROADCAST')}>{t('sync.thisDevice')}</button>
+          </div>
+
+          {transport === 'RELAY' ? (
+            <div className="space-y-1">
+              <input
+                value={relayUrl}
+                onChange={(e) => setRelayUrl(e.target.value)}
+                spellCheck={false}
+                className="w-full bg-white/5 border border-white/10 rounded-sm px-2 py-1 text-[10px] text-slate-300 font-mono focus:outline-none focus:border-[#d4af37] transition-colors"
+              />
+              <div className="text-[9px] text-slate-500 leading-relaxed">
+                {t('sync.relayHint', { command: 'npm run relay' })}
+              </div>
+            </div>
+          ) : (
+            <div className="text-[9px] text-slate-500 leading-relaxed">
+              {t('sync.thisDeviceHint')}
+            </div>
+          )}
+
+          <button onClick={() => onStart(transport, relayUrl.trim())} className={buttonClass}>{t('sync.start')}</button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 text-[10px] text-red-400 leading-relaxed">{error}</div>
+      )}
+    </div>
+  );
+};
+
+export default SyncPanel;
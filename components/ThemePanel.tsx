@@ -0,0 +1,46 @@
+import React from 'react';
+import { ThemeId } from '../types';
+import { THEMES, THEME_IDS } from '../utils/themes';
+import { t } from '../utils/i18n';
+
+interface ThemePanelProps {
+  themeId: ThemeId;
+  onSelect: (themeId: ThemeId) => void;
+  onClose: () => void;
+}
+
+const ThemePanel: React.FC<ThemePanelProps> = ({ themeId, onSelect, onClose }) => {
+  return (
+    <div className="absolute top-20 end-6 md:end-24 z-50 w-64 p-5 rounded-xl bg-black/80 backdrop-blur-xl border border-white/10 text-slate-200 font-luxury animate-in fade-in slide-in-from-right-10 shadow-[0_0_40px_rgba(0,0,0,0.9)]">
+      <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-3">
+        <h3 className="text-xs uppercase tracking-[0.2em] font-bold text-[#d4af37]">{t('theme.title')}</h3>
+        <button onClick={onClose} aria-label={t('common.close')} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-white/10 text-white/50 hover:text-white transition-colors">×</button>
+      </div>
+
+      <div className="space-y-2">
+        {THEME_IDS.map(id => {
+          const theme = THEMES[id];
+          const isActive = id === themeId;
+          // Swatch: tree gradient, then a few ball colors
+          const swatches = [theme.foliage.bottom, theme.foliage.top, ...(theme.palettes.BALL ?? []).slice(0, 4)];
+          return (
+            <button
+              key={id}
+              onClick={() => onSelect(id)}
+              className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-sm border text-[10px] uppercase tracking-[0.15em] transition-colors ${isActive ? 'border-[#d4af37] text-[#d4af37] bg-white/5' : 'border-white/10 text-slate-400 hover:border-white/30 hover:text-white'}`}
+            >
+              <span>{t(`theme.${id}`)}</span>
+              <span className="flex -space-x-1">
+                {swatches.map((color, i) => (
+                    <span key={i} className="w-3 h-3 rounded-full border border-black/60" style={{ backgroundColor: color }} />
+                ))}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ThemePanel;
@@ -4,39 +4,60 @@ import { useFrame } from '@react-three/fiber';
 import { useGLTF } from '@react-three/drei';
 import * as THREE from 'three';
 import { lerp } from '../utils/math';
+import { Theme, FormationId, AudioLevels } from '../types';
+import { TreeShape, DEFAULT_TREE_SHAPE } from '../utils/treeShape';
+import { DEFAULT_FORMATION, getFormation } from '../utils/formations';
 
 interface TopStarProps {
   mixFactor: number;
   scale?: number;
+  look?: Theme['star'];
+  shape?: TreeShape;
+  formation?: FormationId;
+  audio?: AudioLevels; // Bass flares the glow
+  flash?: number;      // Counter; every increment flashes the star (countdown celebration)
 }
 
+const DEFAULT_LOOK: Theme['star'] = { color: '#FFD700', glow: '#ffeebf', emissiveIntensity: 2.0 };
+
 const STAR_MODEL_PATH = `${import.meta.env.BASE_URL}models/Star.glb`;
 
-const TopStar: React.FC<TopStarProps> = ({ mixFactor, scale = 11 }) => {
+const TopStar: React.FC<TopStarProps> = ({ mixFactor, scale = 11, look = DEFAULT_LOOK, shape = DEFAULT_TREE_SHAPE, formation = DEFAULT_FORMATION, audio, flash = 0 }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
   const currentMixRef = useRef(1);
+  const formedPos = useMemo(() => new THREE.Vector3(0, shape.topY + 0.2, 0), []); // Eased towards the formation's star spot
+  const goalPos = useMemo(() => new THREE.Vector3(), []);
   
   // Load GLB Model - errors will be caught by ErrorBoundary
   const { scene } = useGLTF(STAR_MODEL_PATH);
   const clone = useMemo(() => scene.clone(), [scene]);
 
+  // One shared material, eased towards the theme's star look every frame
+  const material = useMemo(() => new THREE.MeshStandardMaterial({
+        color: look.color, 
+        emissive: look.color,
+        emissiveIntensity: look.emissiveIntensity, // High intensity glow
+        roughness: 0.1,
+        metalness: 0.9,
+        toneMapped: false 
+  }), []);
+  const targetColor = useMemo(() => new THREE.Color(), []);
+  const initialGlow = useRef(look.glow).current;
+  const glowRef = useRef(look.emissiveIntensity); // Theme glow, before the bass flare
+  const lastFlash = useRef(flash);
+  const flashRef = useRef(0); // 1 at a flash, dying away
+
   // Apply Gold Material to match previous aesthetic
   useEffect(() => {
       clone.traverse((obj) => {
           if ((obj as THREE.Mesh).isMesh) {
               const mesh = obj as THREE.Mesh;
-              mesh.material = new THREE.MeshStandardMaterial({
-                    color: "#FFD700", 
-                    emissive: "#FFD700",
-                    emissiveIntensity: 2.0, // High intensity glow
-                    roughness: 0.1,
-                    metalness: 0.9,
-                    toneMapped: false 
-              });
+              mesh.material = material;
               mesh.castShadow = false;
           }
       })
-  }, [clone]);
+  }, [clone, material]);
 
   useFrame((state, delta) => {
       if (!groupRef.current) return;
@@ -45,14 +66,34 @@ const TopStar: React.FC<TopStarProps> = ({ mixFactor, scale = 11 }) => {
       currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
       const t = currentMixRef.current;
 
+      // Theme cross-fade
+      material.color.lerp(targetColor.set(look.color), speed);
+      material.emissive.copy(material.color);
+      glowRef.current = lerp(glowRef.current, look.emissiveIntensity, speed);
+      if (flash !== lastFlash.current) {
+          lastFlash.current = flash;
+          flashRef.current = 1;
+      }
+      flashRef.current *= Math.exp(-1.5 * delta);
+      const flare = 1 + (audio?.bass ?? 0) * 1.5 + flashRef.current * 6;
+      material.emissiveIntensity = glowRef.current * flare;
+      if (lightRef.current) {
+          lightRef.current.color.lerp(targetColor.set(look.glow), speed);
+          lightRef.current.intensity = 3.0 * flare;
+      }
+
       // 1. Position Logic
-      // Formed: Top of tree (y=9.2)
-      // Chaos: Floating upwards (y=13)
-      const targetY = 9.2;
-      const chaosY = 13.0;
-      const currentY = lerp(chaosY, targetY, t);
+      // Formed: Top of tree (just above the apex), or the formation's own star spot
+      // Chaos: Floating upwards
+      const star = getFormation(formation).star;
+      if (star) goalPos.fromArray(star);
+      else goalPos.set(0, shape.topY + 0.2, 0);
+      formedPos.lerp(goalPos, speed);
+
+      const chaosY = formedPos.y + 3.8;
+      const currentY = lerp(chaosY, formedPos.y, t);
       
-      groupRef.current.position.set(0, currentY, 0);
+      groupRef.current.position.set(formedPos.x, currentY, formedPos.z);
 
       // 2. Rotation Logic
       // Always slowly spin the model itself
@@ -75,7 +116,8 @@ const TopStar: React.FC<TopStarProps> = ({ mixFactor, scale = 11 }) => {
         
         {/* Inner Light Source - Remains stable in scale */}
         <pointLight 
-            color="#ffeebf" 
+            ref={lightRef}
+            color={initialGlow} 
             intensity={3.0} 
             distance={15} 
             decay={2} 
@@ -0,0 +1,543 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { lerp } from '../utils/math';
+import { OrnamentType } from '../types';
+import { ModelPart } from '../utils/modelLoader';
+
+// Ornament type registry.
+// Each type declares how it is built and placed on the tree; Ornaments.tsx only follows these rules,
+// so a new ornament is one registerOrnament() call (plus its palettes in utils/themes.ts, if it has any).
+// Imported .glb models are registered the same way, see registerModelOrnament.
+
+export interface OrnamentData {
+  chaosPos: THREE.Vector3;
+  targetPos: THREE.Vector3; // Formed position; moves from formFrom to formTo while formations morph
+  treePos: THREE.Vector3;   // Place on the tree (the TREE formation)
+  formFrom: THREE.Vector3;
+  formTo: THREE.Vector3;
+  frontFacing: number;      // 0 faces away from the trunk, 1 faces the viewer (front-facing formations)
+  rotation: THREE.Euler;
+  color: THREE.Color; // Current color, eased towards the palette slot picked by colorSeed
+  colorSeed: number;  // 0-1, picks the palette slot so a theme change keeps each ornament's "place" in the palette
+  targetScale: THREE.Vector3;
+  chaosScale: THREE.Vector3;
+  chaosTilt: number;
+  sway: THREE.Vector3; // Wind push in the tree's frame, set by Ornaments; added to the position by whoever draws the item
+}
+
+export interface OrnamentItemProps {
+  item: OrnamentData;
+  mixFactor: number;
+  index: number;
+  opened?: boolean;                 // Openable items (gift boxes): whether this one has been opened
+  onPick?: (index: number) => void; // Set while the items can be clicked/tapped
+}
+
+// How a type is drawn:
+// INSTANCED - one instancedMesh for the whole type, moved and recolored by Ornaments
+// MODEL     - like INSTANCED, with one instancedMesh per part of an imported model (keeps its own materials)
+// PER_ITEM  - one component per ornament, animating itself from item/mixFactor
+// PHOTO     - polaroids, drawn by Ornaments from its photos/captions props
+export type OrnamentRender =
+  | {
+      kind: 'INSTANCED';
+      geometry: () => THREE.BufferGeometry;
+      material: () => THREE.MeshStandardMaterial;
+      tint: boolean; // false keeps instances white so a texture shows its own colors
+    }
+  | { kind: 'MODEL'; parts: ModelPart[] }
+  | { kind: 'PER_ITEM'; component: React.FC<OrnamentItemProps> }
+  | { kind: 'PHOTO' };
+
+export interface OrnamentDefinition {
+  label: string;
+  render: OrnamentRender;
+  phase: number;       // Offset on the golden spiral, in sixths of a turn, so types don't overlap
+  pushOut: number;     // How far past the foliage surface the ornament sits
+  baseScale: number | (() => THREE.Vector3); // Multiplied by the scale prop; a function is called per ornament
+  defaultPalette: string[]; // Used when the theme has no palette for this type
+  // Formed-state orientation of instanced ornaments (applied once the tree is nearly formed).
+  // `dummy` already holds the ornament's position; without a rule the ornament keeps its random rotation.
+  orient?: (dummy: THREE.Object3D, item: OrnamentData) => void;
+  chaosLayout?: 'SCATTER' | 'RING'; // RING: a wide, readable spiral (photos) instead of a random cloud
+  chaosScale?: [number, number];   // Random scale multiplier range while scattered
+}
+
+// --- Procedural Geometry Generators ---
+
+const createCandyCaneGeometry = () => {
+    // Create a path: Line up, then curve for the hook
+    const path = new THREE.CatmullRomCurve3([
+        new THREE.Vector3(0, -1.0, 0),
+        new THREE.Vector3(0, 0.5, 0),
+        new THREE.Vector3(0.1, 0.8, 0),
+        new THREE.Vector3(0.4, 0.9, 0),
+        new THREE.Vector3(0.6, 0.6, 0) 
+    ]);
+    
+    // Tube
+    const geometry = new THREE.TubeGeometry(path, 32, 0.12, 8, false);
+    geometry.center(); // Crucial for rotation
+    return geometry;
+};
+
+const createStarGeometry = (points: number, outerRadius: number, innerRadius: number, depth: number) => {
+    const shape = new THREE.Shape();
+    const step = (Math.PI * 2) / (points * 2);
+    
+    shape.moveTo(0, outerRadius);
+    
+    for(let i = 0; i < points * 2; i++) {
+        const radius = (i % 2 === 0) ? outerRadius : innerRadius;
+        const angle = i * step;
+        shape.lineTo(Math.sin(angle) * radius, Math.cos(angle) * radius);
+    }
+    shape.closePath();
+    
+    const geometry = new THREE.ExtrudeGeometry(shape, {
+        depth: depth,
+        bevelEnabled: true,
+        bevelThickness: 0.05,
+        bevelSize: 0.05,
+        bevelSegments: 2
+    });
+    geometry.center();
+    return geometry;
+};
+
+const generateCandyStripeTexture = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 128;
+    canvas.height = 128;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    
+    // White background
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, 128, 128);
+    
+    // Red stripes
+    ctx.fillStyle = '#cc0000'; // Classic darker red
+    
+    // Draw diagonal stripes
+    // To create a seamless spiral on the tube, we draw diagonal lines.
+    // 3 stripes per tile
+    for (let i = -128; i < 256; i += 42) {
+        ctx.beginPath();
+        ctx.moveTo(i, 0);
+        ctx.lineTo(i + 20, 0);
+        ctx.lineTo(i + 20 + 128, 128); // Slope of 1 (128x128)
+        ctx.lineTo(i + 128, 128);
+        ctx.closePath();
+        ctx.fill();
+    }
+    
+    const tex = new THREE.CanvasTexture(canvas);
+    tex.wrapS = THREE.RepeatWrapping;
+    tex.wrapT = THREE.RepeatWrapping;
+    
+    // Repeat along the length (U) to create multiple spiral turns.
+    // Repeat 4 times along the length, 1 time around the circumference.
+    tex.repeat.set(4, 1); 
+    return tex;
+}
+
+// Bell: lathe profile from the crown down to a flared, closed rim
+const createBellGeometry = () => {
+    const profile = [
+        [0, 0.7], [0.14, 0.68], [0.26, 0.6], [0.32, 0.45], [0.35, 0.2],
+        [0.42, -0.1], [0.55, -0.38], [0.68, -0.52], [0.66, -0.6], [0.3, -0.56], [0, -0.55]
+    ].map(([x, y]) => new THREE.Vector2(x, y));
+
+    const geometry = new THREE.LatheGeometry(profile, 24);
+    geometry.center();
+    return geometry;
+};
+
+// Pinecone: egg-shaped lathe whose radius steps in and out to suggest rows of scales
+const createPineconeGeometry = () => {
+    const rows = 14;
+    const profile: THREE.Vector2[] = [];
+
+    for (let i = 0; i <= rows; i++) {
+        const v = i / rows; // 0 (bottom tip) -> 1 (stem)
+        const envelope = Math.pow(Math.sin(Math.PI * v), 0.7) * (0.55 - 0.15 * v);
+        const scallop = i % 2 === 1 ? 0.08 : 0;
+        profile.push(new THREE.Vector2(envelope + scallop, v * 2 - 1));
+    }
+
+    // Few radial segments keep the scales faceted
+    const geometry = new THREE.LatheGeometry(profile, 10);
+    geometry.center();
+    return geometry;
+};
+
+// --- Standard Sphere Ornament Component ---
+// Balls, kept as spheres with individual animation logic
+const SphereOrnament: React.FC<OrnamentItemProps> = ({ item, mixFactor }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const currentMixRef = useRef(1);
+  
+  const vecPos = useMemo(() => new THREE.Vector3(), []);
+  const vecScale = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((state, delta) => {
+    if (!groupRef.current) return;
+    
+    const speed = 2.0 * delta;
+    currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
+    const t = currentMixRef.current;
+    
+    // Position Interpolation
+    vecPos.lerpVectors(item.chaosPos, item.targetPos, t).add(item.sway);
+    groupRef.current.position.copy(vecPos);
+    
+    // Scale Interpolation
+    vecScale.lerpVectors(item.chaosScale, item.targetScale, t);
+    groupRef.current.scale.copy(vecScale);
+    
+    // Rotation Interpolation
+    groupRef.current.rotation.copy(item.rotation);
+    
+    // Extra rotation in chaos mode
+    if (t < 0.5) {
+         groupRef.current.rotation.x += delta * 0.5;
+         groupRef.current.rotation.y += delta * 0.5;
+    }
+
+    // Follow theme cross-fades
+    materialRef.current?.color.copy(item.color);
+  });
+
+  return (
+    <group ref={groupRef}>
+      <mesh castShadow receiveShadow>
+        <sphereGeometry args={[1, 32, 32]} />
+        <meshStandardMaterial 
+            ref={materialRef}
+            color={item.color} 
+            roughness={0.15}
+            metalness={0.6}
+        />
+      </mesh>
+    </group>
+  );
+};
+
+// --- Procedural Gift Box Component ---
+const RIBBON_GOLD = new THREE.Color("#FFD700");
+const RIBBON_SILVER = new THREE.Color("#E0E0E0");
+const RIBBON_RED = new THREE.Color("#AA0000");
+
+// Auto-detect ribbon color for contrast
+const getRibbonColor = (c: THREE.Color) => {
+    const luminance = 0.299 * c.r + 0.587 * c.g + 0.114 * c.b;
+    if (c.b > c.r + 0.2 && c.b > c.g + 0.2) return RIBBON_SILVER;
+    if (luminance > 0.6) return RIBBON_RED;
+    return RIBBON_GOLD; // Default Gold
+};
+
+// Body and lid split the unit box: the lid is the top LID_HEIGHT, a little wider so it reads as a lid
+const LID_HEIGHT = 0.18;
+const BODY_HEIGHT = 1 - LID_HEIGHT;
+const BODY_Y = -0.5 + BODY_HEIGHT / 2;
+const LID_Y = 0.5 - LID_HEIGHT / 2;
+
+// Gift boxes open when picked: the lid pops up and spins away with the ribbon and bow,
+// and light spills out of the open box. Boxes are tagged (userData.isGift / giftIndex) for hand picking.
+const GiftBoxMesh: React.FC<OrnamentItemProps> = ({ item, mixFactor, index, opened = false, onPick }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const lidRef = useRef<THREE.Group>(null);
+    const bodyRibbonsRef = useRef<THREE.Group>(null);
+    const bodyMatRef = useRef<THREE.MeshStandardMaterial>(null);
+    const lidMatRef = useRef<THREE.MeshStandardMaterial>(null);
+    const glowMatRef = useRef<THREE.MeshBasicMaterial>(null);
+    const currentMixRef = useRef(1);
+    const openRef = useRef(opened ? 1 : 0); // 0 wrapped -> 1 open; boxes opened on a previous visit start open
+    
+    const vecPos = useMemo(() => new THREE.Vector3(), []);
+    const vecScale = useMemo(() => new THREE.Vector3(), []);
+    
+    const ribbonMaterial = useMemo(() => {
+        const ribbonColor = getRibbonColor(item.color);
+        return new THREE.MeshStandardMaterial({
+            color: ribbonColor,
+            roughness: 0.2,
+            metalness: 0.8,
+            emissive: ribbonColor,
+            emissiveIntensity: 0.2
+        });
+    }, [item]);
+
+    useFrame((state, delta) => {
+        if (!groupRef.current) return;
+        const speed = 2.0 * delta;
+        currentMixRef.current = lerp(currentMixRef.current, mixFactor, speed);
+        const t = currentMixRef.current;
+        
+        vecPos.lerpVectors(item.chaosPos, item.targetPos, t).add(item.sway);
+        groupRef.current.position.copy(vecPos);
+        
+        vecScale.lerpVectors(item.chaosScale, item.targetScale, t);
+        groupRef.current.scale.copy(vecScale);
+        
+        groupRef.current.rotation.copy(item.rotation);
+        
+        if (t < 0.5) {
+             groupRef.current.rotation.x += delta * 0.5;
+             groupRef.current.rotation.y += delta * 0.5;
+        }
+
+        // Opening: the lid pops up and tumbles off, the body ribbons slide up after it
+        const open = openRef.current = lerp(openRef.current, opened ? 1 : 0, 3.0 * delta);
+        if (lidRef.current) {
+            const away = THREE.MathUtils.smoothstep(open, 0.5, 1);
+            lidRef.current.position.set(open * 0.6, LID_Y + open * 1.4, 0);
+            lidRef.current.rotation.set(0, open * Math.PI, open * 0.9);
+            lidRef.current.scale.setScalar(1 - away);
+            lidRef.current.visible = away < 0.99;
+        }
+        if (bodyRibbonsRef.current) {
+            bodyRibbonsRef.current.scale.y = 1 - open;
+            bodyRibbonsRef.current.position.y = BODY_Y + open * BODY_HEIGHT / 2;
+            bodyRibbonsRef.current.visible = open < 0.99;
+        }
+        if (glowMatRef.current) glowMatRef.current.opacity = open;
+
+        // Follow theme cross-fades; the ribbon re-picks its contrast color as the box color changes
+        bodyMatRef.current?.color.copy(item.color);
+        lidMatRef.current?.color.copy(item.color);
+        ribbonMaterial.color.lerp(getRibbonColor(item.color), speed);
+        ribbonMaterial.emissive.copy(ribbonMaterial.color);
+    });
+
+    const handleClick = (e: ThreeEvent<MouseEvent>) => {
+        // Ignore the click that ends a drag-to-rotate
+        if (!onPick || e.delta > 6) return;
+        e.stopPropagation();
+        onPick(index);
+    };
+
+    return (
+        <group ref={groupRef} userData={{ isGift: true, giftIndex: index }} onClick={onPick ? handleClick : undefined}>
+            {/* Box Body */}
+            <mesh position={[0, BODY_Y, 0]} scale={[1, BODY_HEIGHT, 1]} castShadow receiveShadow>
+                <boxGeometry args={[1, 1, 1]} />
+                <meshStandardMaterial 
+                    ref={bodyMatRef}
+                    color={item.color} 
+                    roughness={0.4}
+                    metalness={0.1}
+                />
+            </mesh>
+
+            {/* Light from inside, once the lid is off */}
+            <mesh position={[0, BODY_Y + BODY_HEIGHT / 2 + 0.005, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+                <planeGeometry args={[0.9, 0.9]} />
+                <meshBasicMaterial ref={glowMatRef} color="#ffe9a8" transparent opacity={0} toneMapped={false} depthWrite={false} />
+            </mesh>
+            
+            {/* Body Ribbons (X- and Z-Loop) */}
+            <group ref={bodyRibbonsRef} position={[0, BODY_Y, 0]}>
+                <mesh scale={[0.2, BODY_HEIGHT + 0.01, 1.01]} material={ribbonMaterial}>
+                    <boxGeometry args={[1, 1, 1]} />
+                </mesh>
+                <mesh scale={[1.01, BODY_HEIGHT + 0.01, 0.2]} material={ribbonMaterial}>
+                    <boxGeometry args={[1, 1, 1]} />
+                </mesh>
+            </group>
+
+            {/* Lid, with its share of the ribbon and the bow */}
+            <group ref={lidRef} position={[0, LID_Y, 0]}>
+                <mesh scale={[1.06, LID_HEIGHT, 1.06]} castShadow>
+                    <boxGeometry args={[1, 1, 1]} />
+                    <meshStandardMaterial 
+                        color={item.color} 
+                        roughness={0.4}
+                        metalness={0.1}
+                        ref={lidMatRef}
+                    />
+                </mesh>
+                <mesh scale={[0.2, LID_HEIGHT + 0.01, 1.07]} material={ribbonMaterial}>
+                    <boxGeometry args={[1, 1, 1]} />
+                </mesh>
+                <mesh scale={[1.07, LID_HEIGHT + 0.01, 0.2]} material={ribbonMaterial}>
+                    <boxGeometry args={[1, 1, 1]} />
+                </mesh>
+                {/* Bow Knot */}
+                <mesh position={[0, LID_HEIGHT / 2, 0]} rotation={[0, Math.PI / 4, 0]} material={ribbonMaterial} scale={[0.35, 0.35, 0.35]}>
+                     <torusKnotGeometry args={[0.6, 0.15, 64, 8, 2, 3]} />
+                </mesh>
+            </group>
+        </group>
+    );
+};
+
+// --- Registry ---
+
+// Stars and snowflakes turn to face outwards once the tree is formed
+const faceOutwards = (dummy: THREE.Object3D) => {
+    dummy.lookAt(0, dummy.position.y, 0);
+};
+
+// Bells, pinecones and models hang upright, only turning around their cord
+const hangUpright = (dummy: THREE.Object3D, item: OrnamentData) => {
+    dummy.rotation.set(0, item.rotation.y, 0);
+};
+
+const randomBoxAspect = () => new THREE.Vector3(
+    1.0 + Math.random() * 0.3,
+    0.7 + Math.random() * 0.4,
+    1.0 + Math.random() * 0.3
+);
+
+export const ORNAMENT_REGISTRY: Record<OrnamentType, OrnamentDefinition> = {
+    BALL: {
+        label: 'Ball',
+        render: { kind: 'PER_ITEM', component: SphereOrnament },
+        phase: 0,
+        pushOut: 1.08,
+        baseScale: 1,
+        defaultPalette: ['#8B0000', '#D32F2F', '#D4AF37', '#C0C0C0', '#191970'],
+    },
+    BOX: {
+        label: 'Gift Box',
+        render: { kind: 'PER_ITEM', component: GiftBoxMesh },
+        phase: 1,
+        pushOut: 1.08,
+        baseScale: randomBoxAspect, // Randomized aspect ratio for gift boxes
+        defaultPalette: ['#800000', '#1B5E20', '#D4AF37', '#FFFFFF'],
+    },
+    STAR: {
+        label: 'Star',
+        render: {
+            kind: 'INSTANCED',
+            geometry: () => createStarGeometry(5, 1.0, 0.5, 0.2),
+            material: () => new THREE.MeshStandardMaterial({ roughness: 0.15, metalness: 0.5, emissiveIntensity: 0.2 }),
+            tint: true,
+        },
+        phase: 2,
+        pushOut: 1.15,
+        baseScale: 0.7,
+        defaultPalette: ['#FFD700', '#FDB931'],
+        orient: dummy => {
+            faceOutwards(dummy);
+            dummy.rotateZ(Math.PI / 2); // Orient star to face out
+        },
+    },
+    CANDY: {
+        label: 'Candy Cane',
+        render: {
+            kind: 'INSTANCED',
+            geometry: createCandyCaneGeometry,
+            material: () => new THREE.MeshStandardMaterial({ map: generateCandyStripeTexture(), roughness: 0.2, metalness: 0.5, emissiveIntensity: 0.2 }),
+            tint: false, // White base so the stripe texture renders correctly
+        },
+        phase: 3,
+        pushOut: 1.08,
+        baseScale: 0.7,
+        defaultPalette: ['#FFFFFF'],
+    },
+    CRYSTAL: {
+        label: 'Snowflake',
+        render: {
+            kind: 'INSTANCED',
+            geometry: () => createStarGeometry(6, 1.0, 0.3, 0.1),
+            material: () => new THREE.MeshStandardMaterial({ roughness: 0.15, metalness: 0.9, emissive: '#112244', emissiveIntensity: 0.2 }),
+            tint: true,
+        },
+        phase: 4,
+        pushOut: 1.08,
+        baseScale: 0.6,
+        defaultPalette: ['#F0F8FF', '#E0FFFF', '#B0E0E6'],
+        orient: faceOutwards,
+    },
+    PHOTO: {
+        label: 'Polaroid',
+        render: { kind: 'PHOTO' },
+        phase: 5,
+        pushOut: 1.15,
+        baseScale: 1,
+        defaultPalette: ['#FFFFFF'],
+        chaosLayout: 'RING',
+        chaosScale: [3.5, 5.0],
+    },
+    BELL: {
+        label: 'Bell',
+        render: {
+            kind: 'INSTANCED',
+            geometry: createBellGeometry,
+            material: () => new THREE.MeshStandardMaterial({ roughness: 0.25, metalness: 0.85, emissiveIntensity: 0.2 }),
+            tint: true,
+        },
+        phase: 0.5,
+        pushOut: 1.1,
+        baseScale: 0.8,
+        defaultPalette: ['#D4AF37', '#C0C0C0', '#B22222'],
+        orient: hangUpright, // Mouth down
+    },
+    PINECONE: {
+        label: 'Pinecone',
+        render: {
+            kind: 'INSTANCED',
+            geometry: createPineconeGeometry,
+            material: () => new THREE.MeshStandardMaterial({ roughness: 0.85, metalness: 0.05 }),
+            tint: true,
+        },
+        phase: 3.5,
+        pushOut: 1.05,
+        baseScale: 0.7,
+        // Natural browns; themes only override this if they want frosted or gilded cones
+        defaultPalette: ['#5C3A1E', '#6B4423', '#8B5A2B'],
+        orient: hangUpright, // Stem up
+    },
+};
+
+// Adds (or replaces) an ornament type at runtime
+export const registerOrnament = (type: OrnamentType, definition: OrnamentDefinition) => {
+    ORNAMENT_REGISTRY[type] = definition;
+};
+
+export const getOrnamentDefinition = (type: OrnamentType): OrnamentDefinition => {
+    const definition = ORNAMENT_REGISTRY[type];
+    if (!definition) {
+        console.warn(`Unknown ornament type "${type}", drawing balls instead`);
+        return ORNAMENT_REGISTRY.BALL;
+    }
+    return definition;
+};
+
+// --- Imported Models ---
+
+// Model slots sit between the built-in types' phases on the spiral
+export const MODEL_SLOT_COUNT = 6;
+const getModelPhase = (slot: number) => (slot % MODEL_SLOT_COUNT) + 0.75;
+
+export const getModelOrnamentType = (id: string): OrnamentType => `MODEL:${id}`;
+
+/** Registers a loaded model as an ornament type and returns its type key. */
+export const registerModelOrnament = (id: string, name: string, parts: ModelPart[], slot: number): OrnamentType => {
+    const type = getModelOrnamentType(id);
+    registerOrnament(type, {
+        label: name,
+        render: { kind: 'MODEL', parts },
+        phase: getModelPhase(slot),
+        pushOut: 1.1,
+        baseScale: 1,
+        defaultPalette: ['#FFFFFF'], // Models keep their own materials
+        orient: hangUpright,
+    });
+    return type;
+};
+
+/** Moves a model to another slot. Keeps its parts, so its meshes aren't rebuilt. */
+export const setModelOrnamentSlot = (type: OrnamentType, slot: number) => {
+    const definition = ORNAMENT_REGISTRY[type];
+    if (definition) registerOrnament(type, { ...definition, phase: getModelPhase(slot) });
+};
+
+export const unregisterOrnament = (type: OrnamentType) => {
+    delete ORNAMENT_REGISTRY[type];
+};
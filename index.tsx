@@ -2,17 +2,26 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import ErrorBoundary from './components/ErrorBoundary';
+import RemoteControl from './components/RemoteControl';
+import { readRemoteParams } from './utils/sync';
+import { applyLocaleToDocument } from './utils/i18n';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// A link with ?remote=CODE opens the phone remote instead of the tree
+const remote = readRemoteParams(window.location.search);
+
+// <html lang dir> for the detected language (right-to-left for Arabic); the language panel updates it
+applyLocaleToDocument();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <ErrorBoundary>
-      <App />
+      {remote ? <RemoteControl code={remote.code} relayUrl={remote.relayUrl} /> : <App />}
     </ErrorBoundary>
   </React.StrictMode>
 );
\ No newline at end of file
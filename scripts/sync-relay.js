@@ -0,0 +1,195 @@
+// Local relay for multi-device sync (see utils/sync.ts).
+//
+//   node scripts/sync-relay.js [port]        (or: npm run relay)
+//
+// Devices connect with ws://<this machine>:8787/?room=<pairing code>; every text message is forwarded
+// to the other sockets in the same room. The relay keeps no state of its own: devices greet each other
+// and exchange their state when they join. Plain Node, no dependencies: just enough of RFC 6455
+// (text frames, fragments, ping/close) for browsers on the local network.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.argv[2] ?? process.env.SYNC_RELAY_PORT ?? 8787);
+const ROOM_PATTERN = /^[A-Z0-9]{6}$/;
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024; // Photo parts are the big ones: PHOTOS_PER_MESSAGE data URLs in utils/sync.ts
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE = { CONTINUATION: 0x0, TEXT: 0x1, BINARY: 0x2, CLOSE: 0x8, PING: 0x9, PONG: 0xa };
+
+/** @type {Map<string, Set<Client>>} */
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+    const length = payload.length;
+    let header;
+    if (length < 126) {
+        header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+class Client {
+    constructor(socket, room) {
+        this.socket = socket;
+        this.room = room;
+        this.peerId = null; // Learned from the first message, so the room hears a BYE if the socket drops
+        this.buffer = Buffer.alloc(0);
+        this.fragments = [];
+        this.closed = false;
+
+        socket.on('data', chunk => this.receive(chunk));
+        socket.on('close', () => this.leave());
+        socket.on('error', () => this.leave());
+    }
+
+    send(opcode, payload) {
+        if (!this.closed) this.socket.write(encodeFrame(opcode, payload));
+    }
+
+    receive(chunk) {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        let frame;
+        while ((frame = this.readFrame())) this.handleFrame(frame);
+    }
+
+    // One complete frame off the front of the buffer, or null if it hasn't all arrived yet
+    readFrame() {
+        const buffer = this.buffer;
+        if (buffer.length < 2) return null;
+        const fin = (buffer[0] & 0x80) !== 0;
+        const opcode = buffer[0] & 0x0f;
+        const masked = (buffer[1] & 0x80) !== 0;
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+        if (length === 126) {
+            if (buffer.length < 4) return null;
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+        } else if (length === 127) {
+            if (buffer.length < 10) return null;
+            length = Number(buffer.readBigUInt64BE(2));
+            offset = 10;
+        }
+        // Browsers always mask what they send (RFC 6455 5.1); anything else isn't one of our devices
+        if (!masked) {
+            this.close(1002);
+            return null;
+        }
+        if (length > MAX_MESSAGE_BYTES) {
+            this.close(1009);
+            return null;
+        }
+        const maskOffset = offset;
+        offset += 4;
+        if (buffer.length < offset + length) return null;
+
+        const payload = Buffer.from(buffer.subarray(offset, offset + length));
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+        this.buffer = buffer.subarray(offset + length);
+        return { fin, opcode, payload };
+    }
+
+    handleFrame({ fin, opcode, payload }) {
+        switch (opcode) {
+            case OPCODE.TEXT:
+            case OPCODE.BINARY:
+            case OPCODE.CONTINUATION: {
+                this.fragments.push(payload);
+                if (!fin) return;
+                const message = Buffer.concat(this.fragments);
+                this.fragments = [];
+                if (message.length > MAX_MESSAGE_BYTES) return this.close(1009);
+                this.forward(message);
+                break;
+            }
+            case OPCODE.PING:
+                this.send(OPCODE.PONG, payload);
+                break;
+            case OPCODE.CLOSE:
+                this.close(1000);
+                break;
+        }
+    }
+
+    forward(message) {
+        if (!this.peerId) {
+            try {
+                const from = JSON.parse(message.toString('utf8')).from;
+                if (typeof from === 'string') this.peerId = from;
+            } catch {
+                // Not JSON: forwarded as is, the devices ignore it
+            }
+        }
+        this.broadcast(message);
+    }
+
+    broadcast(message) {
+        rooms.get(this.room)?.forEach(client => {
+            if (client !== this) client.send(OPCODE.TEXT, message);
+        });
+    }
+
+    close(code) {
+        if (this.closed) return;
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(code);
+        this.send(OPCODE.CLOSE, payload);
+        this.socket.end();
+        this.leave();
+    }
+
+    leave() {
+        if (this.closed) return;
+        this.closed = true;
+        if (this.peerId) this.broadcast(Buffer.from(JSON.stringify({ type: 'BYE', from: this.peerId })));
+        const room = rooms.get(this.room);
+        room?.delete(this);
+        if (room?.size === 0) rooms.delete(this.room);
+        console.log(`[relay] ${this.room}: device left (${room?.size ?? 0} connected)`);
+    }
+}
+
+const server = createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('Christmas tree sync relay: connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+    const url = new URL(req.url ?? '/', 'http://relay');
+    const room = (url.searchParams.get('room') ?? '').toUpperCase();
+    const key = req.headers['sec-websocket-key'];
+
+    if (!ROOM_PATTERN.test(room) || typeof key !== 'string' || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', '',
+    ].join('\r\n'));
+    socket.setNoDelay(true);
+
+    if (!rooms.has(room)) rooms.set(room, new Set());
+    rooms.get(room).add(new Client(socket, room));
+    console.log(`[relay] ${room}: device joined (${rooms.get(room).size} connected)`);
+});
+
+server.listen(PORT, () => {
+    console.log(`[relay] Listening on ws://0.0.0.0:${PORT} - pair devices with ?room=<code>`);
+});
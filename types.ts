@@ -1,16 +1,171 @@
 import { ThreeElements } from '@react-three/fiber';
+import * as THREE from 'three';
 
-export type TreeState = 'CHAOS' | 'FORMED';
+// Named layout the scene assembles into, see utils/formations.ts.
+// Scattering (the old CHAOS state) is separate: mixFactor 0 scatters whichever formation is active.
+export type FormationId = string;
+
+// Outline of the tree, see utils/treeShape.ts
+export type TreeShapeKind = 'CONE' | 'TIERED' | 'SPIRAL' | 'SLIM_FIR' | 'CUSTOM';
 
 export interface TreeColors {
   bottom: string;
   top: string;
 }
 
+// Key in ORNAMENT_REGISTRY (components/ornamentRegistry.tsx), e.g. 'BALL', 'BELL', 'PHOTO'
+export type OrnamentType = string;
+
+// --- Imported Ornament Models ---
+
+export interface ModelSettings {
+  slot: number;     // Which of the model slots on the golden spiral it hangs in
+  count: number;
+  scale: number;
+  variance: number; // 0-1, random size spread
+}
+
+export interface OrnamentModel {
+  id: string;
+  name: string;
+  type: OrnamentType; // Registry key the model was registered under
+  builtIn?: boolean;  // Shipped with the app (ball.glb), not stored or removable
+  settings: ModelSettings;
+}
+
+// --- Themes ---
+
+export type ThemeId = 'CLASSIC' | 'NORDIC' | 'GOLD' | 'PASTEL';
+
+export interface Theme {
+  id: ThemeId;
+  name: string;
+  foliage: TreeColors; // Tree gradient
+  palettes: Partial<Record<OrnamentType, string[]>>; // Ornament colors per type; missing types use the registry default
+  lights: {
+    key: string;     // Warm spotlight
+    left: string;    // Back-left point light
+    right: string;   // Front-right point light
+    fill: string;    // Top fill light
+  };
+  star: {
+    color: string; // Used for both color and emissive glow
+    glow: string;  // Point light inside the star
+    emissiveIntensity: number;
+  };
+  bloom: number; // Bloom intensity
+}
+
+// Rendering quality tier, stepped by the frame-time governor (see utils/quality.ts)
+export type QualityTierId = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface QualityTier {
+  id: QualityTierId;
+  name: string;
+  dpr: [number, number];      // Canvas pixel ratio range
+  foliageScale: number;       // Multiplies the configured foliage count
+  snowScale: number;          // Multiplies the configured snow count
+  bloomMipmapBlur: boolean;
+  bloomScale: number;         // Multiplies the theme's bloom intensity
+  shadows: boolean;
+  starCount: number;          // Background stars
+  detectionInterval: number;  // Milliseconds between hand detections
+}
+
+// Music analysis read by the 3D scene every frame (see utils/audioAnalysis.ts)
+export interface AudioLevels {
+  bass: number;   // 0 to 1, scaled by the sensitivity and smoothed
+  mid: number;
+  treble: number;
+  beat: number;   // Increments on every detected beat
+}
+
+export type GestureType =
+  | 'NONE'
+  | 'OPEN'
+  | 'FIST'
+  | 'PINCH'
+  | 'POINT'
+  | 'THUMBS_UP'
+  | 'VICTORY'
+  | 'SWIPE_LEFT'
+  | 'SWIPE_RIGHT';
+
+// Raw handpose output: 21 [x, y, z] points in video pixel space
+export type HandLandmarks = [number, number, number][];
+
+export type Handedness = 'Left' | 'Right';
+
+// One tracked hand. GestureController reports an array of these (up to two hands).
 export interface HandGesture {
+  id: number; // Stable while the hand stays in view
+  handedness: Handedness;
   isOpen: boolean;
   position: { x: number; y: number }; // Normalized -1 to 1
-  isDetected: boolean;
+  fingertip: { x: number; y: number }; // Index fingertip, same space as position
+  frameAspect: number; // Camera frame width / height; positions are normalized to the frame, not the canvas
+  gesture: GestureType;
+  confidence: number; // 0 to 1
+  pinchDistance: number; // Thumb-index distance relative to palm size
+  depth: number; // 0 (far) to 1 (close), from palm size
+  landmarks: HandLandmarks;
+}
+
+// Hand state shared with the 3D scene through a ref, so it never triggers re-renders
+export interface SceneInput {
+  x: number;
+  y: number;
+  isDetected?: boolean;
+  pinchDepth?: number | null; // Hand depth while pinching, null otherwise
+  rotationImpulse?: number; // Radians, consumed (reset to 0) by SceneController
+  windGust?: number; // Swipe gusts along screen x (+1 per right swipe), consumed (reset to 0) by WindController
+  bimanual?: { distance: number; angle: number } | null; // Line between two hands, null with fewer than two
+  pointer?: { x: number; y: number } | null; // Index fingertip while pointing (normalized -1 to 1), null otherwise
+  pinchPoint?: { x: number; y: number } | null; // Index fingertip while pinching (same space), null otherwise
+  frameAspect?: number; // Camera frame width / height, see frameToCanvasNdc
+  remoteRotation?: number; // Radians from a paired remote, consumed (reset to 0) by SceneController
+  remoteZoom?: number; // Camera distance from a paired remote, consumed (reset to 0) by SceneController
+}
+
+// A polaroid on the tree: image plus its handwritten caption ('' = blank)
+export interface Photo {
+  url: string;
+  caption: string;
+  storeKey?: number; // Row key in the photo store, when persisted
+}
+
+// What a gift box holds: the author's message and/or photo, revealed when the box is opened
+export interface Gift {
+  message: string;
+  photoUrl: string | null; // blob: URL; gift photos never leave the device
+  opened: boolean;
+}
+
+export type ClipScript = 'SPIN' | 'DISPERSE_ASSEMBLE' | 'PHOTO_ZOOM';
+
+// Why a recording produced no clip: no MediaRecorder or WebM codec here, or the recorder itself gave up
+export type ClipFailure = 'UNSUPPORTED' | 'FAILED';
+
+export interface ClipRequest {
+  id: number; // Changes for every new recording
+  script: ClipScript;
+  duration: number; // Seconds
+}
+
+// Offscreen print render of the scene (see CardRenderer); the card composer frames it afterwards
+export interface CardRequest {
+  id: number; // Changes for every new render
+  width: number; // Pixels
+  height: number;
+  background: string; // CSS color the scene is cleared to
+  glow: number; // Stands in for the bloom, which is not tiled
+}
+
+// Scripted camera override. While set, SceneController ignores user input and follows it.
+export interface CameraDirection {
+  position: THREE.Vector3 | null; // null = default orbit distance
+  lookAt: THREE.Vector3;
+  spinSpeed: number; // Tree rotation, radians per second
 }
 
 declare global {
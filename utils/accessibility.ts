@@ -0,0 +1,25 @@
+// Accessibility helpers shared by the page and the scene: the reduced-motion preference,
+// and which key presses belong to a focused control rather than to the page-wide shortcuts.
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const prefersReducedMotion = () =>
+    typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches;
+
+/** Calls `onChange` whenever the preference changes (e.g. toggled in the OS settings). Returns the unsubscribe. */
+export const watchReducedMotion = (onChange: (reduced: boolean) => void) => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return () => {};
+    const listener = (e: MediaQueryListEvent) => onChange(e.matches);
+    query.addEventListener('change', listener);
+    return () => query.removeEventListener('change', listener);
+};
+
+/** Text fields, sliders and selects use arrows, +/- and space themselves. */
+export const isFormField = (target: EventTarget | null) =>
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/** Buttons and links activate on space/enter. */
+export const isActivatable = (target: EventTarget | null) =>
+    target instanceof HTMLElement && !!target.closest('button, a[href], [role="button"]');
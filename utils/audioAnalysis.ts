@@ -0,0 +1,102 @@
+import { AudioLevels } from '../types';
+import { lerp } from './math';
+
+// Audio-reactive mode: an AnalyserNode on the music element, read once per frame by the scene.
+// The spectrum is split into bass / mid / treble bands; levels rise fast and fall slowly so pulses
+// stay readable, and a beat is a bass hit clearly above the recent bass average.
+
+export interface AudioAnalysis {
+    levels: AudioLevels;
+    update: (delta: number, sensitivity: number) => void;
+    resume: () => Promise<void>; // The context starts suspended until a user gesture
+    dispose: () => void;
+}
+
+// Band edges in Hz
+const BANDS = {
+    bass: [30, 160],
+    mid: [300, 2000],
+    treble: [4000, 10000],
+} as const;
+
+const ATTACK = 30;         // Per second, rising levels
+const RELEASE = 5;         // Per second, falling levels
+const BEAT_RATIO = 1.35;   // Bass above this multiple of its recent average counts as a beat
+const BEAT_FLOOR = 0.3;    // Quieter bass never counts
+const BEAT_COOLDOWN = 0.25; // Seconds
+const AVERAGE_RATE = 1.5;  // Per second, how fast the bass average follows
+
+type AudioContextClass = typeof AudioContext;
+
+/**
+ * Routes `element` through an analyser (and on to the speakers).
+ * A media element can only be connected once, so create one analysis per element and keep it.
+ * Returns null (after a warning) where Web Audio isn't available.
+ */
+export const createAudioAnalysis = (element: HTMLMediaElement): AudioAnalysis | null => {
+    const ContextClass: AudioContextClass | undefined =
+        window.AudioContext ?? (window as unknown as { webkitAudioContext?: AudioContextClass }).webkitAudioContext;
+    if (!ContextClass) {
+        console.warn('Web Audio not supported, audio-reactive mode unavailable');
+        return null;
+    }
+
+    let context: AudioContext;
+    let analyser: AnalyserNode;
+    try {
+        context = new ContextClass();
+        analyser = context.createAnalyser();
+        analyser.fftSize = 2048;
+        analyser.smoothingTimeConstant = 0.6;
+        const source = context.createMediaElementSource(element);
+        source.connect(analyser);
+        analyser.connect(context.destination);
+    } catch (e) {
+        console.warn('Failed to set up audio analysis:', e);
+        return null;
+    }
+
+    const spectrum = new Uint8Array(analyser.frequencyBinCount);
+    const binHz = context.sampleRate / analyser.fftSize;
+    const bandEnergy = ([low, high]: readonly [number, number]) => {
+        const from = Math.max(1, Math.floor(low / binHz));
+        const to = Math.min(spectrum.length - 1, Math.ceil(high / binHz));
+        let sum = 0;
+        for (let i = from; i <= to; i++) sum += spectrum[i];
+        return sum / ((to - from + 1) * 255);
+    };
+
+    const levels: AudioLevels = { bass: 0, mid: 0, treble: 0, beat: 0 };
+    let bassAverage = 0;
+    let sinceBeat = BEAT_COOLDOWN;
+
+    const follow = (level: number, raw: number, delta: number) =>
+        lerp(level, raw, Math.min(1, (raw > level ? ATTACK : RELEASE) * delta));
+
+    return {
+        levels,
+        update: (delta, sensitivity) => {
+            analyser.getByteFrequencyData(spectrum);
+            const bass = bandEnergy(BANDS.bass) * sensitivity; // Unclamped, so loud tracks still have beats
+            const mid = Math.min(1, bandEnergy(BANDS.mid) * sensitivity * 1.5); // Mids carry less energy
+            const treble = Math.min(1, bandEnergy(BANDS.treble) * sensitivity * 2);
+
+            sinceBeat += delta;
+            if (bass > BEAT_FLOOR && bass > bassAverage * BEAT_RATIO && sinceBeat >= BEAT_COOLDOWN) {
+                levels.beat++;
+                sinceBeat = 0;
+            }
+            bassAverage = lerp(bassAverage, bass, Math.min(1, AVERAGE_RATE * delta));
+
+            levels.bass = follow(levels.bass, Math.min(1, bass), delta);
+            levels.mid = follow(levels.mid, mid, delta);
+            levels.treble = follow(levels.treble, treble, delta);
+        },
+        resume: async () => {
+            if (context.state === 'suspended') await context.resume();
+        },
+        dispose: () => {
+            context.close().catch(() => {});
+        },
+    };
+};
@@ -0,0 +1,201 @@
+// Printable greeting cards: the print render of the scene (see CardRenderer) framed by a template,
+// with the title and a signature, exported as PNG and a single-page PDF.
+
+import { createImagePdf } from './pdf';
+
+export type CardTemplateId = 'STARRY' | 'POLAROID' | 'GILDED';
+export type CardSizeId = 'PRINT' | 'A5' | 'DRAFT';
+
+export interface CardRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface CardText {
+  y: number; // Centre line, fraction of the card height
+  size: number; // Font size, fraction of the card width
+  ink: [number, string][]; // Top-to-bottom gradient stops
+  glow: string | null;
+  tilt: number; // Radians
+}
+
+export interface CardTemplate {
+  id: CardTemplateId;
+  paper: string; // Card background
+  sky: string; // What the scene is rendered against
+  picture: CardRect; // Where the scene goes, fractions of the card
+  title: CardText;
+  signature: CardText;
+  // Frames and shading drawn over the picture, before the text
+  decorate?: (ctx: CanvasRenderingContext2D, width: number, height: number, picture: CardRect) => void;
+}
+
+export interface CardSize {
+  width: number; // Pixels
+  height: number;
+  dpi: number; // Sets the PDF page size
+  label: string;
+}
+
+// Same gradient as the on-screen title
+const SILVER_INK: [number, string][] = [[0.2, '#ffffff'], [0.5, '#e8e8e8'], [0.9, '#b0b0b0']];
+const GOLD_INK: [number, string][] = [[0.1, '#f3e5ab'], [0.5, '#d4af37'], [0.95, '#8a6d1d']];
+const GOLD = '#d4af37';
+
+const drawVignette = (ctx: CanvasRenderingContext2D, rect: CardRect, darkness: number) => {
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  const radius = Math.hypot(rect.width, rect.height) / 2;
+  const gradient = ctx.createRadialGradient(cx, cy, radius * 0.45, cx, cy, radius);
+  gradient.addColorStop(0, 'rgba(0,0,0,0)');
+  gradient.addColorStop(1, `rgba(0,0,0,${darkness})`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+};
+
+export const CARD_TEMPLATES: Record<CardTemplateId, CardTemplate> = {
+  // Full bleed, like the live page
+  STARRY: {
+    id: 'STARRY',
+    paper: '#020202',
+    sky: '#020202',
+    picture: { x: 0, y: 0, width: 1, height: 1 },
+    title: { y: 0.1, size: 0.11, ink: SILVER_INK, glow: 'rgba(255,255,255,0.4)', tilt: 0 },
+    signature: { y: 0.9, size: 0.09, ink: [[0, '#f3e5ab']], glow: 'rgba(212,175,55,0.5)', tilt: -0.02 },
+    decorate: (ctx, width, height, picture) => {
+      drawVignette(ctx, picture, 0.75);
+      const inset = width * 0.03;
+      ctx.strokeStyle = 'rgba(212,175,55,0.6)';
+      ctx.lineWidth = width * 0.002;
+      ctx.strokeRect(inset, inset, width - inset * 2, height - inset * 2);
+    },
+  },
+  // The polaroid from the signature modal
+  POLAROID: {
+    id: 'POLAROID',
+    paper: '#f8f8f8',
+    sky: '#020202',
+    picture: { x: 0.08, y: 0.06, width: 0.84, height: 0.68 },
+    title: { y: 0.8, size: 0.075, ink: GOLD_INK, glow: null, tilt: 0 },
+    signature: { y: 0.89, size: 0.1, ink: [[0, '#1a1a1a']], glow: null, tilt: -0.02 },
+    decorate: (ctx, width, _height, picture) => {
+      drawVignette(ctx, picture, 0.5);
+      ctx.strokeStyle = 'rgba(0,0,0,0.15)';
+      ctx.lineWidth = width * 0.002;
+      ctx.strokeRect(picture.x, picture.y, picture.width, picture.height);
+    },
+  },
+  // Deep green card with a double gold border
+  GILDED: {
+    id: 'GILDED',
+    paper: '#0b1f17',
+    sky: '#020202',
+    picture: { x: 0.1, y: 0.09, width: 0.8, height: 0.62 },
+    title: { y: 0.79, size: 0.095, ink: GOLD_INK, glow: 'rgba(212,175,55,0.35)', tilt: 0 },
+    signature: { y: 0.885, size: 0.085, ink: [[0, '#e8d8a8']], glow: null, tilt: -0.02 },
+    decorate: (ctx, width, height, picture) => {
+      drawVignette(ctx, picture, 0.5);
+      ctx.strokeStyle = GOLD;
+      [[0.035, 0.004], [0.05, 0.0015]].forEach(([inset, line]) => {
+        ctx.lineWidth = width * line;
+        ctx.strokeRect(width * inset, width * inset, width * (1 - inset * 2), height - width * inset * 2);
+      });
+      ctx.lineWidth = width * 0.002;
+      ctx.strokeRect(picture.x, picture.y, picture.width, picture.height);
+    },
+  },
+};
+
+export const CARD_TEMPLATE_IDS = Object.keys(CARD_TEMPLATES) as CardTemplateId[];
+
+// Portrait 5:7 for home printing, plus A5 and a quick draft
+export const CARD_SIZES: Record<CardSizeId, CardSize> = {
+  PRINT: { width: 3000, height: 4200, dpi: 600, label: '5×7″ · 600 dpi' },
+  A5: { width: 1748, height: 2480, dpi: 300, label: 'A5 · 300 dpi' },
+  DRAFT: { width: 1200, height: 1680, dpi: 240, label: '5×7″ · 240 dpi' },
+};
+
+export const CARD_SIZE_IDS = Object.keys(CARD_SIZES) as CardSizeId[];
+
+// The picture area in pixels: the size the scene is rendered at
+export const getPictureRect = (template: CardTemplate, width: number, height: number): CardRect => ({
+  x: Math.round(template.picture.x * width),
+  y: Math.round(template.picture.y * height),
+  width: Math.round(template.picture.width * width),
+  height: Math.round(template.picture.height * height),
+});
+
+export interface CardContent {
+  templateId: CardTemplateId;
+  sizeId: CardSizeId;
+  title: string;
+  titleFont: string; // CSS font-family
+  signature: string;
+  signatureFont: string;
+}
+
+const drawText = (ctx: CanvasRenderingContext2D, text: string, font: string, style: CardText) => {
+  const { width, height } = ctx.canvas;
+  const size = style.size * width;
+
+  ctx.save();
+  ctx.translate(width / 2, style.y * height);
+  ctx.rotate(style.tilt);
+  ctx.font = `${size}px ${font}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const gradient = ctx.createLinearGradient(0, -size / 2, 0, size / 2);
+  style.ink.forEach(([offset, color]) => gradient.addColorStop(offset, color));
+  ctx.fillStyle = gradient;
+  if (style.glow) {
+    ctx.shadowColor = style.glow;
+    ctx.shadowBlur = size * 0.3;
+  }
+  ctx.fillText(text, 0, 0, width * 0.9);
+  ctx.restore();
+};
+
+// Web fonts load on first use, which would be too late for a canvas; a missing font falls back silently
+const loadFont = (font: string, text: string) =>
+  document.fonts ? document.fonts.load(`100px ${font}`, text).catch(() => []) : Promise.resolve([]);
+
+export const composeCard = async (render: HTMLCanvasElement, content: CardContent): Promise<HTMLCanvasElement> => {
+  const template = CARD_TEMPLATES[content.templateId];
+  const { width, height } = CARD_SIZES[content.sizeId];
+  const title = content.title.trim();
+  const signature = content.signature.trim();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas is not available');
+
+  ctx.fillStyle = template.paper;
+  ctx.fillRect(0, 0, width, height);
+  const picture = getPictureRect(template, width, height);
+  ctx.drawImage(render, picture.x, picture.y, picture.width, picture.height);
+  template.decorate?.(ctx, width, height, picture);
+
+  await Promise.all([loadFont(content.titleFont, title), loadFont(content.signatureFont, signature)]);
+  if (title) drawText(ctx, title, content.titleFont, template.title);
+  if (signature) drawText(ctx, signature, content.signatureFont, template.signature);
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`)), type, quality);
+  });
+
+// PNG at full resolution, and a PDF page of the card's physical size holding it as a JPEG
+export const exportCard = async (card: HTMLCanvasElement, size: CardSize): Promise<{ png: Blob; pdf: Blob }> => {
+  const png = await toBlob(card, 'image/png');
+  const jpeg = new Uint8Array(await (await toBlob(card, 'image/jpeg', 0.92)).arrayBuffer());
+  const pointsPerPixel = 72 / size.dpi;
+  const pdf = createImagePdf(jpeg, card.width, card.height, card.width * pointsPerPixel, card.height * pointsPerPixel);
+  return { png, pdf };
+};
@@ -0,0 +1,102 @@
+// Countdown to a wall-clock moment (Christmas, New Year or a custom date) in a chosen time zone.
+// Targets are local times in that zone ("midnight in Jakarta"), turned into an instant with Intl,
+// so offsets and daylight saving follow the zone's own rules rather than the device's.
+
+export type CountdownMode = 'OFF' | 'CHRISTMAS' | 'NEW_YEAR' | 'CUSTOM';
+
+// In the order the Countdown panel lists them; labels, event names and greetings come from the locale (utils/locales)
+export const COUNTDOWN_MODES: CountdownMode[] = ['OFF', 'CHRISTMAS', 'NEW_YEAR', 'CUSTOM'];
+
+export const isCountdownMode = (value: unknown): value is CountdownMode =>
+    typeof value === 'string' && (COUNTDOWN_MODES as string[]).includes(value);
+
+// Custom targets use the datetime-local input's format
+export const COUNTDOWN_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+// '' is the device's own zone
+export const isTimeZone = (value: string) => {
+    if (!value) return true;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+// Zones offered in the picker (any IANA name can be typed)
+export const getTimeZoneNames = (): string[] => {
+    if (typeof Intl.supportedValuesOf === 'function') return Intl.supportedValuesOf('timeZone');
+    return ['UTC', 'Asia/Jakarta', 'Asia/Shanghai', 'Europe/London', 'America/New_York'];
+};
+
+// The target keeps counting as reached for this long (the celebration), then the next occurrence takes over
+export const CELEBRATION_MS = 60 * 1000;
+
+interface WallClock {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+}
+
+// Milliseconds the zone's clock is ahead of UTC at `instant`
+const zoneOffset = (instant: number, timeZone: string) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour12: false,
+        year: 'numeric', month: 'numeric', day: 'numeric',
+        hour: 'numeric', minute: 'numeric', second: 'numeric',
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+    // Some engines print midnight as hour 24
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+    return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+const toInstant = ({ year, month, day, hour, minute }: WallClock, timeZone: string) => {
+    if (!timeZone) return new Date(year, month - 1, day, hour, minute).getTime();
+    const guess = Date.UTC(year, month - 1, day, hour, minute);
+    const instant = guess - zoneOffset(guess, timeZone);
+    // Near a DST change the offset at the answer can differ from the one at the guess
+    return guess - zoneOffset(instant, timeZone);
+};
+
+/**
+ * Instant (ms) the countdown runs to, or null when there is nothing to count down to.
+ * Christmas and New Year pick the next occurrence that isn't over yet (including its celebration);
+ * a custom date disappears once its celebration is over. An unknown zone counts in the device's zone.
+ */
+export const getCountdownTarget = (mode: CountdownMode, date: string, timeZone: string, now: number): number | null => {
+    const zone = isTimeZone(timeZone) ? timeZone : '';
+
+    if (mode === 'CUSTOM') {
+        const match = COUNTDOWN_DATE_PATTERN.exec(date);
+        if (!match) return null;
+        const [year, month, day, hour, minute] = match.slice(1).map(Number);
+        const instant = toInstant({ year, month, day, hour, minute }, zone);
+        return Number.isFinite(instant) && instant > now - CELEBRATION_MS ? instant : null;
+    }
+    if (mode === 'OFF') return null;
+
+    const thisYear = new Date(now).getUTCFullYear();
+    for (const year of [thisYear - 1, thisYear, thisYear + 1]) {
+        const instant = mode === 'CHRISTMAS'
+            ? toInstant({ year, month: 12, day: 25, hour: 0, minute: 0 }, zone)
+            : toInstant({ year, month: 1, day: 1, hour: 0, minute: 0 }, zone);
+        if (instant > now - CELEBRATION_MS) return instant;
+    }
+    return null;
+};
+
+/** Splits a positive duration into whole days, hours, minutes and seconds (rounding up, so 0:00:01 shows until zero). */
+export const splitRemaining = (ms: number) => {
+    const total = Math.max(0, Math.ceil(ms / 1000));
+    return {
+        days: Math.floor(total / 86400),
+        hours: Math.floor(total / 3600) % 24,
+        minutes: Math.floor(total / 60) % 60,
+        seconds: total % 60,
+    };
+};
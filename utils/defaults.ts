@@ -1,3 +1,8 @@
+import { ModelSettings, TreeShapeKind } from '../types';
+import { DEFAULT_TREE_PROFILE } from './treeShape';
+import { DEFAULT_LIGHT_PROGRAM } from './lightPatterns';
+import { CountdownMode } from './countdown';
+import { Locale, LOCALE_IDS, getLocaleCaptions } from './i18n';
 
 // Shared defaults for the Christmas Tree experience
 // These values act as the single source of truth for both 
@@ -14,10 +19,47 @@ export const SCENE_DEFAULTS = {
     ballVariance: 0.2,
     // Control for Top Star
     starScale: 11.0,
-    titleText: "Easy Christmas",
+    // Tree outline shared by foliage, lights, ornaments and star (see utils/treeShape.ts)
+    treeShape: 'CONE' as TreeShapeKind,
+    treeProfile: DEFAULT_TREE_PROFILE, // Only used by the CUSTOM shape
+    // Snow that settles on the tree (and on the ground plane, when shown); see utils/snowCover.ts
+    snowSettles: true,
+    snowGround: false,
+    // Wind over snow, foliage and ornaments (see utils/wind.ts); direction in degrees, 0 blowing right
+    windStrength: 0.6,
+    windDirection: 0,
+    windGustiness: 0.5,
+    // Spiral light pattern or sequence (see utils/lightPatterns.ts)
+    lightShow: DEFAULT_LIGHT_PROGRAM,
+    // Countdown overlay (see utils/countdown.ts): custom date as 'YYYY-MM-DDTHH:mm', '' zone = the device's
+    countdown: 'OFF' as CountdownMode,
+    countdownDate: '',
+    countdownZone: '',
+    // '' shows the locale's default title (see utils/locales)
+    titleText: "",
     titleFont: "font-luxury" // Default font class
 };
 
+export type SceneConfig = typeof SCENE_DEFAULTS;
+
+// Built-in ball.glb ornament; its size and variance are ballScale/ballVariance above
+export const BALL_MODEL = {
+    id: 'ball',
+    name: 'Ball.glb',
+    url: `${import.meta.env.BASE_URL || '/'}models/ball.glb`,
+    count: 10,
+};
+
+// Starting settings for an imported .glb ornament (slot is picked when importing)
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+    slot: 0,
+    count: 12,
+    scale: 0.6,
+    variance: 0.2,
+};
+
+export const MAX_IMPORTED_MODELS = 6;
+
 // Default images displayed before user uploads their own.
 // Using local project assets located in public/defaultImg/
 // Updated to use BASE_URL for GitHub Pages subpath support
@@ -32,3 +74,21 @@ export const DEFAULT_IMAGES = [
     `${BASE_URL}defaultImg/7.jpg`,
     `${BASE_URL}defaultImg/8.jpg`
 ];
+
+
+// Longest caption that still fits the polaroid's bottom strip
+export const MAX_CAPTION_LENGTH = 20;
+
+// Default polaroid captions come from the locale, repeated via modulo for photos beyond the list
+export const getDefaultCaption = (index: number, locale?: Locale) => {
+    const captions = getLocaleCaptions(locale);
+    return captions[index % captions.length];
+};
+
+// A caption nobody wrote: some locale's default for that photo (it follows the language when it changes)
+export const isDefaultCaption = (caption: string, index: number) =>
+    LOCALE_IDS.some(locale => getDefaultCaption(index, locale) === caption);
+
+// Gift boxes on the tree; each can hide a message or photo (see components/GiftCard.tsx)
+export const GIFT_BOX_COUNT = 30;
+export const MAX_GIFT_MESSAGE_LENGTH = 200;
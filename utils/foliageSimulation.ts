@@ -0,0 +1,235 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+
+// GPU particle simulation for the foliage.
+// Position and velocity live in float textures (one texel per particle) that are ping-ponged every frame:
+// each particle is pulled by a spring towards its goal (chaos anchor -> formation target, by the mix) and
+// pushed around by curl noise, strongly while scattered and faintly once formed so the tree keeps breathing.
+// Foliage reads the positions in its vertex shader. Without float render targets it keeps its CPU lerp.
+
+export interface FoliageSimulation {
+    uvs: Float32Array; // Texel of each particle (the aSimUv attribute)
+    setTargets: (from: Float32Array, to: Float32Array) => void; // xyz per particle
+    step: (delta: number, time: number, mix: number, formMix: number) => void;
+    getPositions: () => THREE.Texture;
+    dispose: () => void;
+}
+
+// 3D simplex noise (Ashima Arts / Stefan Gustavson, MIT) and its curl
+const noiseChunk = `
+  vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec4 mod289(vec4 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec4 permute(vec4 x) { return mod289(((x * 34.0) + 1.0) * x); }
+  vec4 taylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+
+  float snoise(vec3 v) {
+    const vec2 C = vec2(1.0 / 6.0, 1.0 / 3.0);
+    const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+    vec3 i = floor(v + dot(v, C.yyy));
+    vec3 x0 = v - i + dot(i, C.xxx);
+    vec3 g = step(x0.yzx, x0.xyz);
+    vec3 l = 1.0 - g;
+    vec3 i1 = min(g.xyz, l.zxy);
+    vec3 i2 = max(g.xyz, l.zxy);
+    vec3 x1 = x0 - i1 + C.xxx;
+    vec3 x2 = x0 - i2 + C.yyy;
+    vec3 x3 = x0 - D.yyy;
+    i = mod289(i);
+    vec4 p = permute(permute(permute(
+              i.z + vec4(0.0, i1.z, i2.z, 1.0))
+            + i.y + vec4(0.0, i1.y, i2.y, 1.0))
+            + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+    float n_ = 0.142857142857;
+    vec3 ns = n_ * D.wyz - D.xzx;
+    vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+    vec4 x_ = floor(j * ns.z);
+    vec4 y_ = floor(j - 7.0 * x_);
+    vec4 x = x_ * ns.x + ns.yyyy;
+    vec4 y = y_ * ns.x + ns.yyyy;
+    vec4 h = 1.0 - abs(x) - abs(y);
+    vec4 b0 = vec4(x.xy, y.xy);
+    vec4 b1 = vec4(x.zw, y.zw);
+    vec4 s0 = floor(b0) * 2.0 + 1.0;
+    vec4 s1 = floor(b1) * 2.0 + 1.0;
+    vec4 sh = -step(h, vec4(0.0));
+    vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+    vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+    vec3 p0 = vec3(a0.xy, h.x);
+    vec3 p1 = vec3(a0.zw, h.y);
+    vec3 p2 = vec3(a1.xy, h.z);
+    vec3 p3 = vec3(a1.zw, h.w);
+    vec4 norm = taylorInvSqrt(vec4(dot(p0, p0), dot(p1, p1), dot(p2, p2), dot(p3, p3)));
+    p0 *= norm.x; p1 *= norm.y; p2 *= norm.z; p3 *= norm.w;
+    vec4 m = max(0.6 - vec4(dot(x0, x0), dot(x1, x1), dot(x2, x2), dot(x3, x3)), 0.0);
+    m = m * m;
+    return 42.0 * dot(m * m, vec4(dot(p0, x0), dot(p1, x1), dot(p2, x2), dot(p3, x3)));
+  }
+
+  vec3 snoiseVec3(vec3 p) {
+    return vec3(snoise(p), snoise(p + vec3(31.4, -17.2, 8.9)), snoise(p + vec3(-5.7, 43.1, 19.3)));
+  }
+
+  // Divergence-free flow: particles swirl without bunching up
+  vec3 curlNoise(vec3 p) {
+    const float e = 0.1;
+    vec3 dx = vec3(e, 0.0, 0.0);
+    vec3 dy = vec3(0.0, e, 0.0);
+    vec3 dz = vec3(0.0, 0.0, e);
+    vec3 px0 = snoiseVec3(p - dx); vec3 px1 = snoiseVec3(p + dx);
+    vec3 py0 = snoiseVec3(p - dy); vec3 py1 = snoiseVec3(p + dy);
+    vec3 pz0 = snoiseVec3(p - dz); vec3 pz1 = snoiseVec3(p + dz);
+    return vec3(
+      (py1.z - py0.z) - (pz1.y - pz0.y),
+      (pz1.x - pz0.x) - (px1.z - px0.z),
+      (px1.y - px0.y) - (py1.x - py0.x)
+    ) / (2.0 * e);
+  }
+`;
+
+const velocityShader = `
+  uniform float uTime;
+  uniform float uDelta;
+  uniform float uMix;
+  uniform float uFormMix;
+  uniform sampler2D uChaos;  // xyz: scattered anchor, w: per-particle random
+  uniform sampler2D uFrom;
+  uniform sampler2D uTarget;
+
+  ${noiseChunk}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    vec4 chaos = texture2D(uChaos, uv);
+
+    vec3 formed = mix(texture2D(uFrom, uv).xyz, texture2D(uTarget, uv).xyz, uFormMix);
+    vec3 goal = mix(chaos.xyz, formed, uMix);
+
+    // Spring: loose while scattered so the drift shows, tight once formed; slightly underdamped
+    float stiffness = mix(1.2, 12.0, uMix) * (0.75 + 0.5 * chaos.w);
+    float damping = 1.4 * sqrt(stiffness);
+    vec3 accel = (goal - pos) * stiffness - vel * damping;
+
+    // Curl-noise drift, faint once formed
+    float drift = mix(10.0, 0.6, uMix);
+    accel += curlNoise(pos * 0.08 + vec3(0.0, uTime * 0.06, chaos.w * 10.0)) * drift;
+
+    gl_FragColor = vec4(vel + accel * uDelta, 1.0);
+  }
+`;
+
+const positionShader = `
+  uniform float uDelta;
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    gl_FragColor = vec4(pos + vel * uDelta, 1.0);
+  }
+`;
+
+const MAX_STEP = 1 / 30; // Longer frames (tab switches, hiccups) would overshoot the springs
+
+const createDataTexture = (size: number) => {
+    const texture = new THREE.DataTexture(new Float32Array(size * size * 4), size, size, THREE.RGBAFormat, THREE.FloatType);
+    texture.needsUpdate = true;
+    return texture;
+};
+
+// Copies xyz triplets (and an optional w per particle) into an RGBA float texture
+const writeTexture = (texture: THREE.DataTexture, xyz: Float32Array, w?: Float32Array) => {
+    const data = texture.image.data as Float32Array;
+    const count = xyz.length / 3;
+    for (let i = 0; i < count; i++) {
+        data[i * 4] = xyz[i * 3];
+        data[i * 4 + 1] = xyz[i * 3 + 1];
+        data[i * 4 + 2] = xyz[i * 3 + 2];
+        data[i * 4 + 3] = w ? w[i] : 1;
+    }
+    texture.needsUpdate = true;
+};
+
+/**
+ * Builds the simulation for one particle set, starting formed on `target`.
+ * Returns null (after a warning) when the device can't render to float textures.
+ */
+export const createFoliageSimulation = (
+    gl: THREE.WebGLRenderer,
+    data: { target: Float32Array; chaos: Float32Array; randoms: Float32Array }
+): FoliageSimulation | null => {
+    const count = data.target.length / 3;
+    const size = Math.ceil(Math.sqrt(count));
+
+    if (gl.capabilities.isWebGL2 && !gl.extensions.has('EXT_color_buffer_float')) {
+        console.warn('Float render targets not supported, foliage uses the CPU fallback');
+        return null;
+    }
+
+    const compute = new GPUComputationRenderer(size, size, gl);
+    // WebGL1 devices (older iOS) can sample float textures but only render to half floats
+    if (!gl.capabilities.isWebGL2) compute.setDataType(THREE.HalfFloatType);
+
+    const initialPosition = compute.createTexture();
+    writeTexture(initialPosition, data.target);
+    const positionVar: Variable = compute.addVariable('texturePosition', positionShader, initialPosition);
+    const velocityVar: Variable = compute.addVariable('textureVelocity', velocityShader, compute.createTexture());
+    compute.setVariableDependencies(positionVar, [positionVar, velocityVar]);
+    compute.setVariableDependencies(velocityVar, [positionVar, velocityVar]);
+
+    const chaos = createDataTexture(size);
+    writeTexture(chaos, data.chaos, data.randoms);
+    const from = createDataTexture(size);
+    const to = createDataTexture(size);
+    writeTexture(from, data.target);
+    writeTexture(to, data.target);
+
+    const velocityUniforms = velocityVar.material.uniforms;
+    Object.assign(velocityUniforms, {
+        uTime: { value: 0 },
+        uDelta: { value: 0 },
+        uMix: { value: 1 },
+        uFormMix: { value: 1 },
+        uChaos: { value: chaos },
+        uFrom: { value: from },
+        uTarget: { value: to },
+    });
+    positionVar.material.uniforms.uDelta = { value: 0 };
+
+    const error = compute.init();
+    if (error !== null) {
+        console.warn('GPU particle simulation unavailable, foliage uses the CPU fallback:', error);
+        compute.dispose();
+        [chaos, from, to].forEach(texture => texture.dispose());
+        return null;
+    }
+
+    const uvs = new Float32Array(count * 2);
+    for (let i = 0; i < count; i++) {
+        uvs[i * 2] = (i % size + 0.5) / size;
+        uvs[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+    }
+
+    return {
+        uvs,
+        setTargets: (fromXyz, toXyz) => {
+            writeTexture(from, fromXyz);
+            writeTexture(to, toXyz);
+        },
+        step: (delta, time, mix, formMix) => {
+            const dt = Math.min(delta, MAX_STEP);
+            velocityUniforms.uTime.value = time;
+            velocityUniforms.uDelta.value = dt;
+            velocityUniforms.uMix.value = mix;
+            velocityUniforms.uFormMix.value = formMix;
+            positionVar.material.uniforms.uDelta.value = dt;
+            compute.compute();
+        },
+        getPositions: () => compute.getCurrentRenderTarget(positionVar).texture,
+        dispose: () => {
+            compute.dispose();
+            [chaos, from, to].forEach(texture => texture.dispose());
+        },
+    };
+};
@@ -0,0 +1,252 @@
+import * as THREE from 'three';
+import { FormationId } from '../types';
+import { lerp } from './math';
+import { t, hasMessage } from './i18n';
+
+// Formation registry.
+// A formation is a named layout the particles assemble into. Every layer (foliage, lights, ornaments,
+// photos) asks the active formation for the target of each of its particles and morphs from where it
+// currently is, so switching formations never passes through the scattered state.
+// TREE has no targets of its own: each layer keeps the layout it builds from the tree shape.
+
+export type FormationLayer = 'FOLIAGE' | 'LIGHTS' | 'ORNAMENTS' | 'PHOTOS';
+
+export interface FormationContext {
+    layer: FormationLayer;
+    phase: number; // 0-1, offsets ornament types that share a layer so they don't land on each other
+}
+
+export interface Formation {
+    label: string;
+    // Target of particle i of count; null keeps the layer's own tree layout
+    target: ((i: number, count: number, ctx: FormationContext, out: THREE.Vector3) => THREE.Vector3) | null;
+    // Particle colors (used by foliage); without it foliage keeps the theme gradient
+    color?: (i: number, count: number, ctx: FormationContext, out: THREE.Color) => THREE.Color;
+    star: [number, number, number] | null; // Where the top star sits; null keeps it on the tree top
+    frontFacing: boolean; // Meant to be seen from the front: the scene stops spinning and photos face the viewer
+}
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// --- Galaxy: a three-armed spiral disc, tilted back so it reads from the front ---
+const GALAXY_RADIUS = 13;
+const GALAXY_ARMS = 3;
+const GALAXY_TWIST = 0.35; // Radians of arm curl per unit of radius
+const GALAXY_TILT = 0.45;
+
+const galaxyPoint = (radius: number, angle: number, depth: number, out: THREE.Vector3) => {
+    const y = radius * Math.sin(angle);
+    return out.set(
+        radius * Math.cos(angle),
+        y * Math.cos(GALAXY_TILT) - depth * Math.sin(GALAXY_TILT),
+        -y * Math.sin(GALAXY_TILT) + depth * Math.cos(GALAXY_TILT)
+    );
+};
+
+const galaxyTarget = (i: number, count: number, ctx: FormationContext, out: THREE.Vector3) => {
+    const arm = i % GALAXY_ARMS;
+    const armAngle = arm * Math.PI * 2 / GALAXY_ARMS + ctx.phase * Math.PI * 2;
+
+    switch (ctx.layer) {
+        case 'LIGHTS': {
+            // Strung evenly along the arms
+            const radius = 1 + (GALAXY_RADIUS - 1) * (Math.floor(i / GALAXY_ARMS) / Math.ceil(count / GALAXY_ARMS));
+            return galaxyPoint(radius, armAngle + radius * GALAXY_TWIST, 0, out);
+        }
+        case 'PHOTOS': {
+            const angle = (i / count) * Math.PI * 2 + ctx.phase * Math.PI * 2;
+            return galaxyPoint(GALAXY_RADIUS * 0.8, angle, 1.5, out);
+        }
+        default: {
+            // A bright core plus arms that fan out and thin towards the rim
+            if (ctx.layer === 'FOLIAGE' && Math.random() < 0.15) {
+                return out.set(0, 0, 0).addScaledVector(new THREE.Vector3().randomDirection(), Math.random() * 2.2);
+            }
+            const radius = 0.8 + (GALAXY_RADIUS - 0.8) * Math.pow(Math.random(), 0.8);
+            const rim = radius / GALAXY_RADIUS;
+            const spread = (Math.random() - 0.5) * (0.4 + 0.6 * rim);
+            const depth = (Math.random() - 0.5) * 1.6 * (1 - rim);
+            return galaxyPoint(radius, armAngle + radius * GALAXY_TWIST + spread, depth, out);
+        }
+    }
+};
+
+// --- Heart: the classic parametric heart, filled with foliage and outlined by lights ---
+const HEART_SCALE = 0.55;
+const HEART_OFFSET_Y = 3.3; // Centers the curve (it spans -17..5 before scaling)
+
+const heartPoint = (t: number, fill: number, depth: number, out: THREE.Vector3) => {
+    const x = 16 * Math.pow(Math.sin(t), 3);
+    const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    return out.set(x * fill * HEART_SCALE, y * fill * HEART_SCALE + HEART_OFFSET_Y, depth);
+};
+
+const heartTarget = (i: number, count: number, ctx: FormationContext, out: THREE.Vector3) => {
+    const along = ((i + 0.5) / count + ctx.phase) * Math.PI * 2;
+    switch (ctx.layer) {
+        case 'LIGHTS':
+            return heartPoint(along, 1, 0.3, out);
+        case 'PHOTOS':
+            return heartPoint(along, 0.55, 1.2, out);
+        case 'ORNAMENTS':
+            return heartPoint(along, 0.8 + Math.random() * 0.2, (Math.random() - 0.5) * 1.5, out);
+        default: {
+            // Filled evenly (sqrt) and puffed out towards the middle
+            const fill = Math.sqrt(Math.random());
+            return heartPoint(Math.random() * Math.PI * 2, fill, (Math.random() - 0.5) * (0.6 + 3 * (1 - fill * fill)), out);
+        }
+    }
+};
+
+// --- Photo wall: polaroids on a grid in front of a glowing backdrop framed by lights ---
+const WALL_WIDTH = 24;
+const WALL_HEIGHT = 16;
+const WALL_CELL = { width: 3.6, height: 4.4 };
+
+// Point at fraction u (0-1) around the wall's border
+const wallBorder = (u: number, inset: number, out: THREE.Vector3) => {
+    const w = WALL_WIDTH / 2 - inset;
+    const h = WALL_HEIGHT / 2 - inset;
+    const d = ((u % 1) + 1) % 1 * (4 * w + 4 * h);
+    if (d < 2 * w) return out.set(-w + d, h, 0);
+    if (d < 2 * w + 2 * h) return out.set(w, h - (d - 2 * w), 0);
+    if (d < 4 * w + 2 * h) return out.set(w - (d - 2 * w - 2 * h), -h, 0);
+    return out.set(-w, -h + (d - 4 * w - 2 * h), 0);
+};
+
+const photoWallTarget = (i: number, count: number, ctx: FormationContext, out: THREE.Vector3) => {
+    switch (ctx.layer) {
+        case 'PHOTOS': {
+            const cols = Math.ceil(Math.sqrt(count * 1.5));
+            const rows = Math.ceil(count / cols);
+            const row = Math.floor(i / cols);
+            // Center the last, possibly shorter, row
+            const rowLength = Math.min(cols, count - row * cols);
+            const col = i % cols;
+            return out.set(
+                (col - (rowLength - 1) / 2) * WALL_CELL.width,
+                ((rows - 1) / 2 - row) * WALL_CELL.height,
+                1.5
+            );
+        }
+        case 'LIGHTS':
+            return wallBorder(i / count, 0, out).setZ(-0.5);
+        case 'ORNAMENTS':
+            return wallBorder(i / count + ctx.phase, Math.random() * 1.5, out).setZ(0.3 + Math.random() * 0.6);
+        default:
+            return out.set(
+                (Math.random() - 0.5) * WALL_WIDTH,
+                (Math.random() - 0.5) * WALL_HEIGHT,
+                -1.5 + (Math.random() - 0.5) * 0.8
+            );
+    }
+};
+
+// --- Sphere: a glittering globe, ornaments spread evenly over its surface ---
+const SPHERE_RADIUS = 9;
+
+const fibonacciPoint = (i: number, count: number, radius: number, angleOffset: number, out: THREE.Vector3) => {
+    const y = 1 - 2 * (i + 0.5) / count;
+    const ring = Math.sqrt(1 - y * y);
+    const angle = i * GOLDEN_ANGLE + angleOffset;
+    return out.set(ring * Math.cos(angle), y, ring * Math.sin(angle)).multiplyScalar(radius);
+};
+
+const sphereTarget = (i: number, count: number, ctx: FormationContext, out: THREE.Vector3) => {
+    const offset = ctx.phase * Math.PI * 2;
+    switch (ctx.layer) {
+        case 'LIGHTS':
+            return fibonacciPoint(i, count, SPHERE_RADIUS + 0.3, offset, out);
+        case 'PHOTOS':
+            return fibonacciPoint(i, count, SPHERE_RADIUS + 1.5, offset, out);
+        case 'ORNAMENTS':
+            return fibonacciPoint(i, count, SPHERE_RADIUS + 0.5, offset, out);
+        default:
+            return out.randomDirection().multiplyScalar(SPHERE_RADIUS - Math.pow(Math.random(), 3) * 1.5);
+    }
+};
+
+const FORMATIONS: Record<FormationId, Formation> = {
+    TREE: { label: 'Tree', target: null, star: null, frontFacing: false },
+    GALAXY: { label: 'Galaxy', target: galaxyTarget, star: [0, 0, 0], frontFacing: true },
+    HEART: { label: 'Heart', target: heartTarget, star: [0, 0.6, 1.5], frontFacing: true },
+    PHOTO_WALL: { label: 'Photo Wall', target: photoWallTarget, star: [0, WALL_HEIGHT / 2 + 1.5, 0], frontFacing: true },
+    SPHERE: { label: 'Sphere', target: sphereTarget, star: [0, SPHERE_RADIUS + 1.2, 0], frontFacing: false },
+};
+
+export const DEFAULT_FORMATION: FormationId = 'TREE';
+
+export const registerFormation = (id: FormationId, formation: Formation) => {
+    FORMATIONS[id] = formation;
+};
+
+export const unregisterFormation = (id: FormationId) => {
+    if (id !== DEFAULT_FORMATION) delete FORMATIONS[id];
+};
+
+/** Registered formations in selector/cycling order. */
+export const getFormationIds = (): FormationId[] => Object.keys(FORMATIONS);
+
+export const getFormation = (id: FormationId): Formation => {
+    const formation = FORMATIONS[id];
+    if (!formation) {
+        console.warn(`Unknown formation "${id}", using ${DEFAULT_FORMATION}`);
+        return FORMATIONS[DEFAULT_FORMATION];
+    }
+    return formation;
+};
+
+/** Display name in the current locale; registered formations (particle art) carry their own label. */
+export const getFormationLabel = (id: FormationId) => {
+    const key = `formation.${id}`;
+    return hasMessage(key) ? t(key) : getFormation(id).label;
+};
+
+export const isFormationId = (value: unknown): value is FormationId =>
+    typeof value === 'string' && value in FORMATIONS;
+
+export const getNextFormation = (id: FormationId): FormationId => {
+    const ids = getFormationIds();
+    return ids[(ids.indexOf(id) + 1) % ids.length];
+};
+
+/**
+ * Fills `out` with the formation's targets for a flat xyz layer, falling back to the layer's
+ * own tree layout (`treeTargets`) for TREE.
+ */
+export const fillFormationTargets = (id: FormationId, ctx: FormationContext, treeTargets: Float32Array, out: Float32Array) => {
+    const { target } = getFormation(id);
+    if (!target) {
+        out.set(treeTargets);
+        return;
+    }
+    const count = treeTargets.length / 3;
+    const point = new THREE.Vector3();
+    for (let i = 0; i < count; i++) {
+        target(i, count, ctx, point).toArray(out, i * 3);
+    }
+};
+
+/**
+ * Fills `out` (rgba per particle) with the formation's colors. Alpha is how much a color replaces
+ * the theme gradient: 0 everywhere when the formation has no colors of its own.
+ */
+export const fillFormationColors = (id: FormationId, ctx: FormationContext, count: number, out: Float32Array) => {
+    const { color } = getFormation(id);
+    if (!color) {
+        out.fill(0);
+        return;
+    }
+    const rgb = new THREE.Color();
+    for (let i = 0; i < count; i++) {
+        color(i, count, ctx, rgb).toArray(out, i * 4);
+        out[i * 4 + 3] = 1;
+    }
+};
+
+/** Freezes a half-finished morph: `from` becomes the current blend, so the next morph starts where the particles are. */
+export const captureFormationBlend = (from: Float32Array, to: Float32Array, progress: number) => {
+    for (let i = 0; i < from.length; i++) {
+        from[i] = lerp(from[i], to[i], progress);
+    }
+};
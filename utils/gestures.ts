@@ -0,0 +1,153 @@
+import { GestureType, HandLandmarks, Handedness } from '../types';
+
+// Gesture classification from the 21 handpose landmarks.
+// Landmark layout: 0 = wrist, then 4 joints per finger from base to tip:
+// thumb 1-4, index 5-8, middle 9-12, ring 13-16, pinky 17-20.
+
+const FINGERS = {
+    index: { base: 5, pip: 6, tip: 8 },
+    middle: { base: 9, pip: 10, tip: 12 },
+    ring: { base: 13, pip: 14, tip: 16 },
+    pinky: { base: 17, pip: 18, tip: 20 },
+};
+
+const THUMB_TIP = 4;
+const THUMB_IP = 3;
+const WRIST = 0;
+
+// Thumb-index tip distance (relative to palm size) below which we call it a pinch
+const PINCH_THRESHOLD = 0.35;
+
+const dist2D = (a: number[], b: number[]) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+// Palm size: wrist to middle finger base. Used to make every measure scale-invariant.
+export const getPalmSize = (landmarks: HandLandmarks) => dist2D(landmarks[WRIST], landmarks[FINGERS.middle.base]) || 1;
+
+// A finger is extended when its tip is clearly farther from the wrist than its middle joint
+const isFingerExtended = (landmarks: HandLandmarks, finger: { pip: number; tip: number }) => {
+    const wrist = landmarks[WRIST];
+    return dist2D(wrist, landmarks[finger.tip]) > dist2D(wrist, landmarks[finger.pip]) * 1.15;
+};
+
+// Curled: the tip has folded back inside the middle joint (a relaxed, half-bent finger is neither)
+const isFingerCurled = (landmarks: HandLandmarks, finger: { pip: number; tip: number }) => {
+    const wrist = landmarks[WRIST];
+    return dist2D(wrist, landmarks[finger.tip]) < dist2D(wrist, landmarks[finger.pip]);
+};
+
+// The thumb folds sideways, so compare its tip against the index base instead of the wrist
+const isThumbExtended = (landmarks: HandLandmarks, palmSize: number) => {
+    return dist2D(landmarks[THUMB_TIP], landmarks[FINGERS.index.base]) > palmSize * 0.7
+        && dist2D(landmarks[THUMB_TIP], landmarks[WRIST]) > dist2D(landmarks[THUMB_IP], landmarks[WRIST]);
+};
+
+export interface HandShape {
+    gesture: GestureType;
+    pinchDistance: number; // Thumb-index tip distance / palm size (0 = touching)
+}
+
+/**
+ * Classifies a static hand pose. Returns 'NONE' when nothing specific matches,
+ * leaving open/closed to the caller's own (hysteresis-based) tracking.
+ */
+export const classifyHandShape = (landmarks: HandLandmarks): HandShape => {
+    const palmSize = getPalmSize(landmarks);
+    const pinchDistance = dist2D(landmarks[THUMB_TIP], landmarks[FINGERS.index.tip]) / palmSize;
+
+    const index = isFingerExtended(landmarks, FINGERS.index);
+    const middle = isFingerExtended(landmarks, FINGERS.middle);
+    const ring = isFingerExtended(landmarks, FINGERS.ring);
+    const pinky = isFingerExtended(landmarks, FINGERS.pinky);
+    const thumb = isThumbExtended(landmarks, palmSize);
+
+    // In a fist the thumb lies across the curled index, close enough to read as a pinch,
+    // so a pinch also needs the other three fingers out of the palm
+    const othersUncurled = !isFingerCurled(landmarks, FINGERS.middle)
+        && !isFingerCurled(landmarks, FINGERS.ring)
+        && !isFingerCurled(landmarks, FINGERS.pinky);
+
+    let gesture: GestureType = 'NONE';
+
+    if (thumb && !index && !middle && !ring && !pinky && landmarks[THUMB_TIP][1] < landmarks[FINGERS.index.base][1]) {
+        // Image y grows downwards: thumb tip above the knuckles
+        gesture = 'THUMBS_UP';
+    } else if (!index && !middle && !ring && !pinky) {
+        gesture = 'FIST';
+    } else if (pinchDistance < PINCH_THRESHOLD && othersUncurled) {
+        gesture = 'PINCH';
+    } else if (index && middle && !ring && !pinky) {
+        gesture = 'VICTORY';
+    } else if (index && !middle && !ring && !pinky) {
+        gesture = 'POINT';
+    } else if (index && middle && ring && pinky) {
+        gesture = 'OPEN';
+    }
+
+    return { gesture, pinchDistance };
+};
+
+/**
+ * Maps a point normalized to the camera frame (-1 to 1, as in HandGesture) to NDC of the scene canvas.
+ * The frame is treated as covering the canvas (like object-cover): scaled to fill it, overflow cropped,
+ * so a fingertip lands on what is under it on screen whatever the two aspect ratios.
+ */
+export const frameToCanvasNdc = (point: { x: number; y: number }, frameAspect: number, canvasAspect: number) => ({
+    x: point.x * Math.max(1, frameAspect / canvasAspect),
+    y: point.y * Math.max(1, canvasAspect / frameAspect),
+});
+
+/**
+ * Hand depth from apparent palm size relative to the video width.
+ * Roughly 0 (far away) to 1 (very close to the camera).
+ */
+export const estimateHandDepth = (landmarks: HandLandmarks, videoWidth: number) => {
+    const palmRatio = getPalmSize(landmarks) / (videoWidth || 1);
+    // A palm filling ~5% of the frame is far, ~30% is right at the lens
+    return Math.min(Math.max((palmRatio - 0.05) / 0.25, 0), 1);
+};
+
+/**
+ * Which hand this is, from the winding of wrist -> index base -> pinky base in the raw
+ * (unmirrored) camera image. Assumes the palm faces the camera, as it does for gesture control.
+ */
+export const estimateHandedness = (landmarks: HandLandmarks): Handedness => {
+    const wrist = landmarks[WRIST];
+    const index = landmarks[FINGERS.index.base];
+    const pinky = landmarks[FINGERS.pinky.base];
+    const cross = (index[0] - wrist[0]) * (pinky[1] - wrist[1]) - (index[1] - wrist[1]) * (pinky[0] - wrist[0]);
+    return cross < 0 ? 'Right' : 'Left';
+};
+
+// --- Swipe Detection ---
+
+export interface SwipeTracker {
+    samples: { x: number; time: number }[];
+    lastSwipeTime: number;
+}
+
+export const createSwipeTracker = (): SwipeTracker => ({ samples: [], lastSwipeTime: 0 });
+
+const SWIPE_WINDOW_MS = 250;
+const SWIPE_SPEED = 3.0; // Normalized screen widths (-1..1 space) per second
+const SWIPE_COOLDOWN_MS = 700;
+
+/** Feeds a wrist x position (normalized -1 to 1, mirrored) and returns a swipe when the hand moved fast enough. */
+export const detectSwipe = (tracker: SwipeTracker, x: number, time: number): 'SWIPE_LEFT' | 'SWIPE_RIGHT' | null => {
+    tracker.samples.push({ x, time });
+    while (tracker.samples.length > 0 && time - tracker.samples[0].time > SWIPE_WINDOW_MS) {
+        tracker.samples.shift();
+    }
+
+    if (tracker.samples.length < 2 || time - tracker.lastSwipeTime < SWIPE_COOLDOWN_MS) return null;
+
+    const first = tracker.samples[0];
+    const elapsed = (time - first.time) / 1000;
+    if (elapsed <= 0) return null;
+
+    const velocity = (x - first.x) / elapsed;
+    if (Math.abs(velocity) < SWIPE_SPEED) return null;
+
+    tracker.lastSwipeTime = time;
+    tracker.samples = [];
+    return velocity > 0 ? 'SWIPE_RIGHT' : 'SWIPE_LEFT';
+};
@@ -0,0 +1,59 @@
+// IndexedDB-backed store for what the gift boxes hold.
+// One row per box that was ever edited or opened: its photo, opened state and, once written here, its message,
+// so the gifts (and which ones were unwrapped) survive a reload. A message that only came with a share link is
+// not stored, so the next link's message shows. Like photoStore, every call fails soft and only logs.
+
+import { GIFT_STORE, runTransaction, getAvailableBytes } from './localDb';
+
+// Our own budget for stored gift photos, on top of whatever the browser grants us
+export const MAX_GIFT_STORE_BYTES = 20 * 1024 * 1024;
+
+export interface StoredGift {
+    index: number; // Box index on the tree
+    message: string; // Only meaningful when edited
+    edited?: boolean; // The message was written on this device (missing on rows from older versions)
+    photo: Blob | null;
+    opened: boolean;
+}
+
+const EMPTY_GIFT: Omit<StoredGift, 'index'> = { message: '', edited: false, photo: null, opened: false };
+
+/** Returns the stored gifts (empty if nothing is stored or the store is unavailable). */
+export const loadGifts = async (): Promise<StoredGift[]> => {
+    try {
+        return (await runTransaction<StoredGift[]>(GIFT_STORE, 'readonly', store => store.getAll())) ?? [];
+    } catch (e) {
+        console.warn('Failed to load stored gifts:', e);
+        return [];
+    }
+};
+
+/**
+ * Updates one box, creating its row if needed. A photo that doesn't fit in the quota is dropped from
+ * the stored row (it still shows for this session); returns false in that case.
+ */
+export const saveGift = async (index: number, changes: Partial<Omit<StoredGift, 'index'>>): Promise<boolean> => {
+    try {
+        let fits = true;
+        if (changes.photo) {
+            const stored = await loadGifts();
+            const used = stored.reduce((sum, row) => sum + (row.index === index ? 0 : row.photo?.size ?? 0), 0);
+            if (changes.photo.size > await getAvailableBytes(MAX_GIFT_STORE_BYTES - used)) {
+                console.warn('Gift photo not stored: storage quota reached');
+                changes = { ...changes, photo: null };
+                fits = false;
+            }
+        }
+        await runTransaction(GIFT_STORE, 'readwrite', store => {
+            const request = store.get(index);
+            request.onsuccess = () => {
+                const row = (request.result as StoredGift | undefined) ?? { ...EMPTY_GIFT, index };
+                store.put({ ...row, ...changes });
+            };
+        });
+        return fits;
+    } catch (e) {
+        console.warn('Failed to store gift:', e);
+        return false;
+    }
+};
@@ -0,0 +1,87 @@
+import en from './locales/en';
+import zhCN from './locales/zh-CN';
+import id from './locales/id';
+import ar from './locales/ar';
+
+// UI text and default captions per locale. The active locale is module state (like the formation
+// and ornament registries): `t()` reads it during render, and App keeps a copy in state so that
+// switching re-renders everything.
+
+export type Locale = 'en' | 'zh-CN' | 'id' | 'ar';
+export type MessageKey = keyof typeof en.messages;
+
+export interface LocaleCatalog {
+    messages: Record<MessageKey, string>;
+    captions: string[]; // Default polaroid captions, repeated via modulo; each fits MAX_CAPTION_LENGTH
+}
+
+export const LOCALES: Record<Locale, { name: string; dir: 'ltr' | 'rtl'; catalog: LocaleCatalog }> = {
+    'zh-CN': { name: '简体中文', dir: 'ltr', catalog: zhCN },
+    en: { name: 'English', dir: 'ltr', catalog: en },
+    id: { name: 'Bahasa Indonesia', dir: 'ltr', catalog: id },
+    ar: { name: 'العربية', dir: 'rtl', catalog: ar },
+};
+
+export const LOCALE_IDS = Object.keys(LOCALES) as Locale[];
+
+const STORAGE_KEY = 'christmas-tree-locale';
+
+export const isLocale = (value: unknown): value is Locale =>
+    typeof value === 'string' && value in LOCALES;
+
+// Browser tags to ours: exact match first, then the language alone ('zh-TW' -> zh-CN, 'in' is the old code for Indonesian)
+const LANGUAGE_ALIASES: Record<string, Locale> = { zh: 'zh-CN', en: 'en', id: 'id', in: 'id', ar: 'ar' };
+
+const matchLocale = (tag: string): Locale | null => {
+    const exact = LOCALE_IDS.find(locale => locale.toLowerCase() === tag.toLowerCase());
+    return exact ?? LANGUAGE_ALIASES[tag.split('-')[0].toLowerCase()] ?? null;
+};
+
+/** The saved choice, else the first browser language we have, else English. */
+export const detectLocale = (): Locale => {
+    if (typeof window === 'undefined') return 'en';
+    try {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        if (isLocale(saved)) return saved;
+    } catch {
+        // Storage blocked (private mode): fall through to the browser languages
+    }
+    const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+    for (const tag of languages) {
+        const locale = tag && matchLocale(tag);
+        if (locale) return locale;
+    }
+    return 'en';
+};
+
+let currentLocale: Locale = detectLocale();
+
+export const getLocale = () => currentLocale;
+
+/** Sets `<html lang dir>` so the browser lays out (and screen readers speak) the active language. */
+export const applyLocaleToDocument = () => {
+    document.documentElement.lang = currentLocale;
+    document.documentElement.dir = LOCALES[currentLocale].dir;
+};
+
+/** Switches the language and remembers it. Callers re-render (App holds the locale in state). */
+export const setLocale = (locale: Locale) => {
+    currentLocale = locale;
+    try {
+        window.localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+        // Not remembered, still switched for this visit
+    }
+    applyLocaleToDocument();
+};
+
+export const hasMessage = (key: string): key is MessageKey => key in en.messages;
+
+/** The active locale's text for `key`, with `{name}` placeholders filled from `params`. */
+export const t = (key: MessageKey, params?: Record<string, string | number>) => {
+    const template = LOCALES[currentLocale].catalog.messages[key] ?? en.messages[key];
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+};
+
+export const getLocaleCaptions = (locale: Locale = currentLocale) => LOCALES[locale].catalog.captions;
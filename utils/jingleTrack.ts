@@ -0,0 +1,134 @@
+// Built-in track for the audio-reactive mode: the Jingle Bells chorus, synthesized in an
+// OfflineAudioContext (no audio file to ship) and encoded as a WAV so it plays, pauses and seeks
+// like a loaded file. Kick on every beat and sleigh bells on the off-beats give the analyser
+// something to find.
+
+const SAMPLE_RATE = 22050;
+const BPM = 132;
+const BEAT = 60 / BPM;
+
+// Melody as [note, beats]; notes in the octave above middle C
+const NOTES: Record<string, number> = { C: 523.25, D: 587.33, E: 659.25, F: 698.46, G: 783.99 };
+const JINGLE: [string, number][] = [['E', 1], ['E', 1], ['E', 2], ['E', 1], ['E', 1], ['E', 2], ['E', 1], ['G', 1], ['C', 1.5], ['D', 0.5], ['E', 4]];
+const MELODY: [string, number][] = [
+    ...JINGLE,
+    ['F', 1], ['F', 1], ['F', 1.5], ['F', 0.5], ['F', 1], ['E', 1], ['E', 1], ['E', 0.5], ['E', 0.5],
+    ['E', 1], ['D', 1], ['D', 1], ['E', 1], ['D', 2], ['G', 2],
+    ...JINGLE,
+    ['F', 1], ['F', 1], ['F', 1.5], ['F', 0.5], ['F', 1], ['E', 1], ['E', 1], ['E', 0.5], ['E', 0.5],
+    ['G', 1], ['G', 1], ['F', 1], ['D', 1], ['C', 4],
+];
+// Bass root per bar
+const BASS = [65.41, 65.41, 65.41, 65.41, 87.31, 65.41, 73.42, 98.0, 65.41, 65.41, 65.41, 65.41, 87.31, 65.41, 98.0, 65.41];
+
+const envelope = (gain: GainNode, start: number, peak: number, decay: number) => {
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(peak, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + decay);
+};
+
+const renderSong = (context: OfflineAudioContext) => {
+    const master = context.createGain();
+    master.gain.value = 0.6;
+    master.connect(context.destination);
+
+    const tone = (type: OscillatorType, frequency: number, start: number, peak: number, decay: number) => {
+        const osc = context.createOscillator();
+        const gain = context.createGain();
+        osc.type = type;
+        osc.frequency.value = frequency;
+        envelope(gain, start, peak, decay);
+        osc.connect(gain).connect(master);
+        osc.start(start);
+        osc.stop(start + decay);
+    };
+
+    // Melody: a soft lead plus a bell-like overtone
+    let time = 0;
+    MELODY.forEach(([note, beats]) => {
+        const length = beats * BEAT;
+        tone('triangle', NOTES[note], time, 0.35, Math.max(0.3, length * 0.95));
+        tone('sine', NOTES[note] * 2, time, 0.08, 0.4);
+        time += length;
+    });
+
+    // Bass and kick
+    BASS.forEach((root, bar) => {
+        for (let beat = 0; beat < 4; beat++) {
+            const start = (bar * 4 + beat) * BEAT;
+            tone('triangle', root, start, 0.4, BEAT * 0.9);
+
+            const kick = context.createOscillator();
+            const gain = context.createGain();
+            kick.frequency.setValueAtTime(150, start);
+            kick.frequency.exponentialRampToValueAtTime(45, start + 0.12);
+            envelope(gain, start, 0.8, 0.3);
+            kick.connect(gain).connect(master);
+            kick.start(start);
+            kick.stop(start + 0.3);
+        }
+    });
+
+    // Sleigh bells: high-passed noise on the off-beats
+    const noise = context.createBuffer(1, Math.round(SAMPLE_RATE * 0.1), SAMPLE_RATE);
+    const data = noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    for (let step = 0; step < BASS.length * 4; step++) {
+        const start = (step + 0.5) * BEAT;
+        const source = context.createBufferSource();
+        const filter = context.createBiquadFilter();
+        const gain = context.createGain();
+        source.buffer = noise;
+        filter.type = 'highpass';
+        filter.frequency.value = 6000;
+        envelope(gain, start, 0.25, 0.09);
+        source.connect(filter).connect(gain).connect(master);
+        source.start(start);
+    }
+};
+
+// 16-bit mono PCM
+const encodeWav = (samples: Float32Array, sampleRate: number) => {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // Mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    for (let i = 0; i < samples.length; i++) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+    }
+    return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export const JINGLE_TRACK_NAME = 'Jingle Bells (built-in)';
+
+let rendered: Promise<Blob> | null = null;
+
+/** Renders the built-in track once and caches it. */
+export const renderJingleTrack = (): Promise<Blob> => {
+    if (!rendered) {
+        const context = new OfflineAudioContext(1, Math.ceil(BASS.length * 4 * BEAT * SAMPLE_RATE), SAMPLE_RATE);
+        renderSong(context);
+        rendered = context.startRendering()
+            .then(buffer => encodeWav(buffer.getChannelData(0), SAMPLE_RATE))
+            .catch(e => {
+                rendered = null;
+                throw e;
+            });
+    }
+    return rendered;
+};
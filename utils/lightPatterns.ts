@@ -0,0 +1,197 @@
+import * as THREE from 'three';
+
+// Light-show patterns for the spiral lights.
+// A pattern shades one bulb at a time: it sets the bulb's color and returns its brightness (1 = the
+// classic warm glow, above that it blooms). Programs string patterns together on a looping timeline;
+// the player cross-fades between patterns and can interrupt the program with a one-shot pattern
+// (the fill from the bottom when the tree assembles).
+
+export type LightPatternId = 'WARM' | 'CHASE' | 'TWINKLE' | 'RAINBOW' | 'ALTERNATE' | 'CANDLE' | 'FILL';
+
+export interface LightPattern {
+    label: string;
+    // `along` is the bulb's place on the spiral (0 = bottom, 1 = top), `seed` a fixed 0-1 random per bulb,
+    // `time` the seconds since the pattern started
+    shade: (along: number, index: number, seed: number, time: number, out: THREE.Color) => number;
+    duration?: number; // One-shot patterns: seconds until they're done
+}
+
+const WARM_WHITE = new THREE.Color('#fffae0');
+const CANDLE_ORANGE = new THREE.Color('#ffb347');
+const RED = new THREE.Color('#ff2a2a');
+const GREEN = new THREE.Color('#22ff55');
+
+const FILL_SECONDS = 2.5;
+
+export const LIGHT_PATTERNS: Record<LightPatternId, LightPattern> = {
+    WARM: {
+        label: 'Steady Warm',
+        shade: (along, i, seed, time, out) => {
+            out.copy(WARM_WHITE);
+            return 1;
+        },
+    },
+    CHASE: {
+        label: 'Chase',
+        shade: (along, i, seed, time, out) => {
+            // Bright heads running up the spiral, each with a fading tail
+            const phase = ((along * 12 - time * 1.2) % 1 + 1) % 1;
+            out.copy(WARM_WHITE);
+            return 0.15 + Math.pow(phase, 6) * 1.6;
+        },
+    },
+    TWINKLE: {
+        label: 'Twinkle',
+        shade: (along, i, seed, time, out) => {
+            // Each bulb glints at its own rate
+            const glint = Math.max(0, Math.sin(time * (1.5 + seed * 3) + seed * 40));
+            out.copy(WARM_WHITE);
+            return 0.3 + Math.pow(glint, 8) * 1.5;
+        },
+    },
+    RAINBOW: {
+        label: 'Rainbow Wave',
+        shade: (along, i, seed, time, out) => {
+            out.setHSL(((along * 3 - time * 0.25) % 1 + 1) % 1, 1, 0.55);
+            return 1.3;
+        },
+    },
+    ALTERNATE: {
+        label: 'Red & Green',
+        shade: (along, i, seed, time, out) => {
+            // Neighbours alternate, and the two sets swap colors on a steady beat
+            const swap = Math.floor(time / 0.8);
+            out.copy((i + swap) % 2 === 0 ? RED : GREEN);
+            return 1.3;
+        },
+    },
+    CANDLE: {
+        label: 'Candle Flicker',
+        shade: (along, i, seed, time, out) => {
+            // Uneven sines per bulb read as a flame rather than a pulse
+            const flicker = Math.sin(time * 7.3 + seed * 50) * 0.2
+                + Math.sin(time * 13.1 + seed * 80) * 0.15
+                + Math.sin(time * 23.7 + seed * 20) * 0.1;
+            out.copy(CANDLE_ORANGE);
+            return 0.75 + flicker;
+        },
+    },
+    FILL: {
+        label: 'Fill From Bottom',
+        duration: FILL_SECONDS + 1,
+        shade: (along, i, seed, time, out) => {
+            // A rising front with a bright, soft edge
+            const front = time / FILL_SECONDS;
+            const lit = THREE.MathUtils.smoothstep(front - along, -0.02, 0.05);
+            const edge = Math.exp(-Math.pow((front - along) * 20, 2));
+            out.copy(WARM_WHITE);
+            return 0.05 + lit * 0.95 + edge * 1.2;
+        },
+    },
+};
+
+// --- Programs: patterns on a looping timeline ---
+
+export interface LightCue {
+    pattern: LightPatternId;
+    duration: number; // Seconds
+}
+
+export const LIGHT_PROGRAMS: Record<string, { label: string; cues: LightCue[] }> = {
+    SHOW: {
+        label: 'Light Show (All)',
+        cues: [
+            { pattern: 'WARM', duration: 8 },
+            { pattern: 'CHASE', duration: 8 },
+            { pattern: 'TWINKLE', duration: 10 },
+            { pattern: 'RAINBOW', duration: 10 },
+            { pattern: 'ALTERNATE', duration: 8 },
+            { pattern: 'CANDLE', duration: 10 },
+        ],
+    },
+    FESTIVE: {
+        label: 'Festive',
+        cues: [
+            { pattern: 'ALTERNATE', duration: 6 },
+            { pattern: 'CHASE', duration: 4 },
+            { pattern: 'RAINBOW', duration: 6 },
+        ],
+    },
+    // Every looping pattern on its own
+    ...Object.fromEntries(
+        (Object.keys(LIGHT_PATTERNS) as LightPatternId[])
+            .filter(id => !LIGHT_PATTERNS[id].duration)
+            .map(id => [id, { label: LIGHT_PATTERNS[id].label, cues: [{ pattern: id, duration: Infinity }] }])
+    ),
+};
+
+export const DEFAULT_LIGHT_PROGRAM = 'WARM';
+
+export const isLightProgramId = (value: unknown): value is string =>
+    typeof value === 'string' && value in LIGHT_PROGRAMS;
+
+const TRANSITION_SECONDS = 1.2;
+
+const cueAt = (cues: LightCue[], time: number): LightPatternId => {
+    const total = cues.reduce((sum, cue) => sum + cue.duration, 0);
+    let t = Number.isFinite(total) ? time % total : time;
+    for (const cue of cues) {
+        if (t < cue.duration) return cue.pattern;
+        t -= cue.duration;
+    }
+    return cues[cues.length - 1].pattern;
+};
+
+export interface LightShow {
+    update: (program: string, now: number, delta: number) => void;
+    trigger: (pattern: LightPatternId, now: number) => void; // One-shot, then back to the program
+    shade: (index: number, count: number, seed: number, out: THREE.Color) => THREE.Color; // Color times brightness
+}
+
+export const createLightShow = (): LightShow => {
+    let current = { pattern: 'WARM' as LightPatternId, start: 0 };
+    let previous: typeof current | null = null;
+    let blend = 1; // 0 -> 1 over a transition from `previous` to `current`
+    let oneShot: { pattern: LightPatternId; until: number } | null = null;
+    let program: string | null = null;
+    let programStart = 0;
+    let time = 0;
+    const scratch = new THREE.Color();
+
+    const play = (pattern: LightPatternId, now: number) => {
+        previous = current;
+        current = { pattern, start: now };
+        blend = 0;
+    };
+
+    return {
+        update: (id, now, delta) => {
+            time = now;
+            if (id !== program) {
+                program = id;
+                programStart = now;
+            }
+            if (oneShot && now >= oneShot.until) oneShot = null;
+
+            const cues = (LIGHT_PROGRAMS[id] ?? LIGHT_PROGRAMS[DEFAULT_LIGHT_PROGRAM]).cues;
+            const pattern = oneShot ? oneShot.pattern : cueAt(cues, now - programStart);
+            if (pattern !== current.pattern) play(pattern, now);
+            blend = Math.min(1, blend + delta / TRANSITION_SECONDS);
+        },
+        trigger: (pattern, now) => {
+            oneShot = { pattern, until: now + (LIGHT_PATTERNS[pattern].duration ?? 0) };
+            play(pattern, now);
+            blend = 1; // Cut straight in: a one-shot starts on cue
+        },
+        shade: (index, count, seed, out) => {
+            const along = index / count;
+            const brightness = LIGHT_PATTERNS[current.pattern].shade(along, index, seed, time - current.start, out);
+            out.multiplyScalar(brightness);
+            if (previous && blend < 1) {
+                const before = LIGHT_PATTERNS[previous.pattern].shade(along, index, seed, time - previous.start, scratch);
+                out.lerp(scratch.multiplyScalar(before), 1 - blend);
+            }
+            return out;
+        },
+    };
+};
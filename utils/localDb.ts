@@ -0,0 +1,80 @@
+// Shared IndexedDB database for everything the app keeps on the device
+// (uploaded photos, imported ornament models, gift contents). The stores themselves live in
+// photoStore.ts / modelStore.ts / giftStore.ts; this module only opens the database and runs transactions.
+
+const DB_NAME = 'treeforyou';
+const DB_VERSION = 3; // 2: added the models store, 3: the gifts store
+
+export const PHOTO_STORE = 'photos';
+export const MODEL_STORE = 'models';
+export const GIFT_STORE = 'gifts';
+
+// Object stores and their key paths
+const STORES: Record<string, string> = {
+    [PHOTO_STORE]: 'order',
+    [MODEL_STORE]: 'id',
+    [GIFT_STORE]: 'index',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB not available'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            Object.entries(STORES).forEach(([name, keyPath]) => {
+                if (!db.objectStoreNames.contains(name)) {
+                    db.createObjectStore(name, { keyPath });
+                }
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).catch((err) => {
+        // Allow a retry on the next call
+        dbPromise = null;
+        throw err;
+    });
+
+    return dbPromise;
+};
+
+export const runTransaction = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+    const db = await openDb();
+    return new Promise<T | undefined>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request ? request.result : undefined);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// How many bytes we may write, taking both the caller's budget and the browser quota into account.
+// `freed` is what the write itself deletes first: still counted in the browser's usage, but not after.
+export const getAvailableBytes = async (budget: number, freed = 0) => {
+    let available = budget;
+    try {
+        if (navigator.storage?.estimate) {
+            const { quota, usage } = await navigator.storage.estimate();
+            if (quota !== undefined && usage !== undefined) {
+                // Keep some headroom for the rest of the origin (model cache etc.)
+                available = Math.min(available, (quota - Math.max(0, usage - freed)) * 0.8);
+            }
+        }
+    } catch (e) {
+        // Estimate not supported - fall back to our own budget
+    }
+    return Math.max(0, available);
+};
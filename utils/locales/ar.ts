@@ -0,0 +1,249 @@
+import type { LocaleCatalog } from '../i18n';
+
+const ar: LocaleCatalog = {
+    messages: {
+        'common.close': 'إغلاق',
+
+        'title.default': 'ميلاد مجيد',
+        'app.loading': 'جارٍ تزيين الشجرة...',
+        'app.sceneLabel': 'شجرة عيد الميلاد. مفاتيح الأسهم تديرها، وزائد وناقص للتكبير والتصغير، والمسافة تجمعها أو تنثرها، وTab يتنقل بين الصور.',
+
+        'toolbar.hideCamera': 'إخفاء الكاميرا',
+        'toolbar.showCamera': 'إظهار الكاميرا',
+        'toolbar.upload': 'رفع الصور',
+        'toolbar.clearPhotos': 'مسح صوري',
+        'toolbar.share': 'نسخ الرابط',
+        'toolbar.record': 'تسجيل مقطع',
+        'toolbar.theme': 'المظهر',
+        'toolbar.formation': 'التشكيل',
+        'toolbar.models': 'زينة مخصصة',
+        'toolbar.music': 'الموسيقى',
+        'toolbar.remote': 'التحكم بالهاتف',
+        'toolbar.language': 'اللغة',
+        'toolbar.card': 'اصنع بطاقة',
+        'toolbar.countdown': 'العد التنازلي',
+        'toolbar.disperse': 'نثر',
+        'toolbar.assemble': 'تجميع',
+
+        'photos.confirmClear': 'مسح صوري؟',
+        'photos.nav': 'الصور على الشجرة',
+        'photos.navLabel': 'الصورة {n} من {total}',
+        'photos.navLabelCaption': 'الصورة {n} من {total}: {caption}',
+        'photos.navHint': 'الصورة {n} / {total} · Enter للفتح',
+        'photo.dialog': 'الصورة {n}',
+        'photo.dialogUnknown': 'صورة',
+        'photo.alt': 'ذكرى',
+        'photo.note': 'هناك شيء طالما أردت أن أقوله لك~',
+        'photo.signPlaceholder': 'وقّع هنا...',
+        'photo.signDone': 'تم',
+
+        'announce.celebration': 'احتفال! الألعاب النارية تنطلق حول الشجرة.',
+        'announce.assembled': 'تم تجميع الشجرة',
+        'announce.scattered': 'تم نثر الشجرة',
+        'announce.theme': 'المظهر: {name}',
+        'announce.formation': 'التشكيل: {name}',
+        'announce.giftOpened': 'تم فتح الهدية {n}',
+        'announce.photoOpened': 'تم فتح الصورة {n}',
+        'announce.language': 'اللغة: {name}',
+        'announce.cardReady': 'البطاقة جاهزة للتنزيل',
+
+        'error.chooseImage': 'يرجى اختيار ملف صورة.',
+        'error.giftPhotoNotKept': 'الصورة معروضة الآن، لكن لا توجد مساحة للاحتفاظ بها بعد إعادة التحميل.',
+        'error.nothingToDraw': 'لا يوجد ما يُرسم لهذا النص',
+        'error.imageUnreadable': 'تعذّرت قراءة الصورة',
+        'error.nothingToTrace': 'لا يوجد ما يُتتبّع في هذه الصورة، جرّب وضعًا آخر',
+        'error.audioAnalysis': 'هذا المتصفح لا يدعم تحليل الصوت، ستُشغَّل الموسيقى بدون عرض الأضواء.',
+        'error.audioPlay': 'تعذّر تشغيل هذا المقطع.',
+        'error.audioFile': 'يرجى اختيار ملف صوتي (MP3، WAV، OGG...).',
+        'error.audioBuiltIn': 'تعذّر تجهيز المقطع المدمج في هذا المتصفح.',
+        'error.modelGlbOnly': 'يمكن استيراد ملفات ‎.glb فقط.',
+        'error.modelImport': 'تعذّر استيراده',
+        'error.modelTooSmall': 'الملف أصغر من أن يكون نموذجًا',
+        'error.modelNotGlb': 'ليس ملف glTF ثنائيًا (‎.glb)',
+        'error.modelVersion': 'نماذج glTF 2.0 فقط مدعومة',
+        'error.modelTooLarge': 'حجم النموذج أكبر من {max} ميغابايت',
+        'error.modelUnreadable': 'تعذّرت قراءة النموذج (يجب أن يكون مستقلًا وغير مضغوط)',
+        'error.modelNoMeshes': 'لا يحتوي النموذج على شبكات',
+        'error.modelTooManyTriangles': 'النموذج يحتوي على مثلثات كثيرة جدًا ({count}، الحد الأقصى {max})',
+        'error.modelNoSize': 'النموذج ليس له حجم مرئي',
+        'error.recordUnsupported': 'هذا المتصفح لا يدعم التسجيل.',
+        'error.recordFailed': 'فشل التسجيل. يُرجى المحاولة مرة أخرى.',
+        'error.syncUnsupported': 'هذا المتصفح لا يستطيع مزامنة النوافذ؛ استخدم المُرحِّل بدلًا من ذلك.',
+        'error.syncPhotos': 'تعذّرت قراءة الصور المرسلة من جهاز التحكم.',
+        'error.cardRender': 'تعذّر عرض البطاقة في هذا المتصفح.',
+        'error.cardExport': 'تعذّر تصدير البطاقة.',
+
+        'errorBoundary.title': 'حدث خطأ ما',
+        'errorBoundary.fallback': 'واجه التطبيق مشكلة أثناء التحميل',
+        'errorBoundary.reload': 'إعادة التحميل',
+        'errorBoundary.details': 'تفاصيل الخطأ',
+
+        'camera.initializing': 'جارٍ تهيئة محرك الذكاء الاصطناعي...',
+        'camera.connectingGpu': 'جارٍ الاتصال بوحدة الرسوميات...',
+        'camera.loadingModel': 'جارٍ تحميل النموذج المحلي...',
+        'camera.networkError': 'خطأ في الشبكة: تحقّق من الاتصال',
+        'camera.downloading': 'جارٍ التنزيل (التشغيل الأول يستغرق وقتًا)...',
+        'camera.unavailable': 'الكاميرا غير متاحة',
+        'camera.useMouse': 'استخدم الفأرة بدلًا منها',
+        'camera.sensors': 'المستشعرات',
+
+        'language.title': 'اللغة',
+
+        'theme.title': 'المظهر',
+        'theme.CLASSIC': 'كلاسيكي',
+        'theme.NORDIC': 'فضي شمالي',
+        'theme.GOLD': 'ذهبي فاخر',
+        'theme.PASTEL': 'حلوى باستيل',
+
+        'formation.title': 'التشكيل',
+        'formation.TREE': 'شجرة',
+        'formation.GALAXY': 'مجرة',
+        'formation.HEART': 'قلب',
+        'formation.PHOTO_WALL': 'جدار الصور',
+        'formation.SPHERE': 'كرة',
+        'formation.text': 'نص: {text}',
+        'formation.picture': 'صورة: {name}',
+        'formation.victoryHint': '✌️ أظهر علامة النصر للكاميرا للتنقل بين التشكيلات.',
+        'formation.particleText': 'نص من الجسيمات',
+        'formation.color': 'اللون',
+        'formation.spell': 'اكتبه',
+        'formation.particlePicture': 'صورة من الجسيمات',
+        'formation.tracing': 'جارٍ التتبّع...',
+        'formation.choosePicture': 'اختر صورة',
+        'sampleMode.ALPHA': 'ظلّ',
+        'sampleMode.LUMINANCE': 'فاتح',
+        'sampleMode.DARKNESS': 'داكن',
+
+        'models.title': 'نماذج الزينة',
+        'models.importing': 'جارٍ الاستيراد...',
+        'models.full': 'حتى {max} نماذج',
+        'models.drop': 'أفلت ملفات ‎.glb أو انقر للاستيراد',
+        'models.remove': 'إزالة',
+        'models.slot': 'الموضع {n}',
+        'models.count': 'العدد',
+        'models.size': 'الحجم',
+        'models.variance': 'التباين',
+
+        'recorder.title': 'تسجيل مقطع',
+        'recorder.script': 'السيناريو',
+        'recorder.length': 'المدة',
+        'recorder.recording': '● جارٍ التسجيل',
+        'recorder.cancel': 'إلغاء',
+        'recorder.start': 'بدء التسجيل',
+        'recorder.download': 'تنزيل WebM',
+        'clipScript.SPIN': 'دوران',
+        'clipScript.DISPERSE_ASSEMBLE': 'نثر ← تجميع',
+        'clipScript.PHOTO_ZOOM': 'تقريب إلى صورة',
+
+        'card.title': 'اصنع بطاقة',
+        'card.template': 'القالب',
+        'card.size': 'الحجم',
+        'card.signature': 'التوقيع',
+        'card.render': 'إنشاء البطاقة',
+        'card.rendering': 'جارٍ العرض...',
+        'card.previewAlt': 'معاينة البطاقة',
+        'card.downloadPng': 'تنزيل PNG',
+        'card.downloadPdf': 'تنزيل PDF',
+        'card.hint': 'تُعرض من المشهد الحالي بدقة الطباعة، على هذا الجهاز مباشرةً.',
+        'cardTemplate.STARRY': 'ليلة مرصّعة',
+        'cardTemplate.POLAROID': 'بولارويد',
+        'cardTemplate.GILDED': 'مذهّبة',
+
+        'audio.title': 'الموسيقى',
+        'audio.chooseFile': 'اختر ملفًا موسيقيًا',
+        'audio.preparing': 'جارٍ التجهيز...',
+        'audio.playBuiltIn': 'تشغيل Jingle Bells',
+        'audio.pause': 'إيقاف مؤقت',
+        'audio.play': 'تشغيل',
+        'audio.sensitivity': 'الحساسية',
+        'audio.hint': 'الجهير ينبض بالأضواء والنجمة، والطبقات الوسطى تجعل الشجرة تتنفس، والإيقاعات تنثر الشرر.',
+
+        'share.title': 'مشاركة الشجرة',
+        'share.copied': 'تم نسخ الرابط',
+        'share.selectToCopy': 'حدّد الرابط لنسخه',
+        'share.showQr': 'إظهار رمز QR',
+        'share.hideQr': 'إخفاء رمز QR',
+        'share.qrAlt': 'رمز QR لرابط المشاركة',
+
+        'sync.title': 'التحكم عن بُعد',
+        'sync.connecting': 'جارٍ الاتصال بالمُرحِّل...',
+        'sync.waiting': 'في انتظار جهاز تحكم',
+        'sync.invalidRelay': 'عنوان المُرحِّل غير صالح',
+        'sync.remoteConnected': 'جهاز تحكم واحد متصل',
+        'sync.remotesConnected': 'أجهزة التحكم المتصلة: {count}',
+        'sync.pairingCode': 'رمز الاقتران',
+        'sync.qrAlt': 'رمز QR يفتح صفحة التحكم عن بُعد',
+        'sync.stop': 'إيقاف',
+        'sync.intro': 'امسح الرمز بهاتف للتحكم في هذه الشاشة: التجميع والتدوير والتكبير وإرسال الصور وتعديل التعليقات.',
+        'sync.relay': 'مُرحِّل محلي',
+        'sync.thisDevice': 'هذا الجهاز',
+        'sync.relayHint': 'شغّله على هذا الحاسوب بالأمر {command}؛ يجب أن يكون الهاتف على الشبكة نفسها.',
+        'sync.thisDeviceHint': 'نوافذ أخرى من هذه الصفحة على هذا الحاسوب فقط.',
+        'sync.start': 'بدء الاقتران',
+
+        'remote.title': 'جهاز التحكم بالشجرة',
+        'remote.codePlaceholder': 'رمز الاقتران',
+        'remote.throughRelay': 'عبر المُرحِّل المحلي',
+        'remote.connect': 'اتصال',
+        'remote.codeInvalid': 'يتكوّن رمز الاقتران من {length} أحرف وأرقام.',
+        'remote.unsupported': 'هذا المتصفح لا يستطيع مزامنة النوافذ؛ اقترن عبر المُرحِّل بدلًا من ذلك.',
+        'remote.connecting': 'جارٍ الاتصال...',
+        'remote.connected': 'متصل',
+        'remote.waiting': 'في انتظار الشاشة',
+        'remote.pad': 'اسحب للتدوير · أعلى/أسفل للتكبير',
+        'remote.zoomIn': 'تكبير',
+        'remote.zoomOut': 'تصغير',
+        'remote.sending': 'جارٍ الإرسال...',
+        'remote.sendPhotos': 'إرسال الصور إلى الشجرة',
+        'remote.photosUnreadable': 'تعذّرت قراءة هذه الصور.',
+        'remote.notConnected': 'غير متصل بالشاشة؛ لم تُرسَل الصور.',
+        'remote.captions': 'التعليقات',
+
+        'gift.dialog': 'الهدية {n}',
+        'gift.number': 'الهدية رقم {n}',
+        'gift.photoAlt': 'هدية',
+        'gift.messagePlaceholder': 'اكتب رسالة لمن يفتح هذه الهدية...',
+        'gift.photosStayLocal': 'تبقى الصور على هذا الجهاز',
+        'gift.changePhoto': 'تغيير الصورة',
+        'gift.addPhoto': 'إضافة صورة',
+        'gift.removePhoto': 'إزالة الصورة',
+        'gift.empty': 'هذه الهدية فارغة.',
+        'gift.done': 'تم',
+        'gift.edit': 'تعديل',
+        'gift.rewrap': 'إعادة التغليف',
+
+        'countdown.until': 'حتى {event}',
+        'countdown.days': 'أيام',
+        'countdown.hours': 'ساعات',
+        'countdown.minutes': 'دقائق',
+        'countdown.seconds': 'ثوانٍ',
+        'countdown.event.CHRISTMAS': 'عيد الميلاد',
+        'countdown.event.NEW_YEAR': 'رأس السنة',
+        'countdown.event.CUSTOM': 'اليوم الموعود',
+        'countdown.greeting.CHRISTMAS': 'ميلاد مجيد!',
+        'countdown.greeting.NEW_YEAR': 'سنة سعيدة!',
+        'countdown.greeting.CUSTOM': 'حان الوقت!',
+        'countdown.title': 'العد التنازلي',
+        'countdown.mode.OFF': 'إيقاف',
+        'countdown.mode.CHRISTMAS': 'عيد الميلاد',
+        'countdown.mode.NEW_YEAR': 'رأس السنة',
+        'countdown.mode.CUSTOM': 'تاريخ مخصص',
+        'countdown.date': 'التاريخ والوقت',
+        'countdown.zone': 'المنطقة الزمنية',
+        'countdown.zonePlaceholder': 'المنطقة الزمنية للجهاز',
+        'countdown.celebrateNow': 'احتفل الآن',
+        'countdown.hint': 'عند الصفر تتناثر الشجرة وتنطلق الألعاب النارية؛ «احتفل الآن» يعرضها فورًا.',
+    },
+    captions: [
+        'ميلاد مجيد',
+        'أعياد سعيدة',
+        'كل عام وأنتم بخير',
+        'سلام ومحبة',
+        'سنة سعيدة',
+        'فرح وسلام',
+        'أطيب التمنيات',
+        'بهجة العيد',
+    ],
+};
+
+export default ar;
@@ -0,0 +1,248 @@
+// English: the reference catalog. Its keys are the MessageKey type, so every other locale must have them all
+const en = {
+    messages: {
+        'common.close': 'Close',
+
+        'title.default': 'Easy Christmas',
+        'app.loading': 'Decorating the tree...',
+        'app.sceneLabel': 'Christmas tree. Arrow keys turn it, plus and minus zoom, space assembles or scatters it, Tab visits the photos.',
+
+        'toolbar.hideCamera': 'Hide camera',
+        'toolbar.showCamera': 'Show camera',
+        'toolbar.upload': 'Upload photos',
+        'toolbar.clearPhotos': 'Clear my photos',
+        'toolbar.share': 'Copy link',
+        'toolbar.record': 'Record a clip',
+        'toolbar.theme': 'Theme',
+        'toolbar.formation': 'Formation',
+        'toolbar.models': 'Custom ornaments',
+        'toolbar.music': 'Music',
+        'toolbar.remote': 'Phone remote',
+        'toolbar.language': 'Language',
+        'toolbar.card': 'Make a card',
+        'toolbar.countdown': 'Countdown',
+        'toolbar.disperse': 'Disperse',
+        'toolbar.assemble': 'Assemble',
+
+        'photos.confirmClear': 'Clear my photos?',
+        'photos.nav': 'Photos on the tree',
+        'photos.navLabel': 'Photo {n} of {total}',
+        'photos.navLabelCaption': 'Photo {n} of {total}: {caption}',
+        'photos.navHint': 'Photo {n} / {total} · Enter to open',
+        'photo.dialog': 'Photo {n}',
+        'photo.dialogUnknown': 'Photo',
+        'photo.alt': 'Memory',
+        'photo.note': 'There is something I have always wanted to tell you~',
+        'photo.signPlaceholder': 'Sign here...',
+        'photo.signDone': 'Done',
+
+        'announce.celebration': 'Celebration! Fireworks are going off around the tree.',
+        'announce.assembled': 'Tree assembled',
+        'announce.scattered': 'Tree scattered',
+        'announce.theme': 'Theme: {name}',
+        'announce.formation': 'Formation: {name}',
+        'announce.giftOpened': 'Gift {n} opened',
+        'announce.photoOpened': 'Photo {n} opened',
+        'announce.language': 'Language: {name}',
+        'announce.cardReady': 'Card ready to download',
+
+        'error.chooseImage': 'Please choose an image file.',
+        'error.giftPhotoNotKept': 'The photo shows now, but there was no room to keep it after a reload.',
+        'error.nothingToDraw': 'Nothing to draw for this text',
+        'error.imageUnreadable': 'Image could not be read',
+        'error.nothingToTrace': 'Nothing to trace in this image, try another mode',
+        'error.audioAnalysis': 'Audio analysis is not supported in this browser, the music plays without the light show.',
+        'error.audioPlay': 'This track could not be played.',
+        'error.audioFile': 'Please choose an audio file (MP3, WAV, OGG...).',
+        'error.audioBuiltIn': 'The built-in track could not be prepared in this browser.',
+        'error.modelGlbOnly': 'Only .glb files can be imported.',
+        'error.modelImport': 'could not be imported',
+        'error.modelTooSmall': 'File is too small to be a model',
+        'error.modelNotGlb': 'Not a binary glTF (.glb) file',
+        'error.modelVersion': 'Only glTF 2.0 models are supported',
+        'error.modelTooLarge': 'Model is larger than {max} MB',
+        'error.modelUnreadable': 'Model could not be read (it must be self-contained and uncompressed)',
+        'error.modelNoMeshes': 'Model has no meshes',
+        'error.modelTooManyTriangles': 'Model has too many triangles ({count}, max {max})',
+        'error.modelNoSize': 'Model has no visible size',
+        'error.recordUnsupported': 'Recording is not supported in this browser.',
+        'error.recordFailed': 'The recording failed. Please try again.',
+        'error.syncUnsupported': "This browser can't sync windows; use the relay instead.",
+        'error.syncPhotos': 'Photos from the remote could not be read.',
+        'error.cardRender': 'The card could not be rendered in this browser.',
+        'error.cardExport': 'The card could not be exported.',
+
+        'errorBoundary.title': 'Something went wrong',
+        'errorBoundary.fallback': 'The app ran into a problem while loading',
+        'errorBoundary.reload': 'Reload',
+        'errorBoundary.details': 'Error details',
+
+        'camera.initializing': 'Initializing AI Engine...',
+        'camera.connectingGpu': 'Connecting to GPU...',
+        'camera.loadingModel': 'Loading Local AI Model...',
+        'camera.networkError': 'Network Error: Check Connection',
+        'camera.downloading': 'Downloading (First Run Takes Time)...',
+        'camera.unavailable': 'Camera Unavailable',
+        'camera.useMouse': 'Use mouse instead',
+        'camera.sensors': 'Sensors',
+
+        'language.title': 'Language',
+
+        'theme.title': 'Theme',
+        'theme.CLASSIC': 'Classic',
+        'theme.NORDIC': 'Nordic Silver',
+        'theme.GOLD': 'Gold Luxury',
+        'theme.PASTEL': 'Candy Pastel',
+
+        'formation.title': 'Formation',
+        'formation.TREE': 'Tree',
+        'formation.GALAXY': 'Galaxy',
+        'formation.HEART': 'Heart',
+        'formation.PHOTO_WALL': 'Photo Wall',
+        'formation.SPHERE': 'Sphere',
+        'formation.text': 'Text: {text}',
+        'formation.picture': 'Picture: {name}',
+        'formation.victoryHint': '✌️ Show a victory sign to the camera to cycle formations.',
+        'formation.particleText': 'Particle Text',
+        'formation.color': 'Color',
+        'formation.spell': 'Spell It',
+        'formation.particlePicture': 'Particle Picture',
+        'formation.tracing': 'Tracing...',
+        'formation.choosePicture': 'Choose a picture',
+        'sampleMode.ALPHA': 'Silhouette',
+        'sampleMode.LUMINANCE': 'Bright',
+        'sampleMode.DARKNESS': 'Dark',
+
+        'models.title': 'Ornament Models',
+        'models.importing': 'Importing...',
+        'models.full': 'Up to {max} models',
+        'models.drop': 'Drop .glb files or click to import',
+        'models.remove': 'Remove',
+        'models.slot': 'Slot {n}',
+        'models.count': 'Count',
+        'models.size': 'Size',
+        'models.variance': 'Variance',
+
+        'recorder.title': 'Record Clip',
+        'recorder.script': 'Script',
+        'recorder.length': 'Length',
+        'recorder.recording': '● Recording',
+        'recorder.cancel': 'Cancel',
+        'recorder.start': 'Start Recording',
+        'recorder.download': 'Download WebM',
+        'clipScript.SPIN': 'Spin',
+        'clipScript.DISPERSE_ASSEMBLE': 'Disperse → Assemble',
+        'clipScript.PHOTO_ZOOM': 'Zoom Into a Photo',
+
+        'card.title': 'Make a Card',
+        'card.template': 'Template',
+        'card.size': 'Size',
+        'card.signature': 'Signature',
+        'card.render': 'Render Card',
+        'card.rendering': 'Rendering...',
+        'card.previewAlt': 'Card preview',
+        'card.downloadPng': 'Download PNG',
+        'card.downloadPdf': 'Download PDF',
+        'card.hint': 'Rendered from the current view at print resolution, right on this device.',
+        'cardTemplate.STARRY': 'Starry',
+        'cardTemplate.POLAROID': 'Polaroid',
+        'cardTemplate.GILDED': 'Gilded',
+
+        'audio.title': 'Music',
+        'audio.chooseFile': 'Choose a music file',
+        'audio.preparing': 'Preparing...',
+        'audio.playBuiltIn': 'Play Jingle Bells',
+        'audio.pause': 'Pause',
+        'audio.play': 'Play',
+        'audio.sensitivity': 'Sensitivity',
+        'audio.hint': 'Bass pulses the lights and the star, mids make the tree breathe, beats throw sparkles.',
+
+        'share.title': 'Share Tree',
+        'share.copied': 'Link copied',
+        'share.selectToCopy': 'Select the link to copy it',
+        'share.showQr': 'Show QR Code',
+        'share.hideQr': 'Hide QR Code',
+        'share.qrAlt': 'QR code for the share link',
+
+        'sync.title': 'Remote Control',
+        'sync.connecting': 'Connecting to relay...',
+        'sync.waiting': 'Waiting for a remote',
+        'sync.invalidRelay': 'Relay address is not valid',
+        'sync.remoteConnected': '1 remote connected',
+        'sync.remotesConnected': '{count} remotes connected',
+        'sync.pairingCode': 'Pairing code',
+        'sync.qrAlt': 'QR code that opens the remote control',
+        'sync.stop': 'Stop',
+        'sync.intro': 'Scan the code with a phone to drive this screen: assemble, turn, zoom, send photos and edit captions.',
+        'sync.relay': 'Local relay',
+        'sync.thisDevice': 'This device',
+        'sync.relayHint': 'Start it on this computer with {command}; the phone must be on the same network.',
+        'sync.thisDeviceHint': 'Other windows of this page on this computer only.',
+        'sync.start': 'Start Pairing',
+
+        'remote.title': 'Tree Remote',
+        'remote.codePlaceholder': 'Pairing code',
+        'remote.throughRelay': 'Through the local relay',
+        'remote.connect': 'Connect',
+        'remote.codeInvalid': 'The pairing code has {length} letters and digits.',
+        'remote.unsupported': "This browser can't sync windows; pair through the relay instead.",
+        'remote.connecting': 'Connecting...',
+        'remote.connected': 'Connected',
+        'remote.waiting': 'Waiting for the display',
+        'remote.pad': 'Drag to turn · up/down to zoom',
+        'remote.zoomIn': 'Zoom in',
+        'remote.zoomOut': 'Zoom out',
+        'remote.sending': 'Sending...',
+        'remote.sendPhotos': 'Send photos to the tree',
+        'remote.photosUnreadable': 'These photos could not be read.',
+        'remote.notConnected': 'Not connected to the display; the photos were not sent.',
+        'remote.captions': 'Captions',
+
+        'gift.dialog': 'Gift {n}',
+        'gift.number': 'Gift No. {n}',
+        'gift.photoAlt': 'Gift',
+        'gift.messagePlaceholder': 'Write a message for whoever opens this gift...',
+        'gift.photosStayLocal': 'Photos stay on this device',
+        'gift.changePhoto': 'Change photo',
+        'gift.addPhoto': 'Add photo',
+        'gift.removePhoto': 'Remove photo',
+        'gift.empty': 'This gift is empty.',
+        'gift.done': 'Done',
+        'gift.edit': 'Edit',
+        'gift.rewrap': 'Wrap again',
+
+        'countdown.until': 'Until {event}',
+        'countdown.days': 'Days',
+        'countdown.hours': 'Hours',
+        'countdown.minutes': 'Min',
+        'countdown.seconds': 'Sec',
+        'countdown.event.CHRISTMAS': 'Christmas',
+        'countdown.event.NEW_YEAR': 'New Year',
+        'countdown.event.CUSTOM': 'the Big Day',
+        'countdown.greeting.CHRISTMAS': 'Merry Christmas!',
+        'countdown.greeting.NEW_YEAR': 'Happy New Year!',
+        'countdown.greeting.CUSTOM': "It's time!",
+        'countdown.title': 'Countdown',
+        'countdown.mode.OFF': 'Off',
+        'countdown.mode.CHRISTMAS': 'Christmas',
+        'countdown.mode.NEW_YEAR': 'New Year',
+        'countdown.mode.CUSTOM': 'Custom date',
+        'countdown.date': 'Date and time',
+        'countdown.zone': 'Time zone',
+        'countdown.zonePlaceholder': 'Device time zone',
+        'countdown.celebrateNow': 'Celebrate now',
+        'countdown.hint': 'At zero the tree bursts apart and fireworks go off; "Celebrate now" plays it right away.',
+    },
+    captions: [
+        'Merry Christmas',
+        'Happy Holidays',
+        "Season's Greetings",
+        'Joy to the World',
+        'Peace on Earth',
+        'Let It Snow',
+        'Warm Wishes',
+        'Ho Ho Ho!',
+    ],
+};
+
+export default en;
@@ -0,0 +1,250 @@
+import type { LocaleCatalog } from '../i18n';
+
+const id: LocaleCatalog = {
+    messages: {
+        'common.close': 'Tutup',
+
+        'title.default': 'Selamat Natal',
+        'app.loading': 'Sedang menghias pohon...',
+        'app.sceneLabel': 'Pohon Natal. Tombol panah memutarnya, plus dan minus memperbesar, spasi menyusun atau menyebarkannya, Tab menjelajahi foto.',
+
+        'toolbar.hideCamera': 'Sembunyikan kamera',
+        'toolbar.showCamera': 'Tampilkan kamera',
+        'toolbar.upload': 'Unggah foto',
+        'toolbar.clearPhotos': 'Hapus foto saya',
+        'toolbar.share': 'Salin tautan',
+        'toolbar.record': 'Rekam klip',
+        'toolbar.theme': 'Tema',
+        'toolbar.formation': 'Formasi',
+        'toolbar.models': 'Hiasan kustom',
+        'toolbar.music': 'Musik',
+        'toolbar.remote': 'Remote ponsel',
+        'toolbar.language': 'Bahasa',
+        'toolbar.card': 'Buat kartu',
+        'toolbar.countdown': 'Hitung mundur',
+        'toolbar.disperse': 'Sebarkan',
+        'toolbar.assemble': 'Susun',
+
+        'photos.confirmClear': 'Hapus foto saya?',
+        'photos.nav': 'Foto di pohon',
+        'photos.navLabel': 'Foto {n} dari {total}',
+        'photos.navLabelCaption': 'Foto {n} dari {total}: {caption}',
+        'photos.navHint': 'Foto {n} / {total} · Enter untuk membuka',
+        'photo.dialog': 'Foto {n}',
+        'photo.dialogUnknown': 'Foto',
+        'photo.alt': 'Kenangan',
+        'photo.note': 'Ada yang selalu ingin kukatakan padamu~',
+        'photo.signPlaceholder': 'Tanda tangan di sini...',
+        'photo.signDone': 'Selesai',
+
+        'announce.celebration': 'Perayaan! Kembang api menyala di sekitar pohon.',
+        'announce.assembled': 'Pohon tersusun',
+        'announce.scattered': 'Pohon tersebar',
+        'announce.theme': 'Tema: {name}',
+        'announce.formation': 'Formasi: {name}',
+        'announce.giftOpened': 'Hadiah {n} dibuka',
+        'announce.photoOpened': 'Foto {n} dibuka',
+        'announce.language': 'Bahasa: {name}',
+        'announce.cardReady': 'Kartu siap diunduh',
+
+        'error.chooseImage': 'Silakan pilih file gambar.',
+        'error.giftPhotoNotKept': 'Foto sudah tampil, tetapi tidak ada ruang untuk menyimpannya setelah dimuat ulang.',
+        'error.nothingToDraw': 'Tidak ada yang bisa digambar dari teks ini',
+        'error.imageUnreadable': 'Gambar tidak dapat dibaca',
+        'error.nothingToTrace': 'Tidak ada yang bisa dijiplak dari gambar ini, coba mode lain',
+        'error.audioAnalysis': 'Browser ini tidak mendukung analisis audio, musik diputar tanpa pertunjukan lampu.',
+        'error.audioPlay': 'Lagu ini tidak dapat diputar.',
+        'error.audioFile': 'Silakan pilih file audio (MP3, WAV, OGG...).',
+        'error.audioBuiltIn': 'Lagu bawaan tidak dapat disiapkan di browser ini.',
+        'error.modelGlbOnly': 'Hanya file .glb yang dapat diimpor.',
+        'error.modelImport': 'tidak dapat diimpor',
+        'error.modelTooSmall': 'File terlalu kecil untuk sebuah model',
+        'error.modelNotGlb': 'Bukan file glTF biner (.glb)',
+        'error.modelVersion': 'Hanya model glTF 2.0 yang didukung',
+        'error.modelTooLarge': 'Model lebih besar dari {max} MB',
+        'error.modelUnreadable': 'Model tidak dapat dibaca (harus mandiri dan tidak terkompresi)',
+        'error.modelNoMeshes': 'Model tidak memiliki mesh',
+        'error.modelTooManyTriangles': 'Model memiliki terlalu banyak segitiga ({count}, maks {max})',
+        'error.modelNoSize': 'Model tidak memiliki ukuran yang terlihat',
+        'error.recordUnsupported': 'Browser ini tidak mendukung perekaman.',
+        'error.recordFailed': 'Perekaman gagal. Silakan coba lagi.',
+        'error.syncUnsupported': 'Browser ini tidak dapat menyinkronkan jendela; gunakan relay.',
+        'error.syncPhotos': 'Foto dari remote tidak dapat dibaca.',
+        'error.cardRender': 'Kartu tidak dapat dirender di browser ini.',
+        'error.cardExport': 'Kartu tidak dapat diekspor.',
+
+        'errorBoundary.title': 'Terjadi kesalahan',
+        'errorBoundary.fallback': 'Aplikasi mengalami masalah saat dimuat',
+        'errorBoundary.reload': 'Muat ulang',
+        'errorBoundary.details': 'Detail kesalahan',
+
+        'camera.initializing': 'Menyiapkan mesin AI...',
+        'camera.connectingGpu': 'Menghubungkan ke GPU...',
+        'camera.loadingModel': 'Memuat model AI lokal...',
+        'camera.networkError': 'Kesalahan jaringan: periksa koneksi',
+        'camera.downloading': 'Mengunduh (pertama kali agak lama)...',
+        'camera.unavailable': 'Kamera tidak tersedia',
+        'camera.useMouse': 'Gunakan mouse saja',
+        'camera.sensors': 'Sensor',
+
+        'language.title': 'Bahasa',
+
+        'theme.title': 'Tema',
+        'theme.CLASSIC': 'Klasik',
+        'theme.NORDIC': 'Perak Nordik',
+        'theme.GOLD': 'Emas Mewah',
+        'theme.PASTEL': 'Permen Pastel',
+
+        'formation.title': 'Formasi',
+        'formation.TREE': 'Pohon',
+        'formation.GALAXY': 'Galaksi',
+        'formation.HEART': 'Hati',
+        'formation.PHOTO_WALL': 'Dinding Foto',
+        'formation.SPHERE': 'Bola',
+        'formation.text': 'Teks: {text}',
+        'formation.picture': 'Gambar: {name}',
+        'formation.victoryHint': '✌️ Tunjukkan tanda victory ke kamera untuk berganti formasi.',
+        'formation.particleText': 'Teks Partikel',
+        'formation.color': 'Warna',
+        'formation.spell': 'Tuliskan',
+        'formation.particlePicture': 'Gambar Partikel',
+        'formation.tracing': 'Menjiplak...',
+        'formation.choosePicture': 'Pilih gambar',
+        'sampleMode.ALPHA': 'Siluet',
+        'sampleMode.LUMINANCE': 'Terang',
+        'sampleMode.DARKNESS': 'Gelap',
+
+        'models.title': 'Model Hiasan',
+        'models.importing': 'Mengimpor...',
+        'models.full': 'Maksimal {max} model',
+        'models.drop': 'Letakkan file .glb atau klik untuk mengimpor',
+        'models.remove': 'Hapus',
+        'models.slot': 'Posisi {n}',
+        'models.count': 'Jumlah',
+        'models.size': 'Ukuran',
+        'models.variance': 'Variasi',
+
+        'recorder.title': 'Rekam Klip',
+        'recorder.script': 'Skenario',
+        'recorder.length': 'Durasi',
+        'recorder.recording': '● Merekam',
+        'recorder.cancel': 'Batal',
+        'recorder.start': 'Mulai Merekam',
+        'recorder.download': 'Unduh WebM',
+        'clipScript.SPIN': 'Berputar',
+        'clipScript.DISPERSE_ASSEMBLE': 'Sebar → Susun',
+        'clipScript.PHOTO_ZOOM': 'Perbesar Sebuah Foto',
+
+        'card.title': 'Buat Kartu',
+        'card.template': 'Templat',
+        'card.size': 'Ukuran',
+        'card.signature': 'Tanda Tangan',
+        'card.render': 'Render Kartu',
+        'card.rendering': 'Merender...',
+        'card.previewAlt': 'Pratinjau kartu',
+        'card.downloadPng': 'Unduh PNG',
+        'card.downloadPdf': 'Unduh PDF',
+        'card.hint': 'Dirender dari tampilan saat ini dengan resolusi cetak, langsung di perangkat ini.',
+        'cardTemplate.STARRY': 'Berbintang',
+        'cardTemplate.POLAROID': 'Polaroid',
+        'cardTemplate.GILDED': 'Berlapis Emas',
+
+        'audio.title': 'Musik',
+        'audio.chooseFile': 'Pilih file musik',
+        'audio.preparing': 'Menyiapkan...',
+        'audio.playBuiltIn': 'Putar Jingle Bells',
+        'audio.pause': 'Jeda',
+        'audio.play': 'Putar',
+        'audio.sensitivity': 'Sensitivitas',
+        'audio.hint': 'Bass mendenyutkan lampu dan bintang, nada tengah membuat pohon bernapas, ketukan menebar percikan.',
+
+        'share.title': 'Bagikan Pohon',
+        'share.copied': 'Tautan disalin',
+        'share.selectToCopy': 'Pilih tautan untuk menyalinnya',
+        'share.showQr': 'Tampilkan Kode QR',
+        'share.hideQr': 'Sembunyikan Kode QR',
+        'share.qrAlt': 'Kode QR untuk tautan berbagi',
+
+        'sync.title': 'Remote Kontrol',
+        'sync.connecting': 'Menghubungkan ke relay...',
+        'sync.waiting': 'Menunggu remote',
+        'sync.invalidRelay': 'Alamat relay tidak valid',
+        'sync.remoteConnected': '1 remote terhubung',
+        'sync.remotesConnected': '{count} remote terhubung',
+        'sync.pairingCode': 'Kode pasangan',
+        'sync.qrAlt': 'Kode QR yang membuka remote kontrol',
+        'sync.stop': 'Berhenti',
+        'sync.intro': 'Pindai kode dengan ponsel untuk mengendalikan layar ini: susun, putar, perbesar, kirim foto, dan ubah keterangan.',
+        'sync.relay': 'Relay lokal',
+        'sync.thisDevice': 'Perangkat ini',
+        'sync.relayHint': 'Jalankan di komputer ini dengan {command}; ponsel harus berada di jaringan yang sama.',
+        'sync.thisDeviceHint': 'Hanya jendela lain dari halaman ini di komputer ini.',
+        'sync.start': 'Mulai Memasangkan',
+
+        'remote.title': 'Remote Pohon',
+        'remote.codePlaceholder': 'Kode pasangan',
+        'remote.throughRelay': 'Melalui relay lokal',
+        'remote.connect': 'Hubungkan',
+        'remote.codeInvalid': 'Kode pasangan terdiri dari {length} huruf dan angka.',
+        'remote.unsupported': 'Browser ini tidak dapat menyinkronkan jendela; pasangkan melalui relay.',
+        'remote.connecting': 'Menghubungkan...',
+        'remote.connected': 'Terhubung',
+        'remote.waiting': 'Menunggu layar',
+        'remote.pad': 'Geser untuk memutar · atas/bawah untuk zoom',
+        'remote.zoomIn': 'Perbesar',
+        'remote.zoomOut': 'Perkecil',
+        'remote.sending': 'Mengirim...',
+        'remote.sendPhotos': 'Kirim foto ke pohon',
+        'remote.photosUnreadable': 'Foto-foto ini tidak dapat dibaca.',
+        'remote.notConnected': 'Tidak terhubung ke layar; foto tidak terkirim.',
+        'remote.captions': 'Keterangan',
+
+        'gift.dialog': 'Hadiah {n}',
+        'gift.number': 'Hadiah No. {n}',
+        'gift.photoAlt': 'Hadiah',
+        'gift.messagePlaceholder': 'Tulis pesan untuk siapa pun yang membuka hadiah ini...',
+        'gift.photosStayLocal': 'Foto tetap di perangkat ini',
+        'gift.changePhoto': 'Ganti foto',
+        'gift.addPhoto': 'Tambah foto',
+        'gift.removePhoto': 'Hapus foto',
+        'gift.empty': 'Hadiah ini kosong.',
+        'gift.done': 'Selesai',
+        'gift.edit': 'Ubah',
+        'gift.rewrap': 'Bungkus lagi',
+
+        'countdown.until': 'Menuju {event}',
+        'countdown.days': 'Hari',
+        'countdown.hours': 'Jam',
+        'countdown.minutes': 'Menit',
+        'countdown.seconds': 'Detik',
+        'countdown.event.CHRISTMAS': 'Natal',
+        'countdown.event.NEW_YEAR': 'Tahun Baru',
+        'countdown.event.CUSTOM': 'Hari Istimewa',
+        'countdown.greeting.CHRISTMAS': 'Selamat Natal!',
+        'countdown.greeting.NEW_YEAR': 'Selamat Tahun Baru!',
+        'countdown.greeting.CUSTOM': 'Sudah waktunya!',
+        'countdown.title': 'Hitung Mundur',
+        'countdown.mode.OFF': 'Mati',
+        'countdown.mode.CHRISTMAS': 'Natal',
+        'countdown.mode.NEW_YEAR': 'Tahun Baru',
+        'countdown.mode.CUSTOM': 'Tanggal khusus',
+        'countdown.date': 'Tanggal dan waktu',
+        'countdown.zone': 'Zona waktu',
+        'countdown.zonePlaceholder': 'Zona waktu perangkat',
+        'countdown.celebrateNow': 'Rayakan sekarang',
+        'countdown.hint': 'Saat nol, pohon berhamburan dan kembang api menyala; "Rayakan sekarang" memutarnya langsung.',
+    },
+    // Christmas greetings from around the archipelago
+    captions: [
+        'Selamat Natal',
+        'Merry Christmas',
+        'Feliz Navidad',
+        'Sugeng Natal',
+        'Wilujeng Natal',
+        "Salama' Natal",
+        'Rahajeng Natal',
+        '圣诞快乐',
+    ],
+};
+
+export default id;
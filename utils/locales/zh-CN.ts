@@ -0,0 +1,249 @@
+import type { LocaleCatalog } from '../i18n';
+
+const zhCN: LocaleCatalog = {
+    messages: {
+        'common.close': '关闭',
+
+        'title.default': '圣诞快乐',
+        'app.loading': '正在装饰圣诞树...',
+        'app.sceneLabel': '圣诞树。方向键旋转，加号和减号缩放，空格键聚拢或散开，Tab 键浏览照片。',
+
+        'toolbar.hideCamera': '隐藏摄像头',
+        'toolbar.showCamera': '显示摄像头',
+        'toolbar.upload': '上传照片',
+        'toolbar.clearPhotos': '清除我的照片',
+        'toolbar.share': '复制链接',
+        'toolbar.record': '录制视频',
+        'toolbar.theme': '主题',
+        'toolbar.formation': '队形',
+        'toolbar.models': '自定义挂饰',
+        'toolbar.music': '音乐律动',
+        'toolbar.remote': '手机遥控',
+        'toolbar.language': '语言',
+        'toolbar.card': '制作贺卡',
+        'toolbar.countdown': '倒计时',
+        'toolbar.disperse': '散开',
+        'toolbar.assemble': '聚拢',
+
+        'photos.confirmClear': '清除我的照片？',
+        'photos.nav': '树上的照片',
+        'photos.navLabel': '第 {n} 张照片，共 {total} 张',
+        'photos.navLabelCaption': '第 {n} 张照片，共 {total} 张：{caption}',
+        'photos.navHint': '照片 {n} / {total} · 按回车打开',
+        'photo.dialog': '照片 {n}',
+        'photo.dialogUnknown': '照片',
+        'photo.alt': '回忆',
+        'photo.note': '我~一直都想对你说~',
+        'photo.signPlaceholder': '在这里签名...',
+        'photo.signDone': '完成签名',
+
+        'announce.celebration': '庆祝开始！烟花在圣诞树周围绽放。',
+        'announce.assembled': '圣诞树已聚拢',
+        'announce.scattered': '圣诞树已散开',
+        'announce.theme': '主题：{name}',
+        'announce.formation': '队形：{name}',
+        'announce.giftOpened': '已打开礼物 {n}',
+        'announce.photoOpened': '已打开照片 {n}',
+        'announce.language': '语言：{name}',
+        'announce.cardReady': '贺卡已可下载',
+
+        'error.chooseImage': '请选择图片文件。',
+        'error.giftPhotoNotKept': '照片已显示，但空间不足，刷新后无法保留。',
+        'error.nothingToDraw': '这段文字没有可绘制的内容',
+        'error.imageUnreadable': '无法读取图片',
+        'error.nothingToTrace': '这张图片没有可描绘的内容，请换一种模式',
+        'error.audioAnalysis': '此浏览器不支持音频分析，音乐会播放，但没有灯光效果。',
+        'error.audioPlay': '无法播放这首曲目。',
+        'error.audioFile': '请选择音频文件（MP3、WAV、OGG...）。',
+        'error.audioBuiltIn': '此浏览器无法准备内置曲目。',
+        'error.modelGlbOnly': '只能导入 .glb 文件。',
+        'error.modelImport': '无法导入',
+        'error.modelTooSmall': '文件太小，不是模型',
+        'error.modelNotGlb': '不是二进制 glTF（.glb）文件',
+        'error.modelVersion': '只支持 glTF 2.0 模型',
+        'error.modelTooLarge': '模型超过 {max} MB',
+        'error.modelUnreadable': '无法读取模型（必须是自包含且未压缩的）',
+        'error.modelNoMeshes': '模型没有网格',
+        'error.modelTooManyTriangles': '模型三角形过多（{count}，上限 {max}）',
+        'error.modelNoSize': '模型没有可见尺寸',
+        'error.recordUnsupported': '此浏览器不支持录制。',
+        'error.recordFailed': '录制失败，请重试。',
+        'error.syncUnsupported': '此浏览器无法同步窗口，请改用中继。',
+        'error.syncPhotos': '无法读取遥控端发送的照片。',
+        'error.cardRender': '此浏览器无法渲染贺卡。',
+        'error.cardExport': '无法导出贺卡。',
+
+        'errorBoundary.title': '出现错误',
+        'errorBoundary.fallback': '应用加载时出现问题',
+        'errorBoundary.reload': '重新加载',
+        'errorBoundary.details': '错误详情',
+
+        'camera.initializing': '正在初始化 AI 引擎...',
+        'camera.connectingGpu': '正在连接 GPU...',
+        'camera.loadingModel': '正在加载本地 AI 模型...',
+        'camera.networkError': '网络错误：请检查连接',
+        'camera.downloading': '下载中（首次运行需要一些时间）...',
+        'camera.unavailable': '摄像头不可用',
+        'camera.useMouse': '请改用鼠标',
+        'camera.sensors': '传感器',
+
+        'language.title': '语言',
+
+        'theme.title': '主题',
+        'theme.CLASSIC': '经典',
+        'theme.NORDIC': '北欧银',
+        'theme.GOLD': '奢华金',
+        'theme.PASTEL': '糖果色',
+
+        'formation.title': '队形',
+        'formation.TREE': '圣诞树',
+        'formation.GALAXY': '星系',
+        'formation.HEART': '爱心',
+        'formation.PHOTO_WALL': '照片墙',
+        'formation.SPHERE': '球体',
+        'formation.text': '文字：{text}',
+        'formation.picture': '图片：{name}',
+        'formation.victoryHint': '✌️ 对着摄像头比出胜利手势即可切换队形。',
+        'formation.particleText': '粒子文字',
+        'formation.color': '颜色',
+        'formation.spell': '拼出文字',
+        'formation.particlePicture': '粒子图片',
+        'formation.tracing': '描绘中...',
+        'formation.choosePicture': '选择图片',
+        'sampleMode.ALPHA': '轮廓',
+        'sampleMode.LUMINANCE': '亮部',
+        'sampleMode.DARKNESS': '暗部',
+
+        'models.title': '挂饰模型',
+        'models.importing': '导入中...',
+        'models.full': '最多 {max} 个模型',
+        'models.drop': '拖入 .glb 文件或点击导入',
+        'models.remove': '移除',
+        'models.slot': '位置 {n}',
+        'models.count': '数量',
+        'models.size': '大小',
+        'models.variance': '随机度',
+
+        'recorder.title': '录制视频',
+        'recorder.script': '脚本',
+        'recorder.length': '时长',
+        'recorder.recording': '● 录制中',
+        'recorder.cancel': '取消',
+        'recorder.start': '开始录制',
+        'recorder.download': '下载 WebM',
+        'clipScript.SPIN': '旋转',
+        'clipScript.DISPERSE_ASSEMBLE': '散开 → 聚拢',
+        'clipScript.PHOTO_ZOOM': '放大一张照片',
+
+        'card.title': '制作贺卡',
+        'card.template': '模板',
+        'card.size': '尺寸',
+        'card.signature': '签名',
+        'card.render': '生成贺卡',
+        'card.rendering': '渲染中...',
+        'card.previewAlt': '贺卡预览',
+        'card.downloadPng': '下载 PNG',
+        'card.downloadPdf': '下载 PDF',
+        'card.hint': '以打印分辨率渲染当前画面，全程在本设备上完成。',
+        'cardTemplate.STARRY': '星空',
+        'cardTemplate.POLAROID': '拍立得',
+        'cardTemplate.GILDED': '鎏金',
+
+        'audio.title': '音乐',
+        'audio.chooseFile': '选择音乐文件',
+        'audio.preparing': '准备中...',
+        'audio.playBuiltIn': '播放《铃儿响叮当》',
+        'audio.pause': '暂停',
+        'audio.play': '播放',
+        'audio.sensitivity': '灵敏度',
+        'audio.hint': '低音让灯光和星星闪烁，中音让圣诞树呼吸，节拍洒出火花。',
+
+        'share.title': '分享圣诞树',
+        'share.copied': '链接已复制',
+        'share.selectToCopy': '选中链接即可复制',
+        'share.showQr': '显示二维码',
+        'share.hideQr': '隐藏二维码',
+        'share.qrAlt': '分享链接的二维码',
+
+        'sync.title': '手机遥控',
+        'sync.connecting': '正在连接中继...',
+        'sync.waiting': '等待遥控端连接',
+        'sync.invalidRelay': '中继地址无效',
+        'sync.remoteConnected': '已连接 1 个遥控端',
+        'sync.remotesConnected': '已连接 {count} 个遥控端',
+        'sync.pairingCode': '配对码',
+        'sync.qrAlt': '打开遥控页面的二维码',
+        'sync.stop': '停止',
+        'sync.intro': '用手机扫码即可控制这个屏幕：聚拢、旋转、缩放、发送照片和编辑文字。',
+        'sync.relay': '本地中继',
+        'sync.thisDevice': '本设备',
+        'sync.relayHint': '在这台电脑上运行 {command} 启动中继；手机需要连接同一网络。',
+        'sync.thisDeviceHint': '仅限这台电脑上打开的本页面其他窗口。',
+        'sync.start': '开始配对',
+
+        'remote.title': '圣诞树遥控器',
+        'remote.codePlaceholder': '配对码',
+        'remote.throughRelay': '通过本地中继',
+        'remote.connect': '连接',
+        'remote.codeInvalid': '配对码由 {length} 个字母和数字组成。',
+        'remote.unsupported': '此浏览器无法同步窗口，请通过中继配对。',
+        'remote.connecting': '连接中...',
+        'remote.connected': '已连接',
+        'remote.waiting': '等待显示端',
+        'remote.pad': '左右拖动旋转 · 上下拖动缩放',
+        'remote.zoomIn': '放大',
+        'remote.zoomOut': '缩小',
+        'remote.sending': '发送中...',
+        'remote.sendPhotos': '把照片发送到圣诞树',
+        'remote.photosUnreadable': '无法读取这些照片。',
+        'remote.notConnected': '未连接到显示屏，照片未发送。',
+        'remote.captions': '照片文字',
+
+        'gift.dialog': '礼物 {n}',
+        'gift.number': '第 {n} 号礼物',
+        'gift.photoAlt': '礼物',
+        'gift.messagePlaceholder': '给打开这份礼物的人写几句话...',
+        'gift.photosStayLocal': '照片只保存在本设备',
+        'gift.changePhoto': '更换照片',
+        'gift.addPhoto': '添加照片',
+        'gift.removePhoto': '移除照片',
+        'gift.empty': '这份礼物是空的。',
+        'gift.done': '完成',
+        'gift.edit': '编辑',
+        'gift.rewrap': '重新包好',
+
+        'countdown.until': '距离{event}还有',
+        'countdown.days': '天',
+        'countdown.hours': '时',
+        'countdown.minutes': '分',
+        'countdown.seconds': '秒',
+        'countdown.event.CHRISTMAS': '圣诞节',
+        'countdown.event.NEW_YEAR': '新年',
+        'countdown.event.CUSTOM': '重要的日子',
+        'countdown.greeting.CHRISTMAS': '圣诞快乐！',
+        'countdown.greeting.NEW_YEAR': '新年快乐！',
+        'countdown.greeting.CUSTOM': '时候到了！',
+        'countdown.title': '倒计时',
+        'countdown.mode.OFF': '关闭',
+        'countdown.mode.CHRISTMAS': '圣诞节',
+        'countdown.mode.NEW_YEAR': '新年',
+        'countdown.mode.CUSTOM': '自定义日期',
+        'countdown.date': '日期和时间',
+        'countdown.zone': '时区',
+        'countdown.zonePlaceholder': '设备时区',
+        'countdown.celebrateNow': '立即庆祝',
+        'countdown.hint': '归零时圣诞树会散开并燃放烟花；“立即庆祝”可马上预览。',
+    },
+    captions: [
+        '圣诞快乐',
+        '平安喜乐',
+        '新年快乐',
+        '岁岁平安',
+        '万事如意',
+        '温暖相伴',
+        '心想事成',
+        '一起过冬',
+    ],
+};
+
+export default zhCN;
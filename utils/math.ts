@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { TreeShape } from './treeShape';
 
 export const randomVector3 = (r: number) => {
   const theta = Math.random() * Math.PI * 2;
@@ -9,30 +10,27 @@ export const randomVector3 = (r: number) => {
   return new THREE.Vector3(x, y, z);
 };
 
-export const getConePosition = (height: number, radius: number, progress: number) => {
-  const y = (progress - 0.5) * height; // -height/2 to height/2
-  const r = (1 - progress) * radius; // Taper to top
-  const angle = Math.random() * Math.PI * 2;
-  const x = r * Math.cos(angle);
-  const z = r * Math.sin(angle);
-  return new THREE.Vector3(x, y, z);
-};
-
 // Returns { target: Float32Array, chaos: Float32Array, randoms: Float32Array }
-export const generateFoliageData = (count: number, treeHeight: number, treeRadius: number) => {
+export const generateFoliageData = (count: number, shape: TreeShape) => {
   const target = new Float32Array(count * 3);
   const chaos = new Float32Array(count * 3);
   const randoms = new Float32Array(count); // For size variation and snow mask
+  const posT = new THREE.Vector3();
 
   for (let i = 0; i < count; i++) {
     // Tree Shape (Target)
-    // FIX: Use Inverse CDF for Cone Surface Area distribution: 1 - sqrt(random)
-    // This pushes significantly more density to the bottom (progress near 0)
+    // Spread needles evenly over the surface: a height is kept with a chance proportional
+    // to the radius there, so wide parts get more needles (for a cone this is the old 1 - sqrt(random)).
     // progress 0 = bottom, 1 = top.
-    const r = Math.random();
-    const progress = 1 - Math.sqrt(Math.random()); 
+    let progress = 0;
+    let angle = 0;
+    for (let tries = 0; tries < 20; tries++) {
+      progress = Math.random();
+      angle = Math.random() * Math.PI * 2;
+      if (Math.random() * shape.radius <= shape.radiusAt(progress, angle)) break;
+    }
     
-    const posT = getConePosition(treeHeight, treeRadius, progress);
+    shape.sample(progress, angle, posT);
     
     // Add volume noise (fluffiness)
     posT.x += (Math.random() - 0.5) * 1.0;
@@ -44,7 +42,7 @@ export const generateFoliageData = (count: number, treeHeight: number, treeRadiu
     target[i * 3 + 2] = posT.z;
 
     // Chaos Shape (Exploded)
-    const posC = randomVector3(treeHeight * 1.5);
+    const posC = randomVector3(shape.height * 1.5);
     chaos[i * 3] = posC.x;
     chaos[i * 3 + 1] = posC.y;
     chaos[i * 3 + 2] = posC.z;
@@ -55,7 +53,7 @@ export const generateFoliageData = (count: number, treeHeight: number, treeRadiu
   return { target, chaos, randoms };
 };
 
-export const generateSpiralData = (count: number, height: number, radius: number, turns: number) => {
+export const generateSpiralData = (count: number, shape: TreeShape, turns: number) => {
   const target = new Float32Array(count * 3);
   const chaos = new Float32Array(count * 3);
 
@@ -63,16 +61,16 @@ export const generateSpiralData = (count: number, height: number, radius: number
     const t = i / count; // 0 to 1
     
     // Spiral Math
-    const y = (t - 0.5) * height;
-    const r = (1 - t) * radius + 0.5; // Slight offset so it sits on leaves
     const angle = t * Math.PI * 2 * turns;
+    const y = shape.bottomY + t * shape.height;
+    const r = shape.radiusAt(t, angle) + 0.5; // Slight offset so it sits on leaves
 
     target[i * 3] = r * Math.cos(angle);
     target[i * 3 + 1] = y;
     target[i * 3 + 2] = r * Math.sin(angle);
 
     // Chaos
-    const posC = randomVector3(height * 1.2);
+    const posC = randomVector3(shape.height * 1.2);
     chaos[i * 3] = posC.x;
     chaos[i * 3 + 1] = posC.y;
     chaos[i * 3 + 2] = posC.z;
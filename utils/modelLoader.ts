@@ -0,0 +1,101 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { t } from './i18n';
+
+// Loads .glb files for use as ornaments.
+// A model is checked, then flattened into parts (geometry + material + transform) that are
+// normalized to fit a 2x2x2 box around the origin, the same size as the unit-sphere balls.
+// Ornaments draws each part as one InstancedMesh, so a model costs a few draw calls however many hang on the tree.
+
+export const MAX_MODEL_BYTES = 15 * 1024 * 1024;
+export const MAX_MODEL_TRIANGLES = 30000; // Per model; it is drawn many times over
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const NORMALIZED_SIZE = 2;
+
+export interface ModelPart {
+    geometry: THREE.BufferGeometry;
+    material: THREE.Material | THREE.Material[];
+    matrix: THREE.Matrix4; // Part transform inside the normalized model
+}
+
+const countTriangles = (geometry: THREE.BufferGeometry) => {
+    const count = geometry.index ? geometry.index.count : geometry.attributes.position?.count ?? 0;
+    return Math.floor(count / 3);
+};
+
+const checkHeader = (buffer: ArrayBuffer) => {
+    if (buffer.byteLength < 12) throw new Error(t('error.modelTooSmall'));
+    const view = new DataView(buffer);
+    if (view.getUint32(0, true) !== GLB_MAGIC) throw new Error(t('error.modelNotGlb'));
+    if (view.getUint32(4, true) !== 2) throw new Error(t('error.modelVersion'));
+};
+
+/** Parses and normalizes a .glb. Throws an Error with a user-facing message if the file can't be used as an ornament. */
+export const parseOrnamentModel = async (buffer: ArrayBuffer): Promise<ModelPart[]> => {
+    if (buffer.byteLength > MAX_MODEL_BYTES) {
+        throw new Error(t('error.modelTooLarge', { max: MAX_MODEL_BYTES / 1024 / 1024 }));
+    }
+    checkHeader(buffer);
+
+    let scene: THREE.Group;
+    try {
+        const gltf = await new GLTFLoader().parseAsync(buffer, '');
+        scene = gltf.scene;
+    } catch (e) {
+        // Broken files, external textures, or extensions we don't load (e.g. Draco)
+        console.warn('Failed to parse model:', e);
+        throw new Error(t('error.modelUnreadable'));
+    }
+
+    scene.updateMatrixWorld(true);
+
+    const meshes: THREE.Mesh[] = [];
+    scene.traverse(obj => {
+        if ((obj as THREE.Mesh).isMesh) meshes.push(obj as THREE.Mesh);
+    });
+    if (meshes.length === 0) throw new Error(t('error.modelNoMeshes'));
+
+    const triangles = meshes.reduce((sum, mesh) => sum + countTriangles(mesh.geometry), 0);
+    if (triangles > MAX_MODEL_TRIANGLES) {
+        throw new Error(t('error.modelTooManyTriangles', { count: triangles, max: MAX_MODEL_TRIANGLES }));
+    }
+
+    // --- Normalize: center the bounds on the origin (the pivot) and fit them in the ornament box ---
+    const box = new THREE.Box3().setFromObject(scene);
+    const size = box.getSize(new THREE.Vector3());
+    const maxDim = Math.max(size.x, size.y, size.z);
+    if (!Number.isFinite(maxDim) || maxDim <= 0) throw new Error(t('error.modelNoSize'));
+
+    const center = box.getCenter(new THREE.Vector3());
+    const fit = NORMALIZED_SIZE / maxDim;
+    const normalize = new THREE.Matrix4()
+        .makeScale(fit, fit, fit)
+        .multiply(new THREE.Matrix4().makeTranslation(-center.x, -center.y, -center.z));
+
+    return meshes.map(mesh => ({
+        geometry: mesh.geometry,
+        material: mesh.material,
+        matrix: normalize.clone().multiply(mesh.matrixWorld),
+    }));
+};
+
+/** Loads a model shipped with the app. */
+export const fetchOrnamentModel = async (url: string): Promise<ModelPart[]> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Model not found (${response.status})`);
+    return parseOrnamentModel(await response.arrayBuffer());
+};
+
+/** Frees the GPU resources of a model that is no longer on the tree. */
+export const disposeModelParts = (parts: ModelPart[]) => {
+    parts.forEach(({ geometry, material }) => {
+        geometry.dispose();
+        (Array.isArray(material) ? material : [material]).forEach(mat => {
+            Object.values(mat).forEach(value => {
+                if (value instanceof THREE.Texture) value.dispose();
+            });
+            mat.dispose();
+        });
+    });
+};
@@ -0,0 +1,69 @@
+// IndexedDB-backed store for imported ornament models (.glb).
+// Keeps the original files with their slot/count/scale/variance so the ornaments come back
+// after a reload. Like photoStore, every call fails soft and only logs.
+
+import { ModelSettings } from '../types';
+import { MODEL_STORE, runTransaction, getAvailableBytes } from './localDb';
+
+// Our own budget for stored models, on top of whatever the browser grants us
+export const MAX_MODEL_STORE_BYTES = 40 * 1024 * 1024;
+
+export interface StoredModel {
+    id: string;
+    name: string;
+    blob: Blob;
+    settings: ModelSettings;
+    createdAt: number; // Keeps the import order
+}
+
+/** Returns the stored models in import order (empty if nothing is stored or the store is unavailable). */
+export const loadModels = async (): Promise<StoredModel[]> => {
+    try {
+        const rows = await runTransaction<StoredModel[]>(MODEL_STORE, 'readonly', store => store.getAll());
+        return (rows ?? []).sort((a, b) => a.createdAt - b.createdAt);
+    } catch (e) {
+        console.warn('Failed to load stored models:', e);
+        return [];
+    }
+};
+
+/** Stores one model. Returns false if it doesn't fit in the quota (it still shows for this session). */
+export const saveModel = async (model: StoredModel): Promise<boolean> => {
+    try {
+        const stored = await loadModels();
+        const used = stored.reduce((sum, row) => sum + (row.id === model.id ? 0 : row.blob.size), 0);
+        const available = await getAvailableBytes(MAX_MODEL_STORE_BYTES - used);
+        if (model.blob.size > available) {
+            console.warn(`Model "${model.name}" not stored: storage quota reached`);
+            return false;
+        }
+        await runTransaction(MODEL_STORE, 'readwrite', store => store.put(model));
+        return true;
+    } catch (e) {
+        console.warn('Failed to store model, it will not survive a reload:', e);
+        return false;
+    }
+};
+
+/** Updates the settings of one stored model (no-op if that model wasn't stored). */
+export const saveModelSettings = async (id: string, settings: ModelSettings): Promise<void> => {
+    try {
+        await runTransaction(MODEL_STORE, 'readwrite', store => {
+            const request = store.get(id);
+            request.onsuccess = () => {
+                const row = request.result as StoredModel | undefined;
+                if (row) store.put({ ...row, settings });
+            };
+        });
+    } catch (e) {
+        console.warn('Failed to store model settings:', e);
+    }
+};
+
+export const deleteModel = async (id: string): Promise<void> => {
+    try {
+        await runTransaction(MODEL_STORE, 'readwrite', store => store.delete(id));
+    } catch (e) {
+        console.warn('Failed to delete stored model:', e);
+    }
+};
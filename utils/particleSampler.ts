@@ -0,0 +1,232 @@
+import * as THREE from 'three';
+import { Formation, FormationLayer } from './formations';
+import { t } from './i18n';
+
+// Particle art: rasterizes text or a picture and turns its ink into a formation.
+// The raster becomes a weighted list of "inked" pixels; particle i of n takes the pixel at (i + jitter) / n
+// along the cumulative weight, so any particle count spreads evenly over the shape (and denser where
+// the ink is stronger). Positions and colors come from the same pixel, so foliage can wear the picture.
+
+export type SampleMode = 'ALPHA' | 'LUMINANCE' | 'DARKNESS';
+
+// In picker order; labels are in the locale catalogs as sampleMode.*
+export const SAMPLE_MODES: SampleMode[] = ['ALPHA', 'LUMINANCE', 'DARKNESS'];
+
+export interface ParticleSample {
+    cumulative: Float32Array; // Running total of ink weight
+    pixels: Uint32Array;      // Raster index of each inked pixel
+    rgba: Uint8ClampedArray;  // Raster colors
+    width: number;            // Raster size
+    scale: number;            // World units per raster pixel
+    centerX: number;          // Raster center of the ink bounds
+    centerY: number;
+}
+
+// The app's fonts, by CSS family (the Chinese font is appended for CJK text)
+export const PARTICLE_FONTS: { label: string; family: string }[] = [
+    { label: 'Cinzel Luxury', family: "'Cinzel', serif" },
+    { label: 'Festive Mountain', family: "'Mountains of Christmas', cursive" },
+    { label: 'Playfair Display', family: "'Playfair Display', serif" },
+    { label: 'Great Vibes', family: "'Great Vibes', cursive" },
+    { label: 'Damion', family: "'Damion', cursive" },
+];
+
+export const MAX_PARTICLE_TEXT_LENGTH = 24;
+
+const RASTER_SIZE = 320;   // Longest side of the sampled raster
+const TEXT_FONT_SIZE = 160;
+const MIN_WEIGHT = 0.15;   // Fainter pixels are background
+
+// Area the shape is fitted into, in front of the camera
+const FIT_WIDTH = 22;
+const FIT_HEIGHT = 14;
+
+// --- Rasterizing ---
+
+const getWeight = (data: Uint8ClampedArray, p: number, mode: SampleMode) => {
+    const alpha = data[p + 3] / 255;
+    if (mode === 'ALPHA') return alpha > 0.5 ? 1 : 0;
+    const luminance = (0.2126 * data[p] + 0.7152 * data[p + 1] + 0.0722 * data[p + 2]) / 255;
+    return (mode === 'LUMINANCE' ? luminance : 1 - luminance) * alpha;
+};
+
+/** Samples a drawn canvas. Returns null when nothing in it counts as ink for the mode. */
+const sampleCanvas = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, mode: SampleMode): ParticleSample | null => {
+    const fit = Math.min(1, RASTER_SIZE / Math.max(sourceWidth, sourceHeight));
+    const width = Math.max(1, Math.round(sourceWidth * fit));
+    const height = Math.max(1, Math.round(sourceHeight * fit));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const cumulative: number[] = [];
+    const pixels: number[] = [];
+    let total = 0;
+    let minX = width, maxX = 0, minY = height, maxY = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = y * width + x;
+            const weight = getWeight(data, index * 4, mode);
+            if (weight < MIN_WEIGHT) continue;
+            total += weight;
+            cumulative.push(total);
+            pixels.push(index);
+            minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+        }
+    }
+    if (pixels.length === 0) return null;
+
+    // Fit the ink bounds (not the whole raster) so short text and small subjects fill the view
+    const inkWidth = maxX - minX + 1;
+    const inkHeight = maxY - minY + 1;
+    return {
+        cumulative: Float32Array.from(cumulative),
+        pixels: Uint32Array.from(pixels),
+        rgba: data,
+        width,
+        scale: Math.min(FIT_WIDTH / inkWidth, FIT_HEIGHT / inkHeight),
+        centerX: (minX + maxX + 1) / 2,
+        centerY: (minY + maxY + 1) / 2,
+    };
+};
+
+const hasTransparency = (image: ImageBitmap) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 64;
+    canvas.height = 64;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return false;
+    ctx.drawImage(image, 0, 0, 64, 64);
+    const { data } = ctx.getImageData(0, 0, 64, 64);
+    let transparent = 0;
+    for (let p = 3; p < data.length; p += 4) {
+        if (data[p] < 200) transparent++;
+    }
+    return transparent > (64 * 64) * 0.02;
+};
+
+/** Rasterizes one line of text in one of the app's fonts, filled with `color`. */
+export const sampleText = async (text: string, family: string, color: string): Promise<ParticleSample | null> => {
+    const line = text.trim().slice(0, MAX_PARTICLE_TEXT_LENGTH);
+    if (!line) return null;
+
+    const fontFamily = /[\u4E00-\u9FFF]/.test(line) ? `'Chinese', ${family}` : family;
+    const font = `bold ${TEXT_FONT_SIZE}px ${fontFamily}`;
+    try {
+        // Web fonts load lazily; without this the first text falls back to a system font
+        await document.fonts.load(font, line);
+    } catch (e) {
+        console.warn('Font not available for particle text, using fallback:', e);
+    }
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.font = font;
+    const padding = TEXT_FONT_SIZE * 0.25;
+    canvas.width = Math.ceil(ctx.measureText(line).width + padding * 2);
+    canvas.height = Math.ceil(TEXT_FONT_SIZE * 1.4);
+
+    // Resizing the canvas resets its state
+    ctx.font = font;
+    ctx.fillStyle = color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(line, canvas.width / 2, canvas.height / 2);
+
+    return sampleCanvas(canvas, canvas.width, canvas.height, 'ALPHA');
+};
+
+/**
+ * Rasterizes a picture. Without a mode, pictures with transparency are traced by their silhouette
+ * and others by brightness. Throws an Error with a user-facing message if the file can't be used.
+ */
+export const sampleImage = async (file: Blob, mode?: SampleMode): Promise<{ sample: ParticleSample; mode: SampleMode }> => {
+    let image: ImageBitmap;
+    try {
+        image = await createImageBitmap(file);
+    } catch (e) {
+        console.warn('Failed to decode image for particles:', e);
+        throw new Error(t('error.imageUnreadable'));
+    }
+
+    try {
+        const resolvedMode = mode ?? (hasTransparency(image) ? 'ALPHA' : 'LUMINANCE');
+        const sample = sampleCanvas(image, image.width, image.height, resolvedMode);
+        if (!sample) throw new Error(t('error.nothingToTrace'));
+        return { sample, mode: resolvedMode };
+    } finally {
+        image.close();
+    }
+};
+
+// --- Sampling ---
+
+// Deterministic 0-1 noise, so a particle's position and color come from the same pixel
+const hash = (n: number) => {
+    const x = Math.sin(n * 12.9898 + 78.233) * 43758.5453;
+    return x - Math.floor(x);
+};
+
+const findPixel = (sample: ParticleSample, u: number) => {
+    const { cumulative } = sample;
+    const target = u * cumulative[cumulative.length - 1];
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (cumulative[mid] < target) low = mid + 1;
+        else high = mid;
+    }
+    return sample.pixels[low];
+};
+
+// Per layer: noise seed and depth, so lights and ornaments sit on the shape in front of the foliage
+const LAYER_SEEDS: Record<FormationLayer, number> = { FOLIAGE: 0, LIGHTS: 101, ORNAMENTS: 211, PHOTOS: 307 };
+const LAYER_DEPTH: Record<FormationLayer, number> = { FOLIAGE: 0, LIGHTS: 0.4, ORNAMENTS: 0.9, PHOTOS: 1.5 };
+const DEPTH_JITTER = 0.8;
+
+const PHOTO_ROW = { spacing: 2.6, perRow: 9, rowHeight: 3.4 };
+
+export const createSampledFormation = (label: string, sample: ParticleSample): Formation => {
+    const pixelOf = (i: number, count: number, seed: number) => findPixel(sample, (i + hash(i + seed)) / count);
+
+    return {
+        label,
+        star: null,
+        frontFacing: true,
+        target: (i, count, ctx, out) => {
+            if (ctx.layer === 'PHOTOS') {
+                // Photos line up underneath the shape
+                const row = Math.floor(i / PHOTO_ROW.perRow);
+                const rowLength = Math.min(PHOTO_ROW.perRow, count - row * PHOTO_ROW.perRow);
+                return out.set(
+                    ((i % PHOTO_ROW.perRow) - (rowLength - 1) / 2) * PHOTO_ROW.spacing,
+                    -FIT_HEIGHT / 2 - 2.5 - row * PHOTO_ROW.rowHeight,
+                    LAYER_DEPTH.PHOTOS
+                );
+            }
+            const seed = LAYER_SEEDS[ctx.layer] + ctx.phase * 37;
+            const pixel = pixelOf(i, count, seed);
+            const x = pixel % sample.width + hash(i * 1.7 + seed);
+            const y = Math.floor(pixel / sample.width) + hash(i * 2.3 + seed);
+            return out.set(
+                (x - sample.centerX) * sample.scale,
+                (sample.centerY - y) * sample.scale,
+                LAYER_DEPTH[ctx.layer] + (hash(i * 3.1 + seed) - 0.5) * DEPTH_JITTER
+            );
+        },
+        color: (i, count, ctx, out) => {
+            const p = pixelOf(i, count, LAYER_SEEDS[ctx.layer] + ctx.phase * 37) * 4;
+            const { rgba } = sample;
+            return out.setRGB(rgba[p] / 255, rgba[p + 1] / 255, rgba[p + 2] / 255, THREE.SRGBColorSpace);
+        },
+    };
+};
@@ -0,0 +1,58 @@
+// Minimal PDF writer: one page showing one JPEG edge to edge. Generated in the browser, nothing is uploaded.
+// PDF viewers decode the JPEG themselves (DCTDecode), so the image bytes are embedded untouched.
+
+const encoder = new TextEncoder();
+
+// Points (1/72 inch) with at most two decimals, as PDF numbers
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+export const createImagePdf = (
+  jpeg: Uint8Array,
+  imageWidth: number,
+  imageHeight: number,
+  pageWidth: number, // Points
+  pageHeight: number
+): Blob => {
+  const content = `q\n${num(pageWidth)} 0 0 ${num(pageHeight)} 0 0 cm\n/Im0 Do\nQ\n`;
+
+  // Each object is a list of parts, so the image stream stays binary
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream',
+    ],
+    [`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}endstream`],
+  ];
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment tells transfer tools the file is not plain text
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  const offsets: number[] = [];
+  objects.forEach((parts, i) => {
+    offsets.push(length);
+    write(`${i + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+  });
+
+  // Cross-reference entries are exactly 20 bytes each
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
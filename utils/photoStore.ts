@@ -0,0 +1,88 @@
+// IndexedDB-backed store for uploaded photos.
+// Keeps the original blobs (not blob: URLs, which die on reload) together with their order,
+// so the decorated tree survives a refresh. Every call fails soft: if IndexedDB is missing
+// or blocked, the app simply behaves as before and shows the photos for this session only.
+
+import { PHOTO_STORE, runTransaction, getAvailableBytes } from './localDb';
+
+// Our own budget for stored photos, on top of whatever the browser grants us
+export const MAX_PHOTO_STORE_BYTES = 80 * 1024 * 1024;
+
+interface StoredPhoto {
+    order: number;
+    blob: Blob;
+    name: string;
+    caption?: string; // Missing on photos stored before captions existed
+}
+
+export interface LoadedPhoto {
+    order: number; // Row key, for savePhotoCaption
+    blob: Blob;
+    caption: string | null; // null = never captioned, use the default
+}
+
+/** Returns the stored photos in upload order (empty if nothing is stored or the store is unavailable). */
+export const loadPhotos = async (): Promise<LoadedPhoto[]> => {
+    try {
+        const rows = await runTransaction<StoredPhoto[]>(PHOTO_STORE, 'readonly', store => store.getAll());
+        return (rows ?? [])
+            .sort((a, b) => a.order - b.order)
+            .map(row => ({ order: row.order, blob: row.blob, caption: row.caption ?? null }));
+    } catch (e) {
+        console.warn('Failed to load stored photos:', e);
+        return [];
+    }
+};
+
+/**
+ * Replaces the stored photos with the given files (and their captions), in order.
+ * Files that don't fit in the quota are skipped (they still show for this session).
+ * Each row is keyed by the file's index in `files`, which is what `savePhotoCaption` expects.
+ */
+export const savePhotos = async (files: File[], captions: string[] = []): Promise<void> => {
+    const kept: StoredPhoto[] = [];
+    // The rows about to be cleared make room for their replacements
+    const replaced = (await loadPhotos()).reduce((sum, row) => sum + row.blob.size, 0);
+    let remaining = await getAvailableBytes(MAX_PHOTO_STORE_BYTES, replaced);
+
+    files.forEach((file, order) => {
+        if (file.size > remaining) {
+            console.warn(`Photo "${file.name}" skipped: storage quota reached`);
+            return;
+        }
+        remaining -= file.size;
+        kept.push({ order, blob: file, name: file.name, caption: captions[order] });
+    });
+
+    try {
+        await runTransaction(PHOTO_STORE, 'readwrite', store => {
+            store.clear();
+            kept.forEach(row => store.put(row));
+        });
+    } catch (e) {
+        console.warn('Failed to store photos, they will not survive a reload:', e);
+    }
+};
+
+/** Updates the caption of one stored photo (no-op if that photo wasn't stored). */
+export const savePhotoCaption = async (order: number, caption: string): Promise<void> => {
+    try {
+        await runTransaction(PHOTO_STORE, 'readwrite', store => {
+            const request = store.get(order);
+            request.onsuccess = () => {
+                const row = request.result as StoredPhoto | undefined;
+                if (row) store.put({ ...row, caption });
+            };
+        });
+    } catch (e) {
+        console.warn('Failed to store photo caption:', e);
+    }
+};
+
+export const clearPhotos = async (): Promise<void> => {
+    try {
+        await runTransaction(PHOTO_STORE, 'readwrite', store => store.clear());
+    } catch (e) {
+        console.warn('Failed to clear stored photos:', e);
+    }
+};
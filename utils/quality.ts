@@ -0,0 +1,54 @@
+import { QualityTier, QualityTierId } from '../types';
+
+// Quality tiers, lowest first. The governor (components/QualityGovernor.tsx) steps through them
+// from measured frame times; the developer panel can pin one.
+// HIGH matches what the scene always rendered on desktop, LOW roughly the old mobile settings.
+
+export const QUALITY_TIERS: Record<QualityTierId, QualityTier> = {
+    LOW: {
+        id: 'LOW',
+        name: 'Low',
+        dpr: [0.75, 1],
+        foliageScale: 0.4,
+        snowScale: 0.5,
+        bloomMipmapBlur: false,
+        bloomScale: 0.7,
+        shadows: false,
+        starCount: 800,
+        detectionInterval: 180,
+    },
+    MEDIUM: {
+        id: 'MEDIUM',
+        name: 'Medium',
+        dpr: [1, 1],
+        foliageScale: 0.7,
+        snowScale: 0.75,
+        bloomMipmapBlur: true,
+        bloomScale: 0.85,
+        shadows: false,
+        starCount: 1800,
+        detectionInterval: 130,
+    },
+    HIGH: {
+        id: 'HIGH',
+        name: 'High',
+        dpr: [1, 1.25],
+        foliageScale: 1,
+        snowScale: 1,
+        bloomMipmapBlur: true,
+        bloomScale: 1,
+        shadows: true,
+        starCount: 3000,
+        detectionInterval: 100,
+    },
+};
+
+export const QUALITY_TIER_IDS = Object.keys(QUALITY_TIERS) as QualityTierId[];
+
+/** The next tier up (step 1) or down (step -1), or null at either end. */
+export const getAdjacentTier = (id: QualityTierId, step: 1 | -1): QualityTierId | null =>
+    QUALITY_TIER_IDS[QUALITY_TIER_IDS.indexOf(id) + step] ?? null;
+
+/** Starting guess before any frames are measured: small screens are usually slower devices. */
+export const getInitialQualityTier = (): QualityTierId =>
+    typeof window !== 'undefined' && window.innerWidth < 768 ? 'LOW' : 'HIGH';
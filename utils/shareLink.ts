@@ -0,0 +1,223 @@
+import { SCENE_DEFAULTS, SceneConfig, DEFAULT_IMAGES, MAX_CAPTION_LENGTH, GIFT_BOX_COUNT, MAX_GIFT_MESSAGE_LENGTH, getDefaultCaption } from './defaults';
+import { ThemeId, FormationId } from '../types';
+import { DEFAULT_THEME_ID, isThemeId } from './themes';
+import { isTreeShapeKind, parseTreeProfile } from './treeShape';
+import { isLightProgramId } from './lightPatterns';
+import { isCountdownMode, isTimeZone, COUNTDOWN_DATE_PATTERN } from './countdown';
+import { DEFAULT_FORMATION, isFormationId } from './formations';
+
+// Shareable scene links.
+// The whole configurable scene is packed into the URL hash as `#tree=<version>.<payload>`,
+// where payload is base64url-encoded JSON using short keys to keep links compact.
+// Anything we can't read (old version, truncated link, bad values) falls back to defaults.
+
+export interface SharedScene {
+    config: SceneConfig;
+    themeId: ThemeId;
+    // Captions of the default photos by index (uploaded photos never leave the device), null = defaults
+    captions: string[] | null;
+    targetMix: number;
+    formation: FormationId;
+    // Gift box messages by box index ('' = empty box); gift photos, like uploaded photos, stay on the device
+    giftMessages: string[] | null;
+}
+
+const HASH_PARAM = 'tree';
+const SHARE_VERSION = 1;
+
+// Short keys used in the payload. Typed against SceneConfig so a new config
+// field can't be added without also deciding how it is shared.
+const CONFIG_KEYS: Record<keyof SceneConfig, string> = {
+    snowSize: 'ss',
+    snowCount: 'sc',
+    foliageSize: 'fs',
+    foliageCount: 'fc',
+    photoScale: 'ps',
+    ballScale: 'bs',
+    ballVariance: 'bv',
+    starScale: 'st',
+    treeShape: 'sh',
+    treeProfile: 'sp',
+    lightShow: 'ls',
+    snowSettles: 'sa',
+    snowGround: 'sg',
+    windStrength: 'ws',
+    windDirection: 'wd',
+    windGustiness: 'wg',
+    countdown: 'cd',
+    countdownDate: 'cx',
+    countdownZone: 'cz',
+    titleText: 'tt',
+    titleFont: 'tf',
+};
+
+// Developer Panel slider ranges (widened where a default sits outside them),
+// so a hand-edited link can't request e.g. a million particles.
+const NUMBER_LIMITS: Partial<Record<keyof SceneConfig, [number, number]>> = {
+    snowSize: [0.5, 20],
+    snowCount: [100, 10000],
+    foliageSize: [1, 20],
+    foliageCount: [1000, 150000],
+    photoScale: [0.5, 2.5],
+    ballScale: [0.1, 3],
+    ballVariance: [0, 1],
+    starScale: [1, 20],
+    windStrength: [0, 5],
+    windDirection: [0, 360],
+    windGustiness: [0, 1],
+};
+
+const TEXT_LIMITS = {
+    titleText: 25,
+    treeProfile: 80,
+    caption: MAX_CAPTION_LENGTH,
+    giftMessage: MAX_GIFT_MESSAGE_LENGTH,
+};
+
+const MAX_SHARED_CAPTIONS = 30;
+
+const FONT_CLASS = /^font-[a-z]+$/;
+
+// --- Base64url helpers (UTF-8 safe, so Chinese titles survive) ---
+
+const toBase64Url = (text: string) => {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+};
+
+// --- Encoding ---
+
+export const encodeScene = (scene: SharedScene): string => {
+    const c: Record<string, string | number | boolean> = {};
+    (Object.keys(CONFIG_KEYS) as (keyof SceneConfig)[]).forEach(key => {
+        // Only store values that differ from the defaults
+        if (scene.config[key] !== SCENE_DEFAULTS[key]) {
+            c[CONFIG_KEYS[key]] = scene.config[key];
+        }
+    });
+
+    // Captions only when someone actually changed them
+    const captions = scene.captions?.slice(0, MAX_SHARED_CAPTIONS);
+    const hasCustomCaptions = !!captions && captions.some((caption, i) => caption !== getDefaultCaption(i));
+
+    // Gift messages as { boxIndex: message }, only for boxes that hold one
+    const giftMessages = Object.fromEntries(
+        (scene.giftMessages ?? []).map((message, i) => [i, message] as const).filter(([, message]) => message)
+    );
+
+    const payload = {
+        c,
+        t: scene.themeId !== DEFAULT_THEME_ID ? scene.themeId : undefined,
+        p: hasCustomCaptions ? captions : undefined,
+        m: scene.targetMix,
+        f: scene.formation !== DEFAULT_FORMATION ? scene.formation : undefined,
+        g: Object.keys(giftMessages).length > 0 ? giftMessages : undefined,
+    };
+
+    return `${SHARE_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+};
+
+export const buildShareUrl = (scene: SharedScene): string => {
+    const url = new URL(window.location.href);
+    url.hash = `${HASH_PARAM}=${encodeScene(scene)}`;
+    return url.toString();
+};
+
+// --- Decoding ---
+
+const readConfig = (raw: unknown, base: SceneConfig): SceneConfig => {
+    const config = { ...base };
+    if (!raw || typeof raw !== 'object') return config;
+    const source = raw as Record<string, unknown>;
+
+    (Object.keys(CONFIG_KEYS) as (keyof SceneConfig)[]).forEach(key => {
+        const value = source[CONFIG_KEYS[key]];
+        if (value === undefined) return;
+
+        if (typeof SCENE_DEFAULTS[key] === 'number') {
+            if (typeof value !== 'number' || !Number.isFinite(value)) return;
+            const limits = NUMBER_LIMITS[key];
+            (config as Record<string, unknown>)[key] = limits ? Math.min(Math.max(value, limits[0]), limits[1]) : value;
+        } else if (typeof SCENE_DEFAULTS[key] === 'boolean') {
+            if (typeof value === 'boolean') (config as Record<string, unknown>)[key] = value;
+        } else if (typeof value === 'string') {
+            if (key === 'titleFont' && !FONT_CLASS.test(value)) return;
+            if (key === 'treeShape' && !isTreeShapeKind(value)) return;
+            if (key === 'lightShow' && !isLightProgramId(value)) return;
+            if (key === 'countdown' && !isCountdownMode(value)) return;
+            if (key === 'countdownDate' && value && !COUNTDOWN_DATE_PATTERN.test(value)) return;
+            if (key === 'countdownZone' && !isTimeZone(value)) return;
+            if (key === 'treeProfile' && (value.length > TEXT_LIMITS.treeProfile || !parseTreeProfile(value))) return;
+            (config as Record<string, unknown>)[key] = key === 'titleText' ? value.slice(0, TEXT_LIMITS.titleText) : value;
+        }
+    });
+    return config;
+};
+
+const readCaptions = (payload: Record<string, unknown>, base: string[] | null): string[] | null => {
+    if (Array.isArray(payload.p)) {
+        return payload.p
+            .slice(0, MAX_SHARED_CAPTIONS)
+            .map((caption, i) => typeof caption === 'string' ? caption.slice(0, TEXT_LIMITS.caption) : getDefaultCaption(i));
+    }
+    // Older links carried one signature for every polaroid
+    if (typeof payload.s === 'string') {
+        const signature = payload.s.slice(0, TEXT_LIMITS.caption);
+        return DEFAULT_IMAGES.map(() => signature);
+    }
+    return base;
+};
+
+const readGiftMessages = (raw: unknown, base: string[] | null): string[] | null => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return base;
+    const messages: string[] = Array(GIFT_BOX_COUNT).fill('');
+    Object.entries(raw as Record<string, unknown>).forEach(([key, message]) => {
+        const index = Number(key);
+        if (!Number.isInteger(index) || index < 0 || index >= GIFT_BOX_COUNT || typeof message !== 'string') return;
+        messages[index] = message.slice(0, TEXT_LIMITS.giftMessage);
+    });
+    return messages;
+};
+
+/**
+ * Parses a `#tree=...` hash. Returns null when there is no share payload or it can't be read,
+ * so callers can keep their own defaults. `base` supplies values for anything the link omits.
+ */
+export const decodeScene = (hash: string, base: SharedScene): SharedScene | null => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const value = params.get(HASH_PARAM);
+    if (!value) return null;
+
+    const dot = value.indexOf('.');
+    if (dot < 0 || Number(value.slice(0, dot)) !== SHARE_VERSION) {
+        console.warn('Unsupported share link version, using defaults');
+        return null;
+    }
+
+    try {
+        const payload = JSON.parse(fromBase64Url(value.slice(dot + 1)));
+        if (!payload || typeof payload !== 'object') return null;
+
+        return {
+            config: readConfig(payload.c, base.config),
+            // Older links carried raw tree colors (`k`), which were always the classic ones
+            themeId: isThemeId(payload.t) ? payload.t : base.themeId,
+            captions: readCaptions(payload, base.captions),
+            targetMix: payload.m === 0 ? 0 : 1,
+            formation: isFormationId(payload.f) ? payload.f : base.formation,
+            giftMessages: readGiftMessages(payload.g, base.giftMessages),
+        };
+    } catch (e) {
+        console.warn('Failed to read share link, using defaults', e);
+        return null;
+    }
+};
@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { TreeShape } from './treeShape';
+
+// Settled snow: coverage maps for the tree surface and the ground, built up by landing flakes.
+// Flakes fall in shaders, so landings are counted statistically: Snow's box sheds `count / FALL_PERIOD`
+// flakes per second, each at a random column of the box. A column inside the tree's outline lands on the
+// highest part of the surface above it, the rest on the ground. Dispersing the tree shakes its snow off
+// onto the ground underneath.
+// The tree map is indexed by angle around the trunk (u) and height fraction (v) in the tree's own frame,
+// the ground map by world x/z.
+
+export interface SnowCover {
+    treeMap: THREE.DataTexture;
+    groundMap: THREE.DataTexture;
+    groundRadius: number;
+    update: (delta: number, state: SnowCoverState) => void;
+    dispose: () => void;
+}
+
+export interface SnowCoverState {
+    flakeCount: number;  // Flakes in the Snow box
+    treeRotation: number; // Radians, the tree group's y rotation
+    treeMix: number;     // Eased assemble progress (0 scattered, 1 formed)
+    onTree: boolean;     // False while another formation than the tree is showing
+    ground: boolean;     // Whether the ground catches snow
+}
+
+const TREE_MAP = { width: 64, height: 32 };
+const GROUND_MAP_SIZE = 64;
+const GROUND_RADIUS = 22;
+
+// Matches Snow's spawn box and average fall speed
+const BOX = { width: 50, depth: 40 };
+const FALL_PERIOD = 15; // Seconds for a flake to cross the box
+
+const TREE_DEPOSIT = 0.25;   // Peak coverage added by one flake (splats are a few cells wide)
+const GROUND_DEPOSIT = 0.2;
+const SHAKE_RATE = 4;        // Per second, while scattered
+const SHAKE_PER_SPLAT = 3;  // Tree coverage (summed over cells) that makes one ground splat when shaken off
+
+const createMap = (width: number, height: number, wrap: THREE.Wrapping) => {
+    const texture = new THREE.DataTexture(new Uint8Array(width * height * 4), width, height, THREE.RGBAFormat);
+    texture.wrapS = wrap;
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearFilter;
+    texture.needsUpdate = true;
+    return texture;
+};
+
+/** Adds a soft round splat of `amount` at map cell (x, y); wraps horizontally for the tree. */
+const splat = (cover: Float32Array, width: number, height: number, x: number, y: number, amount: number, wrapX: boolean) => {
+    const radius = 2;
+    for (let dy = -radius; dy <= radius; dy++) {
+        const cy = Math.round(y) + dy;
+        if (cy < 0 || cy >= height) continue;
+        for (let dx = -radius; dx <= radius; dx++) {
+            let cx = Math.round(x) + dx;
+            if (wrapX) cx = (cx + width) % width;
+            else if (cx < 0 || cx >= width) continue;
+            const falloff = Math.exp(-(dx * dx + dy * dy) / 2);
+            const i = cy * width + cx;
+            cover[i] = Math.min(1, cover[i] + amount * falloff);
+        }
+    }
+};
+
+const upload = (cover: Float32Array, texture: THREE.DataTexture) => {
+    const data = texture.image.data as Uint8Array;
+    for (let i = 0; i < cover.length; i++) {
+        data[i * 4] = cover[i] * 255;
+    }
+    texture.needsUpdate = true;
+};
+
+export const createSnowCover = (shape: TreeShape): SnowCover => {
+    const treeMap = createMap(TREE_MAP.width, TREE_MAP.height, THREE.RepeatWrapping);
+    const groundMap = createMap(GROUND_MAP_SIZE, GROUND_MAP_SIZE, THREE.ClampToEdgeWrapping);
+    const treeCover = new Float32Array(TREE_MAP.width * TREE_MAP.height);
+    const groundCover = new Float32Array(GROUND_MAP_SIZE * GROUND_MAP_SIZE);
+    let pending = 0; // Fractional landings carried between frames
+    let shaken = 0;  // Coverage shaken off the tree, still to land on the ground
+
+    const landOnGround = (x: number, z: number) => {
+        if (x * x + z * z > GROUND_RADIUS * GROUND_RADIUS) return false;
+        const toCell = (value: number) => (value / GROUND_RADIUS * 0.5 + 0.5) * GROUND_MAP_SIZE;
+        splat(groundCover, GROUND_MAP_SIZE, GROUND_MAP_SIZE, toCell(x), toCell(z), GROUND_DEPOSIT, false);
+        return true;
+    };
+
+    // Highest point of the surface above the column, as a height fraction, or null if it misses the tree
+    const surfaceAt = (radius: number, angle: number) => {
+        const steps = TREE_MAP.height * 2;
+        for (let s = steps; s >= 0; s--) {
+            const v = s / steps;
+            if (shape.radiusAt(v, angle) >= radius) return v;
+        }
+        return null;
+    };
+
+    return {
+        treeMap,
+        groundMap,
+        groundRadius: GROUND_RADIUS,
+        update: (frameDelta, state) => {
+            const delta = Math.min(frameDelta, 0.1); // A long pause shouldn't dump a blizzard at once
+            let treeChanged = false;
+            let groundChanged = false;
+
+            pending += state.flakeCount / FALL_PERIOD * delta;
+            const catching = state.onTree && state.treeMix > 0.9;
+            while (pending >= 1) {
+                pending--;
+                const x = (Math.random() - 0.5) * BOX.width;
+                const z = (Math.random() - 0.5) * BOX.depth;
+                const radius = Math.sqrt(x * x + z * z);
+                // Into the tree's own frame: rotating the group by θ turns atan2(z, x) by -θ
+                const angle = Math.atan2(z, x) + state.treeRotation;
+                const v = catching && radius < shape.radius ? surfaceAt(radius, angle) : null;
+                if (v !== null) {
+                    const u = ((angle / (Math.PI * 2) + 0.5) % 1 + 1) % 1;
+                    splat(treeCover, TREE_MAP.width, TREE_MAP.height, u * TREE_MAP.width, v * (TREE_MAP.height - 1), TREE_DEPOSIT, true);
+                    treeChanged = true;
+                } else if (state.ground) {
+                    groundChanged = landOnGround(x, z) || groundChanged;
+                }
+            }
+
+            // Scattered: the settled snow falls off
+            if (state.treeMix < 0.5) {
+                const keep = Math.exp(-SHAKE_RATE * delta);
+                for (let i = 0; i < treeCover.length; i++) {
+                    if (treeCover[i] === 0) continue;
+                    shaken += treeCover[i] * (1 - keep);
+                    treeCover[i] = treeCover[i] * keep < 0.004 ? 0 : treeCover[i] * keep;
+                    treeChanged = true;
+                }
+            }
+            if (!state.ground) shaken = 0;
+            while (shaken >= SHAKE_PER_SPLAT) {
+                shaken -= SHAKE_PER_SPLAT;
+                const r = Math.sqrt(Math.random()) * shape.radius;
+                const a = Math.random() * Math.PI * 2;
+                groundChanged = landOnGround(r * Math.cos(a), r * Math.sin(a)) || groundChanged;
+            }
+
+            if (treeChanged) upload(treeCover, treeMap);
+            if (groundChanged) upload(groundCover, groundMap);
+        },
+        dispose: () => {
+            treeMap.dispose();
+            groundMap.dispose();
+        },
+    };
+};
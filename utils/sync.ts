@@ -0,0 +1,391 @@
+// Multi-device sync: a second device (usually a phone) drives the display running the scene.
+// Devices pair through a short code and talk over a pluggable transport: a BroadcastChannel between
+// windows on the same machine, or a WebSocket to the bundled relay (scripts/sync-relay.js).
+//
+// Shared state is a last-writer-wins map: every key carries a Lamport clock and the id of the peer
+// that wrote it, and merging keeps the entry with the higher (clock, peer). The merge is commutative
+// and idempotent, so devices that edit at the same time (or offline) end up with the same state in
+// whatever order their messages arrive. Rotation and zoom are plain commands instead: they are
+// nudges to the scene, not state worth converging on.
+
+export type SyncRole = 'DISPLAY' | 'REMOTE';
+export type SyncTransportKind = 'BROADCAST' | 'RELAY';
+export type SyncStatus = 'CONNECTING' | 'OPEN' | 'ERROR';
+export type SyncValue = string | number | boolean;
+
+// Shared keys: tree state, theme and formation, the number of photos on the display and one caption per photo
+export type SyncKey = 'targetMix' | 'themeId' | 'formation' | 'photoCount' | `caption.${number}`;
+
+export interface SyncEntry {
+    value: SyncValue;
+    clock: number; // Lamport clock of the write
+    peer: string;  // Writer, breaks clock ties
+}
+
+export type SyncEntries = Record<string, SyncEntry>;
+
+export type SyncCommand =
+    | { kind: 'ROTATE'; radians: number }
+    | { kind: 'ZOOM'; amount: number }; // Camera distance, positive zooms out
+
+export interface SyncPhoto {
+    name: string;
+    dataUrl: string; // Re-encoded JPEG, see encodePhoto
+}
+
+type SyncPayload =
+    | { type: 'HELLO'; role: SyncRole; reply?: boolean } // Replies aren't answered, so two peers greet once
+    | { type: 'BYE' }
+    | { type: 'STATE'; entries: SyncEntries }
+    | { type: 'COMMAND'; command: SyncCommand }
+    | { type: 'PHOTOS'; photos: SyncPhoto[]; batch: string; index: number; total: number }; // One part of a sendPhotos call
+
+export type SyncMessage = SyncPayload & { from: string };
+
+export interface SyncTransportEvents {
+    onMessage: (message: SyncMessage) => void;
+    onStatus: (status: SyncStatus) => void;
+}
+
+export interface SyncTransport {
+    send: (message: SyncMessage) => void;
+    close: () => void;
+}
+
+export const captionKey = (index: number): SyncKey => `caption.${index}`;
+
+// Photo index of a caption key, null for other keys
+export const parseCaptionKey = (key: string): number | null => {
+    const match = /^caption\.(\d+)$/.exec(key);
+    return match ? Number(match[1]) : null;
+};
+
+// --- Pairing ---
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to misread
+export const PAIRING_CODE_LENGTH = 6;
+
+export const createPairingCode = () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(PAIRING_CODE_LENGTH));
+    return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+};
+
+// Typed codes may have spaces, dashes or lower case
+export const normalizePairingCode = (input: string) => input.toUpperCase().replace(/[\s-]/g, '');
+
+export const isPairingCode = (code: string) =>
+    code.length === PAIRING_CODE_LENGTH && [...code].every(char => CODE_ALPHABET.includes(char));
+
+export const RELAY_PORT = 8787;
+
+// The relay usually runs on the machine serving the app
+export const getDefaultRelayUrl = () =>
+    typeof window === 'undefined' ? `ws://localhost:${RELAY_PORT}` : `ws://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+/** Link that opens this app as a remote for the session (`relayUrl` null = same-machine windows). */
+export const buildRemoteUrl = (code: string, relayUrl: string | null) => {
+    const url = new URL(window.location.href);
+    url.hash = '';
+    url.search = '';
+    url.searchParams.set('remote', code);
+    if (relayUrl) url.searchParams.set('relay', relayUrl);
+    return url.toString();
+};
+
+/** Remote parameters from the page's query string, or null when the page isn't opened as a remote. */
+export const readRemoteParams = (search: string): { code: string; relayUrl: string | null } | null => {
+    const params = new URLSearchParams(search);
+    if (!params.has('remote')) return null;
+    return { code: normalizePairingCode(params.get('remote') ?? ''), relayUrl: params.get('relay') || null };
+};
+
+// --- Transports ---
+
+const isSyncMessage = (data: unknown): data is SyncMessage =>
+    !!data && typeof data === 'object' &&
+    typeof (data as SyncMessage).type === 'string' &&
+    typeof (data as SyncMessage).from === 'string';
+
+// Windows of this app on the same machine (same origin), one channel per pairing code
+export const createBroadcastTransport = (code: string, events: SyncTransportEvents): SyncTransport | null => {
+    if (typeof BroadcastChannel === 'undefined') {
+        console.warn('BroadcastChannel not supported, same-device sync unavailable');
+        return null;
+    }
+    const channel = new BroadcastChannel(`christmas-tree-sync-${code}`);
+    channel.onmessage = (e) => {
+        if (isSyncMessage(e.data)) events.onMessage(e.data);
+    };
+    // Nothing to connect to: the channel is usable at once
+    window.setTimeout(() => events.onStatus('OPEN'), 0);
+
+    return {
+        send: (message) => channel.postMessage(message),
+        close: () => channel.close(),
+    };
+};
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 10000;
+
+// WebSocket to the relay, which forwards every message to the other sockets in the same room (pairing code).
+// Drops are retried with backoff; messages sent while disconnected are dropped (state is re-sent on reconnect).
+export const createRelayTransport = (relayUrl: string, code: string, events: SyncTransportEvents): SyncTransport => {
+    let socket: WebSocket | null = null;
+    let retryTimer: number | null = null;
+    let attempts = 0;
+    let isClosed = false;
+
+    const connect = () => {
+        let url: URL;
+        try {
+            url = new URL(relayUrl);
+            if (url.protocol !== 'ws:' && url.protocol !== 'wss:') throw new Error(`Not a WebSocket URL: ${relayUrl}`);
+            url.searchParams.set('room', code);
+            socket = new WebSocket(url);
+        } catch (e) {
+            console.warn('Sync relay unavailable:', e);
+            events.onStatus('ERROR');
+            return;
+        }
+
+        events.onStatus('CONNECTING');
+        socket.onopen = () => {
+            attempts = 0;
+            events.onStatus('OPEN');
+        };
+        socket.onmessage = (e) => {
+            try {
+                const data = JSON.parse(e.data);
+                if (isSyncMessage(data)) events.onMessage(data);
+            } catch (err) {
+                console.warn('Ignoring malformed sync message:', err);
+            }
+        };
+        socket.onclose = () => {
+            socket = null;
+            if (isClosed) return;
+            events.onStatus('CONNECTING');
+            const delay = Math.min(RECONNECT_MIN_MS * 2 ** attempts, RECONNECT_MAX_MS);
+            attempts++;
+            retryTimer = window.setTimeout(connect, delay);
+        };
+    };
+    connect();
+
+    return {
+        send: (message) => {
+            if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+        },
+        close: () => {
+            isClosed = true;
+            if (retryTimer !== null) window.clearTimeout(retryTimer);
+            socket?.close();
+        },
+    };
+};
+
+// --- Shared state ---
+
+const isNewer = (entry: SyncEntry, current: SyncEntry | undefined) =>
+    !current || entry.clock > current.clock || (entry.clock === current.clock && entry.peer > current.peer);
+
+const isSyncEntry = (entry: unknown): entry is SyncEntry => {
+    const candidate = entry as SyncEntry;
+    return !!candidate && typeof candidate === 'object' &&
+        ['string', 'number', 'boolean'].includes(typeof candidate.value) &&
+        Number.isFinite(candidate.clock) && typeof candidate.peer === 'string';
+};
+
+/** Merges `incoming` into `local` (in place) and returns the values that changed. */
+export const mergeEntries = (local: SyncEntries, incoming: SyncEntries): Record<string, SyncValue> => {
+    const changes: Record<string, SyncValue> = {};
+    Object.entries(incoming).forEach(([key, entry]) => {
+        if (!isSyncEntry(entry) || !isNewer(entry, local[key])) return;
+        const previous = local[key]?.value;
+        local[key] = { value: entry.value, clock: entry.clock, peer: entry.peer };
+        if (previous !== entry.value) changes[key] = entry.value;
+    });
+    return changes;
+};
+
+export interface SyncOptions {
+    code: string;
+    role: SyncRole;
+    transport: SyncTransportKind;
+    relayUrl?: string; // RELAY only
+}
+
+export interface SyncEvents {
+    onState?: (changes: Record<string, SyncValue>) => void; // Values changed by other devices
+    onCommand?: (command: SyncCommand) => void;
+    onPhotos?: (photos: SyncPhoto[]) => void; // Everything one sendPhotos call sent, once all its parts are in
+    onPeers?: (roles: SyncRole[]) => void; // Other devices in the session
+    onStatus?: (status: SyncStatus) => void;
+}
+
+export interface SyncSession {
+    code: string;
+    role: SyncRole;
+    get: (key: SyncKey) => SyncValue | undefined;
+    snapshot: () => Record<string, SyncValue>;
+    set: (key: SyncKey, value: SyncValue) => void; // No-op when the value is unchanged
+    command: (command: SyncCommand) => void;
+    sendPhotos: (photos: SyncPhoto[]) => void; // Split into messages the relay accepts
+    close: () => void;
+}
+
+/**
+ * Joins the session for `options.code`. The returned session is live at once: writes made before
+ * the transport opens are kept and merged into the other devices' state when it does.
+ * Returns null when the transport isn't available here.
+ */
+export const createSyncSession = (options: SyncOptions, events: SyncEvents): SyncSession | null => {
+    const peerId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    const entries: SyncEntries = {};
+    const peers = new Map<string, SyncRole>();
+    // Photo parts received so far, per sending peer; a new batch from the same peer drops an unfinished one
+    const photoBatches = new Map<string, { batch: string; parts: SyncPhoto[][]; received: number }>();
+    let clock = 0;
+
+    const reportPeers = () => events.onPeers?.([...peers.values()]);
+
+    let transport: SyncTransport | null = null;
+    const send = (payload: SyncPayload) => transport?.send({ ...payload, from: peerId } as SyncMessage);
+
+    const handleMessage = (message: SyncMessage) => {
+        if (message.from === peerId) return;
+        switch (message.type) {
+            case 'HELLO':
+                if (!peers.has(message.from)) {
+                    peers.set(message.from, message.role);
+                    reportPeers();
+                }
+                if (!message.reply) {
+                    send({ type: 'HELLO', role: options.role, reply: true });
+                    send({ type: 'STATE', entries });
+                }
+                break;
+            case 'BYE':
+                photoBatches.delete(message.from);
+                if (peers.delete(message.from)) reportPeers();
+                break;
+            case 'STATE': {
+                if (!message.entries || typeof message.entries !== 'object') return;
+                const changes = mergeEntries(entries, message.entries);
+                // Later local writes must win over everything seen so far
+                Object.values(entries).forEach(entry => { clock = Math.max(clock, entry.clock); });
+                if (Object.keys(changes).length > 0) events.onState?.(changes);
+                break;
+            }
+            case 'COMMAND':
+                if (message.command) events.onCommand?.(message.command);
+                break;
+            case 'PHOTOS': {
+                const { batch, index, total } = message;
+                if (!Array.isArray(message.photos) || typeof batch !== 'string') return;
+                if (!Number.isInteger(total) || total < 1 || total > MAX_PHOTO_MESSAGES) return;
+                if (!Number.isInteger(index) || index < 0 || index >= total) return;
+
+                let pending = photoBatches.get(message.from);
+                if (!pending || pending.batch !== batch) {
+                    // Peer ids are whatever the sender claims, so only keep a few unfinished batches around
+                    if (!pending && photoBatches.size >= MAX_PENDING_PHOTO_BATCHES) {
+                        photoBatches.delete(photoBatches.keys().next().value as string);
+                    }
+                    pending = { batch, parts: new Array(total), received: 0 };
+                    photoBatches.set(message.from, pending);
+                }
+                if (pending.parts.length !== total || pending.parts[index]) return;
+                pending.parts[index] = message.photos.slice(0, PHOTOS_PER_MESSAGE);
+                if (++pending.received < total) return;
+
+                photoBatches.delete(message.from);
+                events.onPhotos?.(pending.parts.flat());
+                break;
+            }
+        }
+    };
+
+    const transportEvents: SyncTransportEvents = {
+        onMessage: handleMessage,
+        onStatus: (status) => {
+            if (status === 'OPEN') {
+                // (Re)joining: greet, and push anything written while disconnected
+                send({ type: 'HELLO', role: options.role });
+                send({ type: 'STATE', entries });
+            } else if (peers.size > 0) {
+                peers.clear();
+                reportPeers();
+            }
+            events.onStatus?.(status);
+        },
+    };
+
+    transport = options.transport === 'RELAY'
+        ? createRelayTransport(options.relayUrl ?? getDefaultRelayUrl(), options.code, transportEvents)
+        : createBroadcastTransport(options.code, transportEvents);
+    if (!transport) return null;
+
+    // Say goodbye when the page goes away, so the other devices don't count a closed tab
+    const sayBye = () => send({ type: 'BYE' });
+    window.addEventListener('pagehide', sayBye);
+
+    return {
+        code: options.code,
+        role: options.role,
+        get: (key) => entries[key]?.value,
+        snapshot: () => Object.fromEntries(Object.entries(entries).map(([key, entry]) => [key, entry.value])),
+        set: (key, value) => {
+            if (entries[key]?.value === value) return;
+            clock++;
+            entries[key] = { value, clock, peer: peerId };
+            send({ type: 'STATE', entries: { [key]: entries[key] } });
+        },
+        command: (command) => send({ type: 'COMMAND', command }),
+        sendPhotos: (photos) => {
+            const batch = Math.random().toString(36).slice(2, 10);
+            const total = Math.ceil(photos.length / PHOTOS_PER_MESSAGE);
+            for (let index = 0; index < total; index++) {
+                const part = photos.slice(index * PHOTOS_PER_MESSAGE, (index + 1) * PHOTOS_PER_MESSAGE);
+                send({ type: 'PHOTOS', photos: part, batch, index, total });
+            }
+        },
+        close: () => {
+            window.removeEventListener('pagehide', sayBye);
+            sayBye();
+            transport?.close();
+        },
+    };
+};
+
+// --- Photos ---
+
+const PHOTO_MAX_SIDE = 1280;
+const PHOTO_QUALITY = 0.85;
+export const MAX_SYNC_PHOTOS = 30; // Per sendPhotos call, same as an upload on the display
+export const MAX_PHOTO_DATA_URL_LENGTH = 1.5 * 1024 * 1024; // Far above a 1280px JPEG at PHOTO_QUALITY
+// Photos travel in parts so each message stays under the relay's cap (MAX_MESSAGE_BYTES in scripts/sync-relay.js)
+const PHOTOS_PER_MESSAGE = 10;
+const MAX_PHOTO_MESSAGES = Math.ceil(MAX_SYNC_PHOTOS / PHOTOS_PER_MESSAGE);
+const MAX_PENDING_PHOTO_BATCHES = 4;
+
+/** Downscales a photo to a JPEG data URL small enough to send through the relay. */
+export const encodePhoto = async (file: File): Promise<SyncPhoto> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, PHOTO_MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return { name: file.name, dataUrl: canvas.toDataURL('image/jpeg', PHOTO_QUALITY) };
+};
+
+/** Turns a received photo back into a File, or null if it isn't an image or is too big to be one of ours. */
+export const decodePhoto = async (photo: SyncPhoto): Promise<File | null> => {
+    if (typeof photo?.dataUrl !== 'string' || !photo.dataUrl.startsWith('data:image/')) return null;
+    if (photo.dataUrl.length > MAX_PHOTO_DATA_URL_LENGTH) return null;
+    const blob = await (await fetch(photo.dataUrl)).blob();
+    return new File([blob], typeof photo.name === 'string' ? photo.name : 'photo.jpg', { type: blob.type });
+};
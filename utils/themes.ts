@@ -0,0 +1,81 @@
+import { Theme, ThemeId } from '../types';
+
+// Theme presets. Everything in a theme is cross-faded live by the scene components,
+// so switching themes never rebuilds the tree.
+// Ornament types without a palette here (e.g. PINECONE) use their registry default.
+
+export const THEMES: Record<ThemeId, Theme> = {
+    CLASSIC: {
+        id: 'CLASSIC',
+        name: 'Classic',
+        foliage: { bottom: '#022b1c', top: '#217a46' },
+        palettes: {
+            // The dark green balls are the ball.glb model (see ornamentRegistry), not spheres
+            BALL: ['#8B0000', '#D32F2F', '#D4AF37', '#C0C0C0', '#191970'],
+            BOX: ['#800000', '#1B5E20', '#D4AF37', '#FFFFFF', '#4B0082', '#2F4F4F', '#008080', '#8B4513', '#DC143C'],
+            STAR: ['#FFD700', '#FDB931'],
+            CRYSTAL: ['#F0F8FF', '#E0FFFF', '#B0E0E6'],
+            // Candy base stays white, the stripes come from the texture
+            CANDY: ['#FFFFFF'],
+            BELL: ['#D4AF37', '#C0C0C0', '#B22222'],
+        },
+        lights: { key: '#fff5d0', left: '#00ff00', right: '#ff0000', fill: '#ffffff' },
+        star: { color: '#FFD700', glow: '#ffeebf', emissiveIntensity: 2.0 },
+        bloom: 1.2,
+    },
+    NORDIC: {
+        id: 'NORDIC',
+        name: 'Nordic Silver',
+        foliage: { bottom: '#0d1f2a', top: '#6f8fa3' },
+        palettes: {
+            BALL: ['#C0C0C0', '#E8EEF2', '#8FA9BF', '#2E4A62', '#FFFFFF'],
+            BOX: ['#FFFFFF', '#C0C0C0', '#2E4A62', '#8FA9BF', '#1C2B36'],
+            STAR: ['#E8EEF2', '#C0C0C0'],
+            CRYSTAL: ['#FFFFFF', '#E0FFFF', '#B0E0E6'],
+            CANDY: ['#FFFFFF'],
+            BELL: ['#C0C0C0', '#E8EEF2', '#8FA9BF'],
+        },
+        lights: { key: '#e6f0ff', left: '#7fb2ff', right: '#c9d6ff', fill: '#ffffff' },
+        star: { color: '#E8EEF2', glow: '#dfeaff', emissiveIntensity: 1.6 },
+        bloom: 1.0,
+    },
+    GOLD: {
+        id: 'GOLD',
+        name: 'Gold Luxury',
+        foliage: { bottom: '#0a1a10', top: '#3d5a2a' },
+        palettes: {
+            BALL: ['#D4AF37', '#FFD700', '#B8860B', '#F5DEB3', '#1A1A1A'],
+            BOX: ['#1A1A1A', '#D4AF37', '#F5F0E1', '#5C1A1A', '#B8860B'],
+            STAR: ['#FFD700', '#FDB931'],
+            CRYSTAL: ['#FFF8DC', '#F5DEB3', '#FFE4B5'],
+            CANDY: ['#FFFFFF'],
+            BELL: ['#D4AF37', '#FFD700', '#B8860B'],
+        },
+        lights: { key: '#ffe2a8', left: '#ffb347', right: '#ffd27f', fill: '#fff3d6' },
+        star: { color: '#FFD700', glow: '#ffd98a', emissiveIntensity: 2.4 },
+        bloom: 1.5,
+    },
+    PASTEL: {
+        id: 'PASTEL',
+        name: 'Candy Pastel',
+        foliage: { bottom: '#2b5c52', top: '#a8e6cf' },
+        palettes: {
+            BALL: ['#FFB7C5', '#AEC6CF', '#FDFD96', '#CBAACB', '#B5EAD7'],
+            BOX: ['#FFDAC1', '#E2F0CB', '#FFB7C5', '#C7CEEA', '#FFFFFF'],
+            STAR: ['#FFF1A8', '#FFD1DC'],
+            CRYSTAL: ['#FFFFFF', '#E0F7FA', '#FCE4EC'],
+            CANDY: ['#FFFFFF'],
+            BELL: ['#FFDAC1', '#CBAACB', '#AEC6CF'],
+        },
+        lights: { key: '#fff0f5', left: '#ff9ecf', right: '#9ed8ff', fill: '#ffffff' },
+        star: { color: '#FFE08A', glow: '#fff0c2', emissiveIntensity: 1.8 },
+        bloom: 1.1,
+    },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const DEFAULT_THEME_ID: ThemeId = 'CLASSIC';
+
+export const isThemeId = (value: unknown): value is ThemeId =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(THEMES, value);
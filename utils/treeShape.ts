@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+import { TreeShapeKind } from '../types';
+
+// Parametric tree shape shared by every layer (foliage, lights, ornaments, star, shader).
+// A shape is a surface of revolution around the trunk (the y axis): `radiusAt` gives the
+// surface radius at height fraction v (0 = bottom, 1 = top) and angle, so a shape can also
+// vary around the trunk (the spiral). Everything else is derived from that one function.
+
+export interface TreeShape {
+    id: string;       // Changes whenever the surface changes (used to rebuild buffers)
+    kind: TreeShapeKind;
+    height: number;
+    radius: number;   // Base radius; radiusAt returns fractions of it
+    bottomY: number;
+    topY: number;
+    radiusAt: (v: number, angle: number) => number; // World units
+    sample: (v: number, angle: number, target?: THREE.Vector3) => THREE.Vector3;
+    normal: (v: number, angle: number, target?: THREE.Vector3) => THREE.Vector3;
+}
+
+export const TREE_SHAPES: { kind: TreeShapeKind; label: string }[] = [
+    { kind: 'CONE', label: 'Cone' },
+    { kind: 'TIERED', label: 'Tiered' },
+    { kind: 'SPIRAL', label: 'Spiral' },
+    { kind: 'SLIM_FIR', label: 'Slim Fir' },
+    { kind: 'CUSTOM', label: 'Custom Profile' },
+];
+
+const TREE_HEIGHT = 18;
+const TREE_RADIUS = 7.5;
+
+const TIERS = 3;
+const SPIRAL_TURNS = 2.5;
+
+// Custom profile: comma separated radius factors from bottom to top, e.g. "1, 0.6, 0.8, 0.3, 0"
+export const DEFAULT_TREE_PROFILE = '1, 0.7, 0.85, 0.45, 0.55, 0.2, 0';
+const MAX_PROFILE_POINTS = 12;
+
+export const isTreeShapeKind = (value: unknown): value is TreeShapeKind =>
+    typeof value === 'string' && TREE_SHAPES.some(shape => shape.kind === value);
+
+/** Reads a custom profile. Returns null if it has fewer than two usable numbers. */
+export const parseTreeProfile = (text: string): number[] | null => {
+    const points = text.split(',')
+        .map(part => parseFloat(part))
+        .filter(value => Number.isFinite(value))
+        .slice(0, MAX_PROFILE_POINTS)
+        .map(value => THREE.MathUtils.clamp(value, 0, 1.5));
+    return points.length >= 2 ? points : null;
+};
+
+// Piecewise linear through the profile points, spread evenly from bottom to top
+const profileAt = (points: number[], v: number) => {
+    const x = THREE.MathUtils.clamp(v, 0, 1) * (points.length - 1);
+    const i = Math.min(Math.floor(x), points.length - 2);
+    return THREE.MathUtils.lerp(points[i], points[i + 1], x - i);
+};
+
+// Radius fraction (0-1) per shape kind
+const getProfile = (kind: TreeShapeKind, customPoints: number[]): ((v: number, angle: number) => number) => {
+    switch (kind) {
+        case 'TIERED':
+            // Stacked cones: each tier flares out at its bottom edge
+            return (v) => {
+                const local = (v * TIERS) % 1;
+                return (1 - v) * (0.7 + 0.45 * (1 - local)) / 1.15;
+            };
+        case 'SPIRAL':
+            // A ridge winding up the cone
+            return (v, angle) => (1 - v) * (0.75 + 0.25 * Math.cos(angle - v * SPIRAL_TURNS * Math.PI * 2));
+        case 'SLIM_FIR':
+            // Narrow with a slightly concave outline
+            return (v) => 0.6 * Math.pow(1 - v, 1.3);
+        case 'CUSTOM':
+            return (v) => profileAt(customPoints, v);
+        case 'CONE':
+        default:
+            return (v) => 1 - v;
+    }
+};
+
+export const createTreeShape = (kind: TreeShapeKind, customProfile: string = DEFAULT_TREE_PROFILE): TreeShape => {
+    const customPoints = parseTreeProfile(customProfile) ?? parseTreeProfile(DEFAULT_TREE_PROFILE)!;
+    const profile = getProfile(kind, customPoints);
+    const height = kind === 'SLIM_FIR' ? TREE_HEIGHT * 1.05 : TREE_HEIGHT;
+    const bottomY = -height / 2;
+
+    const radiusAt = (v: number, angle: number) => Math.max(0, profile(v, angle)) * TREE_RADIUS;
+
+    const sample = (v: number, angle: number, target = new THREE.Vector3()) => {
+        const r = radiusAt(v, angle);
+        return target.set(r * Math.cos(angle), bottomY + v * height, r * Math.sin(angle));
+    };
+
+    // Outward normal of the surface: radial direction tilted up by the slope of the outline
+    const normal = (v: number, angle: number, target = new THREE.Vector3()) => {
+        const dv = 0.01;
+        const slope = (radiusAt(Math.min(v + dv, 1), angle) - radiusAt(Math.max(v - dv, 0), angle)) / (2 * dv * height);
+        return target.set(Math.cos(angle), -slope, Math.sin(angle)).normalize();
+    };
+
+    return {
+        id: kind === 'CUSTOM' ? `${kind}:${customPoints.join(',')}` : kind,
+        kind,
+        height,
+        radius: TREE_RADIUS,
+        bottomY,
+        topY: bottomY + height,
+        radiusAt,
+        sample,
+        normal,
+    };
+};
+
+export const DEFAULT_TREE_SHAPE = createTreeShape('CONE');
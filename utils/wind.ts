@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+
+// Global wind: a steady breeze from the scene settings, roughened by noise gusts, plus gusts blown in by
+// hand swipes. Layers read the shared uniforms: uWind is the air's velocity (world space, units per second),
+// uWindOffset how far the air has carried things so far (Snow's flakes ride along with it).
+
+export interface WindSettings {
+    strength: number;  // Units per second
+    direction: number; // Degrees around the vertical axis, 0 blowing towards +x, 90 towards the viewer (+z)
+    gustiness: number; // 0 steady, 1 strong noise gusts
+}
+
+export interface WindUniforms {
+    uWind: { value: THREE.Vector3 };
+    uWindOffset: { value: THREE.Vector3 };
+}
+
+export interface Wind {
+    velocity: THREE.Vector3; // Same vector as uniforms.uWind.value
+    uniforms: WindUniforms;
+    update: (delta: number, time: number, settings: WindSettings) => void;
+    gust: (direction: number, scale?: number) => void; // Radians around y (0 towards +x); scale in swipe gusts
+}
+
+const GUST_STRENGTH = 4;  // Units per second added by one swipe gust
+const GUST_DECAY = 1.2;   // Per second
+// Offsets wrap at a multiple of Snow's box (50 x 40) so flakes don't jump when it wraps
+const OFFSET_WRAP = 1000;
+
+// Smooth 1D value noise, 0-1
+const hash = (n: number) => {
+    const s = Math.sin(n * 127.1) * 43758.5453;
+    return s - Math.floor(s);
+};
+const noise = (x: number) => {
+    const i = Math.floor(x);
+    const f = x - i;
+    return THREE.MathUtils.lerp(hash(i), hash(i + 1), f * f * (3 - 2 * f));
+};
+
+const wrap = (value: number) => ((value % OFFSET_WRAP) + OFFSET_WRAP) % OFFSET_WRAP;
+
+export const createWind = (): Wind => {
+    const uniforms: WindUniforms = {
+        uWind: { value: new THREE.Vector3() },
+        uWindOffset: { value: new THREE.Vector3() },
+    };
+    const velocity = uniforms.uWind.value;
+    const offset = uniforms.uWindOffset.value;
+    const impulse = new THREE.Vector3(); // Swipe gusts, dying away
+
+    return {
+        velocity,
+        uniforms,
+        update: (frameDelta, time, { strength, direction, gustiness }) => {
+            const delta = Math.min(frameDelta, 0.1);
+
+            // Two octaves of noise: long swells with quicker gusts on top, squared so calm spells outlast gusts
+            const swell = noise(time * 0.15) * 0.6 + noise(time * 0.6 + 31) * 0.4;
+            const speed = strength * (1 - gustiness * 0.6 + gustiness * swell * swell * 2.4);
+            // Gusty air also veers a little
+            const angle = THREE.MathUtils.degToRad(direction) + (noise(time * 0.1 + 77) - 0.5) * gustiness * 0.8;
+
+            impulse.multiplyScalar(Math.exp(-GUST_DECAY * delta));
+            velocity.set(Math.cos(angle) * speed, 0, Math.sin(angle) * speed).add(impulse);
+
+            offset.addScaledVector(velocity, delta);
+            offset.set(wrap(offset.x), 0, wrap(offset.z));
+        },
+        gust: (direction, scale = 1) => {
+            impulse.x += Math.cos(direction) * GUST_STRENGTH * scale;
+            impulse.z += Math.sin(direction) * GUST_STRENGTH * scale;
+        },
+    };
+};